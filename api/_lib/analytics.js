@@ -0,0 +1,93 @@
+import { visibleDivisions } from "./auth.js";
+import { EXPIRY_REMINDER_DAYS, STATUSES } from "./constants.js";
+import { toDocument } from "./documents.js";
+
+// Figures for the dashboard's Analytics page, over the documents the user can
+// see (the trash left out). Each of them matches a set of list filters
+// (division, status, expiry, uploaded), so the page can link through to the
+// documents behind it.
+export const ANALYTICS_MONTHS = 12;
+const LIST_LENGTH = 5;
+
+function scope(user) {
+  const divisions = visibleDivisions(user);
+  if (!divisions) return { where: "d.deleted_at IS NULL", args: [] };
+  if (divisions.length === 0) return { where: "0", args: [] };
+  return {
+    where: `d.deleted_at IS NULL AND d.division IN (${divisions.map(() => "?").join(", ")})`,
+    args: divisions,
+  };
+}
+
+// The last ANALYTICS_MONTHS months as YYYY-MM, oldest first.
+function recentMonths() {
+  const now = new Date();
+  return Array.from({ length: ANALYTICS_MONTHS }, (_, i) =>
+    new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (ANALYTICS_MONTHS - 1 - i), 1)).toISOString().slice(0, 7)
+  );
+}
+
+// `counts`: documents per division and status. `uploads`: documents per
+// upload month. `turnaround`: per division and outcome, how many reviews
+// ended in Approved or Rejected during those months and how long, in days,
+// the documents had been Pending by then on average (from the latest submit
+// or resubmit before the decision). `oldestPending` and `expiring` are the
+// first few documents of those lists; `expiry` counts them.
+export async function getAnalytics(db, user) {
+  const { where, args } = scope(user);
+  const months = recentMonths();
+  const expiringSoon = `d.expiry_date BETWEEN date('now') AND date('now', '+${EXPIRY_REMINDER_DAYS} days')`;
+
+  const [counts, uploads, turnaround, pending, expiring, expiry] = await Promise.all(
+    [
+      { sql: `SELECT d.division, d.status, COUNT(*) AS count FROM documents d WHERE ${where} GROUP BY d.division, d.status`, args },
+      {
+        sql: `SELECT substr(d.uploaded_at, 1, 7) AS month, COUNT(*) AS count FROM documents d
+              WHERE ${where} AND d.uploaded_at >= ? GROUP BY month`,
+        args: [...args, months[0]],
+      },
+      {
+        sql: `SELECT d.division, t.to_status AS outcome, COUNT(*) AS decisions,
+                     AVG(julianday(t.created_at) - julianday(p.created_at)) AS average_days
+              FROM status_transitions t
+              JOIN documents d ON d.id = t.document_id
+              JOIN status_transitions p ON p.id = (
+                SELECT MAX(id) FROM status_transitions
+                WHERE document_id = t.document_id AND to_status = 'Pending' AND id < t.id
+              )
+              WHERE ${where} AND t.to_status IN ('Approved', 'Rejected') AND t.action <> 'import' AND t.created_at >= ?
+              GROUP BY d.division, t.to_status`,
+        args: [...args, months[0]],
+      },
+      {
+        sql: `SELECT d.* FROM documents d WHERE ${where} AND d.status = 'Pending' ORDER BY d.uploaded_at, d.id LIMIT ${LIST_LENGTH}`,
+        args,
+      },
+      {
+        sql: `SELECT d.* FROM documents d WHERE ${where} AND ${expiringSoon} ORDER BY d.expiry_date, d.id LIMIT ${LIST_LENGTH}`,
+        args,
+      },
+      {
+        sql: `SELECT COALESCE(SUM(${expiringSoon}), 0) AS expiring, COALESCE(SUM(d.expiry_date < date('now')), 0) AS expired
+              FROM documents d WHERE ${where}`,
+        args,
+      },
+    ].map((statement) => db.execute(statement))
+  );
+
+  const uploadsByMonth = new Map(uploads.rows.map((row) => [row.month, Number(row.count)]));
+  return {
+    statuses: STATUSES,
+    counts: counts.rows.map((row) => ({ division: row.division, status: row.status, count: Number(row.count) })),
+    uploads: months.map((month) => ({ month, count: uploadsByMonth.get(month) ?? 0 })),
+    turnaround: turnaround.rows.map((row) => ({
+      division: row.division,
+      outcome: row.outcome,
+      decisions: Number(row.decisions),
+      averageDays: Number(row.average_days),
+    })),
+    oldestPending: pending.rows.map(toDocument),
+    expiring: expiring.rows.map(toDocument),
+    expiry: { days: EXPIRY_REMINDER_DAYS, expiring: Number(expiry.rows[0].expiring), expired: Number(expiry.rows[0].expired) },
+  };
+}
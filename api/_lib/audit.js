@@ -0,0 +1,115 @@
+import { HttpError } from "./http.js";
+
+// The audit log is append-only: triggers in the schema reject any UPDATE or
+// DELETE on audit_log, and entries keep a copy of the document's name and
+// division so they stay meaningful after the document itself is deleted.
+export const AUDIT_ACTIONS = [
+  "create",
+  "view",
+  "version_upload",
+  "version_restore",
+  "status_change",
+  "edit",
+  "delete",
+  "restore",
+  "purge",
+  "route",
+  "import",
+  "comment",
+  "comment_delete",
+];
+
+const AUDIT_COLUMNS = "id, document_id, document_name, division, action, actor, details, created_at";
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+export function toAuditEntry(row) {
+  return {
+    id: Number(row.id),
+    documentId: row.document_id === null ? null : Number(row.document_id),
+    documentName: row.document_name,
+    division: row.division,
+    action: row.action,
+    actor: row.actor,
+    details: row.details ? JSON.parse(row.details) : null,
+    createdAt: row.created_at,
+  };
+}
+
+// `document` is the document as it looks after the action (or just before
+// it, for deletes). Pass the open transaction so the entry commits or rolls
+// back together with the change it describes.
+export function recordAudit(tx, action, document, actor, details = null) {
+  return tx.execute({
+    sql: `INSERT INTO audit_log (document_id, document_name, division, action, actor, details)
+          VALUES (?, ?, ?, ?, ?, ?)`,
+    args: [document.id, document.name, document.division, action, actor, details ? JSON.stringify(details) : null],
+  });
+}
+
+// The id of the latest entry that changed a document; views change nothing.
+// Every change writes its entry in the same transaction, so this works as a
+// cursor for what changed since (see listDocumentChanges).
+export async function latestChangeId(db) {
+  const { rows } = await db.execute("SELECT id FROM audit_log WHERE action <> 'view' ORDER BY id DESC LIMIT 1");
+  return rows.length ? Number(rows[0].id) : 0;
+}
+
+function isoDate(value, field) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new HttpError(400, `${field} must be a date (YYYY-MM-DD)`);
+  }
+  return value;
+}
+
+// Filters come straight from the query string. Results are newest first and
+// paged with `before`, the smallest id of the previous page.
+export async function listAuditLog(db, query) {
+  const where = [];
+  const args = [];
+
+  if (query.documentId) {
+    where.push("document_id = ?");
+    args.push(Number(query.documentId));
+  }
+  if (query.user) {
+    where.push("actor LIKE ?");
+    args.push(`%${query.user}%`);
+  }
+  if (query.action) {
+    if (!AUDIT_ACTIONS.includes(query.action)) {
+      throw new HttpError(400, `action must be one of: ${AUDIT_ACTIONS.join(", ")}`);
+    }
+    where.push("action = ?");
+    args.push(query.action);
+  }
+  if (query.division) {
+    where.push("division = ?");
+    args.push(query.division);
+  }
+  if (query.from) {
+    where.push("created_at >= ?");
+    args.push(isoDate(query.from, "from"));
+  }
+  if (query.to) {
+    // Inclusive: everything up to the end of the `to` day.
+    where.push("created_at < date(?, '+1 day')");
+    args.push(isoDate(query.to, "to"));
+  }
+  if (query.before) {
+    where.push("id < ?");
+    args.push(Number(query.before));
+  }
+
+  const limit = Math.min(Math.max(Number.parseInt(query.limit, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const { rows } = await db.execute({
+    sql: `SELECT ${AUDIT_COLUMNS} FROM audit_log
+          ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+          ORDER BY id DESC
+          LIMIT ?`,
+    args: [...args, limit + 1],
+  });
+
+  const entries = rows.slice(0, limit).map(toAuditEntry);
+  return { entries, nextBefore: rows.length > limit ? entries[entries.length - 1].id : null };
+}
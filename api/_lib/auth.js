@@ -0,0 +1,127 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+import { HttpError } from "./http.js";
+
+const scryptAsync = promisify(scrypt);
+
+// Roles are ordered: each one can do everything the roles before it can.
+// Admins are not limited to their divisions.
+export const ROLES = ["viewer", "uploader", "reviewer", "admin"];
+
+const PERMISSION_ROLES = {
+  view: "viewer",
+  upload: "uploader",
+  edit: "uploader",
+  review: "reviewer",
+  delete: "reviewer",
+  admin: "admin",
+};
+
+const SESSION_COOKIE = "session";
+const SESSION_TTL_SECONDS = (Number(process.env.SESSION_TTL_HOURS) || 12) * 60 * 60;
+
+// --- Passwords ---
+
+export async function hashPassword(password) {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password, stored) {
+  const [scheme, saltHex, hashHex] = (stored || "").split("$");
+  if (scheme !== "scrypt" || !saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scryptAsync(password, Buffer.from(saltHex, "hex"), expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+// --- Permissions ---
+
+export function can(user, permission, division) {
+  if (user.role === "admin") return true;
+  if (ROLES.indexOf(user.role) < ROLES.indexOf(PERMISSION_ROLES[permission])) return false;
+  return division === undefined || user.divisions.includes(division);
+}
+
+export function assertCan(user, permission, division) {
+  if (!can(user, permission, division)) {
+    throw new HttpError(403, `You do not have ${permission} permission${division ? ` for ${division}` : ""}`);
+  }
+}
+
+// Divisions whose documents the user may see; null means all of them.
+export function visibleDivisions(user) {
+  return user.role === "admin" ? null : user.divisions;
+}
+
+// --- Sessions ---
+
+// Only a hash of the session token is stored, so a leaked database does not
+// hand out live sessions.
+function hashToken(token) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function parseCookies(req) {
+  const cookies = {};
+  for (const part of (req.headers.cookie || "").split(";")) {
+    const index = part.indexOf("=");
+    if (index === -1) continue;
+    cookies[part.slice(0, index).trim()] = decodeURIComponent(part.slice(index + 1).trim());
+  }
+  return cookies;
+}
+
+function sessionCookie(value, maxAge) {
+  const secure = process.env.NODE_ENV === "production" ? "; Secure" : "";
+  return `${SESSION_COOKIE}=${value}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${maxAge}${secure}`;
+}
+
+export async function startSession(db, res, userId) {
+  const token = randomBytes(32).toString("base64url");
+  await db.execute("DELETE FROM sessions WHERE expires_at <= strftime('%Y-%m-%dT%H:%M:%fZ', 'now')");
+  await db.execute({
+    sql: `INSERT INTO sessions (token_hash, user_id, expires_at)
+          VALUES (?, ?, strftime('%Y-%m-%dT%H:%M:%fZ', 'now', ?))`,
+    args: [hashToken(token), userId, `+${SESSION_TTL_SECONDS} seconds`],
+  });
+  res.setHeader("Set-Cookie", sessionCookie(token, SESSION_TTL_SECONDS));
+}
+
+export async function endSession(db, req, res) {
+  const token = parseCookies(req)[SESSION_COOKIE];
+  if (token) {
+    await db.execute({ sql: "DELETE FROM sessions WHERE token_hash = ?", args: [hashToken(token)] });
+  }
+  res.setHeader("Set-Cookie", sessionCookie("", 0));
+}
+
+export function toUser(row) {
+  return {
+    id: Number(row.id),
+    email: row.email,
+    name: row.name,
+    role: row.role,
+    divisions: JSON.parse(row.divisions),
+  };
+}
+
+export async function getSessionUser(db, req) {
+  const token = parseCookies(req)[SESSION_COOKIE];
+  if (!token) return null;
+  const { rows } = await db.execute({
+    sql: `SELECT users.id, users.email, users.name, users.role, users.divisions
+          FROM sessions JOIN users ON users.id = sessions.user_id
+          WHERE sessions.token_hash = ?
+            AND sessions.expires_at > strftime('%Y-%m-%dT%H:%M:%fZ', 'now')`,
+    args: [hashToken(token)],
+  });
+  return rows.length ? toUser(rows[0]) : null;
+}
+
+export async function requireUser(db, req) {
+  const user = await getSessionUser(db, req);
+  if (!user) throw new HttpError(401, "Please sign in");
+  return user;
+}
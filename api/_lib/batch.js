@@ -0,0 +1,114 @@
+import { recordAudit } from "./audit.js";
+import { STATUSES } from "./constants.js";
+import { deleteDocument, getDocument, isFilterParam, matchingDocumentIds, updateDocument } from "./documents.js";
+import { HttpError } from "./http.js";
+import { createArchiveLink } from "./links.js";
+import { restoreDocument } from "./trash.js";
+
+// Bulk actions on many documents at once. Every document is handled on its
+// own, with the same checks as the single-document routes, so one that fails
+// (no permission, wrong status, already deleted) does not stop the others.
+export const MAX_BATCH_SIZE = 500;
+const ACTIONS = ["status", "move", "delete", "restore", "download"];
+
+// The documents are given either as `ids` or as `filter`, the same filter
+// parameters GET /api/documents takes ("select all matching"). Trashed
+// documents match no filter, so restoring ("undo" after a bulk delete) needs
+// ids.
+export function validateBatch(body, settings) {
+  if (!ACTIONS.includes(body.action)) {
+    throw new HttpError(400, `action must be one of: ${ACTIONS.join(", ")}`);
+  }
+  const batch = { action: body.action };
+
+  if (body.filter !== undefined) {
+    if (batch.action === "restore") {
+      throw new HttpError(400, "Documents to restore must be given as ids");
+    }
+    if (typeof body.filter !== "object" || body.filter === null) {
+      throw new HttpError(400, "filter must be an object");
+    }
+    batch.filter = Object.fromEntries(
+      Object.entries(body.filter)
+        .filter(([key, value]) => isFilterParam(key) && value)
+        .map(([key, value]) => [key, String(value)])
+    );
+  } else {
+    const { ids } = body;
+    if (!Array.isArray(ids) || ids.length === 0 || !ids.every((id) => Number.isInteger(id) && id > 0)) {
+      throw new HttpError(400, "ids must be a non-empty list of document ids");
+    }
+    if (ids.length > MAX_BATCH_SIZE) {
+      throw new HttpError(400, `At most ${MAX_BATCH_SIZE} documents can be changed at once`);
+    }
+    batch.ids = [...new Set(ids)];
+  }
+
+  if (batch.action === "status") {
+    if (!STATUSES.includes(body.status)) {
+      throw new HttpError(400, `status must be one of: ${STATUSES.join(", ")}`);
+    }
+    batch.status = body.status;
+    batch.reason = typeof body.reason === "string" ? body.reason.trim() || null : null;
+  }
+  if (batch.action === "move") {
+    if (!settings.divisions.includes(body.division)) {
+      throw new HttpError(400, `division must be one of: ${settings.divisions.join(", ")}`);
+    }
+    batch.division = body.division;
+  }
+  return batch;
+}
+
+async function resolveIds(db, user, batch) {
+  if (batch.ids) return batch.ids;
+  const ids = await matchingDocumentIds(db, user, batch.filter, MAX_BATCH_SIZE + 1);
+  if (ids.length > MAX_BATCH_SIZE) {
+    throw new HttpError(400, `More than ${MAX_BATCH_SIZE} documents match. Narrow the filters and try again.`);
+  }
+  return ids;
+}
+
+function failure(id, err) {
+  if (!(err instanceof HttpError)) {
+    console.error(`Bulk action failed for document ${id}:`, err);
+    return { id, ok: false, status: 500, error: err.message };
+  }
+  return { id, ok: false, status: err.status, error: err.message };
+}
+
+// Returns { results: [{ id, ok, document? | status, error }] } in the order
+// the documents were given. A download also returns `download`, a signed
+// link to a ZIP of the documents that could be included.
+export async function runBatch(db, user, batch) {
+  const ids = await resolveIds(db, user, batch);
+  const results = [];
+  const archive = [];
+
+  for (const id of ids) {
+    try {
+      if (batch.action === "status") {
+        const document = await updateDocument(db, id, { status: batch.status, reason: batch.reason }, user);
+        results.push({ id, ok: true, document });
+      } else if (batch.action === "move") {
+        const document = await updateDocument(db, id, { division: batch.division }, user);
+        results.push({ id, ok: true, document });
+      } else if (batch.action === "delete") {
+        await deleteDocument(db, id, user);
+        results.push({ id, ok: true });
+      } else if (batch.action === "restore") {
+        const document = await restoreDocument(db, id, user);
+        results.push({ id, ok: true, document });
+      } else {
+        const document = await getDocument(db, id, user);
+        if (document.currentVersion === 0) throw new HttpError(404, "No file has been uploaded for this document yet");
+        await recordAudit(db, "view", document, user.name, { version: document.currentVersion, archive: true });
+        archive.push({ documentId: id, version: document.currentVersion });
+        results.push({ id, ok: true, document });
+      }
+    } catch (err) {
+      results.push(failure(id, err));
+    }
+  }
+  return archive.length > 0 ? { results, download: createArchiveLink(archive) } : { results };
+}
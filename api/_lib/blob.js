@@ -0,0 +1,158 @@
+import { del, get, list, put } from "@vercel/blob";
+import { randomBytes } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { mkdir, readdir, rm, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { HttpError } from "./http.js";
+
+// Files live in Vercel Blob when BLOB_READ_WRITE_TOKEN is set. Without it
+// (local dev, scripts) a directory on disk stands in for the blob store.
+// Either way the URL is only an identifier kept on the server; files reach
+// the browser through /api/files (see openBlob). Local URLs keep the prefix
+// of the route that used to serve them so existing rows still resolve.
+//
+// Blobs are private: reading one takes the store's token, so the server
+// streams files to the browser itself instead of handing out blob URLs.
+const LOCAL_URL_PREFIX = "/api/local-blob?pathname=";
+
+export function usingLocalBlobStore() {
+  return !process.env.BLOB_READ_WRITE_TOKEN;
+}
+
+function localDir() {
+  return path.resolve(process.env.LOCAL_BLOB_DIR || ".blob-store");
+}
+
+function localPath(pathname) {
+  const dir = localDir();
+  const file = path.resolve(dir, pathname);
+  if (!file.startsWith(dir + path.sep)) {
+    throw new Error(`Invalid blob pathname: ${pathname}`);
+  }
+  return file;
+}
+
+function localPathname(url) {
+  if (!url.startsWith(LOCAL_URL_PREFIX)) return null;
+  return decodeURIComponent(url.slice(LOCAL_URL_PREFIX.length));
+}
+
+async function toBuffer(body) {
+  if (Buffer.isBuffer(body)) return body;
+  if (typeof body === "string") return Buffer.from(body);
+  const chunks = [];
+  for await (const chunk of body) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+}
+
+// Mirrors Vercel Blob's default random suffix so two uploads of
+// "report.pdf" never overwrite each other locally either.
+function withRandomSuffix(pathname) {
+  const ext = path.extname(pathname);
+  const base = pathname.slice(0, pathname.length - ext.length);
+  return `${base}-${randomBytes(8).toString("hex")}${ext}`;
+}
+
+export async function putBlob(pathname, body) {
+  if (!usingLocalBlobStore()) {
+    return put(pathname, body, { access: "private", addRandomSuffix: true, token: process.env.BLOB_READ_WRITE_TOKEN });
+  }
+  const storedPathname = withRandomSuffix(pathname);
+  const file = localPath(storedPathname);
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, await toBuffer(body));
+  return { url: LOCAL_URL_PREFIX + encodeURIComponent(storedPathname), pathname: storedPathname };
+}
+
+export async function deleteBlobs(urls) {
+  if (urls.length === 0) return;
+  if (!usingLocalBlobStore()) {
+    return del(urls, { token: process.env.BLOB_READ_WRITE_TOKEN });
+  }
+  for (const url of urls) {
+    const pathname = localPathname(url);
+    if (pathname) await rm(localPath(pathname), { force: true });
+  }
+}
+
+const LOCAL_CONTENT_TYPES = {
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".txt": "text/plain; charset=utf-8",
+  ".md": "text/markdown; charset=utf-8",
+};
+
+function localContentType(pathname) {
+  return LOCAL_CONTENT_TYPES[path.extname(pathname).toLowerCase()] || "application/octet-stream";
+}
+
+// Opens a stored file for streaming to the client.
+export async function openBlob(url) {
+  const pathname = localPathname(url);
+  if (pathname !== null) {
+    const file = localPath(pathname);
+    const info = await stat(file).catch((err) => {
+      if (err.code === "ENOENT") throw new HttpError(404, "File not found");
+      throw err;
+    });
+    return { stream: createReadStream(file), contentType: localContentType(pathname), size: info.size };
+  }
+  let result;
+  try {
+    // Files stored before blobs were private are public ones; the token
+    // reads those as well.
+    result = await get(url, { access: "private", token: process.env.BLOB_READ_WRITE_TOKEN });
+  } catch (err) {
+    console.error("Blob read failed:", err);
+    throw new HttpError(502, "File could not be read from storage");
+  }
+  if (!result) throw new HttpError(404, "File not found");
+  return {
+    stream: Readable.fromWeb(result.stream),
+    contentType: result.blob.contentType || "application/octet-stream",
+    size: result.blob.size,
+  };
+}
+
+async function* walkLocal(dir, prefix = "") {
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch (err) {
+    if (err.code === "ENOENT") return;
+    throw err;
+  }
+  for (const entry of entries) {
+    const pathname = prefix + entry.name;
+    if (entry.isDirectory()) {
+      yield* walkLocal(path.join(dir, entry.name), `${pathname}/`);
+    } else {
+      const info = await stat(path.join(dir, entry.name));
+      yield {
+        url: LOCAL_URL_PREFIX + encodeURIComponent(pathname),
+        pathname,
+        size: info.size,
+        uploadedAt: info.mtime,
+      };
+    }
+  }
+}
+
+export async function* listBlobs() {
+  if (usingLocalBlobStore()) {
+    yield* walkLocal(localDir());
+    return;
+  }
+  let cursor;
+  do {
+    const page = await list({ cursor, token: process.env.BLOB_READ_WRITE_TOKEN });
+    yield* page.blobs;
+    cursor = page.hasMore ? page.cursor : undefined;
+  } while (cursor);
+}
@@ -0,0 +1,120 @@
+import { recordAudit } from "./audit.js";
+import { can, toUser } from "./auth.js";
+import { getDocument } from "./documents.js";
+import { emitEvent } from "./events.js";
+import { HttpError } from "./http.js";
+import { isRouteRecipient } from "./routing.js";
+
+// Comment threads on documents. A comment is markdown text, which the
+// dashboard escapes and formats. Mentions are written as @[Name](userId)
+// (the dashboard's user picker inserts them) and notify the people they
+// name. documents.comment_count follows the number of comments.
+export const MAX_COMMENT_LENGTH = 5000;
+const MENTION = /@\[([^\]\n]+)\]\((\d+)\)/g;
+const COMMENT_COLUMNS = "id, document_id, author_id, author, body, mentions, created_at";
+
+function toComment(row) {
+  return {
+    id: Number(row.id),
+    documentId: Number(row.document_id),
+    authorId: row.author_id === null ? null : Number(row.author_id),
+    author: row.author,
+    body: row.body,
+    mentions: JSON.parse(row.mentions),
+    createdAt: row.created_at,
+  };
+}
+
+// Returns { body, mentions }, where mentions are the ids of the users the
+// body mentions.
+export function validateComment(body) {
+  const text = typeof body.body === "string" ? body.body.trim() : "";
+  if (!text) {
+    throw new HttpError(400, "body is required");
+  }
+  if (text.length > MAX_COMMENT_LENGTH) {
+    throw new HttpError(400, `body must be at most ${MAX_COMMENT_LENGTH} characters`);
+  }
+  return { body: text, mentions: [...new Set(Array.from(text.matchAll(MENTION), (match) => Number(match[2])))] };
+}
+
+// Oldest first.
+export async function listComments(db, documentId, user) {
+  await getDocument(db, documentId, user);
+  const { rows } = await db.execute({
+    sql: `SELECT ${COMMENT_COLUMNS} FROM comments WHERE document_id = ? ORDER BY id`,
+    args: [documentId],
+  });
+  return rows.map(toComment);
+}
+
+// Mentioning someone who cannot open the document is refused rather than
+// silently left out, so the author knows the comment did not reach them.
+async function loadMentionedUsers(tx, ids, document) {
+  if (ids.length === 0) return [];
+  const { rows } = await tx.execute({
+    sql: `SELECT id, email, name, role, divisions FROM users WHERE id IN (${ids.map(() => "?").join(", ")})`,
+    args: ids,
+  });
+  if (rows.length < ids.length) {
+    throw new HttpError(400, "A mentioned user no longer exists");
+  }
+  const users = rows.map(toUser);
+  const outsider = users.find((user) => !(can(user, "view", document.division) || isRouteRecipient(user, document)));
+  if (outsider) {
+    throw new HttpError(400, `${outsider.name} cannot see documents in ${document.division}`);
+  }
+  return users;
+}
+
+async function updateCommentCount(tx, document, change) {
+  const { rows } = await tx.execute({
+    sql: "UPDATE documents SET comment_count = comment_count + ? WHERE id = ? RETURNING comment_count",
+    args: [change, document.id],
+  });
+  return { ...document, commentCount: Number(rows[0].comment_count) };
+}
+
+// Anyone who can open the document can comment on it.
+export async function addComment(db, documentId, input, user) {
+  const tx = await db.transaction("write");
+  try {
+    const document = await getDocument(tx, documentId, user);
+    const mentioned = await loadMentionedUsers(tx, input.mentions, document);
+    const { rows } = await tx.execute({
+      sql: `INSERT INTO comments (document_id, author_id, author, body, mentions) VALUES (?, ?, ?, ?, ?)
+            RETURNING ${COMMENT_COLUMNS}`,
+      args: [documentId, user.id, user.name, input.body, JSON.stringify(mentioned.map((mention) => mention.id))],
+    });
+    const comment = toComment(rows[0]);
+    const updated = await updateCommentCount(tx, document, 1);
+    const mentions = mentioned.map(({ id, name }) => ({ id, name }));
+    await recordAudit(tx, "comment", updated, user.name, { commentId: comment.id, mentions: mentions.map((m) => m.name) });
+    await emitEvent(tx, "document.commented", updated, user, { commentId: comment.id, body: comment.body, mentions });
+    await tx.commit();
+    return comment;
+  } finally {
+    tx.close();
+  }
+}
+
+// Authors can delete their own comments, admins anyone's.
+export async function deleteComment(db, id, user) {
+  const tx = await db.transaction("write");
+  try {
+    const { rows } = await tx.execute({ sql: `SELECT ${COMMENT_COLUMNS} FROM comments WHERE id = ?`, args: [id] });
+    const comment = rows.length ? toComment(rows[0]) : null;
+    if (!comment) throw new HttpError(404, "Comment not found");
+    const document = await getDocument(tx, comment.documentId, user);
+    if (comment.authorId !== user.id && !can(user, "admin")) {
+      throw new HttpError(403, "Only the author or an admin can delete this comment");
+    }
+    await tx.execute({ sql: "DELETE FROM comments WHERE id = ?", args: [id] });
+    const updated = await updateCommentCount(tx, document, -1);
+    await recordAudit(tx, "comment_delete", updated, user.name, { commentId: id, author: comment.author });
+    await tx.commit();
+    return updated;
+  } finally {
+    tx.close();
+  }
+}
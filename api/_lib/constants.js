@@ -0,0 +1,25 @@
+// The review workflow's statuses, in workflow order. Keep in sync with the
+// `Status` union in index.tsx. Divisions and document types are configured
+// by admins instead, see settings.js.
+export const STATUSES = ["Pending", "In Review", "Approved", "Rejected"];
+
+// How many days before its expiry date a document counts as expiring soon
+// and its reminder goes out (see expiry.js).
+export const EXPIRY_REMINDER_DAYS = Number(process.env.EXPIRY_REMINDER_DAYS) || 30;
+
+// Events emitted when documents change (see events.js). Webhooks subscribe
+// to a subset of them.
+export const EVENT_TYPES = [
+  "document.created",
+  "document.status_changed",
+  "document.deleted",
+  "document.restored",
+  "document.expiring",
+  "document.routed",
+  "document.received",
+  "document.commented",
+];
+
+// How long deleted documents stay in the trash before they and their files
+// are purged for good (see trash.js).
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
@@ -0,0 +1,27 @@
+import { createClient } from "@libsql/client";
+import { migrate } from "./schema.js";
+
+let ready = null;
+
+// Production talks to Turso; without TURSO_DATABASE_URL (local dev, scripts)
+// we fall back to a plain SQLite file so everything runs offline.
+function databaseUrl() {
+  return process.env.TURSO_DATABASE_URL || `file:${process.env.LOCAL_DATABASE_PATH || "local.db"}`;
+}
+
+export function getDb() {
+  if (!ready) {
+    const client = createClient({
+      url: databaseUrl(),
+      authToken: process.env.TURSO_AUTH_TOKEN,
+    });
+    ready = migrate(client).then(
+      () => client,
+      (err) => {
+        ready = null;
+        throw err;
+      }
+    );
+  }
+  return ready;
+}
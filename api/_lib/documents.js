@@ -0,0 +1,1187 @@
+import { latestChangeId, recordAudit } from "./audit.js";
+import { assertCan, can, toUser, visibleDivisions } from "./auth.js";
+import { EXPIRY_REMINDER_DAYS, STATUSES } from "./constants.js";
+import { emitEvent } from "./events.js";
+import { forgetFileTexts } from "./extract.js";
+import { fieldApplies, listCustomFields } from "./fields.js";
+import { HttpError } from "./http.js";
+import { createFileLink } from "./links.js";
+import {
+  checkRouteAction,
+  closeHandover,
+  HANDOVER_COLUMNS,
+  isRouteRecipient,
+  latestHandover,
+  receiveHandover,
+  recordHandover,
+  toHandover,
+} from "./routing.js";
+import { searchMatches, snippetHtml } from "./search.js";
+import { spendUploadReceipt, verifyUploadReceipt } from "./uploads.js";
+import { actionForStatus, checkTransition, recordTransition, toTransition, TRANSITION_COLUMNS } from "./workflow.js";
+
+const COLUMNS =
+  "id, name, division, document_type, status, file_name, file_url, sha256, current_version, uploaded_by, uploaded_at, issue_date, expiry_date, reviewer, rejection_reason, route_status, route_division, route_user_id, route_user, route_due_date, comment_count, tags, field_values, created_at, updated_at";
+const VERSION_COLUMNS = "version, file_name, file_url, size, sha256, uploaded_by, note, created_at";
+
+// Storage URLs stay on the server: clients open files through signed links
+// (see links.js), so neither mapper exposes file_url.
+export function toDocument(row) {
+  return {
+    id: Number(row.id),
+    name: row.name,
+    division: row.division,
+    documentType: row.document_type,
+    status: row.status,
+    fileName: row.file_name,
+    sha256: row.sha256,
+    currentVersion: Number(row.current_version),
+    uploadedBy: row.uploaded_by,
+    uploadedAt: row.uploaded_at,
+    issueDate: row.issue_date,
+    expiryDate: row.expiry_date,
+    reviewer: row.reviewer,
+    rejectionReason: row.rejection_reason,
+    routeStatus: row.route_status,
+    routeDivision: row.route_division,
+    routeUserId: row.route_user_id === null ? null : Number(row.route_user_id),
+    routeUser: row.route_user,
+    routeDueDate: row.route_due_date,
+    commentCount: Number(row.comment_count),
+    tags: JSON.parse(row.tags),
+    fieldValues: JSON.parse(row.field_values),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function toVersion(row) {
+  return {
+    version: Number(row.version),
+    fileName: row.file_name,
+    size: row.size === null ? null : Number(row.size),
+    sha256: row.sha256,
+    uploadedBy: row.uploaded_by,
+    note: row.note,
+    createdAt: row.created_at,
+  };
+}
+
+function requireString(body, field) {
+  const value = body[field];
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new HttpError(400, `${field} is required`);
+  }
+  return value.trim();
+}
+
+function requireOneOf(body, field, allowed) {
+  const value = requireString(body, field);
+  if (!allowed.includes(value)) {
+    throw new HttpError(400, `${field} must be one of: ${allowed.join(", ")}`);
+  }
+  return value;
+}
+
+// `null` or an empty string clears the field.
+function optionalOneOf(body, field, allowed) {
+  const value = body[field];
+  if (value === undefined || value === null || value === "") return null;
+  if (!allowed.includes(value)) {
+    throw new HttpError(400, `${field} must be one of: ${allowed.join(", ")}`);
+  }
+  return value;
+}
+
+function optionalText(body, field) {
+  const value = body[field];
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "string") throw new HttpError(400, `${field} must be a string`);
+  return value.trim() || null;
+}
+
+// Calendar dates (YYYY-MM-DD); `null` or an empty string clears the field.
+function optionalDate(body, field) {
+  const value = body[field];
+  if (value === undefined || value === null || value === "") return null;
+  const date = typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00Z`) : null;
+  if (!date || Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value) {
+    throw new HttpError(400, `${field} must be a date (YYYY-MM-DD)`);
+  }
+  return value;
+}
+
+function checkValidity(issueDate, expiryDate) {
+  if (issueDate && expiryDate && expiryDate < issueDate) {
+    throw new HttpError(400, "expiryDate cannot be before issueDate");
+  }
+}
+
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+
+// Free-form labels, as a list or a comma-separated string (the register's
+// spelling). Commas separate tags, so a tag cannot contain one, and tags
+// that differ only in case are the same tag.
+function optionalTags(body, field) {
+  const value = body[field];
+  if (value === undefined || value === null) return [];
+  const list = typeof value === "string" ? value.split(",").filter((tag) => tag.trim()) : value;
+  if (!Array.isArray(list)) throw new HttpError(400, `${field} must be a list of tags`);
+  const tags = [];
+  for (const item of list) {
+    const tag = typeof item === "string" ? item.trim().replace(/\s+/g, " ") : "";
+    if (!tag || tag.includes(",")) {
+      throw new HttpError(400, `${field} must be non-empty tags without commas`);
+    }
+    if (tag.length > MAX_TAG_LENGTH) {
+      throw new HttpError(400, `Tags can be at most ${MAX_TAG_LENGTH} characters`);
+    }
+    if (!tags.some((t) => t.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+  }
+  if (tags.length > MAX_TAGS) throw new HttpError(400, `A document can have at most ${MAX_TAGS} tags`);
+  return tags;
+}
+
+const MAX_FIELD_TEXT_LENGTH = 500;
+
+function fieldValue(field, value) {
+  if (value === null || value === "") return null;
+  switch (field.type) {
+    case "number": {
+      const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+      if (typeof number !== "number" || !Number.isFinite(number)) {
+        throw new HttpError(400, `${field.name} must be a number`);
+      }
+      return number;
+    }
+    case "date":
+      return optionalDate({ [field.name]: value }, field.name);
+    case "select":
+      if (!field.options.includes(value)) {
+        throw new HttpError(400, `${field.name} must be one of: ${field.options.join(", ")}`);
+      }
+      return value;
+    default: {
+      if (typeof value !== "string") throw new HttpError(400, `${field.name} must be text`);
+      if (value.trim().length > MAX_FIELD_TEXT_LENGTH) {
+        throw new HttpError(400, `${field.name} can be at most ${MAX_FIELD_TEXT_LENGTH} characters`);
+      }
+      return value.trim() || null;
+    }
+  }
+}
+
+// Custom field values (see fields.js) as { [fieldId]: value }, checked
+// against the field definitions. `null` or an empty string clears a value.
+function validateFieldValues(body, definitions) {
+  const value = body.fieldValues;
+  if (value === undefined || value === null) return {};
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new HttpError(400, "fieldValues must be an object keyed by custom field id");
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([id, raw]) => {
+      const field = definitions.find((f) => String(f.id) === id);
+      if (!field) throw new HttpError(400, `Unknown custom field: ${id}`);
+      return [id, fieldValue(field, raw)];
+    })
+  );
+}
+
+// Checks custom field values for a document of this type: the ones being
+// set must apply to the type, and every field required for it must have a
+// value. Returns the values to store, i.e. `stored` with `given` applied,
+// without the ones for fields that do not apply (after a change of type).
+function mergeFieldValues(stored, given, documentType, definitions) {
+  for (const field of definitions) {
+    if (given[field.id] != null && !fieldApplies(field, documentType)) {
+      throw new HttpError(400, `${field.name} does not apply to ${documentType ? `${documentType} documents` : "documents without a type"}`);
+    }
+  }
+  const merged = Object.fromEntries(
+    Object.entries({ ...stored, ...given }).filter(([id, value]) => {
+      const field = definitions.find((f) => String(f.id) === id);
+      return value !== null && field !== undefined && fieldApplies(field, documentType);
+    })
+  );
+  const missing = definitions.find((field) => field.requiredFor.includes(documentType) && merged[field.id] === undefined);
+  if (missing) {
+    throw new HttpError(400, `${missing.name} is required for ${documentType} documents`);
+  }
+  return merged;
+}
+
+// The file is described by the receipt /api/upload returned, not by the
+// client, so the stored name, size and checksum are the measured ones. Only
+// the user who uploaded the file can use its receipt, and only once: it is
+// spent in the same transaction that stores the document or version.
+export async function validateNewVersion(db, body, user) {
+  const { id, userId, fileName, fileUrl, size, sha256 } = await verifyUploadReceipt(db, requireString(body, "upload"));
+  if (userId !== user.id) throw new HttpError(403, "This upload belongs to another user");
+  return { receiptId: id, fileName, fileUrl, size, sha256, note: optionalText(body, "note") };
+}
+
+// New documents always start as Pending; the status is set by the workflow.
+// `settings` holds the configured divisions and document types (settings.js).
+export async function validateNewDocument(db, body, settings, user) {
+  const input = {
+    name: requireString(body, "name"),
+    division: requireOneOf(body, "division", settings.divisions),
+    documentType: optionalOneOf(body, "documentType", settings.documentTypes),
+    issueDate: optionalDate(body, "issueDate"),
+    expiryDate: optionalDate(body, "expiryDate"),
+    tags: optionalTags(body, "tags"),
+    ...(await validateNewVersion(db, body, user)),
+  };
+  checkValidity(input.issueDate, input.expiryDate);
+  input.fieldValues = mergeFieldValues({}, validateFieldValues(body, settings.customFields), input.documentType, settings.customFields);
+  return input;
+}
+
+// A row of the document register (see register.js). Imported documents are
+// records without a file: they are at version 0 until one is uploaded, and
+// keep the status, dates, people and tags the register gives them (`tags`
+// separated by commas), but no custom fields, so the ones required for a type
+// are not enforced. `fileName` is only the name the register lists. Unlike
+// the other validators this does not stop at the first problem: it returns
+// { input, errors } so an import preview can list everything wrong with a
+// row.
+export function validateImportedDocument(row, settings) {
+  const errors = [];
+  const check = (validate) => {
+    try {
+      return validate();
+    } catch (err) {
+      if (!(err instanceof HttpError)) throw err;
+      errors.push(err.message);
+      return null;
+    }
+  };
+  const status = check(() => optionalOneOf(row, "status", STATUSES)) || "Pending";
+  const input = {
+    name: check(() => requireString(row, "name")),
+    division: check(() => requireOneOf(row, "division", settings.divisions)),
+    documentType: check(() => optionalOneOf(row, "documentType", settings.documentTypes)),
+    status,
+    issueDate: check(() => optionalDate(row, "issueDate")),
+    expiryDate: check(() => optionalDate(row, "expiryDate")),
+    fileName: optionalText(row, "fileName") || "",
+    uploadedBy: optionalText(row, "uploadedBy"),
+    uploadedAt: check(() => optionalDate(row, "uploadedAt")),
+    reviewer: optionalText(row, "reviewer"),
+    rejectionReason: status === "Rejected" ? optionalText(row, "rejectionReason") : null,
+    tags: check(() => optionalTags(row, "tags")) || [],
+  };
+  check(() => checkValidity(input.issueDate, input.expiryDate));
+  return { input, errors };
+}
+
+// Only the fields present in the body are validated and returned. `reason`
+// goes with a status change and is required when it is a rejection.
+export function validateDocumentPatch(body, settings) {
+  const patch = {};
+  if ("name" in body) patch.name = requireString(body, "name");
+  if ("division" in body) patch.division = requireOneOf(body, "division", settings.divisions);
+  if ("documentType" in body) patch.documentType = optionalOneOf(body, "documentType", settings.documentTypes);
+  if ("issueDate" in body) patch.issueDate = optionalDate(body, "issueDate");
+  if ("expiryDate" in body) patch.expiryDate = optionalDate(body, "expiryDate");
+  if ("tags" in body) patch.tags = optionalTags(body, "tags");
+  if ("fieldValues" in body) patch.fieldValues = validateFieldValues(body, settings.customFields);
+  if ("status" in body) {
+    patch.status = requireOneOf(body, "status", STATUSES);
+    patch.reason = optionalText(body, "reason");
+  }
+  if (Object.keys(patch).length === 0) {
+    throw new HttpError(400, "Nothing to update");
+  }
+  return patch;
+}
+
+const MAX_NOTE_LENGTH = 500;
+
+// A routing action (see routing.js). Sending and forwarding need a division
+// and, to hand the document to one person, toUserId; returning goes back to
+// whoever the document came from.
+export function validateRouteAction(body, settings) {
+  const action = requireString(body, "action");
+  const note = optionalText(body, "note");
+  if (note && note.length > MAX_NOTE_LENGTH) {
+    throw new HttpError(400, `note can be at most ${MAX_NOTE_LENGTH} characters`);
+  }
+  const input = { action, note, toDivision: null, toUserId: null, dueDate: null };
+  if (action === "send" || action === "forward") {
+    input.toDivision = requireOneOf(body, "toDivision", settings.divisions);
+    const { toUserId } = body;
+    if (toUserId !== undefined && toUserId !== null && toUserId !== "") {
+      if (!Number.isInteger(toUserId) || toUserId <= 0) throw new HttpError(400, "toUserId must be a user id");
+      input.toUserId = toUserId;
+    }
+  }
+  if (action === "send" || action === "forward" || action === "return") {
+    input.dueDate = optionalDate(body, "dueDate");
+  }
+  return input;
+}
+
+// Sort keys for listDocuments. Status sorts in workflow order rather than
+// alphabetically; relevance is only available together with a search.
+const SORTS = {
+  relevance: "m.rank",
+  name: "d.name COLLATE NOCASE",
+  date: "d.uploaded_at",
+  division: "d.division",
+  status: `CASE d.status ${STATUSES.map((s, i) => `WHEN '${s}' THEN ${i}`).join(" ")} END`,
+};
+const DEFAULT_PAGE_SIZE = 30;
+const MAX_PAGE_SIZE = 100;
+const MAX_CHANGES = 100; // Changed documents listDocumentChanges reports one by one
+
+function optionalParam(query, field, allowed) {
+  const value = query[field];
+  if (value === undefined || value === "") return undefined;
+  if (!allowed.includes(value)) {
+    throw new HttpError(400, `${field} must be one of: ${allowed.join(", ")}`);
+  }
+  return value;
+}
+
+function encodeCursor(row) {
+  return Buffer.from(JSON.stringify([row.sort_key, Number(row.id)])).toString("base64url");
+}
+
+function decodeCursor(cursor) {
+  try {
+    const [key, id] = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (Number.isInteger(id)) return [key, id];
+  } catch {
+    // Falls through to the error below.
+  }
+  throw new HttpError(400, "Invalid cursor");
+}
+
+// The parameters documentFilter filters on, apart from sha256, plus
+// field.<id> for custom fields (see isFilterParam). Bulk actions on "all
+// matching" documents and saved views keep exactly these, so they select
+// what the list shows.
+export const FILTER_PARAMS = ["division", "type", "status", "expiry", "uploaded", "tags", "q"];
+
+export function isFilterParam(key) {
+  return FILTER_PARAMS.includes(key) || /^field\.\d+$/.test(key);
+}
+
+// Builds the query for the documents the user can see that match the
+// filters: division, type, status, expiry ("expiring" within
+// EXPIRY_REMINDER_DAYS, or "expired"), uploaded (a month, YYYY-MM), tags
+// (comma-separated; documents with all of them), field.<id> (custom field
+// values, see fieldCondition), q (full-text search, see search.js) and
+// sha256 (documents that have or had a version with exactly that content;
+// the upload modal uses it to warn about duplicates). Returns null when the
+// user cannot see any division.
+function documentFilter(user, query) {
+  const matches = searchMatches(query.q);
+  const status = optionalParam(query, "status", STATUSES);
+  const expiry = optionalParam(query, "expiry", ["expiring", "expired"]);
+  if (query.uploaded && !/^\d{4}-\d{2}$/.test(query.uploaded)) {
+    throw new HttpError(400, "uploaded must be a month (YYYY-MM)");
+  }
+  const divisions = visibleDivisions(user);
+  if (divisions && divisions.length === 0) return null;
+  const conditions = ["d.deleted_at IS NULL"];
+  const args = [];
+  if (divisions) {
+    conditions.push(`d.division IN (${divisions.map(() => "?").join(", ")})`);
+    args.push(...divisions);
+  }
+  if (query.division) {
+    conditions.push("d.division = ?");
+    args.push(String(query.division));
+  }
+  if (query.type) {
+    conditions.push("d.document_type = ?");
+    args.push(String(query.type));
+  }
+  if (status) {
+    conditions.push("d.status = ?");
+    args.push(status);
+  }
+  if (expiry === "expired") {
+    conditions.push("d.expiry_date < date('now')");
+  } else if (expiry === "expiring") {
+    conditions.push("d.expiry_date BETWEEN date('now') AND date('now', ?)");
+    args.push(`+${EXPIRY_REMINDER_DAYS} days`);
+  }
+  if (query.uploaded) {
+    conditions.push("substr(d.uploaded_at, 1, 7) = ?");
+    args.push(query.uploaded);
+  }
+  for (const tag of String(query.tags ?? "").split(",").map((t) => t.trim()).filter(Boolean)) {
+    conditions.push("EXISTS (SELECT 1 FROM json_each(d.tags) WHERE value = ? COLLATE NOCASE)");
+    args.push(tag);
+  }
+  for (const [param, value] of Object.entries(query)) {
+    const id = /^field\.(\d+)$/.exec(param)?.[1];
+    if (id && value !== undefined && value !== "") fieldCondition(Number(id), String(value), conditions, args);
+  }
+  if (query.sha256) {
+    conditions.push("d.id IN (SELECT document_id FROM document_versions WHERE sha256 = ?)");
+    args.push(String(query.sha256).toLowerCase());
+  }
+
+  const select = (columns, extra = []) => {
+    const where = [...conditions, ...extra];
+    return `${matches ? `WITH ${matches.sql}` : ""}
+      SELECT ${columns} FROM documents d
+      ${matches ? "JOIN matches m ON m.id = d.id" : ""}
+      ${where.length ? `WHERE ${where.join(" AND ")}` : ""}`;
+  };
+  return { matches, select, args: [...(matches ? matches.args : []), ...args] };
+}
+
+// Numbers are stored as JSON numbers, so they are compared as numbers.
+function fieldFilterValue(value) {
+  return /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : value;
+}
+
+// A custom field filter is either a range, `from..to` with either end left
+// open (for numbers and dates), or a value: text fields match when they
+// contain it, ignoring case, and the other types when they equal it.
+function fieldCondition(id, value, conditions, args) {
+  const path = `$."${id}"`;
+  const range = /^(.*)\.\.(.*)$/.exec(value);
+  if (range) {
+    if (range[1]) {
+      conditions.push("json_extract(d.field_values, ?) >= ?");
+      args.push(path, fieldFilterValue(range[1]));
+    }
+    if (range[2]) {
+      conditions.push("json_extract(d.field_values, ?) <= ?");
+      args.push(path, fieldFilterValue(range[2]));
+    }
+    return;
+  }
+  conditions.push(`EXISTS (
+    SELECT 1 FROM custom_fields f WHERE f.id = ? AND CASE f.type
+      WHEN 'text' THEN instr(lower(json_extract(d.field_values, ?)), lower(?)) > 0
+      ELSE CAST(json_extract(d.field_values, ?) AS TEXT) = ?
+    END)`);
+  args.push(id, path, value, path, value);
+}
+
+function toListedDocument(row, matches) {
+  return matches ? { ...toDocument(row), snippet: snippetHtml(row.snippet) } : toDocument(row);
+}
+
+// The sort and order asked for, with the defaults the dashboard starts from.
+function listOrder(query, matches) {
+  const sort = optionalParam(query, "sort", Object.keys(SORTS)) || (matches ? "relevance" : "date");
+  if (sort === "relevance" && !matches) {
+    throw new HttpError(400, "Sorting by relevance needs a search");
+  }
+  const defaultOrder = sort === "date" ? "desc" : "asc";
+  const order = optionalParam(query, "order", ["asc", "desc"]) || defaultOrder;
+  return { sort, order };
+}
+
+// One page of the documents matching the filters (see documentFilter). Pages
+// are keyset-paginated: pass back `nextCursor` with the same filters and sort
+// to get the next one. `cursor` is where to start asking listDocumentChanges.
+export async function listDocuments(db, user, query = {}) {
+  const filter = documentFilter(user, query);
+  const matches = filter ? filter.matches : searchMatches(query.q);
+  const { sort, order } = listOrder(query, matches);
+  const limit = Math.min(Math.max(Number.parseInt(query.limit, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  // Read before the page, so a change made meanwhile is reported again
+  // rather than missed.
+  const cursor = await latestChangeId(db);
+  if (!filter) return { documents: [], nextCursor: null, total: 0, cursor };
+  const { select, args: baseArgs } = filter;
+
+  let after = [];
+  let afterArgs = [];
+  if (query.cursor) {
+    after = [`(${SORTS[sort]}, d.id) ${order === "asc" ? ">" : "<"} (?, ?)`];
+    afterArgs = decodeCursor(query.cursor);
+  }
+  const direction = order.toUpperCase();
+  const [page, count] = await Promise.all([
+    db.execute({
+      sql: `${select(`d.*, ${SORTS[sort]} AS sort_key${matches ? ", m.snippet" : ""}`, after)}
+            ORDER BY ${SORTS[sort]} ${direction}, d.id ${direction}
+            LIMIT ${limit + 1}`,
+      args: [...baseArgs, ...afterArgs],
+    }),
+    db.execute({ sql: select("COUNT(*) AS total"), args: baseArgs }),
+  ]);
+
+  const rows = page.rows.slice(0, limit);
+  return {
+    documents: rows.map((row) => toListedDocument(row, matches)),
+    nextCursor: page.rows.length > limit ? encodeCursor(rows[rows.length - 1]) : null,
+    total: Number(count.rows[0].total),
+    cursor,
+  };
+}
+
+// Whether an audit entry concerns a document the user can see, or could see
+// before it was moved to another division.
+function isChangeVisible(user, row) {
+  if (can(user, "view", row.division)) return true;
+  const moved = row.action === "edit" && row.details ? JSON.parse(row.details).changes?.division : null;
+  return Boolean(moved && can(user, "view", moved.from));
+}
+
+// What changed since `since`, a cursor from listDocuments or an earlier call,
+// for a list with the given filters: `documents` are the changed documents
+// that match them, `removed` the ids of changed ones that no longer do (or
+// were deleted), `total` the new number of matches and `changedBy` who made
+// the changes. With more than MAX_CHANGES changed documents it only returns
+// `reload: true`, and the list is better fetched again.
+export async function listDocumentChanges(db, user, query) {
+  const since = Number(query.since);
+  if (!Number.isInteger(since) || since < 0) {
+    throw new HttpError(400, "since must be a cursor from the documents list");
+  }
+  const cursor = await latestChangeId(db);
+  if (cursor <= since) return { cursor, documents: [], removed: [], changedBy: [] };
+
+  const { rows: entries } = await db.execute({
+    sql: `SELECT document_id, division, action, actor, details FROM audit_log
+          WHERE id > ? AND id <= ? AND action <> 'view' AND document_id IS NOT NULL`,
+    args: [since, cursor],
+  });
+  const visible = entries.filter((row) => isChangeVisible(user, row));
+  const ids = [...new Set(visible.map((row) => Number(row.document_id)))];
+  const changedBy = [...new Set(visible.map((row) => row.actor))];
+  if (ids.length > MAX_CHANGES) return { cursor, reload: true, changedBy };
+
+  const filter = documentFilter(user, query);
+  if (!filter || ids.length === 0) return { cursor, documents: [], removed: ids, changedBy };
+  const [changed, count] = await Promise.all([
+    db.execute({
+      sql: filter.select(`d.*${filter.matches ? ", m.snippet" : ""}`, [`d.id IN (${ids.map(() => "?").join(", ")})`]),
+      args: [...filter.args, ...ids],
+    }),
+    db.execute({ sql: filter.select("COUNT(*) AS total"), args: filter.args }),
+  ]);
+  const documents = changed.rows.map((row) => toListedDocument(row, filter.matches));
+  const matched = new Set(documents.map((document) => document.id));
+  return {
+    cursor,
+    documents,
+    removed: ids.filter((id) => !matched.has(id)),
+    total: Number(count.rows[0].total),
+    changedBy,
+  };
+}
+
+// Every document matching the filters, in the list's sort order, for the
+// register export (see register.js). Refuses when more than `limit` match.
+export async function exportDocuments(db, user, query, limit) {
+  const filter = documentFilter(user, query);
+  const { sort, order } = listOrder(query, filter ? filter.matches : searchMatches(query.q));
+  if (!filter) return [];
+  const direction = order.toUpperCase();
+  const { rows } = await db.execute({
+    sql: `${filter.select("d.*")} ORDER BY ${SORTS[sort]} ${direction}, d.id ${direction} LIMIT ${limit + 1}`,
+    args: filter.args,
+  });
+  if (rows.length > limit) {
+    throw new HttpError(400, `More than ${limit} documents match. Narrow the filters and try again.`);
+  }
+  return rows.map(toDocument);
+}
+
+// The tags on the documents the user can see, most used first, for the
+// dashboard's autocomplete.
+export async function listTags(db, user) {
+  const filter = documentFilter(user, {});
+  if (!filter) return [];
+  const { rows } = await db.execute({
+    sql: `SELECT t.value AS name, COUNT(*) AS count
+          FROM (${filter.select("d.tags")}) d, json_each(d.tags) t
+          GROUP BY t.value COLLATE NOCASE
+          ORDER BY count DESC, name COLLATE NOCASE`,
+    args: filter.args,
+  });
+  return rows.map((row) => ({ name: row.name, count: Number(row.count) }));
+}
+
+// Ids of every document matching the filters, up to `limit`, oldest first.
+export async function matchingDocumentIds(db, user, query, limit) {
+  const filter = documentFilter(user, query);
+  if (!filter) return [];
+  const { rows } = await db.execute({
+    sql: `${filter.select("d.id")} ORDER BY d.id LIMIT ${limit}`,
+    args: filter.args,
+  });
+  return rows.map((row) => Number(row.id));
+}
+
+// Reads a document the user is allowed to see: one in their divisions, or
+// one that is routed to them (see routing.js). Other documents, like those in
+// the trash, are reported as missing rather than forbidden, so their
+// existence does not leak. `db` may be an open transaction.
+async function loadDocument(db, id, user) {
+  const { rows } = await db.execute({
+    sql: `SELECT ${COLUMNS} FROM documents WHERE id = ? AND deleted_at IS NULL`,
+    args: [id],
+  });
+  const document = rows.length ? toDocument(rows[0]) : null;
+  if (!document || !(can(user, "view", document.division) || isRouteRecipient(user, document))) {
+    throw new HttpError(404, "Document not found");
+  }
+  return document;
+}
+
+export function getDocument(db, id, user) {
+  return loadDocument(db, id, user);
+}
+
+// Whether a document, one of its versions or a resumable upload in progress
+// still needs the blob.
+export async function isFileUrlReferenced(db, url) {
+  const { rows } = await db.execute({
+    sql: `SELECT 1 FROM documents WHERE file_url = ?1
+          UNION ALL
+          SELECT 1 FROM document_versions WHERE file_url = ?1
+          UNION ALL
+          SELECT 1 FROM upload_parts WHERE blob_url = ?1
+          LIMIT 1`,
+    args: [url],
+  });
+  return rows.length > 0;
+}
+
+export async function referencedFileUrls(db) {
+  const { rows } = await db.execute(
+    "SELECT file_url FROM documents UNION SELECT file_url FROM document_versions"
+  );
+  return new Set(rows.map((row) => row.file_url));
+}
+
+function insertVersion(tx, documentId, version, input, actor) {
+  return tx.execute({
+    sql: `INSERT INTO document_versions (document_id, version, file_name, file_url, size, sha256, uploaded_by, note)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+          RETURNING ${VERSION_COLUMNS}`,
+    args: [documentId, version, input.fileName, input.fileUrl, input.size, input.sha256, actor, input.note],
+  });
+}
+
+export async function createDocument(db, input, user) {
+  assertCan(user, "upload", input.division);
+  const tx = await db.transaction("write");
+  try {
+    await spendUploadReceipt(tx, input.receiptId);
+    const { rows } = await tx.execute({
+      sql: `INSERT INTO documents (name, division, document_type, issue_date, expiry_date, tags, field_values, status, file_name, file_url, sha256, uploaded_by, uploaded_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, 'Pending', ?, ?, ?, ?, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+            RETURNING ${COLUMNS}`,
+      args: [
+        input.name,
+        input.division,
+        input.documentType,
+        input.issueDate,
+        input.expiryDate,
+        JSON.stringify(input.tags),
+        JSON.stringify(input.fieldValues),
+        input.fileName,
+        input.fileUrl,
+        input.sha256,
+        user.name,
+      ],
+    });
+    const document = toDocument(rows[0]);
+    await insertVersion(tx, document.id, 1, input, user.name);
+    await recordTransition(tx, document.id, "submit", null, "Pending", user.name);
+    await recordAudit(tx, "create", document, user.name, {
+      fileName: input.fileName,
+      size: input.size,
+      sha256: input.sha256,
+    });
+    await emitEvent(tx, "document.created", document, user);
+    await tx.commit();
+    return document;
+  } finally {
+    tx.close();
+  }
+}
+
+// Creates documents from validated register rows in one transaction, so an
+// import goes in completely or not at all. Imports are admin-only, since
+// they set statuses without going through review, and they notify no one.
+export async function importDocuments(db, inputs, user) {
+  assertCan(user, "admin");
+  const tx = await db.transaction("write");
+  try {
+    const documents = [];
+    for (const input of inputs) {
+      const { rows } = await tx.execute({
+        sql: `INSERT INTO documents (name, division, document_type, status, issue_date, expiry_date, tags, file_name, file_url,
+                                     current_version, uploaded_by, uploaded_at, reviewer, rejection_reason)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, '', 0, ?, COALESCE(?, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')), ?, ?)
+              RETURNING ${COLUMNS}`,
+        args: [
+          input.name,
+          input.division,
+          input.documentType,
+          input.status,
+          input.issueDate,
+          input.expiryDate,
+          JSON.stringify(input.tags),
+          input.fileName,
+          input.uploadedBy,
+          input.uploadedAt && `${input.uploadedAt}T00:00:00.000Z`,
+          input.reviewer,
+          input.rejectionReason,
+        ],
+      });
+      const document = toDocument(rows[0]);
+      await recordTransition(tx, document.id, "import", null, input.status, user.name);
+      await recordAudit(tx, "import", document, user.name, { status: input.status, fileName: input.fileName || null });
+      documents.push(document);
+    }
+    await tx.commit();
+    return documents;
+  } finally {
+    tx.close();
+  }
+}
+
+export async function listVersions(db, id, user) {
+  await loadDocument(db, id, user);
+  const { rows } = await db.execute({
+    sql: `SELECT ${VERSION_COLUMNS} FROM document_versions WHERE document_id = ? ORDER BY version DESC`,
+    args: [id],
+  });
+  return rows.map(toVersion);
+}
+
+// Appends a version and makes it current. Versions are never rewritten, so
+// restoring an old file is also done by appending (see restoreVersion).
+// A new file always needs a fresh review, so the document goes back to
+// Pending; for a rejected document this is its resubmission.
+async function appendVersion(tx, id, input, user) {
+  const current = await loadDocument(tx, id, user);
+  assertCan(user, "upload", current.division);
+  const previousStatus = current.status;
+  const latest = await tx.execute({
+    sql: "SELECT COALESCE(MAX(version), 0) AS version FROM document_versions WHERE document_id = ?",
+    args: [id],
+  });
+  const version = Number(latest.rows[0].version) + 1;
+  // Restored versions reuse a stored file and come without a receipt.
+  if (input.receiptId) await spendUploadReceipt(tx, input.receiptId);
+  const inserted = await insertVersion(tx, id, version, input, user.name);
+  const updated = await tx.execute({
+    sql: `UPDATE documents
+          SET file_name = ?, file_url = ?, sha256 = ?, current_version = ?,
+              uploaded_by = ?, uploaded_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now'),
+              status = 'Pending', reviewer = NULL, rejection_reason = NULL,
+              updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+          WHERE id = ?
+          RETURNING ${COLUMNS}`,
+    args: [input.fileName, input.fileUrl, input.sha256, version, user.name, id],
+  });
+  if (previousStatus !== "Pending") {
+    await recordTransition(tx, id, "resubmit", previousStatus, "Pending", user.name);
+  }
+  const document = toDocument(updated.rows[0]);
+  if (previousStatus !== "Pending") {
+    await emitEvent(tx, "document.status_changed", document, user, {
+      action: "resubmit",
+      from: previousStatus,
+      to: "Pending",
+    });
+  }
+  return { document, version: toVersion(inserted.rows[0]), previousStatus };
+}
+
+export async function addVersion(db, id, input, user) {
+  const tx = await db.transaction("write");
+  try {
+    const { previousStatus, ...result } = await appendVersion(tx, id, input, user);
+    await recordAudit(tx, "version_upload", result.document, user.name, {
+      version: result.version.version,
+      fileName: input.fileName,
+      ...(previousStatus !== "Pending" && { statusFrom: previousStatus, statusTo: "Pending" }),
+    });
+    await tx.commit();
+    return result;
+  } finally {
+    tx.close();
+  }
+}
+
+export async function restoreVersion(db, id, version, user) {
+  const tx = await db.transaction("write");
+  try {
+    await loadDocument(tx, id, user);
+    const { rows } = await tx.execute({
+      sql: `SELECT ${VERSION_COLUMNS} FROM document_versions WHERE document_id = ? AND version = ?`,
+      args: [id, version],
+    });
+    if (rows.length === 0) throw new HttpError(404, "Version not found");
+    const source = toVersion(rows[0]);
+    const { previousStatus, ...result } = await appendVersion(
+      tx,
+      id,
+      {
+        fileName: source.fileName,
+        fileUrl: rows[0].file_url,
+        size: source.size,
+        sha256: source.sha256,
+        note: `Restored from version ${version}`,
+      },
+      user
+    );
+    await recordAudit(tx, "version_restore", result.document, user.name, {
+      restoredVersion: version,
+      version: result.version.version,
+      ...(previousStatus !== "Pending" && { statusFrom: previousStatus, statusTo: "Pending" }),
+    });
+    await tx.commit();
+    return result;
+  } finally {
+    tx.close();
+  }
+}
+
+const PATCH_COLUMNS = {
+  name: "name",
+  division: "division",
+  documentType: "document_type",
+  issueDate: "issue_date",
+  expiryDate: "expiry_date",
+  tags: "tags",
+  fieldValues: "field_values",
+};
+
+// What an edit changed, for the audit log. Tags are listed as text and
+// custom fields under their own names.
+function describeChanges(previous, document, fields, definitions) {
+  const changes = Object.fromEntries(
+    fields
+      .filter((f) => f !== "tags" && f !== "fieldValues" && previous[f] !== document[f])
+      .map((f) => [f, { from: previous[f], to: document[f] }])
+  );
+  if (fields.includes("tags") && previous.tags.join(", ") !== document.tags.join(", ")) {
+    changes.tags = { from: previous.tags.join(", ") || null, to: document.tags.join(", ") || null };
+  }
+  for (const field of definitions) {
+    const from = previous.fieldValues[field.id] ?? null;
+    const to = document.fieldValues[field.id] ?? null;
+    if (from !== to) changes[field.name] = { from, to };
+  }
+  return changes;
+}
+
+// Name, division, type, dates, tags and custom fields are plain edits;
+// `fieldValues` only needs the values that change. A status is never set
+// directly: it is only accepted if the review workflow has a transition to
+// it, and is then applied as that transition, with the same checks and
+// history.
+export async function updateDocument(db, id, patch, user) {
+  const { status, reason, ...metadata } = patch;
+  const fields = Object.keys(metadata);
+  const tx = await db.transaction("write");
+  try {
+    const previous = await loadDocument(tx, id, user);
+    const action = status && status !== previous.status ? actionForStatus(previous.status, status) : null;
+    let document = previous;
+    if (fields.length > 0) {
+      assertCan(user, "edit", previous.division);
+      // Moving a document requires edit rights on both sides.
+      if (metadata.division) assertCan(user, "edit", metadata.division);
+      checkValidity(
+        "issueDate" in metadata ? metadata.issueDate : previous.issueDate,
+        "expiryDate" in metadata ? metadata.expiryDate : previous.expiryDate
+      );
+      // A new type can make other fields required, so its values are
+      // checked too.
+      const definitions = "fieldValues" in metadata || "documentType" in metadata ? await listCustomFields(tx) : [];
+      if (definitions.length > 0) {
+        const documentType = "documentType" in metadata ? metadata.documentType : previous.documentType;
+        metadata.fieldValues = mergeFieldValues(previous.fieldValues, metadata.fieldValues ?? {}, documentType, definitions);
+        if (!fields.includes("fieldValues")) fields.push("fieldValues");
+      }
+      const values = { ...metadata };
+      if (values.tags) values.tags = JSON.stringify(values.tags);
+      if (values.fieldValues) values.fieldValues = JSON.stringify(values.fieldValues);
+      const { rows } = await tx.execute({
+        sql: `UPDATE documents
+              SET ${fields.map((f) => `${PATCH_COLUMNS[f]} = ?`).join(", ")},
+                  updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+              WHERE id = ?
+              RETURNING ${COLUMNS}`,
+        args: [...fields.map((f) => values[f]), id],
+      });
+      document = toDocument(rows[0]);
+      await recordAudit(tx, "edit", document, user.name, { changes: describeChanges(previous, document, fields, definitions) });
+    }
+    if (action) {
+      document = await applyTransition(tx, document, action, user, reason);
+    }
+    await tx.commit();
+    return document;
+  } finally {
+    tx.close();
+  }
+}
+
+export async function listTransitions(db, id, user) {
+  await loadDocument(db, id, user);
+  const { rows } = await db.execute({
+    sql: `SELECT ${TRANSITION_COLUMNS} FROM status_transitions WHERE document_id = ? ORDER BY id`,
+    args: [id],
+  });
+  return rows.map(toTransition);
+}
+
+// Moves an already loaded document along the review workflow within `tx`.
+async function applyTransition(tx, current, action, user, reason) {
+  const id = current.id;
+  const fromStatus = current.status;
+  const transition = checkTransition(action, current, user, reason);
+
+  const updated = await tx.execute({
+    sql: `UPDATE documents
+          SET status = ?, reviewer = ?, rejection_reason = ?,
+              updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+          WHERE id = ?
+          RETURNING ${COLUMNS}`,
+    args: [transition.to, user.name, transition.requiresReason ? reason : null, id],
+  });
+  await recordTransition(tx, id, action, fromStatus, transition.to, user.name, reason);
+  const document = toDocument(updated.rows[0]);
+  await recordAudit(tx, "status_change", document, user.name, {
+    action,
+    from: fromStatus,
+    to: transition.to,
+    ...(reason && { reason }),
+  });
+  await emitEvent(tx, "document.status_changed", document, user, {
+    action,
+    from: fromStatus,
+    to: transition.to,
+    reason: reason || null,
+  });
+  return document;
+}
+
+export async function transitionDocument(db, id, action, user, reason) {
+  const tx = await db.transaction("write");
+  try {
+    const current = await loadDocument(tx, id, user);
+    const document = await applyTransition(tx, current, action, user, reason);
+    await tx.commit();
+    return document;
+  } finally {
+    tx.close();
+  }
+}
+
+// The document's chain of custody, oldest handover first.
+export async function listHandovers(db, id, user) {
+  await loadDocument(db, id, user);
+  const { rows } = await db.execute({
+    sql: `SELECT ${HANDOVER_COLUMNS} FROM handovers WHERE document_id = ? ORDER BY id`,
+    args: [id],
+  });
+  return rows.map(toHandover);
+}
+
+// Where a handover goes. A person has to be able to see the division's
+// documents, so admins can be picked in any division.
+async function findRecipient(tx, division, userId) {
+  if (userId === null) return { division, userId: null, user: null };
+  const { rows } = await tx.execute({
+    sql: "SELECT id, email, name, role, divisions FROM users WHERE id = ?",
+    args: [userId],
+  });
+  const recipient = rows.length ? toUser(rows[0]) : null;
+  if (!recipient || !can(recipient, "view", division)) {
+    throw new HttpError(400, `toUserId must be a user in ${division}`);
+  }
+  return { division, userId: recipient.id, user: recipient.name };
+}
+
+function handoverFrom(handover) {
+  return { division: handover.fromDivision, userId: handover.fromUserId, user: handover.fromUser };
+}
+
+// Where a returned document goes: back along the current route (the
+// handovers since its latest "send") to whoever handed it on, skipping
+// handovers that were themselves returned, or to that person's whole
+// division if their account is gone. Null once it is back where the route
+// started.
+async function returnAddress(tx, id) {
+  const { rows } = await tx.execute({
+    sql: `SELECT ${HANDOVER_COLUMNS} FROM handovers
+          WHERE document_id = ?1
+            AND id >= (SELECT MAX(id) FROM handovers WHERE document_id = ?1 AND action = 'send')
+          ORDER BY id`,
+    args: [id],
+  });
+  const senders = [];
+  for (const handover of rows.map(toHandover)) {
+    if (handover.action === "return") senders.pop();
+    else senders.push(handoverFrom(handover));
+  }
+  const sender = senders.pop();
+  if (!sender) return null;
+  if (sender.userId !== null) {
+    const { rows: found } = await tx.execute({ sql: "SELECT id FROM users WHERE id = ?", args: [sender.userId] });
+    if (found.length) return sender;
+  }
+  return { division: sender.division, userId: null, user: null };
+}
+
+function setRoute(tx, id, status, to, dueDate) {
+  return tx.execute({
+    sql: `UPDATE documents
+          SET route_status = ?, route_division = ?, route_user_id = ?, route_user = ?, route_due_date = ?
+          WHERE id = ?
+          RETURNING ${COLUMNS}`,
+    args: [status, to?.division ?? null, to?.userId ?? null, to?.user ?? null, dueDate, id],
+  });
+}
+
+// Applies a routing action from validateRouteAction. Every action gets an
+// audit entry; handing the document over notifies the recipients and
+// receiving it notifies the sender.
+export async function routeDocument(db, id, input, user) {
+  const { action, note, dueDate } = input;
+  const tx = await db.transaction("write");
+  try {
+    const current = await loadDocument(tx, id, user);
+    checkRouteAction(action, current, user);
+    const open = await latestHandover(tx, id);
+    const holder = { division: current.routeDivision, userId: user.id, user: user.name };
+    let updated;
+    let details;
+
+    if (action === "receive") {
+      await receiveHandover(tx, open.id, user.name);
+      updated = await setRoute(tx, id, "received", holder, current.routeDueDate);
+      details = { action, from: handoverFrom(open), to: holder };
+    } else if (action === "complete") {
+      await closeHandover(tx, open.id, "completed", user.name);
+      updated = await setRoute(tx, id, null, null, null);
+      details = { action, holder, note };
+    } else {
+      const from = action === "send" ? { division: current.division, userId: user.id, user: user.name } : holder;
+      const to =
+        action === "return" ? await returnAddress(tx, id) : await findRecipient(tx, input.toDivision, input.toUserId);
+      if (!to) throw new HttpError(409, "The document is back where its route started; complete the route instead");
+      if (open && action !== "send") {
+        await closeHandover(tx, open.id, action === "return" ? "returned" : "forwarded", user.name);
+      }
+      await recordHandover(tx, id, action, from, to, note, dueDate, user.name);
+      updated = await setRoute(tx, id, "in_transit", to, dueDate);
+      details = { action, from, to, note, dueDate };
+    }
+
+    const document = toDocument(updated.rows[0]);
+    await recordAudit(tx, "route", document, user.name, details);
+    if (action === "receive") {
+      await emitEvent(tx, "document.received", document, user, details);
+    } else if (action !== "complete") {
+      await emitEvent(tx, "document.routed", document, user, details);
+    }
+    await tx.commit();
+    return document;
+  } finally {
+    tx.close();
+  }
+}
+
+// Documents whose route is waiting on the user: addressed to them or one of
+// their divisions, or held by them. Each comes with its open handover.
+// Routes addressed to a whole division do not count for admins outside it.
+export async function listWaitingDocuments(db, user) {
+  const { rows } = await db.execute({
+    sql: `SELECT ${COLUMNS} FROM documents
+          WHERE deleted_at IS NULL AND route_status IS NOT NULL
+            AND (route_user_id = ?${user.divisions.length ? ` OR (route_user_id IS NULL AND route_division IN (${user.divisions.map(() => "?").join(", ")}))` : ""})
+          ORDER BY route_due_date IS NULL, route_due_date, id`,
+    args: [user.id, ...user.divisions],
+  });
+  if (rows.length === 0) return [];
+  const ids = rows.map((row) => Number(row.id));
+  const handovers = await db.execute({
+    sql: `SELECT document_id, ${HANDOVER_COLUMNS} FROM handovers
+          WHERE id IN (SELECT MAX(id) FROM handovers WHERE document_id IN (${ids.map(() => "?").join(", ")}) GROUP BY document_id)`,
+    args: ids,
+  });
+  const open = new Map(handovers.rows.map((row) => [Number(row.document_id), toHandover(row)]));
+  return rows.map((row) => ({ document: toDocument(row), handover: open.get(Number(row.id)) ?? null }));
+}
+
+// Issues a download link for one version (the current one by default).
+// Handing out the link is what counts as viewing the document.
+export async function openDocument(db, id, user, version) {
+  const document = await loadDocument(db, id, user);
+  if (document.currentVersion === 0) throw new HttpError(404, "No file has been uploaded for this document yet");
+  const requested = version ?? document.currentVersion;
+  const { rows } = await db.execute({
+    sql: "SELECT 1 FROM document_versions WHERE document_id = ? AND version = ?",
+    args: [id, requested],
+  });
+  if (rows.length === 0) throw new HttpError(404, "Version not found");
+  await recordAudit(db, "view", document, user.name, { version: requested });
+  return createFileLink(id, requested);
+}
+
+// Resolves a verified file link to the stored file. The document may have
+// been deleted since the link was issued.
+export async function findVersionFile(db, documentId, version) {
+  const { rows } = await db.execute({
+    sql: "SELECT file_name, file_url FROM document_versions WHERE document_id = ? AND version = ?",
+    args: [documentId, version],
+  });
+  if (rows.length === 0) throw new HttpError(404, "File not found");
+  return { fileName: rows[0].file_name, fileUrl: rows[0].file_url };
+}
+
+// Moves a document to the trash. Its files stay where they are until it is
+// purged (see trash.js).
+export async function deleteDocument(db, id, user) {
+  const tx = await db.transaction("write");
+  try {
+    const document = await loadDocument(tx, id, user);
+    assertCan(user, "delete", document.division);
+    await tx.execute({
+      sql: "UPDATE documents SET deleted_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), deleted_by = ? WHERE id = ?",
+      args: [user.name, id],
+    });
+    await recordAudit(tx, "delete", document, user.name, { fileName: document.fileName, status: document.status });
+    await emitEvent(tx, "document.deleted", document, user);
+    await tx.commit();
+    return document;
+  } finally {
+    tx.close();
+  }
+}
+
+// Removes a document and its history for good within `tx`, returning the
+// file URLs its versions used that nothing else refers to, so the caller can
+// remove them from blob storage. A file another document still uses stays.
+export async function eraseDocument(tx, id) {
+  await tx.execute({ sql: "DELETE FROM status_transitions WHERE document_id = ?", args: [id] });
+  await tx.execute({ sql: "DELETE FROM handovers WHERE document_id = ?", args: [id] });
+  await tx.execute({ sql: "DELETE FROM comments WHERE document_id = ?", args: [id] });
+  const versions = await tx.execute({
+    sql: "DELETE FROM document_versions WHERE document_id = ? RETURNING file_url",
+    args: [id],
+  });
+  const deleted = await tx.execute({ sql: "DELETE FROM documents WHERE id = ? RETURNING file_url", args: [id] });
+  // Imported documents without a file have an empty file_url.
+  const fileUrls = [];
+  for (const url of new Set([...deleted.rows, ...versions.rows].map((row) => row.file_url))) {
+    if (url && !(await isFileUrlReferenced(tx, url))) fileUrls.push(url);
+  }
+  await forgetFileTexts(tx, fileUrls);
+  return fileUrls;
+}
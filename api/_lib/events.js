@@ -0,0 +1,82 @@
+import { randomUUID } from "node:crypto";
+import { can, toUser } from "./auth.js";
+import { notifyUsers } from "./notifications.js";
+import { queueWebhookDeliveries } from "./webhooks.js";
+
+// The event bus. emitEvent runs inside the transaction that made the change,
+// so the notifications and webhook deliveries it creates commit or roll back
+// together with it. Deliveries are sent afterwards (see webhooks.js).
+
+// Who hears about an event in the app: the members of the document's
+// division, apart from whoever caused it. Expiry reminders come from no one
+// and go to everyone who can edit the document, admins included. Routing
+// events go to the person or division the document was handed to, and
+// acknowledgements back to whoever sent it. Comments only notify the people
+// they mention.
+function recipients(users, type, document, actor, data) {
+  if (type === "document.expiring") {
+    return users.filter((user) => can(user, "edit", document.division));
+  }
+  if (type === "document.routed" || type === "document.received") {
+    const { division, userId } = type === "document.routed" ? data.to : data.from;
+    return users.filter(
+      (user) => (userId === null ? user.divisions.includes(division) : user.id === userId) && user.id !== actor?.id
+    );
+  }
+  if (type === "document.commented") {
+    return users.filter((user) => data.mentions.some((mention) => mention.id === user.id) && user.id !== actor?.id);
+  }
+  return users.filter((user) => user.divisions.includes(document.division) && user.id !== actor?.id);
+}
+
+function addressee({ division, user }) {
+  return user ? `${user} (${division})` : division;
+}
+
+function describe(type, document, actor, data) {
+  switch (type) {
+    case "document.created":
+      return `${actor.name} uploaded ${document.name} to ${document.division}`;
+    case "document.status_changed":
+      return data.to === "Pending"
+        ? `${actor.name} resubmitted ${document.name} for review`
+        : `${actor.name} changed ${document.name} from ${data.from} to ${data.to}`;
+    case "document.deleted":
+      return `${actor.name} deleted ${document.name} from ${document.division}`;
+    case "document.restored":
+      return `${actor.name} restored ${document.name} from the trash`;
+    case "document.expiring":
+      if (data.daysLeft < 0) return `${document.name} expired on ${data.expiryDate}`;
+      if (data.daysLeft === 0) return `${document.name} expires today`;
+      return `${document.name} expires in ${data.daysLeft} day${data.daysLeft === 1 ? "" : "s"} (${data.expiryDate})`;
+    case "document.routed": {
+      const verb = { send: "sent", forward: "forwarded", return: "returned" }[data.action];
+      const due = data.dueDate ? `, due ${data.dueDate}` : "";
+      return `${actor.name} ${verb} ${document.name} to ${addressee(data.to)}${due}`;
+    }
+    case "document.received":
+      return `${actor.name} received ${document.name} in ${data.to.division}`;
+    case "document.commented":
+      return `${actor.name} mentioned you in a comment on ${document.name}`;
+    default:
+      throw new Error(`Unknown event type ${type}`);
+  }
+}
+
+// `document` is the document as it looks after the change (just before it,
+// for deletes); `actor` is the signed-in user, or null for scheduled jobs.
+// Returns how many users were notified.
+export async function emitEvent(tx, type, document, actor, data = {}) {
+  const { rows } = await tx.execute("SELECT id, email, name, role, divisions FROM users");
+  const notified = recipients(rows.map(toUser), type, document, actor, data).map((user) => user.id);
+  await notifyUsers(tx, notified, type, document, describe(type, document, actor, data));
+  await queueWebhookDeliveries(tx, {
+    id: randomUUID(),
+    type,
+    createdAt: new Date().toISOString(),
+    actor: actor ? actor.name : null,
+    document,
+    data,
+  });
+  return notified.length;
+}
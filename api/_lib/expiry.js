@@ -0,0 +1,43 @@
+import { EXPIRY_REMINDER_DAYS } from "./constants.js";
+import { toDocument } from "./documents.js";
+import { emitEvent } from "./events.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Emits "document.expiring" for every document that expires within
+// EXPIRY_REMINDER_DAYS (or already has), which reminds everyone who can edit
+// it. Each expiry date gets one reminder; setting a new date arms it again.
+// Meant to run once a day from api/cron/expiry-reminders.js.
+export async function sendExpiryReminders(db) {
+  const { rows: due } = await db.execute({
+    sql: `SELECT * FROM documents
+          WHERE deleted_at IS NULL AND expiry_date <= date('now', ?)
+            AND (expiry_reminded_for IS NULL OR expiry_reminded_for <> expiry_date)
+          ORDER BY expiry_date, id`,
+    args: [`+${EXPIRY_REMINDER_DAYS} days`],
+  });
+  if (due.length === 0) return { documents: 0, notifications: 0 };
+
+  const today = new Date().toISOString().slice(0, 10);
+  let notifications = 0;
+
+  for (const row of due) {
+    const document = toDocument(row);
+    const daysLeft = Math.round((Date.parse(document.expiryDate) - Date.parse(today)) / DAY_MS);
+    const tx = await db.transaction("write");
+    try {
+      notifications += await emitEvent(tx, "document.expiring", document, null, {
+        expiryDate: document.expiryDate,
+        daysLeft,
+      });
+      await tx.execute({
+        sql: "UPDATE documents SET expiry_reminded_for = expiry_date WHERE id = ?",
+        args: [document.id],
+      });
+      await tx.commit();
+    } finally {
+      tx.close();
+    }
+  }
+  return { documents: due.length, notifications };
+}
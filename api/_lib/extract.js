@@ -0,0 +1,82 @@
+import { unzipSync } from "fflate";
+import path from "node:path";
+
+// Pulls the plain text out of an uploaded file for the search index. Only
+// types with text worth searching are read; everything else returns null.
+// Extraction is best effort: a file we cannot read is still a valid upload.
+const MAX_TEXT_LENGTH = 500_000;
+// A few hundred compressed kilobytes can claim to unpack to gigabytes (a zip
+// bomb). Unzipping never writes more than an entry's declared size, so
+// word/document.xml is skipped when that size is over this limit.
+const MAX_DOCX_XML_BYTES = 32 * 1024 * 1024;
+
+const XML_ENTITIES = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+async function pdfText(body) {
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  const pdf = await pdfjs.getDocument({
+    data: new Uint8Array(body),
+    isEvalSupported: false,
+    verbosity: 0,
+  }).promise;
+  try {
+    const pages = [];
+    for (let n = 1; n <= pdf.numPages; n++) {
+      const page = await pdf.getPage(n);
+      const content = await page.getTextContent();
+      pages.push(content.items.map((item) => item.str ?? "").join(" "));
+    }
+    return pages.join("\n");
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+// A .docx is a zip; the body text is in word/document.xml, one <w:p> per
+// paragraph.
+function docxText(body) {
+  const files = unzipSync(new Uint8Array(body), {
+    filter: (file) => file.name === "word/document.xml" && file.originalSize <= MAX_DOCX_XML_BYTES,
+  });
+  const xml = files["word/document.xml"];
+  if (!xml) return null;
+  return new TextDecoder()
+    .decode(xml)
+    .replace(/<\/w:p>/g, "\n")
+    .replace(/<w:(tab|br)\/>/g, " ")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(amp|lt|gt|quot|apos);/g, (_, name) => XML_ENTITIES[name])
+    .replace(/&#(x?)([0-9a-f]+);/gi, (_, hex, code) => String.fromCodePoint(parseInt(code, hex ? 16 : 10)));
+}
+
+export async function extractText(fileName, body) {
+  const ext = path.extname(fileName).toLowerCase();
+  try {
+    let text = null;
+    if (ext === ".pdf") text = await pdfText(body);
+    else if (ext === ".docx") text = docxText(body);
+    else if ([".txt", ".md", ".csv"].includes(ext)) text = body.toString("utf8");
+    if (!text) return null;
+    return text.replace(/\s+/g, " ").trim().slice(0, MAX_TEXT_LENGTH) || null;
+  } catch (err) {
+    console.error(`Text extraction failed for ${fileName}:`, err);
+    return null;
+  }
+}
+
+// Extracted text is kept per stored file rather than per document, so a
+// restored version finds its text again.
+export function saveFileText(db, fileUrl, content) {
+  return db.execute({
+    sql: "INSERT OR REPLACE INTO file_texts (file_url, content) VALUES (?, ?)",
+    args: [fileUrl, content],
+  });
+}
+
+export async function forgetFileTexts(db, fileUrls) {
+  if (fileUrls.length === 0) return;
+  await db.execute({
+    sql: `DELETE FROM file_texts WHERE file_url IN (${fileUrls.map(() => "?").join(", ")})`,
+    args: fileUrls,
+  });
+}
@@ -0,0 +1,193 @@
+import { recordAudit } from "./audit.js";
+import { HttpError } from "./http.js";
+
+// Custom fields are details admins add to documents beyond the built-in
+// ones, such as a contract's counterparty or an invoice's amount. Each has a
+// type, applies to some document types (documentTypes, null for all of
+// them) and can be required for some of those (requiredFor). Documents keep
+// their values in documents.field_values, keyed by field id; see
+// validateFieldValues in documents.js.
+export const FIELD_TYPES = ["text", "number", "date", "select"];
+
+const MAX_NAME_LENGTH = 40;
+const MAX_OPTIONS = 50;
+const MAX_OPTION_LENGTH = 60;
+const FIELD_COLUMNS = "id, name, type, options, document_types, required_for";
+
+function toCustomField(row) {
+  return {
+    id: Number(row.id),
+    name: row.name,
+    type: row.type,
+    options: JSON.parse(row.options),
+    documentTypes: row.document_types === null ? null : JSON.parse(row.document_types),
+    requiredFor: JSON.parse(row.required_for),
+  };
+}
+
+export async function listCustomFields(db) {
+  const { rows } = await db.execute(`SELECT ${FIELD_COLUMNS} FROM custom_fields ORDER BY position, id`);
+  return rows.map(toCustomField);
+}
+
+// Whether documents of this type (null for none) have the field.
+export function fieldApplies(field, documentType) {
+  return field.documentTypes === null || field.documentTypes.includes(documentType);
+}
+
+function typeList(body, field, documentTypes) {
+  const value = body[field];
+  if (!Array.isArray(value)) throw new HttpError(400, `${field} must be a list of document types`);
+  const unknown = value.find((type) => !documentTypes.includes(type));
+  if (unknown !== undefined) throw new HttpError(400, `Unknown document type: ${unknown}`);
+  return [...new Set(value)];
+}
+
+// `settings` holds the configured document types (settings.js). The type of
+// an existing field is not sent again: values already stored would no longer
+// fit a new one.
+export function validateCustomField(body, settings, isNew) {
+  const name = typeof body.name === "string" ? body.name.trim().replace(/\s+/g, " ") : "";
+  if (!name) throw new HttpError(400, "name is required");
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new HttpError(400, `name can be at most ${MAX_NAME_LENGTH} characters`);
+  }
+  const field = { name };
+  if (isNew) {
+    if (!FIELD_TYPES.includes(body.type)) {
+      throw new HttpError(400, `type must be one of: ${FIELD_TYPES.join(", ")}`);
+    }
+    field.type = body.type;
+  } else if ("type" in body) {
+    throw new HttpError(400, "The type of a field cannot be changed; add a new field instead");
+  }
+  const options = Array.isArray(body.options) ? body.options : [];
+  field.options = [...new Set(options.map((option) => String(option).trim()).filter(Boolean))];
+  if (field.options.length > MAX_OPTIONS) {
+    throw new HttpError(400, `A field can have at most ${MAX_OPTIONS} options`);
+  }
+  if (field.options.some((option) => option.length > MAX_OPTION_LENGTH)) {
+    throw new HttpError(400, `Options can be at most ${MAX_OPTION_LENGTH} characters`);
+  }
+  field.documentTypes = body.documentTypes === null || body.documentTypes === undefined
+    ? null
+    : typeList(body, "documentTypes", settings.documentTypes);
+  field.requiredFor = body.requiredFor === undefined ? [] : typeList(body, "requiredFor", settings.documentTypes);
+  const notApplying = field.requiredFor.find((type) => !fieldApplies(field, type));
+  if (notApplying !== undefined) {
+    throw new HttpError(400, `${name} cannot be required for ${notApplying} documents, since it does not apply to them`);
+  }
+  return field;
+}
+
+function fieldArgs(field) {
+  return [
+    field.name,
+    JSON.stringify(field.options),
+    field.documentTypes === null ? null : JSON.stringify(field.documentTypes),
+    JSON.stringify(field.requiredFor),
+  ];
+}
+
+function checkOptions(type, options) {
+  if (type === "select" && options.length === 0) {
+    throw new HttpError(400, "A select field needs at least one option");
+  }
+}
+
+async function runUnique(statement, name) {
+  try {
+    return await statement();
+  } catch (err) {
+    if (/UNIQUE constraint failed/.test(err.message)) {
+      throw new HttpError(409, `A field named "${name}" already exists`);
+    }
+    throw err;
+  }
+}
+
+// Responds with every field, like the other lists on the Settings page.
+export async function addCustomField(db, field) {
+  checkOptions(field.type, field.options);
+  await runUnique(
+    () =>
+      db.execute({
+        sql: `INSERT INTO custom_fields (name, options, document_types, required_for, type, position)
+              SELECT ?, ?, ?, ?, ?, COALESCE(MAX(position), -1) + 1 FROM custom_fields`,
+        args: [...fieldArgs(field), field.type],
+      }),
+    field.name
+  );
+  return listCustomFields(db);
+}
+
+async function findCustomField(db, id) {
+  const { rows } = await db.execute({ sql: `SELECT ${FIELD_COLUMNS} FROM custom_fields WHERE id = ?`, args: [id] });
+  if (rows.length === 0) throw new HttpError(404, "Custom field not found");
+  return toCustomField(rows[0]);
+}
+
+// Values that are no longer among a select field's options stay on their
+// documents until someone changes them.
+export async function updateCustomField(db, id, field) {
+  const current = await findCustomField(db, id);
+  checkOptions(current.type, field.options);
+  await runUnique(
+    () =>
+      db.execute({
+        sql: "UPDATE custom_fields SET name = ?, options = ?, document_types = ?, required_for = ? WHERE id = ?",
+        args: [...fieldArgs(field), id],
+      }),
+    field.name
+  );
+  return listCustomFields(db);
+}
+
+// Removes the field and its values, with an audit entry for every document
+// that had one.
+export async function removeCustomField(db, id, user) {
+  const tx = await db.transaction("write");
+  try {
+    const field = await findCustomField(tx, id);
+    const path = `$."${id}"`;
+    const { rows } = await tx.execute({
+      sql: `SELECT id, name, division, json_extract(field_values, ?) AS value
+            FROM documents WHERE json_type(field_values, ?) IS NOT NULL`,
+      args: [path, path],
+    });
+    await tx.execute({
+      sql: `UPDATE documents
+            SET field_values = json_remove(field_values, ?1), updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+            WHERE json_type(field_values, ?1) IS NOT NULL`,
+      args: [path],
+    });
+    for (const row of rows) {
+      const document = { id: Number(row.id), name: row.name, division: row.division };
+      await recordAudit(tx, "edit", document, user.name, { changes: { [field.name]: { from: row.value, to: null } } });
+    }
+    await tx.execute({ sql: "DELETE FROM custom_fields WHERE id = ?", args: [id] });
+    await tx.commit();
+  } finally {
+    tx.close();
+  }
+  return listCustomFields(db);
+}
+
+// Keeps the document types fields apply to and are required for in step
+// with the Settings page: `to` is the new name, or null when the type is
+// removed. A field that applied to the removed type only then applies to
+// none, rather than to every type.
+export async function replaceFieldDocumentType(tx, from, to) {
+  for (const column of ["document_types", "required_for"]) {
+    await tx.execute({
+      sql: `UPDATE custom_fields
+            SET ${column} = (
+              SELECT json_group_array(CASE WHEN value = ?1 THEN ?2 ELSE value END)
+              FROM json_each(custom_fields.${column})
+              WHERE ?2 IS NOT NULL OR value <> ?1
+            )
+            WHERE EXISTS (SELECT 1 FROM json_each(custom_fields.${column}) WHERE value = ?1)`,
+      args: [from, to],
+    });
+  }
+}
@@ -0,0 +1,51 @@
+export class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export function methodNotAllowed(res, allowed) {
+  res.setHeader("Allow", allowed.join(", "));
+  return res.status(405).json({ error: "Method not allowed" });
+}
+
+export function sendError(res, err) {
+  if (err instanceof HttpError) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  console.error("API error:", err);
+  return res.status(500).json({ error: err.message });
+}
+
+export function parseId(value) {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new HttpError(400, "Invalid document id");
+  }
+  return id;
+}
+
+// Vercel parses JSON bodies for us, but a client that forgets the
+// Content-Type header leaves us with a string.
+export function readJson(req) {
+  if (typeof req.body === "string") {
+    try {
+      return JSON.parse(req.body);
+    } catch {
+      throw new HttpError(400, "Request body must be valid JSON");
+    }
+  }
+  return req.body ?? {};
+}
+
+// Vercel Cron sends `Authorization: Bearer $CRON_SECRET` with every run.
+export function requireCronSecret(req) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    throw new HttpError(500, "CRON_SECRET is not configured");
+  }
+  if (req.headers.authorization !== `Bearer ${secret}`) {
+    throw new HttpError(401, "Unauthorized");
+  }
+}
@@ -0,0 +1,58 @@
+import { HttpError } from "./http.js";
+import { hasValidSignature, sign } from "./signing.js";
+
+// Files are never handed out by their storage URL. Instead the dashboard asks
+// for a download link, which is a signed token naming one document version
+// and an expiry time; /api/files/:token checks it and streams the file.
+const LINK_TTL_SECONDS = Number(process.env.FILE_LINK_TTL_SECONDS) || 5 * 60;
+
+export function createFileLink(documentId, version) {
+  const expiresAt = Math.floor(Date.now() / 1000) + LINK_TTL_SECONDS;
+  const payload = `${documentId}.${version}.${expiresAt}`;
+  return {
+    url: `/api/files/${payload}.${sign(payload)}`,
+    expiresAt: new Date(expiresAt * 1000).toISOString(),
+  };
+}
+
+// Returns the document version a token grants access to.
+export function verifyFileLink(token) {
+  const match = /^(\d+)\.(\d+)\.(\d+)\.([\w-]+)$/.exec(token || "");
+  if (!match) throw new HttpError(404, "Not found");
+  const [, documentId, version, expiresAt, signature] = match;
+  if (!hasValidSignature(`${documentId}.${version}.${expiresAt}`, signature)) {
+    throw new HttpError(404, "Not found");
+  }
+  if (Number(expiresAt) * 1000 < Date.now()) {
+    throw new HttpError(410, "This link has expired. Open the document again from the dashboard.");
+  }
+  return { documentId: Number(documentId), version: Number(version) };
+}
+
+// A link to a ZIP of several document versions, from a bulk download. Like a
+// single file link, it names exactly what may be downloaded and expires.
+export function createArchiveLink(entries) {
+  const expiresAt = Math.floor(Date.now() / 1000) + LINK_TTL_SECONDS;
+  const payload = `${entries.map((e) => `${e.documentId}-${e.version}`).join("_")}.${expiresAt}`;
+  return {
+    url: `/api/files/archive/${payload}.${sign(payload)}`,
+    expiresAt: new Date(expiresAt * 1000).toISOString(),
+  };
+}
+
+// Returns the document versions an archive token grants access to.
+export function verifyArchiveLink(token) {
+  const match = /^(\d+-\d+(?:_\d+-\d+)*)\.(\d+)\.([\w-]+)$/.exec(token || "");
+  if (!match) throw new HttpError(404, "Not found");
+  const [, entries, expiresAt, signature] = match;
+  if (!hasValidSignature(`${entries}.${expiresAt}`, signature)) {
+    throw new HttpError(404, "Not found");
+  }
+  if (Number(expiresAt) * 1000 < Date.now()) {
+    throw new HttpError(410, "This link has expired. Download the documents again from the dashboard.");
+  }
+  return entries.split("_").map((entry) => {
+    const [documentId, version] = entry.split("-").map(Number);
+    return { documentId, version };
+  });
+}
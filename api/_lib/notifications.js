@@ -0,0 +1,66 @@
+import { HttpError } from "./http.js";
+
+// In-app notifications. Each one belongs to a single user and keeps a copy
+// of the document's name, so it still reads correctly after the document is
+// renamed or deleted.
+const NOTIFICATION_COLUMNS = "id, kind, document_id, document_name, message, created_at, read_at";
+const MAX_LISTED = 50;
+
+function toNotification(row) {
+  return {
+    id: Number(row.id),
+    kind: row.kind,
+    documentId: row.document_id === null ? null : Number(row.document_id),
+    documentName: row.document_name,
+    message: row.message,
+    createdAt: row.created_at,
+    readAt: row.read_at,
+  };
+}
+
+// `db` may be an open transaction.
+export async function notifyUsers(db, userIds, kind, document, message) {
+  for (const userId of userIds) {
+    await db.execute({
+      sql: `INSERT INTO notifications (user_id, kind, document_id, document_name, message)
+            VALUES (?, ?, ?, ?, ?)`,
+      args: [userId, kind, document.id, document.name, message],
+    });
+  }
+}
+
+// The most recent notifications, newest first, and how many are unread in
+// total.
+export async function listNotifications(db, user) {
+  const [list, unread] = await Promise.all([
+    db.execute({
+      sql: `SELECT ${NOTIFICATION_COLUMNS} FROM notifications WHERE user_id = ? ORDER BY id DESC LIMIT ${MAX_LISTED}`,
+      args: [user.id],
+    }),
+    db.execute({
+      sql: "SELECT COUNT(*) AS count FROM notifications WHERE user_id = ? AND read_at IS NULL",
+      args: [user.id],
+    }),
+  ]);
+  return { notifications: list.rows.map(toNotification), unreadCount: Number(unread.rows[0].count) };
+}
+
+export function validateReadRequest(body) {
+  if (body.ids === undefined) return null;
+  if (!Array.isArray(body.ids) || !body.ids.every((id) => Number.isInteger(id) && id > 0)) {
+    throw new HttpError(400, "ids must be a list of notification ids");
+  }
+  return body.ids;
+}
+
+// Marks the given notifications (all of them when `ids` is null) as read.
+export async function markNotificationsRead(db, user, ids) {
+  if (ids && ids.length === 0) return listNotifications(db, user);
+  await db.execute({
+    sql: `UPDATE notifications SET read_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+          WHERE user_id = ? AND read_at IS NULL
+          ${ids ? `AND id IN (${ids.map(() => "?").join(", ")})` : ""}`,
+    args: [user.id, ...(ids ?? [])],
+  });
+  return listNotifications(db, user);
+}
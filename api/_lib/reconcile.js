@@ -0,0 +1,39 @@
+import { deleteBlobs, listBlobs } from "./blob.js";
+import { referencedFileUrls } from "./documents.js";
+import { forgetFileTexts } from "./extract.js";
+import { expireUploadSessions } from "./resumable.js";
+import { expireUploadReceipts } from "./uploads.js";
+
+// Blobs younger than this may belong to an upload whose document record is
+// still being created, so they are never treated as orphans.
+const DEFAULT_GRACE_PERIOD_MS = 60 * 60 * 1000;
+
+// Vercel Blob's del() accepts at most this many URLs per call.
+const DELETE_BATCH_SIZE = 100;
+
+export async function reconcileBlobs(db, { deleteOrphans = false, gracePeriodMs = DEFAULT_GRACE_PERIOD_MS } = {}) {
+  const referenced = await referencedFileUrls(db);
+  // Parts of resumable uploads still in progress are not orphans either.
+  for (const url of await expireUploadSessions(db)) referenced.add(url);
+  await expireUploadReceipts(db);
+  const cutoff = Date.now() - gracePeriodMs;
+  const orphans = [];
+  let scanned = 0;
+
+  for await (const blob of listBlobs()) {
+    scanned++;
+    if (referenced.has(blob.url)) continue;
+    if (new Date(blob.uploadedAt).getTime() > cutoff) continue;
+    orphans.push({ url: blob.url, pathname: blob.pathname, size: blob.size, uploadedAt: blob.uploadedAt });
+  }
+
+  if (deleteOrphans) {
+    for (let i = 0; i < orphans.length; i += DELETE_BATCH_SIZE) {
+      const urls = orphans.slice(i, i + DELETE_BATCH_SIZE).map((o) => o.url);
+      await deleteBlobs(urls);
+      await forgetFileTexts(db, urls);
+    }
+  }
+
+  return { scanned, orphans, deleted: deleteOrphans ? orphans.length : 0 };
+}
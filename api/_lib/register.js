@@ -0,0 +1,235 @@
+import { strToU8, zipSync } from "fflate";
+import { assertCan } from "./auth.js";
+import { STATUSES } from "./constants.js";
+import { exportDocuments, importDocuments, validateImportedDocument } from "./documents.js";
+import { listCustomFields } from "./fields.js";
+import { HttpError } from "./http.js";
+
+// The document register as a spreadsheet: exporting the documents that match
+// the dashboard's filters as CSV or XLSX, and importing rows (such as legacy
+// records kept in Excel) as documents without files. The dashboard reads the
+// spreadsheet and maps its columns; the server only sees rows of fields.
+export const EXPORT_FORMATS = ["csv", "xlsx"];
+export const MAX_EXPORT_ROWS = 10_000;
+export const MAX_IMPORT_ROWS = 2_000;
+const IMPORT_FIELDS = [
+  "name",
+  "division",
+  "documentType",
+  "status",
+  "issueDate",
+  "expiryDate",
+  "fileName",
+  "uploadedBy",
+  "uploadedAt",
+  "reviewer",
+  "rejectionReason",
+  "tags",
+];
+
+function describeRoute(document) {
+  if (!document.routeStatus) return null;
+  const where = document.routeUser ? `${document.routeUser} (${document.routeDivision})` : document.routeDivision;
+  return `${document.routeStatus === "in_transit" ? "In transit to" : "With"} ${where}`;
+}
+
+// `origin` is where the dashboard is served; each row links to its document.
+// The custom fields go in before "Created at" (see exportColumns).
+const EXPORT_COLUMNS = [
+  { header: "ID", width: 8, value: (d) => d.id },
+  { header: "Name", width: 40, value: (d) => d.name },
+  { header: "Division", width: 16, value: (d) => d.division },
+  { header: "Type", width: 16, value: (d) => d.documentType },
+  { header: "Tags", width: 24, value: (d) => d.tags.join(", ") || null },
+  { header: "Status", width: 12, value: (d) => d.status },
+  { header: "Version", width: 8, value: (d) => d.currentVersion || null },
+  { header: "File name", width: 30, value: (d) => d.fileName || null },
+  { header: "Uploaded by", width: 20, value: (d) => d.uploadedBy },
+  { header: "Uploaded at", width: 22, value: (d) => d.uploadedAt },
+  { header: "Issue date", width: 12, value: (d) => d.issueDate },
+  { header: "Expiry date", width: 12, value: (d) => d.expiryDate },
+  { header: "Reviewer", width: 20, value: (d) => d.reviewer },
+  { header: "Rejection reason", width: 30, value: (d) => d.rejectionReason },
+  { header: "Routing", width: 30, value: describeRoute },
+  { header: "Route due date", width: 14, value: (d) => d.routeDueDate },
+  { header: "Created at", width: 22, value: (d) => d.createdAt },
+  { header: "Updated at", width: 22, value: (d) => d.updatedAt },
+  { header: "SHA-256", width: 20, value: (d) => d.sha256 },
+  { header: "Link", width: 40, value: (d, origin) => `${origin}/?doc=${d.id}` },
+];
+
+function exportColumns(customFields) {
+  const at = EXPORT_COLUMNS.findIndex((column) => column.header === "Created at");
+  const fieldColumns = customFields.map((field) => ({
+    header: field.name,
+    width: field.type === "text" ? 24 : 14,
+    value: (d) => d.fieldValues[field.id] ?? null,
+  }));
+  return [...EXPORT_COLUMNS.slice(0, at), ...fieldColumns, ...EXPORT_COLUMNS.slice(at)];
+}
+
+// --- Export ---
+
+// `query` takes the filters and sort of GET /api/documents. Returns
+// { fileName, contentType, body }.
+export async function exportRegister(db, user, query, origin) {
+  const format = query.format || "csv";
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw new HttpError(400, `format must be one of: ${EXPORT_FORMATS.join(", ")}`);
+  }
+  const [documents, customFields] = await Promise.all([
+    exportDocuments(db, user, query, MAX_EXPORT_ROWS),
+    listCustomFields(db),
+  ]);
+  const columns = exportColumns(customFields);
+  const rows = documents.map((document) => columns.map((column) => column.value(document, origin) ?? null));
+  const fileName = `document-register-${new Date().toISOString().slice(0, 10)}.${format}`;
+  return format === "csv"
+    ? { fileName, contentType: "text/csv; charset=utf-8", body: Buffer.from(toCsv(columns, rows)) }
+    : {
+        fileName,
+        contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        body: Buffer.from(toXlsx(columns, rows)),
+      };
+}
+
+function csvCell(value) {
+  if (value === null) return "";
+  let text = String(value);
+  // Spreadsheet apps treat cells starting with these as formulas.
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// With a byte order mark, so Excel reads it as UTF-8.
+function toCsv(columns, rows) {
+  const lines = [columns.map((column) => column.header), ...rows].map((row) => row.map(csvCell).join(","));
+  return `\uFEFF${lines.join("\r\n")}\r\n`;
+}
+
+function columnName(index) {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function xmlText(value) {
+  return String(value)
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function xlsxCell(value, ref, style) {
+  if (value === null || value === "") return "";
+  if (typeof value === "number") return `<c r="${ref}"${style}><v>${value}</v></c>`;
+  return `<c r="${ref}" t="inlineStr"${style}><is><t xml:space="preserve">${xmlText(value)}</t></is></c>`;
+}
+
+// The smallest workbook Excel, LibreOffice and Google Sheets all open: one
+// sheet with inline strings, a bold frozen header row and a filter on it.
+function toXlsx(columns, rows) {
+  const table = [columns.map((column) => column.header), ...rows];
+  const lastCell = `${columnName(columns.length - 1)}${table.length}`;
+  const sheetRows = table
+    .map((row, r) => {
+      const style = r === 0 ? ' s="1"' : "";
+      return `<row r="${r + 1}">${row.map((value, c) => xlsxCell(value, `${columnName(c)}${r + 1}`, style)).join("")}</row>`;
+    })
+    .join("");
+  const cols = columns.map((column, c) => `<col min="${c + 1}" max="${c + 1}" width="${column.width}" customWidth="1"/>`).join("");
+  const main = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+  const rels = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+  const files = {
+    "[Content_Types].xml": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`,
+    "_rels/.rels": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${rels}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    "xl/workbook.xml": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="${main}" xmlns:r="${rels}"><sheets><sheet name="Documents" sheetId="1" r:id="rId1"/></sheets><definedNames><definedName name="_xlnm._FilterDatabase" localSheetId="0" hidden="1">Documents!$A$1:$${columnName(columns.length - 1)}$${table.length}</definedName></definedNames></workbook>`,
+    "xl/_rels/workbook.xml.rels": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${rels}/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="${rels}/styles" Target="styles.xml"/></Relationships>`,
+    "xl/styles.xml": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="${main}"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border/></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`,
+    "xl/worksheets/sheet1.xml": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="${main}"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><cols>${cols}</cols><sheetData>${sheetRows}</sheetData><autoFilter ref="A1:${lastCell}"/></worksheet>`,
+  };
+  return zipSync(Object.fromEntries(Object.entries(files).map(([name, xml]) => [name, strToU8(xml)])));
+}
+
+// --- Import ---
+
+export function validateImport(body) {
+  const { rows, dryRun } = body;
+  if (!Array.isArray(rows) || rows.length === 0 || !rows.every((row) => typeof row === "object" && row !== null)) {
+    throw new HttpError(400, "rows must be a non-empty list of objects");
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new HttpError(400, `At most ${MAX_IMPORT_ROWS} rows can be imported at once`);
+  }
+  if (dryRun !== undefined && typeof dryRun !== "boolean") {
+    throw new HttpError(400, "dryRun must be true or false");
+  }
+  return {
+    rows: rows.map((row) =>
+      Object.fromEntries(
+        IMPORT_FIELDS.filter((field) => row[field] !== undefined && row[field] !== null).map((field) => [field, String(row[field])])
+      )
+    ),
+    dryRun: dryRun !== false,
+  };
+}
+
+// Spreadsheets are rarely careful about case ("approved", "FINANCE"), so
+// values that only differ in case from a configured one count as that one.
+function canonical(value, allowed) {
+  if (value === undefined) return value;
+  const trimmed = value.trim();
+  return allowed.find((entry) => entry.toLowerCase() === trimmed.toLowerCase()) ?? trimmed;
+}
+
+// Checks every row and, unless it is a dry run, imports the rows without
+// errors (rows with errors are skipped). Each row reports its errors and
+// warnings (names its division already uses) and, once imported, the new
+// document.
+export async function importRegister(db, { rows, dryRun }, user, settings) {
+  assertCan(user, "admin");
+  const { rows: existing } = await db.execute("SELECT name, division FROM documents WHERE deleted_at IS NULL");
+  const names = new Set(existing.map((row) => `${row.division}\n${row.name.toLowerCase()}`));
+
+  const checked = rows.map((row, index) => {
+    const { input, errors } = validateImportedDocument(
+      {
+        ...row,
+        division: canonical(row.division, settings.divisions),
+        documentType: canonical(row.documentType, settings.documentTypes),
+        status: canonical(row.status, STATUSES),
+      },
+      settings
+    );
+    const warnings = [];
+    if (errors.length === 0) {
+      const key = `${input.division}\n${input.name.toLowerCase()}`;
+      if (names.has(key)) warnings.push(`${input.division} already has a document called "${input.name}"`);
+      names.add(key);
+    }
+    return { row: index + 1, ok: errors.length === 0, errors, warnings, input };
+  });
+
+  const valid = checked.filter((result) => result.ok);
+  if (!dryRun && valid.length > 0) {
+    const documents = await importDocuments(db, valid.map((result) => result.input), user);
+    valid.forEach((result, i) => (result.document = documents[i]));
+  }
+  return {
+    dryRun,
+    total: checked.length,
+    valid: valid.length,
+    imported: dryRun ? 0 : valid.length,
+    rows: checked,
+  };
+}
@@ -0,0 +1,139 @@
+import { randomUUID } from "node:crypto";
+import { deleteBlobs, openBlob, putBlob } from "./blob.js";
+import { HttpError } from "./http.js";
+import { assertUploadSize, checkFileName } from "./uploads.js";
+
+// Large files are uploaded in parts so a dropped connection only costs the
+// part in flight. Parts are stored as temporary blobs under uploads/ and
+// joined when the client completes the upload; from there on the file goes
+// through the same checks as a single-request upload. Every part except the
+// last must be exactly CHUNK_SIZE bytes, which keeps each request below the
+// platform's body size limit.
+export const CHUNK_SIZE = 4 * 1024 * 1024;
+
+// Sessions older than this are abandoned; reconcile.js clears them out.
+const SESSION_TTL_HOURS = 24;
+
+function partCount(size) {
+  return Math.ceil(size / CHUNK_SIZE);
+}
+
+async function describeSession(db, session) {
+  const { rows } = await db.execute({
+    sql: "SELECT part FROM upload_parts WHERE upload_id = ? ORDER BY part",
+    args: [session.id],
+  });
+  return {
+    uploadId: session.id,
+    fileName: session.file_name,
+    size: Number(session.size),
+    chunkSize: CHUNK_SIZE,
+    parts: rows.map((row) => Number(row.part)),
+  };
+}
+
+// Sessions are private to the user who started them.
+async function loadSession(db, user, uploadId) {
+  const { rows } = await db.execute({
+    sql: `SELECT id, file_name, size FROM upload_sessions
+          WHERE id = ? AND user_id = ?
+            AND created_at > strftime('%Y-%m-%dT%H:%M:%fZ', 'now', '-${SESSION_TTL_HOURS} hours')`,
+    args: [String(uploadId), user.id],
+  });
+  if (rows.length === 0) throw new HttpError(404, "Upload not found or expired, please start again");
+  return rows[0];
+}
+
+export async function startUpload(db, user, fileName, size) {
+  const { safeName } = checkFileName(fileName);
+  if (!Number.isInteger(size) || size <= 0) throw new HttpError(400, "size must be a positive number of bytes");
+  assertUploadSize(size);
+  const { rows } = await db.execute({
+    sql: "INSERT INTO upload_sessions (id, user_id, file_name, size) VALUES (?, ?, ?, ?) RETURNING id, file_name, size",
+    args: [randomUUID(), user.id, safeName, size],
+  });
+  return describeSession(db, rows[0]);
+}
+
+export async function getUpload(db, user, uploadId) {
+  return describeSession(db, await loadSession(db, user, uploadId));
+}
+
+// Sending a part again replaces it, so a retry after an unclear failure is
+// always safe.
+export async function savePart(db, user, uploadId, part, body) {
+  const session = await loadSession(db, user, uploadId);
+  const size = Number(session.size);
+  const count = partCount(size);
+  if (!Number.isInteger(part) || part < 0 || part >= count) {
+    throw new HttpError(400, `part must be between 0 and ${count - 1}`);
+  }
+  const expected = part === count - 1 ? size - part * CHUNK_SIZE : CHUNK_SIZE;
+  if (body.length !== expected) {
+    throw new HttpError(400, `Part ${part} must be ${expected} bytes, got ${body.length}`);
+  }
+  const { rows: previous } = await db.execute({
+    sql: "SELECT blob_url FROM upload_parts WHERE upload_id = ? AND part = ?",
+    args: [session.id, part],
+  });
+  const blob = await putBlob(`uploads/${session.id}/${part}`, body);
+  await db.execute({
+    sql: `INSERT INTO upload_parts (upload_id, part, blob_url, size) VALUES (?, ?, ?, ?)
+          ON CONFLICT (upload_id, part) DO UPDATE SET blob_url = excluded.blob_url, size = excluded.size`,
+    args: [session.id, part, blob.url, body.length],
+  });
+  if (previous.length) await deleteBlobs([previous[0].blob_url]);
+  return describeSession(db, session);
+}
+
+async function readBlob(url) {
+  const { stream } = await openBlob(url);
+  const chunks = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+}
+
+// Joins the parts into the whole file. The session is left in place until
+// `discardUpload`, so a failure after this point can still be retried.
+export async function assembleUpload(db, user, uploadId) {
+  const session = await loadSession(db, user, uploadId);
+  const { rows } = await db.execute({
+    sql: "SELECT part, blob_url FROM upload_parts WHERE upload_id = ? ORDER BY part",
+    args: [session.id],
+  });
+  const missing = partCount(Number(session.size)) - rows.length;
+  if (missing > 0) {
+    throw new HttpError(409, `${missing} part(s) have not been uploaded yet`);
+  }
+  const parts = [];
+  for (const row of rows) parts.push(await readBlob(row.blob_url));
+  return { fileName: session.file_name, body: Buffer.concat(parts) };
+}
+
+export async function discardUpload(db, user, uploadId) {
+  const session = await loadSession(db, user, uploadId);
+  await dropSessions(db, [session.id]);
+}
+
+async function dropSessions(db, ids) {
+  if (ids.length === 0) return;
+  const placeholders = ids.map(() => "?").join(", ");
+  const { rows } = await db.execute({
+    sql: `DELETE FROM upload_parts WHERE upload_id IN (${placeholders}) RETURNING blob_url`,
+    args: ids,
+  });
+  await db.execute({ sql: `DELETE FROM upload_sessions WHERE id IN (${placeholders})`, args: ids });
+  await deleteBlobs(rows.map((row) => row.blob_url));
+}
+
+// Removes abandoned sessions; returns the part blobs of the live ones, which
+// the reconciliation job must leave alone.
+export async function expireUploadSessions(db) {
+  const { rows: expired } = await db.execute(
+    `SELECT id FROM upload_sessions
+     WHERE created_at <= strftime('%Y-%m-%dT%H:%M:%fZ', 'now', '-${SESSION_TTL_HOURS} hours')`
+  );
+  await dropSessions(db, expired.map((row) => row.id));
+  const { rows } = await db.execute("SELECT blob_url FROM upload_parts");
+  return new Set(rows.map((row) => row.blob_url));
+}
@@ -0,0 +1,118 @@
+import { can } from "./auth.js";
+import { HttpError } from "./http.js";
+
+// Routing hands a document from one division or person to another, e.g. a
+// contract going to Legal for sign-off and back again. Every handover is a
+// row in `handovers`, so together they are the document's chain of custody.
+//
+//   send      starts a route from the document's own division
+//   receive   the recipient acknowledges that the document arrived
+//   forward   the holder passes it on to another division or person
+//   return    the holder sends it back to whoever it came from
+//   complete  the holder ends the route and keeps the document
+//
+// While a route is open, documents.route_* say where the document is:
+// route_status is "in_transit" until the recipient acknowledges it and
+// "received" after that. A handover addressed to a division can be received
+// by any of its members; whoever receives it becomes the holder.
+export const ROUTE_ACTIONS = ["send", "receive", "forward", "return", "complete"];
+
+export const HANDOVER_COLUMNS =
+  "id, action, from_division, from_user_id, from_user, to_division, to_user_id, to_user, note, due_date, sent_by, sent_at, received_by, received_at, outcome, closed_by, closed_at";
+
+export function toHandover(row) {
+  return {
+    id: Number(row.id),
+    action: row.action,
+    fromDivision: row.from_division,
+    fromUserId: row.from_user_id === null ? null : Number(row.from_user_id),
+    fromUser: row.from_user,
+    toDivision: row.to_division,
+    toUserId: row.to_user_id === null ? null : Number(row.to_user_id),
+    toUser: row.to_user,
+    note: row.note,
+    dueDate: row.due_date,
+    sentBy: row.sent_by,
+    sentAt: row.sent_at,
+    receivedBy: row.received_by,
+    receivedAt: row.received_at,
+    outcome: row.outcome,
+    closedBy: row.closed_by,
+    closedAt: row.closed_at,
+  };
+}
+
+// Whether an open route is waiting on the user: they are the person it is
+// addressed to or holds it, a member of the division it is addressed to, or
+// an admin. Such users may also open the document while it is with them.
+export function isRouteRecipient(user, document) {
+  if (!document.routeStatus) return false;
+  if (user.role === "admin") return true;
+  return document.routeUserId === null
+    ? user.divisions.includes(document.routeDivision)
+    : document.routeUserId === user.id;
+}
+
+// Validates a routing action against who is asking and where the document
+// is.
+export function checkRouteAction(action, document, user) {
+  if (!ROUTE_ACTIONS.includes(action)) {
+    throw new HttpError(400, `action must be one of: ${ROUTE_ACTIONS.join(", ")}`);
+  }
+  if (action === "send") {
+    if (document.routeStatus) {
+      throw new HttpError(409, "This document is already being routed");
+    }
+    if (!can(user, "edit", document.division)) {
+      throw new HttpError(403, `Only uploaders for ${document.division} can route this document`);
+    }
+    return;
+  }
+  if (!document.routeStatus) {
+    throw new HttpError(409, "This document is not being routed");
+  }
+  if (!isRouteRecipient(user, document)) {
+    throw new HttpError(403, "This document is not waiting on you");
+  }
+  if (action === "receive" && document.routeStatus !== "in_transit") {
+    throw new HttpError(409, "This document has already been received");
+  }
+  if (action !== "receive" && document.routeStatus !== "received") {
+    throw new HttpError(409, `The document has to be received before it can be ${action === "complete" ? "completed" : `${action}ed`}`);
+  }
+}
+
+// The open handover, i.e. the latest one, or null when the document has never
+// been routed.
+export async function latestHandover(tx, documentId) {
+  const { rows } = await tx.execute({
+    sql: `SELECT ${HANDOVER_COLUMNS} FROM handovers WHERE document_id = ? ORDER BY id DESC LIMIT 1`,
+    args: [documentId],
+  });
+  return rows.length ? toHandover(rows[0]) : null;
+}
+
+// `from` and `to` are { division, userId, user }; userId and user are null
+// for a whole division.
+export function recordHandover(tx, documentId, action, from, to, note, dueDate, actor) {
+  return tx.execute({
+    sql: `INSERT INTO handovers (document_id, action, from_division, from_user_id, from_user, to_division, to_user_id, to_user, note, due_date, sent_by)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [documentId, action, from.division, from.userId, from.user, to.division, to.userId, to.user, note, dueDate, actor],
+  });
+}
+
+export function receiveHandover(tx, handoverId, actor) {
+  return tx.execute({
+    sql: "UPDATE handovers SET received_by = ?, received_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = ?",
+    args: [actor, handoverId],
+  });
+}
+
+// `outcome` is "forwarded", "returned" or "completed".
+export function closeHandover(tx, handoverId, outcome, actor) {
+  return tx.execute({
+    sql: "UPDATE handovers SET outcome = ?, closed_by = ?, closed_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = ?",
+    args: [outcome, actor, handoverId],
+  });
+}
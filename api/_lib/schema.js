@@ -0,0 +1,356 @@
+// Ordered list of schema migrations. Each entry runs once, inside a single
+// write transaction, and is recorded in `schema_migrations`. Never edit an
+// entry that has shipped — append a new one instead.
+export const migrations = [
+  [
+    `CREATE TABLE IF NOT EXISTS documents (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      division TEXT NOT NULL,
+      status TEXT NOT NULL,
+      file_name TEXT NOT NULL,
+      file_url TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+      updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_documents_division ON documents (division)`,
+    `CREATE INDEX IF NOT EXISTS idx_documents_status ON documents (status)`,
+  ],
+  [
+    `CREATE TABLE IF NOT EXISTS document_versions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      document_id INTEGER NOT NULL REFERENCES documents (id),
+      version INTEGER NOT NULL,
+      file_name TEXT NOT NULL,
+      file_url TEXT NOT NULL,
+      size INTEGER,
+      uploaded_by TEXT,
+      note TEXT,
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+      UNIQUE (document_id, version)
+    )`,
+    `ALTER TABLE documents ADD COLUMN current_version INTEGER NOT NULL DEFAULT 1`,
+    // Every existing document becomes version 1 of itself.
+    `INSERT INTO document_versions (document_id, version, file_name, file_url, created_at)
+     SELECT id, 1, file_name, file_url, created_at FROM documents`,
+  ],
+  [
+    `ALTER TABLE documents ADD COLUMN reviewer TEXT`,
+    `ALTER TABLE documents ADD COLUMN rejection_reason TEXT`,
+    `CREATE TABLE IF NOT EXISTS status_transitions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      document_id INTEGER NOT NULL REFERENCES documents (id),
+      action TEXT NOT NULL,
+      from_status TEXT,
+      to_status TEXT NOT NULL,
+      actor TEXT,
+      reason TEXT,
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_status_transitions_document ON status_transitions (document_id)`,
+  ],
+  [
+    // No foreign key on document_id: entries must outlive deleted documents.
+    `CREATE TABLE IF NOT EXISTS audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      document_id INTEGER,
+      document_name TEXT,
+      division TEXT,
+      action TEXT NOT NULL,
+      actor TEXT,
+      details TEXT,
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_audit_log_document ON audit_log (document_id)`,
+    `CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log (created_at)`,
+    `CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+     BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END`,
+    `CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+     BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END`,
+  ],
+  [
+    `CREATE TABLE IF NOT EXISTS users (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      email TEXT NOT NULL UNIQUE,
+      name TEXT NOT NULL,
+      password_hash TEXT NOT NULL,
+      role TEXT NOT NULL,
+      divisions TEXT NOT NULL DEFAULT '[]',
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+    )`,
+    `CREATE TABLE IF NOT EXISTS sessions (
+      token_hash TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users (id),
+      expires_at TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions (user_id)`,
+  ],
+  // 6: SHA-256 checksums, measured by /api/upload. Files uploaded before
+  // this migration have none.
+  [
+    "ALTER TABLE documents ADD COLUMN sha256 TEXT",
+    "ALTER TABLE document_versions ADD COLUMN sha256 TEXT",
+    "CREATE INDEX IF NOT EXISTS idx_document_versions_sha256 ON document_versions (sha256)",
+  ],
+  // 7: full-text search. file_texts holds the text extracted from each stored
+  // file at upload; documents_fts indexes every document's name, file name
+  // and the text of its current file, and is kept in step by triggers.
+  [
+    `CREATE TABLE IF NOT EXISTS file_texts (
+      file_url TEXT PRIMARY KEY,
+      content TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+    )`,
+    `CREATE VIRTUAL TABLE IF NOT EXISTS documents_fts USING fts5 (
+      name, file_name, content,
+      tokenize = 'unicode61 remove_diacritics 2'
+    )`,
+    `CREATE TRIGGER IF NOT EXISTS documents_fts_insert AFTER INSERT ON documents BEGIN
+      INSERT INTO documents_fts (rowid, name, file_name, content)
+      VALUES (new.id, new.name, new.file_name,
+              COALESCE((SELECT content FROM file_texts WHERE file_url = new.file_url), ''));
+    END`,
+    `CREATE TRIGGER IF NOT EXISTS documents_fts_update AFTER UPDATE OF name, file_name, file_url ON documents BEGIN
+      DELETE FROM documents_fts WHERE rowid = old.id;
+      INSERT INTO documents_fts (rowid, name, file_name, content)
+      VALUES (new.id, new.name, new.file_name,
+              COALESCE((SELECT content FROM file_texts WHERE file_url = new.file_url), ''));
+    END`,
+    `CREATE TRIGGER IF NOT EXISTS documents_fts_delete AFTER DELETE ON documents BEGIN
+      DELETE FROM documents_fts WHERE rowid = old.id;
+    END`,
+    "INSERT INTO documents_fts (rowid, name, file_name, content) SELECT id, name, file_name, '' FROM documents",
+  ],
+  // 8: who uploaded the current file and when, kept on the document (like
+  // file_name) so the list can be sorted by upload date without a join.
+  [
+    "ALTER TABLE documents ADD COLUMN uploaded_by TEXT",
+    "ALTER TABLE documents ADD COLUMN uploaded_at TEXT",
+    `UPDATE documents SET
+       uploaded_by = (SELECT v.uploaded_by FROM document_versions v
+                      WHERE v.document_id = documents.id AND v.version = documents.current_version),
+       uploaded_at = COALESCE((SELECT v.created_at FROM document_versions v
+                               WHERE v.document_id = documents.id AND v.version = documents.current_version),
+                              created_at)`,
+    "CREATE INDEX IF NOT EXISTS idx_documents_uploaded_at ON documents (uploaded_at, id)",
+    "CREATE INDEX IF NOT EXISTS idx_documents_name ON documents (name COLLATE NOCASE, id)",
+  ],
+  // 9: named filter views, one list per user. `params` is the dashboard's
+  // query string, e.g. "division=Finance&status=Pending&q=invoice".
+  [
+    `CREATE TABLE IF NOT EXISTS saved_views (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL REFERENCES users (id),
+      name TEXT NOT NULL,
+      params TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+      UNIQUE (user_id, name)
+    )`,
+  ],
+  // 10: divisions and document types become lists admins manage (see
+  // settings.js). Documents keep the name as text, like before, so renames
+  // are applied to them explicitly. Statuses stay fixed by the workflow;
+  // only their colors are configurable.
+  [
+    `CREATE TABLE IF NOT EXISTS divisions (
+      name TEXT PRIMARY KEY COLLATE NOCASE,
+      position INTEGER NOT NULL
+    )`,
+    "INSERT OR IGNORE INTO divisions (name, position) VALUES ('HR', 0), ('Finance', 1), ('Engineering', 2), ('Marketing', 3)",
+    // Imported documents may use divisions outside the original four.
+    "INSERT OR IGNORE INTO divisions (name, position) SELECT DISTINCT division, 4 FROM documents",
+    `CREATE TABLE IF NOT EXISTS document_types (
+      name TEXT PRIMARY KEY COLLATE NOCASE,
+      position INTEGER NOT NULL
+    )`,
+    "INSERT OR IGNORE INTO document_types (name, position) VALUES ('Contract', 0), ('Invoice', 1), ('Policy', 2), ('Permit', 3)",
+    `CREATE TABLE IF NOT EXISTS status_colors (
+      status TEXT PRIMARY KEY,
+      color TEXT NOT NULL
+    )`,
+    `INSERT OR IGNORE INTO status_colors (status, color) VALUES
+      ('Pending', '#f39c12'), ('In Review', '#3498db'), ('Approved', '#2ecc71'), ('Rejected', '#e74c3c')`,
+    "ALTER TABLE documents ADD COLUMN document_type TEXT",
+    "CREATE INDEX IF NOT EXISTS idx_documents_document_type ON documents (document_type)",
+  ],
+  // 11: chunked uploads that can be resumed (see resumable.js). Each part
+  // is stored as its own temporary blob until the upload is completed.
+  [
+    `CREATE TABLE IF NOT EXISTS upload_sessions (
+      id TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users (id),
+      file_name TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+    )`,
+    `CREATE TABLE IF NOT EXISTS upload_parts (
+      upload_id TEXT NOT NULL REFERENCES upload_sessions (id),
+      part INTEGER NOT NULL,
+      blob_url TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      PRIMARY KEY (upload_id, part)
+    )`,
+  ],
+  // 12: optional validity dates (YYYY-MM-DD) and per-user notifications, the
+  // first kind being expiry reminders (see expiry.js). expiry_reminded_for
+  // holds the expiry date the last reminder was about.
+  [
+    "ALTER TABLE documents ADD COLUMN issue_date TEXT",
+    "ALTER TABLE documents ADD COLUMN expiry_date TEXT",
+    "ALTER TABLE documents ADD COLUMN expiry_reminded_for TEXT",
+    "CREATE INDEX IF NOT EXISTS idx_documents_expiry_date ON documents (expiry_date)",
+    `CREATE TABLE IF NOT EXISTS notifications (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL REFERENCES users (id),
+      kind TEXT NOT NULL,
+      document_id INTEGER,
+      document_name TEXT,
+      message TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+      read_at TEXT
+    )`,
+    "CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications (user_id, id)",
+  ],
+  // 13: outgoing webhooks and their delivery queue (see webhooks.js). events
+  // is a JSON array of event types; payload is the exact JSON body sent.
+  [
+    `CREATE TABLE IF NOT EXISTS webhooks (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      url TEXT NOT NULL,
+      description TEXT,
+      events TEXT NOT NULL,
+      secret TEXT NOT NULL,
+      active INTEGER NOT NULL DEFAULT 1,
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+    )`,
+    `CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      webhook_id INTEGER NOT NULL REFERENCES webhooks (id),
+      event_id TEXT NOT NULL,
+      event_type TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TEXT NOT NULL,
+      last_status INTEGER,
+      last_error TEXT,
+      delivered_at TEXT,
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+    )`,
+    "CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries (delivered_at, next_attempt_at)",
+    "CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries (webhook_id, id)",
+  ],
+  // 14: deleting moves a document to the trash; it is purged for good after
+  // TRASH_RETENTION_DAYS (see trash.js).
+  [
+    "ALTER TABLE documents ADD COLUMN deleted_at TEXT",
+    "ALTER TABLE documents ADD COLUMN deleted_by TEXT",
+    "CREATE INDEX IF NOT EXISTS idx_documents_deleted_at ON documents (deleted_at)",
+  ],
+  // 15: routing documents between divisions and people. handovers is the
+  // chain of custody; the route_* columns say where the document is now
+  // while it is being routed (see routing.js).
+  [
+    `CREATE TABLE IF NOT EXISTS handovers (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      document_id INTEGER NOT NULL REFERENCES documents (id),
+      action TEXT NOT NULL,
+      from_division TEXT NOT NULL,
+      from_user_id INTEGER,
+      from_user TEXT,
+      to_division TEXT NOT NULL,
+      to_user_id INTEGER,
+      to_user TEXT,
+      note TEXT,
+      due_date TEXT,
+      sent_by TEXT NOT NULL,
+      sent_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+      received_by TEXT,
+      received_at TEXT,
+      outcome TEXT,
+      closed_by TEXT,
+      closed_at TEXT
+    )`,
+    "CREATE INDEX IF NOT EXISTS idx_handovers_document ON handovers (document_id, id)",
+    "ALTER TABLE documents ADD COLUMN route_status TEXT",
+    "ALTER TABLE documents ADD COLUMN route_division TEXT",
+    "ALTER TABLE documents ADD COLUMN route_user_id INTEGER",
+    "ALTER TABLE documents ADD COLUMN route_user TEXT",
+    "ALTER TABLE documents ADD COLUMN route_due_date TEXT",
+    "CREATE INDEX IF NOT EXISTS idx_documents_route ON documents (route_status, route_division)",
+  ],
+  // 16: comment threads on documents. comment_count is kept up to date with
+  // the comments, so the cards can show it (see comments.js).
+  [
+    `CREATE TABLE IF NOT EXISTS comments (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      document_id INTEGER NOT NULL REFERENCES documents (id),
+      author_id INTEGER,
+      author TEXT NOT NULL,
+      body TEXT NOT NULL,
+      mentions TEXT NOT NULL DEFAULT '[]',
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+    )`,
+    "CREATE INDEX IF NOT EXISTS idx_comments_document ON comments (document_id, id)",
+    "ALTER TABLE documents ADD COLUMN comment_count INTEGER NOT NULL DEFAULT 0",
+  ],
+  // 17: free-form tags and admin-defined custom fields (see fields.js). Both
+  // are JSON on the document: tags an array, field_values an object keyed by
+  // field id.
+  [
+    "ALTER TABLE documents ADD COLUMN tags TEXT NOT NULL DEFAULT '[]'",
+    "ALTER TABLE documents ADD COLUMN field_values TEXT NOT NULL DEFAULT '{}'",
+    `CREATE TABLE IF NOT EXISTS custom_fields (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      type TEXT NOT NULL,
+      options TEXT NOT NULL DEFAULT '[]',
+      document_types TEXT,
+      required_for TEXT NOT NULL DEFAULT '[]',
+      position INTEGER NOT NULL
+    )`,
+  ],
+  // 18: what an upload receipt stands for, kept on the server so the blob
+  // URL never reaches the browser (see uploads.js).
+  [
+    `CREATE TABLE IF NOT EXISTS upload_receipts (
+      id TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL,
+      file_name TEXT NOT NULL,
+      file_url TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      sha256 TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+    )`,
+  ],
+];
+
+async function currentVersion(client) {
+  const { rows } = await client.execute("SELECT COALESCE(MAX(version), 0) AS version FROM schema_migrations");
+  return Number(rows[0].version);
+}
+
+export async function migrate(client) {
+  await client.execute(
+    `CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      applied_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+    )`
+  );
+
+  let version = await currentVersion(client);
+  while (version < migrations.length) {
+    const next = version + 1;
+    try {
+      await client.batch(
+        [...migrations[version], { sql: "INSERT INTO schema_migrations (version) VALUES (?)", args: [next] }],
+        "write"
+      );
+    } catch (err) {
+      // Another cold-started function may have applied the same migration
+      // concurrently; its transaction wins and ours rolls back.
+      if ((await currentVersion(client)) < next) throw err;
+    }
+    version = await currentVersion(client);
+  }
+}
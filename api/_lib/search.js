@@ -0,0 +1,42 @@
+// Full-text search over document names, file names and file contents (see
+// migration 7). Text is extracted once, when a file is uploaded (extract.js).
+// listDocuments joins against the matches and can sort by their rank.
+
+// Snippet boundaries, swapped for <mark> once the text around them is escaped.
+const MARK_START = "\u0002";
+const MARK_END = "\u0003";
+
+function escapeHtml(text) {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+// Every word the user typed must appear, as a prefix, in any column. Each
+// word is quoted so FTS5 operators in the input are taken literally.
+function toMatchQuery(q) {
+  const words = q.split(/\s+/).filter(Boolean).slice(0, 10);
+  return words.map((word) => `"${word.replace(/"/g, '""')}"*`).join(" ");
+}
+
+// A `matches (id, rank, snippet)` common table expression for the search
+// text, or null when there is nothing to search for. Lower ranks are better.
+export function searchMatches(q) {
+  const match = toMatchQuery(String(q || "").trim());
+  if (!match) return null;
+  return {
+    sql: `matches AS (
+            SELECT rowid AS id,
+                   bm25(documents_fts, 10.0, 5.0, 1.0) AS rank,
+                   snippet(documents_fts, -1, ?, ?, '…', 16) AS snippet
+            FROM documents_fts
+            WHERE documents_fts MATCH ?
+          )`,
+    args: [MARK_START, MARK_END, match],
+  };
+}
+
+// Snippets are returned as HTML: the matched words are wrapped in <mark> and
+// everything else is escaped.
+export function snippetHtml(snippet) {
+  if (!snippet) return null;
+  return escapeHtml(snippet).replaceAll(MARK_START, "<mark>").replaceAll(MARK_END, "</mark>");
+}
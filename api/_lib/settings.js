@@ -0,0 +1,228 @@
+import { recordAudit } from "./audit.js";
+import { EXPIRY_REMINDER_DAYS, STATUSES, TRASH_RETENTION_DAYS } from "./constants.js";
+import { listCustomFields, replaceFieldDocumentType } from "./fields.js";
+import { HttpError } from "./http.js";
+
+// Lists admins manage from the Settings page. Documents store the chosen
+// name as text, so renaming or removing an entry rewrites the documents that
+// use it (with an audit entry each) in the same transaction.
+const LISTS = {
+  divisions: { table: "divisions", column: "division", field: "division", label: "Division", required: true },
+  documentTypes: { table: "document_types", column: "document_type", field: "documentType", label: "Document type", required: false },
+};
+
+const MAX_NAME_LENGTH = 40;
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+async function names(db, list) {
+  const { rows } = await db.execute(`SELECT name FROM ${LISTS[list].table} ORDER BY position, name`);
+  return rows.map((row) => row.name);
+}
+
+// Everything the dashboard needs to render forms and filters. Statuses come
+// in workflow order. expiryReminderDays is how far ahead a document counts
+// as expiring soon. customFields are the definitions from fields.js.
+export async function loadSettings(db) {
+  const [divisions, documentTypes, colors, customFields] = await Promise.all([
+    names(db, "divisions"),
+    names(db, "documentTypes"),
+    db.execute("SELECT status, color FROM status_colors"),
+    listCustomFields(db),
+  ]);
+  const colorOf = Object.fromEntries(colors.rows.map((row) => [row.status, row.color]));
+  return {
+    divisions,
+    documentTypes,
+    statuses: STATUSES.map((name) => ({ name, color: colorOf[name] ?? null })),
+    customFields,
+    expiryReminderDays: EXPIRY_REMINDER_DAYS,
+    trashRetentionDays: TRASH_RETENTION_DAYS,
+  };
+}
+
+export function validateListName(body) {
+  const name = typeof body.name === "string" ? body.name.trim().replace(/\s+/g, " ") : "";
+  if (!name) throw new HttpError(400, "name is required");
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new HttpError(400, `name can be at most ${MAX_NAME_LENGTH} characters`);
+  }
+  return name;
+}
+
+export function validateColor(body) {
+  if (typeof body.color !== "string" || !COLOR_PATTERN.test(body.color)) {
+    throw new HttpError(400, "color must be a hex color such as #3498db");
+  }
+  return body.color.toLowerCase();
+}
+
+// Looks a name up case-insensitively and returns it as stored.
+async function findEntry(db, list, name) {
+  const { rows } = await db.execute({
+    sql: `SELECT name FROM ${LISTS[list].table} WHERE name = ?`,
+    args: [String(name)],
+  });
+  if (rows.length === 0) throw new HttpError(404, `${LISTS[list].label} not found`);
+  return rows[0].name;
+}
+
+export async function addListEntry(db, list, name) {
+  try {
+    await db.execute({
+      sql: `INSERT INTO ${LISTS[list].table} (name, position)
+            SELECT ?, COALESCE(MAX(position), -1) + 1 FROM ${LISTS[list].table}`,
+      args: [name],
+    });
+  } catch (err) {
+    if (/UNIQUE constraint failed/.test(err.message)) {
+      throw new HttpError(409, `${LISTS[list].label} "${name}" already exists`);
+    }
+    throw err;
+  }
+  return names(db, list);
+}
+
+// Points every document using `from` at `to` (null clears it).
+async function moveDocuments(tx, list, from, to, actor) {
+  const { column, field } = LISTS[list];
+  const { rows } = await tx.execute({
+    sql: `UPDATE documents
+          SET ${column} = ?, updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+          WHERE ${column} = ?
+          RETURNING id, name, division`,
+    args: [to, from],
+  });
+  for (const row of rows) {
+    const document = { id: Number(row.id), name: row.name, division: row.division };
+    await recordAudit(tx, "edit", document, actor, { changes: { [field]: { from, to } } });
+  }
+  return rows.length;
+}
+
+// Rewrites one division in every user's list; `to` null drops it.
+async function replaceUserDivision(tx, from, to) {
+  await tx.execute({
+    sql: `UPDATE users
+          SET divisions = (
+            SELECT json_group_array(CASE WHEN value = ?1 THEN ?2 ELSE value END)
+            FROM json_each(users.divisions)
+            WHERE ?2 IS NOT NULL OR value <> ?1
+          )
+          WHERE EXISTS (SELECT 1 FROM json_each(users.divisions) WHERE value = ?1)`,
+    args: [from, to],
+  });
+}
+
+// Open routes and the handovers they return along name divisions too (see
+// routing.js).
+async function renameRouteDivision(tx, from, to) {
+  await tx.execute({ sql: "UPDATE documents SET route_division = ? WHERE route_division = ?", args: [to, from] });
+  await tx.execute({ sql: "UPDATE handovers SET from_division = ? WHERE from_division = ?", args: [to, from] });
+  await tx.execute({ sql: "UPDATE handovers SET to_division = ? WHERE to_division = ?", args: [to, from] });
+}
+
+export async function renameListEntry(db, list, name, newName, user) {
+  const tx = await db.transaction("write");
+  try {
+    const current = await findEntry(tx, list, name);
+    if (newName !== current) {
+      try {
+        await tx.execute({
+          sql: `UPDATE ${LISTS[list].table} SET name = ? WHERE name = ?`,
+          args: [newName, current],
+        });
+      } catch (err) {
+        if (/UNIQUE constraint failed/.test(err.message)) {
+          throw new HttpError(409, `${LISTS[list].label} "${newName}" already exists`);
+        }
+        throw err;
+      }
+      await moveDocuments(tx, list, current, newName, user.name);
+      if (list === "divisions") {
+        await replaceUserDivision(tx, current, newName);
+        await renameRouteDivision(tx, current, newName);
+      } else {
+        await replaceFieldDocumentType(tx, current, newName);
+      }
+    }
+    await tx.commit();
+  } finally {
+    tx.close();
+  }
+  return names(db, list);
+}
+
+// Open routes that pass through a division: the document is there now, or
+// one of the handovers it would be returned along starts or ends there.
+async function countRoutesThrough(tx, division) {
+  const { rows } = await tx.execute({
+    sql: `SELECT COUNT(*) AS count FROM documents d
+          WHERE d.route_status IS NOT NULL
+            AND (d.route_division = ?1 OR EXISTS (
+              SELECT 1 FROM handovers h
+              WHERE h.document_id = d.id AND (h.from_division = ?1 OR h.to_division = ?1)
+                AND h.id >= (SELECT MAX(id) FROM handovers WHERE document_id = d.id AND action = 'send')
+            ))`,
+    args: [division],
+  });
+  return Number(rows[0].count);
+}
+
+// A division that still has documents or open routes can only be removed by
+// moving them to another division. Documents of a removed type move to
+// `moveTo` when given and are left without a type otherwise.
+export async function removeListEntry(db, list, name, moveTo, user) {
+  const { label, column, required } = LISTS[list];
+  const tx = await db.transaction("write");
+  try {
+    const current = await findEntry(tx, list, name);
+    const target = moveTo ? await findEntry(tx, list, moveTo) : null;
+    if (target === current) {
+      throw new HttpError(400, "Documents cannot be moved to the entry being removed");
+    }
+    if (required) {
+      const { rows } = await tx.execute(`SELECT COUNT(*) AS count FROM ${LISTS[list].table}`);
+      if (Number(rows[0].count) === 1) {
+        throw new HttpError(409, `The last ${label.toLowerCase()} cannot be removed`);
+      }
+      if (!target) {
+        const { rows: used } = await tx.execute({
+          sql: `SELECT COUNT(*) AS count FROM documents WHERE ${column} = ?`,
+          args: [current],
+        });
+        const count = Number(used[0].count);
+        if (count > 0) {
+          throw new HttpError(409, `${count} document(s) are still in ${current}. Choose a ${label.toLowerCase()} to move them to.`);
+        }
+      }
+    }
+    if (list === "divisions" && !target) {
+      const routes = await countRoutesThrough(tx, current);
+      if (routes > 0) {
+        throw new HttpError(409, `${routes} document(s) are being routed through ${current}. Choose a division to move them to.`);
+      }
+    }
+    await moveDocuments(tx, list, current, target, user.name);
+    if (list === "divisions") {
+      await replaceUserDivision(tx, current, null);
+      if (target) await renameRouteDivision(tx, current, target);
+    } else {
+      await replaceFieldDocumentType(tx, current, null);
+    }
+    await tx.execute({ sql: `DELETE FROM ${LISTS[list].table} WHERE name = ?`, args: [current] });
+    await tx.commit();
+  } finally {
+    tx.close();
+  }
+  return names(db, list);
+}
+
+export async function setStatusColor(db, status, color) {
+  if (!STATUSES.includes(status)) throw new HttpError(404, "Status not found");
+  await db.execute({
+    sql: `INSERT INTO status_colors (status, color) VALUES (?, ?)
+          ON CONFLICT (status) DO UPDATE SET color = excluded.color`,
+    args: [status, color],
+  });
+  return (await loadSettings(db)).statuses;
+}
@@ -0,0 +1,23 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { usingLocalBlobStore } from "./blob.js";
+import { HttpError } from "./http.js";
+
+// HMAC signatures for the tokens the server hands out and later trusts:
+// file links (links.js) and upload receipts (uploads.js).
+function signingSecret() {
+  const secret = process.env.FILE_LINK_SECRET;
+  if (secret) return secret;
+  // The local blob store is only ever used in development.
+  if (usingLocalBlobStore()) return "local-file-link-secret";
+  throw new HttpError(500, "FILE_LINK_SECRET is not configured");
+}
+
+export function sign(payload) {
+  return createHmac("sha256", signingSecret()).update(payload).digest("base64url");
+}
+
+export function hasValidSignature(payload, signature) {
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,109 @@
+import { recordAudit } from "./audit.js";
+import { assertCan, can } from "./auth.js";
+import { deleteBlobs } from "./blob.js";
+import { TRASH_RETENTION_DAYS } from "./constants.js";
+import { eraseDocument, toDocument } from "./documents.js";
+import { emitEvent } from "./events.js";
+import { HttpError } from "./http.js";
+
+// Deleted documents wait in the trash for TRASH_RETENTION_DAYS. Until then
+// anyone who could delete them can put them back (the dashboard's "Undo"),
+// and admins can see the whole trash and purge documents early. Purging
+// removes the document, its history and its files for good; the audit log
+// keeps its entries.
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toTrashedDocument(row) {
+  return {
+    ...toDocument(row),
+    deletedAt: row.deleted_at,
+    deletedBy: row.deleted_by,
+    purgeAt: new Date(Date.parse(row.deleted_at) + TRASH_RETENTION_DAYS * DAY_MS).toISOString(),
+  };
+}
+
+// Like loadDocument, but for documents in the trash. `db` may be an open
+// transaction.
+async function loadTrashedDocument(db, id, user) {
+  const { rows } = await db.execute({
+    sql: "SELECT * FROM documents WHERE id = ? AND deleted_at IS NOT NULL",
+    args: [id],
+  });
+  const document = rows.length ? toTrashedDocument(rows[0]) : null;
+  if (!document || !can(user, "view", document.division)) {
+    throw new HttpError(404, "Document not found in the trash");
+  }
+  return document;
+}
+
+// Most recently deleted first.
+export async function listTrash(db) {
+  const { rows } = await db.execute("SELECT * FROM documents WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC, id DESC");
+  return rows.map(toTrashedDocument);
+}
+
+export async function restoreDocument(db, id, user) {
+  const tx = await db.transaction("write");
+  try {
+    const trashed = await loadTrashedDocument(tx, id, user);
+    assertCan(user, "delete", trashed.division);
+    const { rows } = await tx.execute({
+      sql: `UPDATE documents
+            SET deleted_at = NULL, deleted_by = NULL, updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+            WHERE id = ?
+            RETURNING *`,
+      args: [id],
+    });
+    const document = toDocument(rows[0]);
+    await recordAudit(tx, "restore", document, user.name, { deletedAt: trashed.deletedAt, deletedBy: trashed.deletedBy });
+    await emitEvent(tx, "document.restored", document, user);
+    await tx.commit();
+    return document;
+  } finally {
+    tx.close();
+  }
+}
+
+// Returns the file URLs to remove from blob storage.
+async function purge(db, document, actor) {
+  const tx = await db.transaction("write");
+  try {
+    const fileUrls = await eraseDocument(tx, document.id);
+    await recordAudit(tx, "purge", document, actor, { fileName: document.fileName, deletedAt: document.deletedAt });
+    await tx.commit();
+    return fileUrls;
+  } finally {
+    tx.close();
+  }
+}
+
+export async function purgeDocument(db, id, user) {
+  assertCan(user, "admin");
+  const document = await loadTrashedDocument(db, id, user);
+  return { document, fileUrls: await purge(db, document, user.name) };
+}
+
+// Purges everything that has been in the trash longer than
+// TRASH_RETENTION_DAYS, files included. Meant to run once a day from
+// api/cron/purge-trash.js.
+export async function purgeExpiredTrash(db) {
+  const { rows } = await db.execute({
+    sql: `SELECT * FROM documents
+          WHERE deleted_at < strftime('%Y-%m-%dT%H:%M:%fZ', 'now', ?)
+          ORDER BY deleted_at`,
+    args: [`-${TRASH_RETENTION_DAYS} days`],
+  });
+  let files = 0;
+  for (const row of rows) {
+    const fileUrls = await purge(db, toTrashedDocument(row), "Trash retention");
+    try {
+      await deleteBlobs(fileUrls);
+      files += fileUrls.length;
+    } catch (err) {
+      // The records are already gone; the blob reconciliation job will pick
+      // up the leftover files.
+      console.error(`Failed to delete blobs of purged document ${row.id}:`, err);
+    }
+  }
+  return { documents: rows.length, files };
+}
@@ -0,0 +1,183 @@
+import { createHash, randomUUID } from "node:crypto";
+import path from "node:path";
+import { HttpError } from "./http.js";
+import { hasValidSignature, sign } from "./signing.js";
+
+// File types the server knows how to recognise from their first bytes. The
+// extension a file claims must agree with its content. UPLOAD_ALLOWED_TYPES
+// (comma-separated extensions) narrows the list; types not in this table can
+// never be allowed, since there would be nothing to check them against.
+const isZip = (bytes) => startsWith(bytes, [0x50, 0x4b, 0x03, 0x04]);
+const isOle = (bytes) => startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+const FILE_TYPES = {
+  pdf: { mime: "application/pdf", sniff: (b) => startsWith(b, [...Buffer.from("%PDF-")]) },
+  png: { mime: "image/png", sniff: (b) => startsWith(b, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) },
+  jpg: { mime: "image/jpeg", sniff: (b) => startsWith(b, [0xff, 0xd8, 0xff]) },
+  jpeg: { mime: "image/jpeg", sniff: (b) => startsWith(b, [0xff, 0xd8, 0xff]) },
+  gif: { mime: "image/gif", sniff: (b) => startsWith(b, [...Buffer.from("GIF87a")]) || startsWith(b, [...Buffer.from("GIF89a")]) },
+  webp: { mime: "image/webp", sniff: (b) => startsWith(b, [...Buffer.from("RIFF")]) && b.subarray(8, 12).toString() === "WEBP" },
+  txt: { mime: "text/plain; charset=utf-8", sniff: isUtf8Text },
+  md: { mime: "text/markdown; charset=utf-8", sniff: isUtf8Text },
+  csv: { mime: "text/csv; charset=utf-8", sniff: isUtf8Text },
+  doc: { mime: "application/msword", sniff: isOle },
+  xls: { mime: "application/vnd.ms-excel", sniff: isOle },
+  ppt: { mime: "application/vnd.ms-powerpoint", sniff: isOle },
+  docx: { mime: "application/vnd.openxmlformats-officedocument.wordprocessingml.document", sniff: isZip },
+  xlsx: { mime: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", sniff: isZip },
+  pptx: { mime: "application/vnd.openxmlformats-officedocument.presentationml.presentation", sniff: isZip },
+};
+
+const MAX_UPLOAD_BYTES = (Number(process.env.UPLOAD_MAX_MB) || 20) * 1024 * 1024;
+const RECEIPT_TTL_SECONDS = 60 * 60;
+const MAX_FILE_NAME_LENGTH = 120;
+
+function startsWith(bytes, prefix) {
+  return bytes.length >= prefix.length && prefix.every((byte, i) => bytes[i] === byte);
+}
+
+function isUtf8Text(bytes) {
+  if (bytes.includes(0)) return false;
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function allowedExtensions() {
+  const configured = (process.env.UPLOAD_ALLOWED_TYPES || "")
+    .split(",")
+    .map((ext) => ext.trim().toLowerCase().replace(/^\./, ""))
+    .filter(Boolean);
+  const known = Object.keys(FILE_TYPES);
+  return configured.length ? configured.filter((ext) => known.includes(ext)) : known;
+}
+
+// Keeps a filename safe to show and to send back in headers: no directories,
+// control characters or shell/URL metacharacters, and a bounded length.
+export function sanitizeFileName(name) {
+  const base = path.basename(String(name).replace(/\\/g, "/")).normalize("NFKC");
+  let ext = path.extname(base).toLowerCase();
+  let stem = base.slice(0, base.length - ext.length);
+  stem = stem
+    .replace(/[^\p{L}\p{N} ._()-]/gu, "_")
+    .replace(/\s+/g, " ")
+    .replace(/_{2,}/g, "_")
+    .trim()
+    .replace(/^\.+/, "");
+  ext = ext.replace(/[^a-z0-9.]/g, "");
+  return (stem || "file").slice(0, MAX_FILE_NAME_LENGTH - ext.length) + ext;
+}
+
+export function assertUploadSize(size) {
+  if (size > MAX_UPLOAD_BYTES) {
+    throw new HttpError(413, `Files can be at most ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB`);
+  }
+}
+
+// Reads the request body, stopping as soon as it exceeds `maxBytes` (the
+// file size limit by default; one chunk for resumable uploads).
+export async function readUploadBody(req, maxBytes = MAX_UPLOAD_BYTES) {
+  const tooLarge = () => new HttpError(413, `Uploads can be at most ${maxBytes / (1024 * 1024)} MB per request`);
+  if (Number(req.headers["content-length"]) > maxBytes) throw tooLarge();
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) throw tooLarge();
+    chunks.push(Buffer.from(chunk));
+  }
+  if (size === 0) throw new HttpError(400, "File is empty");
+  return Buffer.concat(chunks);
+}
+
+// Checks a file name against the allow-list; returns the sanitized name and
+// its extension. Resumable uploads call this before any data is sent.
+export function checkFileName(fileName) {
+  const safeName = sanitizeFileName(fileName);
+  const ext = path.extname(safeName).slice(1);
+  const allowed = allowedExtensions();
+  if (!allowed.includes(ext)) {
+    throw new HttpError(415, `${ext ? `.${ext} files are` : "Files without an extension are"} not allowed. Allowed types: ${allowed.join(", ")}`);
+  }
+  return { safeName, ext };
+}
+
+// Checks an uploaded file against the allow-list and describes it.
+export function inspectUpload(fileName, body) {
+  const { safeName, ext } = checkFileName(fileName);
+  assertUploadSize(body.length);
+  if (!FILE_TYPES[ext].sniff(body)) {
+    throw new HttpError(415, `The file's content does not match its .${ext} extension`);
+  }
+  return {
+    fileName: safeName,
+    contentType: FILE_TYPES[ext].mime,
+    size: body.length,
+    sha256: createHash("sha256").update(body).digest("hex"),
+  };
+}
+
+// Storage keys never contain anything the client sent, apart from the
+// (already checked) extension.
+export function storageKey(fileName) {
+  return `documents/${randomUUID()}${path.extname(fileName)}`;
+}
+
+// The upload response carries a signed receipt. Creating a document or a
+// version takes the receipt instead of loose fields, so the file name, size
+// and checksum stored are the ones the server measured. The receipt itself
+// only names a row of upload_receipts: the blob's URL stays on the server.
+export async function createUploadReceipt(db, user, upload) {
+  const id = randomUUID();
+  await db.execute({
+    sql: `INSERT INTO upload_receipts (id, user_id, file_name, file_url, size, sha256)
+          VALUES (?, ?, ?, ?, ?, ?)`,
+    args: [id, user.id, upload.fileName, upload.fileUrl, upload.size, upload.sha256],
+  });
+  const payload = Buffer.from(
+    JSON.stringify({ id, exp: Math.floor(Date.now() / 1000) + RECEIPT_TTL_SECONDS })
+  ).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+export async function verifyUploadReceipt(db, receipt) {
+  const [payload, signature] = String(receipt).split(".");
+  if (!payload || !signature || !hasValidSignature(payload, signature)) {
+    throw new HttpError(400, "upload is not a valid upload receipt");
+  }
+  const { id, exp } = JSON.parse(Buffer.from(payload, "base64url").toString());
+  if (exp * 1000 < Date.now()) {
+    throw new HttpError(400, "The upload has expired, please upload the file again");
+  }
+  const { rows } = await db.execute({
+    sql: "SELECT id, user_id, file_name, file_url, size, sha256 FROM upload_receipts WHERE id = ?",
+    args: [String(id)],
+  });
+  if (rows.length === 0) throw new HttpError(400, "The upload has expired, please upload the file again");
+  return {
+    id: rows[0].id,
+    userId: Number(rows[0].user_id),
+    fileName: rows[0].file_name,
+    fileUrl: rows[0].file_url,
+    size: Number(rows[0].size),
+    sha256: rows[0].sha256,
+  };
+}
+
+// Uses a receipt up, so the same upload cannot be stored or discarded twice.
+export async function spendUploadReceipt(db, id) {
+  const { rowsAffected } = await db.execute({ sql: "DELETE FROM upload_receipts WHERE id = ?", args: [id] });
+  if (rowsAffected === 0) throw new HttpError(409, "This upload has already been used, please upload the file again");
+}
+
+// Receipts are only good for RECEIPT_TTL_SECONDS; reconcile.js clears out
+// the rows behind the expired ones.
+export async function expireUploadReceipts(db) {
+  await db.execute(
+    `DELETE FROM upload_receipts
+     WHERE created_at <= strftime('%Y-%m-%dT%H:%M:%fZ', 'now', '-${RECEIPT_TTL_SECONDS} seconds')`
+  );
+}
@@ -0,0 +1,181 @@
+import { hashPassword, ROLES, toUser } from "./auth.js";
+import { HttpError } from "./http.js";
+
+const USER_COLUMNS = "id, email, name, role, divisions";
+const MIN_PASSWORD_LENGTH = 8;
+
+function validateDivisions(value, divisions) {
+  if (!Array.isArray(value) || value.some((d) => !divisions.includes(d))) {
+    throw new HttpError(400, `divisions must be a list of: ${divisions.join(", ")}`);
+  }
+  return [...new Set(value)];
+}
+
+function validatePassword(value) {
+  if (typeof value !== "string" || value.length < MIN_PASSWORD_LENGTH) {
+    throw new HttpError(400, `password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  return value;
+}
+
+function validateRole(value) {
+  if (!ROLES.includes(value)) {
+    throw new HttpError(400, `role must be one of: ${ROLES.join(", ")}`);
+  }
+  return value;
+}
+
+function validateText(body, field) {
+  const value = body[field];
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new HttpError(400, `${field} is required`);
+  }
+  return value.trim();
+}
+
+// `divisions` is the configured list (settings.js).
+export function validateNewUser(body, divisions) {
+  return {
+    email: validateText(body, "email").toLowerCase(),
+    name: validateText(body, "name"),
+    password: validatePassword(body.password),
+    role: validateRole(body.role),
+    divisions: validateDivisions(body.divisions, divisions),
+  };
+}
+
+export function validateUserPatch(body, divisions) {
+  const patch = {};
+  if ("name" in body) patch.name = validateText(body, "name");
+  if ("role" in body) patch.role = validateRole(body.role);
+  if ("divisions" in body) patch.divisions = validateDivisions(body.divisions, divisions);
+  // An empty password field in the edit form means "keep the current one".
+  if (body.password) patch.password = validatePassword(body.password);
+  if (Object.keys(patch).length === 0) {
+    throw new HttpError(400, "Nothing to update");
+  }
+  return patch;
+}
+
+export async function listUsers(db) {
+  const { rows } = await db.execute(`SELECT ${USER_COLUMNS} FROM users ORDER BY name`);
+  return rows.map(toUser);
+}
+
+// Admins count as members of every division.
+export async function listDirectory(db) {
+  return (await listUsers(db)).map(({ id, name, role, divisions }) => ({
+    id,
+    name,
+    divisions: role === "admin" ? null : divisions,
+  }));
+}
+
+export async function findUserForLogin(db, email) {
+  const { rows } = await db.execute({
+    sql: `SELECT ${USER_COLUMNS}, password_hash FROM users WHERE email = ?`,
+    args: [email.trim().toLowerCase()],
+  });
+  return rows.length ? { user: toUser(rows[0]), passwordHash: rows[0].password_hash } : null;
+}
+
+export async function createUser(db, input) {
+  try {
+    const { rows } = await db.execute({
+      sql: `INSERT INTO users (email, name, password_hash, role, divisions)
+            VALUES (?, ?, ?, ?, ?)
+            RETURNING ${USER_COLUMNS}`,
+      args: [input.email, input.name, await hashPassword(input.password), input.role, JSON.stringify(input.divisions)],
+    });
+    return toUser(rows[0]);
+  } catch (err) {
+    if (/UNIQUE constraint failed/.test(err.message)) {
+      throw new HttpError(409, "A user with that email already exists");
+    }
+    throw err;
+  }
+}
+
+export async function updateUser(db, id, patch) {
+  const sets = [];
+  const args = [];
+  if (patch.name !== undefined) {
+    sets.push("name = ?");
+    args.push(patch.name);
+  }
+  if (patch.role !== undefined) {
+    sets.push("role = ?");
+    args.push(patch.role);
+  }
+  if (patch.divisions !== undefined) {
+    sets.push("divisions = ?");
+    args.push(JSON.stringify(patch.divisions));
+  }
+  if (patch.password !== undefined) {
+    sets.push("password_hash = ?");
+    args.push(await hashPassword(patch.password));
+  }
+
+  const tx = await db.transaction("write");
+  try {
+    const { rows } = await tx.execute({
+      sql: `UPDATE users SET ${sets.join(", ")} WHERE id = ? RETURNING ${USER_COLUMNS}`,
+      args: [...args, id],
+    });
+    if (rows.length === 0) throw new HttpError(404, "User not found");
+    // A password reset signs the user out everywhere.
+    if (patch.password !== undefined) {
+      await tx.execute({ sql: "DELETE FROM sessions WHERE user_id = ?", args: [id] });
+    }
+    await tx.commit();
+    return toUser(rows[0]);
+  } finally {
+    tx.close();
+  }
+}
+
+// Returns the part blobs of the user's unfinished uploads, which the caller
+// removes from blob storage once the user is gone.
+export async function deleteUser(db, id) {
+  const tx = await db.transaction("write");
+  try {
+    await tx.execute({ sql: "DELETE FROM sessions WHERE user_id = ?", args: [id] });
+    const parts = await tx.execute({
+      sql: "DELETE FROM upload_parts WHERE upload_id IN (SELECT id FROM upload_sessions WHERE user_id = ?) RETURNING blob_url",
+      args: [id],
+    });
+    await tx.execute({ sql: "DELETE FROM upload_sessions WHERE user_id = ?", args: [id] });
+    await tx.execute({ sql: "DELETE FROM saved_views WHERE user_id = ?", args: [id] });
+    await tx.execute({ sql: "DELETE FROM notifications WHERE user_id = ?", args: [id] });
+    // Documents routed to or held by the user wait on their division instead.
+    await tx.execute({
+      sql: "UPDATE documents SET route_user_id = NULL, route_user = NULL WHERE route_user_id = ?",
+      args: [id],
+    });
+    // Their comments stay, under the name they were written with.
+    await tx.execute({ sql: "UPDATE comments SET author_id = NULL WHERE author_id = ?", args: [id] });
+    const { rowsAffected } = await tx.execute({ sql: "DELETE FROM users WHERE id = ?", args: [id] });
+    if (rowsAffected === 0) throw new HttpError(404, "User not found");
+    await tx.commit();
+    return parts.rows.map((row) => row.blob_url);
+  } finally {
+    tx.close();
+  }
+}
+
+// On a fresh install there is nobody who could create the first account, so
+// ADMIN_EMAIL / ADMIN_PASSWORD seed an admin while the users table is empty.
+export async function ensureBootstrapAdmin(db) {
+  const email = process.env.ADMIN_EMAIL;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!email || !password) return;
+  const { rows } = await db.execute("SELECT COUNT(*) AS count FROM users");
+  if (Number(rows[0].count) > 0) return;
+  await createUser(db, {
+    email: email.toLowerCase(),
+    name: "Administrator",
+    password,
+    role: "admin",
+    divisions: [],
+  });
+}
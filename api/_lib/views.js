@@ -0,0 +1,68 @@
+import { isFilterParam } from "./documents.js";
+import { HttpError } from "./http.js";
+
+// Saved views are named sets of dashboard URL parameters. Only the
+// parameters that describe the list are kept: its filters (isFilterParam),
+// sort order and view mode. Anything else (such as an open document) is
+// dropped.
+const VIEW_PARAMS = ["sort", "view"];
+const MAX_NAME_LENGTH = 60;
+const MAX_VIEWS_PER_USER = 50;
+
+function toView(row) {
+  return {
+    id: Number(row.id),
+    name: row.name,
+    params: row.params,
+    createdAt: row.created_at,
+  };
+}
+
+export function validateNewView(body) {
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name) throw new HttpError(400, "name is required");
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new HttpError(400, `name can be at most ${MAX_NAME_LENGTH} characters`);
+  }
+  if (typeof body.params !== "string") throw new HttpError(400, "params must be a query string");
+  const given = new URLSearchParams(body.params);
+  const params = new URLSearchParams();
+  for (const [key, value] of given) {
+    if (value && (isFilterParam(key) || VIEW_PARAMS.includes(key))) params.set(key, value.slice(0, 200));
+  }
+  return { name, params: params.toString() };
+}
+
+export async function listViews(db, user) {
+  const { rows } = await db.execute({
+    sql: "SELECT id, name, params, created_at FROM saved_views WHERE user_id = ? ORDER BY name COLLATE NOCASE",
+    args: [user.id],
+  });
+  return rows.map(toView);
+}
+
+// Saving under a name that is already taken replaces that view.
+export async function saveView(db, user, input) {
+  const { rows: counts } = await db.execute({
+    sql: "SELECT COUNT(*) AS count FROM saved_views WHERE user_id = ? AND name <> ?",
+    args: [user.id, input.name],
+  });
+  if (Number(counts[0].count) >= MAX_VIEWS_PER_USER) {
+    throw new HttpError(400, `You can keep at most ${MAX_VIEWS_PER_USER} saved views`);
+  }
+  const { rows } = await db.execute({
+    sql: `INSERT INTO saved_views (user_id, name, params) VALUES (?, ?, ?)
+          ON CONFLICT (user_id, name) DO UPDATE SET params = excluded.params
+          RETURNING id, name, params, created_at`,
+    args: [user.id, input.name, input.params],
+  });
+  return toView(rows[0]);
+}
+
+export async function deleteView(db, user, id) {
+  const { rowsAffected } = await db.execute({
+    sql: "DELETE FROM saved_views WHERE id = ? AND user_id = ?",
+    args: [id, user.id],
+  });
+  if (rowsAffected === 0) throw new HttpError(404, "Saved view not found");
+}
@@ -0,0 +1,271 @@
+import { createHmac, randomBytes } from "node:crypto";
+import { EVENT_TYPES } from "./constants.js";
+import { HttpError } from "./http.js";
+
+// Outgoing webhooks, e.g. for Slack or email bridges. Admins register a URL
+// and the event types it wants. Every matching event is queued in
+// webhook_deliveries and POSTed as JSON with these headers:
+//
+//   X-Webhook-Id         the event id; the same on every retry
+//   X-Webhook-Event      the event type
+//   X-Webhook-Timestamp  Unix seconds when this attempt was signed
+//   X-Webhook-Signature  sha256=<hex HMAC-SHA256 of "<timestamp>.<body>" with the webhook's secret>
+//
+// A delivery succeeds on any 2xx answer. Otherwise it is retried after 1, 5,
+// 30, 120 and 720 minutes and then given up. Deliveries are at least once,
+// so receivers should ignore ids they have already seen.
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 720];
+const MAX_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+const DELIVERY_TIMEOUT_MS = 10_000;
+const LEASE_MS = 60_000; // How long a sender owns a delivery before another may retry it
+const MAX_DESCRIPTION_LENGTH = 100;
+const RECENT_DELIVERIES = 20;
+const TEST_EVENT = "webhook.test";
+
+const WEBHOOK_COLUMNS = "id, url, description, events, secret, active, created_at";
+const DELIVERY_COLUMNS = "id, event_id, event_type, attempts, last_status, last_error, next_attempt_at, delivered_at, created_at";
+
+function toWebhook(row) {
+  return {
+    id: Number(row.id),
+    url: row.url,
+    description: row.description,
+    events: JSON.parse(row.events),
+    secret: row.secret,
+    active: Boolean(row.active),
+    createdAt: row.created_at,
+  };
+}
+
+function toDelivery(row) {
+  return {
+    id: Number(row.id),
+    eventId: row.event_id,
+    eventType: row.event_type,
+    attempts: Number(row.attempts),
+    lastStatus: row.last_status === null ? null : Number(row.last_status),
+    lastError: row.last_error,
+    nextAttemptAt: row.delivered_at || Number(row.attempts) >= MAX_ATTEMPTS ? null : row.next_attempt_at,
+    deliveredAt: row.delivered_at,
+    createdAt: row.created_at,
+  };
+}
+
+function isoIn(ms) {
+  return new Date(Date.now() + ms).toISOString();
+}
+
+// --- Configuration ---
+
+function requireUrl(body) {
+  let url;
+  try {
+    url = new URL(body.url);
+  } catch {
+    throw new HttpError(400, "url must be an http(s) URL");
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new HttpError(400, "url must be an http(s) URL");
+  }
+  return url.toString();
+}
+
+function requireEvents(body) {
+  const { events } = body;
+  if (!Array.isArray(events) || events.length === 0 || !events.every((e) => EVENT_TYPES.includes(e))) {
+    throw new HttpError(400, `events must list one or more of: ${EVENT_TYPES.join(", ")}`);
+  }
+  return [...new Set(events)];
+}
+
+function optionalDescription(body) {
+  if (body.description === undefined || body.description === null) return null;
+  if (typeof body.description !== "string") throw new HttpError(400, "description must be a string");
+  const description = body.description.trim();
+  if (description.length > MAX_DESCRIPTION_LENGTH) {
+    throw new HttpError(400, `description can be at most ${MAX_DESCRIPTION_LENGTH} characters`);
+  }
+  return description || null;
+}
+
+export function validateNewWebhook(body) {
+  return { url: requireUrl(body), events: requireEvents(body), description: optionalDescription(body) };
+}
+
+export function validateWebhookPatch(body) {
+  const patch = {};
+  if ("url" in body) patch.url = requireUrl(body);
+  if ("events" in body) patch.events = requireEvents(body);
+  if ("description" in body) patch.description = optionalDescription(body);
+  if ("active" in body) {
+    if (typeof body.active !== "boolean") throw new HttpError(400, "active must be true or false");
+    patch.active = body.active;
+  }
+  if (Object.keys(patch).length === 0) throw new HttpError(400, "Nothing to update");
+  return patch;
+}
+
+// Each webhook comes with its latest delivery, or null before the first one.
+export async function listWebhooks(db) {
+  const [webhooks, latest] = await Promise.all([
+    db.execute(`SELECT ${WEBHOOK_COLUMNS} FROM webhooks ORDER BY id`),
+    db.execute(
+      `SELECT webhook_id, ${DELIVERY_COLUMNS} FROM webhook_deliveries
+       WHERE id IN (SELECT MAX(id) FROM webhook_deliveries GROUP BY webhook_id)`
+    ),
+  ]);
+  const lastDeliveries = new Map(latest.rows.map((row) => [Number(row.webhook_id), toDelivery(row)]));
+  return webhooks.rows.map((row) => ({ ...toWebhook(row), lastDelivery: lastDeliveries.get(Number(row.id)) ?? null }));
+}
+
+// The webhook together with its most recent deliveries.
+export async function getWebhook(db, id) {
+  const { rows } = await db.execute({ sql: `SELECT ${WEBHOOK_COLUMNS} FROM webhooks WHERE id = ?`, args: [id] });
+  if (rows.length === 0) throw new HttpError(404, "Webhook not found");
+  const deliveries = await db.execute({
+    sql: `SELECT ${DELIVERY_COLUMNS} FROM webhook_deliveries WHERE webhook_id = ? ORDER BY id DESC LIMIT ${RECENT_DELIVERIES}`,
+    args: [id],
+  });
+  return { ...toWebhook(rows[0]), deliveries: deliveries.rows.map(toDelivery) };
+}
+
+// The secret is generated here and shown to admins, who copy it into the
+// receiving end.
+export async function createWebhook(db, input) {
+  const { rows } = await db.execute({
+    sql: `INSERT INTO webhooks (url, description, events, secret) VALUES (?, ?, ?, ?)
+          RETURNING ${WEBHOOK_COLUMNS}`,
+    args: [input.url, input.description, JSON.stringify(input.events), randomBytes(24).toString("base64url")],
+  });
+  return toWebhook(rows[0]);
+}
+
+export async function updateWebhook(db, id, patch) {
+  const values = { ...patch };
+  if (patch.events) values.events = JSON.stringify(patch.events);
+  if ("active" in patch) values.active = patch.active ? 1 : 0;
+  const fields = Object.keys(values);
+  const { rows } = await db.execute({
+    sql: `UPDATE webhooks SET ${fields.map((f) => `${f} = ?`).join(", ")} WHERE id = ? RETURNING ${WEBHOOK_COLUMNS}`,
+    args: [...fields.map((f) => values[f]), id],
+  });
+  if (rows.length === 0) throw new HttpError(404, "Webhook not found");
+  return toWebhook(rows[0]);
+}
+
+export async function deleteWebhook(db, id) {
+  const tx = await db.transaction("write");
+  try {
+    await tx.execute({ sql: "DELETE FROM webhook_deliveries WHERE webhook_id = ?", args: [id] });
+    const { rowsAffected } = await tx.execute({ sql: "DELETE FROM webhooks WHERE id = ?", args: [id] });
+    if (rowsAffected === 0) throw new HttpError(404, "Webhook not found");
+    await tx.commit();
+  } finally {
+    tx.close();
+  }
+}
+
+// --- Delivery ---
+
+export function signPayload(secret, timestamp, body) {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+// Called from emitEvent inside the transaction that made the change.
+export async function queueWebhookDeliveries(tx, event) {
+  await tx.execute({
+    sql: `INSERT INTO webhook_deliveries (webhook_id, event_id, event_type, payload, next_attempt_at)
+          SELECT id, ?, ?, ?, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+          FROM webhooks
+          WHERE active = 1 AND EXISTS (SELECT 1 FROM json_each(webhooks.events) WHERE value = ?)`,
+    args: [event.id, event.type, JSON.stringify(event), event.type],
+  });
+}
+
+async function post(url, secret, eventId, eventType, body) {
+  const timestamp = Math.floor(Date.now() / 1000);
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "document-tracking-dashboard-webhooks",
+        "X-Webhook-Id": eventId,
+        "X-Webhook-Event": eventType,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": signPayload(secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    await response.body?.cancel();
+    return { ok: response.ok, status: response.status, error: response.ok ? null : `HTTP ${response.status}` };
+  } catch (err) {
+    return { ok: false, status: null, error: err.name === "TimeoutError" ? "Timed out" : err.message };
+  }
+}
+
+// Sends every delivery that is due, oldest first. Runs from the
+// deliver-webhooks cron job, and right after requests that emitted events
+// (see dispatchWebhooks). Each delivery is leased before it is sent, so
+// overlapping runs do not send it twice.
+export async function deliverWebhooks(db, { limit = 50 } = {}) {
+  const { rows } = await db.execute({
+    sql: `SELECT d.id, d.event_id, d.event_type, d.payload, d.attempts, w.url, w.secret
+          FROM webhook_deliveries d JOIN webhooks w ON w.id = d.webhook_id
+          WHERE d.delivered_at IS NULL AND d.attempts < ? AND w.active = 1
+            AND d.next_attempt_at <= strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+          ORDER BY d.id
+          LIMIT ?`,
+    args: [MAX_ATTEMPTS, limit],
+  });
+  const report = { attempted: 0, delivered: 0, failed: 0 };
+
+  for (const row of rows) {
+    const leased = await db.execute({
+      sql: `UPDATE webhook_deliveries SET next_attempt_at = ?
+            WHERE id = ? AND delivered_at IS NULL AND next_attempt_at <= strftime('%Y-%m-%dT%H:%M:%fZ', 'now')`,
+      args: [isoIn(LEASE_MS), row.id],
+    });
+    if (leased.rowsAffected === 0) continue;
+
+    report.attempted++;
+    const attempts = Number(row.attempts) + 1;
+    const result = await post(row.url, row.secret, row.event_id, row.event_type, row.payload);
+    if (result.ok) report.delivered++;
+    else report.failed++;
+    const retryDelay = RETRY_DELAYS_MINUTES[attempts - 1];
+    await db.execute({
+      sql: `UPDATE webhook_deliveries
+            SET attempts = ?, last_status = ?, last_error = ?,
+                delivered_at = CASE WHEN ? THEN strftime('%Y-%m-%dT%H:%M:%fZ', 'now') END,
+                next_attempt_at = ?
+            WHERE id = ?`,
+      args: [attempts, result.status, result.error, result.ok ? 1 : 0, retryDelay ? isoIn(retryDelay * 60_000) : isoIn(0), row.id],
+    });
+  }
+  return report;
+}
+
+// Starts sending freshly queued deliveries without holding up the response.
+// Whatever does not get sent this way is picked up by the cron job.
+export function dispatchWebhooks(db) {
+  deliverWebhooks(db).catch((err) => console.error("Webhook delivery failed:", err));
+}
+
+// Sends a signed "webhook.test" event straight away and reports the answer.
+// Test events are not queued or retried.
+export async function sendTestEvent(db, id, user) {
+  const webhook = await getWebhook(db, id);
+  const eventId = `test-${randomBytes(8).toString("hex")}`;
+  const body = JSON.stringify({
+    id: eventId,
+    type: TEST_EVENT,
+    createdAt: new Date().toISOString(),
+    actor: user.name,
+    document: null,
+    data: {},
+  });
+  const { ok, status, error } = await post(webhook.url, webhook.secret, eventId, TEST_EVENT, body);
+  return { ok, status, error };
+}
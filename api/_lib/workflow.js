@@ -0,0 +1,64 @@
+import { can } from "./auth.js";
+import { HttpError } from "./http.js";
+
+// Review actions a user can take on a document. Documents always enter the
+// workflow as Pending; uploading a new file (see appendVersion) sends them
+// back to Pending, which is how a rejected document is resubmitted.
+export const TRANSITIONS = {
+  start_review: { from: ["Pending"], to: "In Review" },
+  approve: { from: ["Pending", "In Review"], to: "Approved" },
+  reject: { from: ["Pending", "In Review"], to: "Rejected", requiresReason: true },
+};
+
+export const TRANSITION_COLUMNS = "action, from_status, to_status, actor, reason, created_at";
+
+export function toTransition(row) {
+  return {
+    action: row.action,
+    fromStatus: row.from_status,
+    toStatus: row.to_status,
+    actor: row.actor,
+    reason: row.reason,
+    createdAt: row.created_at,
+  };
+}
+
+// Validates a review action against who is asking and the document's current
+// status. Returns the transition to apply.
+export function checkTransition(action, document, user, reason) {
+  const currentStatus = document.status;
+  const transition = TRANSITIONS[action];
+  if (!transition) {
+    throw new HttpError(400, `action must be one of: ${Object.keys(TRANSITIONS).join(", ")}`);
+  }
+  if (!can(user, "review", document.division)) {
+    throw new HttpError(403, `Only reviewers for ${document.division} can review this document`);
+  }
+  if (!transition.from.includes(currentStatus)) {
+    throw new HttpError(409, `Cannot ${action.replace("_", " ")} a document that is ${currentStatus}`);
+  }
+  if (transition.requiresReason && !reason) {
+    throw new HttpError(400, "A reason is required");
+  }
+  return transition;
+}
+
+// Finds the review action that moves a document from one status to another,
+// for callers that ask for a target status rather than an action.
+export function actionForStatus(fromStatus, toStatus) {
+  const action = Object.keys(TRANSITIONS).find(
+    (name) => TRANSITIONS[name].to === toStatus && TRANSITIONS[name].from.includes(fromStatus)
+  );
+  if (!action) {
+    throw new HttpError(409, `Cannot change the status from ${fromStatus} to ${toStatus}`);
+  }
+  return action;
+}
+
+export function recordTransition(tx, documentId, action, fromStatus, toStatus, actor, reason = null) {
+  return tx.execute({
+    sql: `INSERT INTO status_transitions (document_id, action, from_status, to_status, actor, reason)
+          VALUES (?, ?, ?, ?, ?, ?)`,
+    args: [documentId, action, fromStatus, toStatus, actor, reason],
+  });
+}
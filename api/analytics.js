@@ -0,0 +1,19 @@
+import { getAnalytics } from "./_lib/analytics.js";
+import { requireUser } from "./_lib/auth.js";
+import { getDb } from "./_lib/db.js";
+import { methodNotAllowed, sendError } from "./_lib/http.js";
+
+// The figures behind the Analytics page, for the divisions the user can see.
+export default async function handler(req, res) {
+  if (req.method !== "GET") {
+    return methodNotAllowed(res, ["GET"]);
+  }
+
+  try {
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    return res.status(200).json(await getAnalytics(db, user));
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
@@ -0,0 +1,29 @@
+import { listAuditLog } from "./_lib/audit.js";
+import { can, requireUser } from "./_lib/auth.js";
+import { getDb } from "./_lib/db.js";
+import { getDocument } from "./_lib/documents.js";
+import { HttpError, methodNotAllowed, sendError } from "./_lib/http.js";
+
+// Read-only view of the audit log. Filters: documentId, user, action,
+// division, from, to (YYYY-MM-DD, inclusive), before (paging cursor), limit.
+// Admins can search the whole log; everyone else only gets the timeline of a
+// document they can see.
+export default async function handler(req, res) {
+  if (req.method !== "GET") {
+    return methodNotAllowed(res, ["GET"]);
+  }
+
+  try {
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    if (!can(user, "admin")) {
+      if (!req.query.documentId) {
+        throw new HttpError(403, "Only admins can view the full audit log");
+      }
+      await getDocument(db, Number(req.query.documentId), user);
+    }
+    return res.status(200).json(await listAuditLog(db, req.query));
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
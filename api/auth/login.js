@@ -0,0 +1,30 @@
+import { startSession, verifyPassword } from "../_lib/auth.js";
+import { getDb } from "../_lib/db.js";
+import { HttpError, methodNotAllowed, readJson, sendError } from "../_lib/http.js";
+import { ensureBootstrapAdmin, findUserForLogin } from "../_lib/users.js";
+
+export default async function handler(req, res) {
+  if (req.method !== "POST") {
+    return methodNotAllowed(res, ["POST"]);
+  }
+
+  try {
+    const { email, password } = readJson(req);
+    if (typeof email !== "string" || typeof password !== "string") {
+      throw new HttpError(400, "Email and password are required");
+    }
+
+    const db = await getDb();
+    await ensureBootstrapAdmin(db);
+    const found = await findUserForLogin(db, email);
+    // Same answer for unknown email and wrong password.
+    if (!found || !(await verifyPassword(password, found.passwordHash))) {
+      throw new HttpError(401, "Invalid email or password");
+    }
+
+    await startSession(db, res, found.user.id);
+    return res.status(200).json(found.user);
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
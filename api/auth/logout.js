@@ -0,0 +1,17 @@
+import { endSession } from "../_lib/auth.js";
+import { getDb } from "../_lib/db.js";
+import { methodNotAllowed, sendError } from "../_lib/http.js";
+
+export default async function handler(req, res) {
+  if (req.method !== "POST") {
+    return methodNotAllowed(res, ["POST"]);
+  }
+
+  try {
+    const db = await getDb();
+    await endSession(db, req, res);
+    return res.status(204).end();
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
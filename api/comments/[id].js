@@ -0,0 +1,23 @@
+import { requireUser } from "../_lib/auth.js";
+import { deleteComment } from "../_lib/comments.js";
+import { getDb } from "../_lib/db.js";
+import { HttpError, methodNotAllowed, sendError } from "../_lib/http.js";
+
+// Deletes a comment and returns its document with the new comment count.
+export default async function handler(req, res) {
+  if (req.method !== "DELETE") {
+    return methodNotAllowed(res, ["DELETE"]);
+  }
+
+  try {
+    const id = Number(req.query.id);
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new HttpError(400, "Invalid comment id");
+    }
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    return res.status(200).json(await deleteComment(db, id, user));
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
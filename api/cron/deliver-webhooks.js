@@ -0,0 +1,20 @@
+import { getDb } from "../_lib/db.js";
+import { methodNotAllowed, requireCronSecret, sendError } from "../_lib/http.js";
+import { deliverWebhooks } from "../_lib/webhooks.js";
+
+// Sends webhook deliveries that are due, including retries. vercel.json runs
+// it every minute to match the shortest retry delay, which needs a paid
+// Vercel plan (see README).
+export default async function handler(req, res) {
+  if (req.method !== "GET") {
+    return methodNotAllowed(res, ["GET"]);
+  }
+
+  try {
+    requireCronSecret(req);
+    const db = await getDb();
+    return res.status(200).json(await deliverWebhooks(db));
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
@@ -0,0 +1,21 @@
+import { getDb } from "../_lib/db.js";
+import { sendExpiryReminders } from "../_lib/expiry.js";
+import { methodNotAllowed, requireCronSecret, sendError } from "../_lib/http.js";
+import { deliverWebhooks } from "../_lib/webhooks.js";
+
+// Sends reminders for documents that are about to expire.
+export default async function handler(req, res) {
+  if (req.method !== "GET") {
+    return methodNotAllowed(res, ["GET"]);
+  }
+
+  try {
+    requireCronSecret(req);
+    const db = await getDb();
+    const report = await sendExpiryReminders(db);
+    await deliverWebhooks(db);
+    return res.status(200).json(report);
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
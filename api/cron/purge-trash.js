@@ -0,0 +1,18 @@
+import { getDb } from "../_lib/db.js";
+import { methodNotAllowed, requireCronSecret, sendError } from "../_lib/http.js";
+import { purgeExpiredTrash } from "../_lib/trash.js";
+
+// Purges documents that have been in the trash past the retention period.
+export default async function handler(req, res) {
+  if (req.method !== "GET") {
+    return methodNotAllowed(res, ["GET"]);
+  }
+
+  try {
+    requireCronSecret(req);
+    const db = await getDb();
+    return res.status(200).json(await purgeExpiredTrash(db));
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
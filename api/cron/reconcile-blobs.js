@@ -0,0 +1,19 @@
+import { getDb } from "../_lib/db.js";
+import { methodNotAllowed, requireCronSecret, sendError } from "../_lib/http.js";
+import { reconcileBlobs } from "../_lib/reconcile.js";
+
+// Reports blobs that no document points to. Pass `?delete=1` to remove them.
+export default async function handler(req, res) {
+  if (req.method !== "GET") {
+    return methodNotAllowed(res, ["GET"]);
+  }
+
+  try {
+    requireCronSecret(req);
+    const db = await getDb();
+    const report = await reconcileBlobs(db, { deleteOrphans: req.query.delete === "1" });
+    return res.status(200).json(report);
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
@@ -0,0 +1,33 @@
+import { assertCan, requireUser } from "../_lib/auth.js";
+import { getDb } from "../_lib/db.js";
+import { removeCustomField, updateCustomField, validateCustomField } from "../_lib/fields.js";
+import { HttpError, methodNotAllowed, readJson, sendError } from "../_lib/http.js";
+import { loadSettings } from "../_lib/settings.js";
+
+// PATCH changes a field's name, options and document types (not its type).
+// DELETE removes it together with its values. Both respond with every
+// field. Admins only.
+export default async function handler(req, res) {
+  if (req.method !== "PATCH" && req.method !== "DELETE") {
+    return methodNotAllowed(res, ["PATCH", "DELETE"]);
+  }
+
+  try {
+    const id = Number(req.query.id);
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new HttpError(400, "Invalid field id");
+    }
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    assertCan(user, "admin");
+
+    if (req.method === "PATCH") {
+      const field = validateCustomField(readJson(req), await loadSettings(db), false);
+      return res.status(200).json(await updateCustomField(db, id, field));
+    }
+
+    return res.status(200).json(await removeCustomField(db, id, user));
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
@@ -0,0 +1,23 @@
+import { assertCan, requireUser } from "../_lib/auth.js";
+import { getDb } from "../_lib/db.js";
+import { addCustomField, validateCustomField } from "../_lib/fields.js";
+import { methodNotAllowed, readJson, sendError } from "../_lib/http.js";
+import { loadSettings } from "../_lib/settings.js";
+
+// Adds a custom field ({ name, type, options, documentTypes, requiredFor });
+// responds with every field. Admins only.
+export default async function handler(req, res) {
+  if (req.method !== "POST") {
+    return methodNotAllowed(res, ["POST"]);
+  }
+
+  try {
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    assertCan(user, "admin");
+    const field = validateCustomField(readJson(req), await loadSettings(db), true);
+    return res.status(201).json(await addCustomField(db, field));
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
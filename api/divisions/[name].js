@@ -0,0 +1,29 @@
+import { assertCan, requireUser } from "../_lib/auth.js";
+import { getDb } from "../_lib/db.js";
+import { methodNotAllowed, readJson, sendError } from "../_lib/http.js";
+import { removeListEntry, renameListEntry, validateListName } from "../_lib/settings.js";
+
+// PATCH renames a division everywhere it is used. DELETE removes it; if
+// documents are still in it or routed through it, `?moveTo=<division>` says
+// where they go.
+// Both respond with the updated list. Admins only.
+export default async function handler(req, res) {
+  if (req.method !== "PATCH" && req.method !== "DELETE") {
+    return methodNotAllowed(res, ["PATCH", "DELETE"]);
+  }
+
+  try {
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    assertCan(user, "admin");
+
+    if (req.method === "PATCH") {
+      const name = validateListName(readJson(req));
+      return res.status(200).json(await renameListEntry(db, "divisions", req.query.name, name, user));
+    }
+
+    return res.status(200).json(await removeListEntry(db, "divisions", req.query.name, req.query.moveTo, user));
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
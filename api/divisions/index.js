@@ -0,0 +1,21 @@
+import { assertCan, requireUser } from "../_lib/auth.js";
+import { getDb } from "../_lib/db.js";
+import { methodNotAllowed, readJson, sendError } from "../_lib/http.js";
+import { addListEntry, validateListName } from "../_lib/settings.js";
+
+// Adds an entry; responds with the updated list. Admins only.
+export default async function handler(req, res) {
+  if (req.method !== "POST") {
+    return methodNotAllowed(res, ["POST"]);
+  }
+
+  try {
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    assertCan(user, "admin");
+    const name = validateListName(readJson(req));
+    return res.status(201).json(await addListEntry(db, "divisions", name));
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
@@ -0,0 +1,29 @@
+import { requireUser } from "../../_lib/auth.js";
+import { addComment, listComments, validateComment } from "../../_lib/comments.js";
+import { getDb } from "../../_lib/db.js";
+import { methodNotAllowed, parseId, readJson, sendError } from "../../_lib/http.js";
+import { dispatchWebhooks } from "../../_lib/webhooks.js";
+
+// GET returns the document's comments, oldest first. POST { body } adds one;
+// mentions are written into the body as @[Name](userId).
+export default async function handler(req, res) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    return methodNotAllowed(res, ["GET", "POST"]);
+  }
+
+  try {
+    const id = parseId(req.query.id);
+    const db = await getDb();
+    const user = await requireUser(db, req);
+
+    if (req.method === "GET") {
+      return res.status(200).json(await listComments(db, id, user));
+    }
+
+    const comment = await addComment(db, id, validateComment(readJson(req)), user);
+    dispatchWebhooks(db);
+    return res.status(201).json(comment);
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
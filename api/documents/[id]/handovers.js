@@ -0,0 +1,33 @@
+import { requireUser } from "../../_lib/auth.js";
+import { getDb } from "../../_lib/db.js";
+import { listHandovers, routeDocument, validateRouteAction } from "../../_lib/documents.js";
+import { methodNotAllowed, parseId, readJson, sendError } from "../../_lib/http.js";
+import { loadSettings } from "../../_lib/settings.js";
+import { dispatchWebhooks } from "../../_lib/webhooks.js";
+
+// GET returns the document's chain of custody, oldest first. POST applies a
+// routing action: { action: "send" | "forward", toDivision, toUserId, note,
+// dueDate }, { action: "return", note, dueDate } or
+// { action: "receive" | "complete", note }.
+export default async function handler(req, res) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    return methodNotAllowed(res, ["GET", "POST"]);
+  }
+
+  try {
+    const id = parseId(req.query.id);
+    const db = await getDb();
+    const user = await requireUser(db, req);
+
+    if (req.method === "GET") {
+      return res.status(200).json(await listHandovers(db, id, user));
+    }
+
+    const input = validateRouteAction(readJson(req), await loadSettings(db));
+    const document = await routeDocument(db, id, input, user);
+    dispatchWebhooks(db);
+    return res.status(200).json(document);
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
@@ -0,0 +1,36 @@
+import { requireUser } from "../../_lib/auth.js";
+import { getDb } from "../../_lib/db.js";
+import { deleteDocument, getDocument, updateDocument, validateDocumentPatch } from "../../_lib/documents.js";
+import { methodNotAllowed, parseId, readJson, sendError } from "../../_lib/http.js";
+import { loadSettings } from "../../_lib/settings.js";
+import { dispatchWebhooks } from "../../_lib/webhooks.js";
+
+export default async function handler(req, res) {
+  if (!["GET", "PATCH", "DELETE"].includes(req.method)) {
+    return methodNotAllowed(res, ["GET", "PATCH", "DELETE"]);
+  }
+
+  try {
+    const id = parseId(req.query.id);
+    const db = await getDb();
+    const user = await requireUser(db, req);
+
+    if (req.method === "GET") {
+      return res.status(200).json(await getDocument(db, id, user));
+    }
+
+    if (req.method === "PATCH") {
+      const patch = validateDocumentPatch(readJson(req), await loadSettings(db));
+      const document = await updateDocument(db, id, patch, user);
+      dispatchWebhooks(db);
+      return res.status(200).json(document);
+    }
+
+    // Moves it to the trash; see api/trash/ for restoring and purging.
+    await deleteDocument(db, id, user);
+    dispatchWebhooks(db);
+    return res.status(204).end();
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
@@ -0,0 +1,25 @@
+import { requireUser } from "../../_lib/auth.js";
+import { getDb } from "../../_lib/db.js";
+import { openDocument } from "../../_lib/documents.js";
+import { HttpError, methodNotAllowed, parseId, readJson, sendError } from "../../_lib/http.js";
+
+// Called by the dashboard whenever a document is opened. Returns a
+// short-lived link to the file and records the view in the audit log.
+export default async function handler(req, res) {
+  if (req.method !== "POST") {
+    return methodNotAllowed(res, ["POST"]);
+  }
+
+  try {
+    const id = parseId(req.query.id);
+    const { version } = readJson(req);
+    if (version !== undefined && (!Number.isInteger(version) || version <= 0)) {
+      throw new HttpError(400, "version must be a positive integer");
+    }
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    return res.status(200).json(await openDocument(db, id, user, version));
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
@@ -0,0 +1,27 @@
+import { requireUser } from "../../_lib/auth.js";
+import { getDb } from "../../_lib/db.js";
+import { restoreVersion } from "../../_lib/documents.js";
+import { HttpError, methodNotAllowed, parseId, readJson, sendError } from "../../_lib/http.js";
+import { dispatchWebhooks } from "../../_lib/webhooks.js";
+
+// Makes an older version current again by appending a copy of it.
+export default async function handler(req, res) {
+  if (req.method !== "POST") {
+    return methodNotAllowed(res, ["POST"]);
+  }
+
+  try {
+    const id = parseId(req.query.id);
+    const { version } = readJson(req);
+    if (!Number.isInteger(version) || version <= 0) {
+      throw new HttpError(400, "version must be a positive integer");
+    }
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    const result = await restoreVersion(db, id, version, user);
+    dispatchWebhooks(db);
+    return res.status(201).json(result);
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
@@ -0,0 +1,31 @@
+import { requireUser } from "../../_lib/auth.js";
+import { getDb } from "../../_lib/db.js";
+import { listTransitions, transitionDocument } from "../../_lib/documents.js";
+import { methodNotAllowed, parseId, readJson, sendError } from "../../_lib/http.js";
+import { dispatchWebhooks } from "../../_lib/webhooks.js";
+
+// GET returns the document's status history, oldest first. POST applies a
+// review action: { action: "start_review" | "approve" | "reject", reason }.
+export default async function handler(req, res) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    return methodNotAllowed(res, ["GET", "POST"]);
+  }
+
+  try {
+    const id = parseId(req.query.id);
+    const db = await getDb();
+    const user = await requireUser(db, req);
+
+    if (req.method === "GET") {
+      return res.status(200).json(await listTransitions(db, id, user));
+    }
+
+    const { action, reason } = readJson(req);
+    const trimmedReason = typeof reason === "string" ? reason.trim() || null : null;
+    const document = await transitionDocument(db, id, action, user, trimmedReason);
+    dispatchWebhooks(db);
+    return res.status(200).json(document);
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
@@ -0,0 +1,30 @@
+import { requireUser } from "../../_lib/auth.js";
+import { getDb } from "../../_lib/db.js";
+import { addVersion, listVersions, validateNewVersion } from "../../_lib/documents.js";
+import { methodNotAllowed, parseId, readJson, sendError } from "../../_lib/http.js";
+import { dispatchWebhooks } from "../../_lib/webhooks.js";
+
+// GET lists a document's versions, newest first. POST uploads a new revision
+// (the file itself goes through /api/upload first) and makes it current.
+export default async function handler(req, res) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    return methodNotAllowed(res, ["GET", "POST"]);
+  }
+
+  try {
+    const id = parseId(req.query.id);
+    const db = await getDb();
+    const user = await requireUser(db, req);
+
+    if (req.method === "GET") {
+      return res.status(200).json(await listVersions(db, id, user));
+    }
+
+    const input = await validateNewVersion(db, readJson(req), user);
+    const result = await addVersion(db, id, input, user);
+    dispatchWebhooks(db);
+    return res.status(201).json(result);
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
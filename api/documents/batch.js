@@ -0,0 +1,26 @@
+import { requireUser } from "../_lib/auth.js";
+import { runBatch, validateBatch } from "../_lib/batch.js";
+import { getDb } from "../_lib/db.js";
+import { methodNotAllowed, readJson, sendError } from "../_lib/http.js";
+import { loadSettings } from "../_lib/settings.js";
+import { dispatchWebhooks } from "../_lib/webhooks.js";
+
+// POST { action: "status" | "move" | "delete" | "restore" | "download", ids | filter,
+// status, reason, division } applies one action to many documents and reports
+// how it went for each of them (see _lib/batch.js).
+export default async function handler(req, res) {
+  if (req.method !== "POST") {
+    return methodNotAllowed(res, ["POST"]);
+  }
+
+  try {
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    const batch = validateBatch(readJson(req), await loadSettings(db));
+    const result = await runBatch(db, user, batch);
+    dispatchWebhooks(db);
+    return res.status(200).json(result);
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
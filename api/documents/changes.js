@@ -0,0 +1,27 @@
+import { requireUser } from "../_lib/auth.js";
+import { getDb } from "../_lib/db.js";
+import { listDocumentChanges } from "../_lib/documents.js";
+import { methodNotAllowed, sendError } from "../_lib/http.js";
+
+// GET ?since=<cursor>&<list filters> is polled by open dashboards. The ETag
+// is the latest cursor, so a client that sends it back in If-None-Match gets
+// a bodiless 304 while nothing has changed.
+export default async function handler(req, res) {
+  if (req.method !== "GET") {
+    return methodNotAllowed(res, ["GET"]);
+  }
+
+  try {
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    const changes = await listDocumentChanges(db, user, req.query);
+    res.setHeader("ETag", `"${changes.cursor}"`);
+    res.setHeader("Cache-Control", "private, no-cache");
+    if (req.headers["if-none-match"] === `"${changes.cursor}"`) {
+      return res.status(304).end();
+    }
+    return res.status(200).json(changes);
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
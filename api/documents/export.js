@@ -0,0 +1,25 @@
+import { requireUser } from "../_lib/auth.js";
+import { getDb } from "../_lib/db.js";
+import { methodNotAllowed, sendError } from "../_lib/http.js";
+import { exportRegister } from "../_lib/register.js";
+
+// GET ?format=csv|xlsx&<list filters and sort> downloads every matching
+// document as a spreadsheet, with a link back to each one.
+export default async function handler(req, res) {
+  if (req.method !== "GET") {
+    return methodNotAllowed(res, ["GET"]);
+  }
+
+  try {
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    const protocol = req.headers["x-forwarded-proto"] || "http";
+    const file = await exportRegister(db, user, req.query, `${protocol}://${req.headers.host}`);
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${file.fileName}"`);
+    res.setHeader("Cache-Control", "private, no-store");
+    return res.status(200).send(file.body);
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
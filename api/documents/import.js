@@ -0,0 +1,25 @@
+import { assertCan, requireUser } from "../_lib/auth.js";
+import { getDb } from "../_lib/db.js";
+import { methodNotAllowed, readJson, sendError } from "../_lib/http.js";
+import { importRegister, validateImport } from "../_lib/register.js";
+import { loadSettings } from "../_lib/settings.js";
+
+// POST { rows: [{ name, division, documentType, status, issueDate,
+// expiryDate, fileName, uploadedBy, uploadedAt, reviewer, rejectionReason }],
+// dryRun } checks register rows and, when dryRun is false, imports the valid
+// ones. dryRun defaults to true. Admins only.
+export default async function handler(req, res) {
+  if (req.method !== "POST") {
+    return methodNotAllowed(res, ["POST"]);
+  }
+
+  try {
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    assertCan(user, "admin");
+    const report = await importRegister(db, validateImport(readJson(req)), user, await loadSettings(db));
+    return res.status(200).json(report);
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
@@ -0,0 +1,28 @@
+import { requireUser } from "../_lib/auth.js";
+import { getDb } from "../_lib/db.js";
+import { createDocument, listDocuments, validateNewDocument } from "../_lib/documents.js";
+import { methodNotAllowed, readJson, sendError } from "../_lib/http.js";
+import { loadSettings } from "../_lib/settings.js";
+import { dispatchWebhooks } from "../_lib/webhooks.js";
+
+export default async function handler(req, res) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    return methodNotAllowed(res, ["GET", "POST"]);
+  }
+
+  try {
+    const db = await getDb();
+    const user = await requireUser(db, req);
+
+    if (req.method === "GET") {
+      return res.status(200).json(await listDocuments(db, user, req.query));
+    }
+
+    const input = await validateNewDocument(db, readJson(req), await loadSettings(db), user);
+    const document = await createDocument(db, input, user);
+    dispatchWebhooks(db);
+    return res.status(201).json(document);
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
@@ -0,0 +1,20 @@
+import { requireUser } from "../_lib/auth.js";
+import { getDb } from "../_lib/db.js";
+import { listTags } from "../_lib/documents.js";
+import { methodNotAllowed, sendError } from "../_lib/http.js";
+
+// The tags in use on the documents the user can see, as { name, count },
+// most used first.
+export default async function handler(req, res) {
+  if (req.method !== "GET") {
+    return methodNotAllowed(res, ["GET"]);
+  }
+
+  try {
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    return res.status(200).json(await listTags(db, user));
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
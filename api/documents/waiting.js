@@ -0,0 +1,20 @@
+import { requireUser } from "../_lib/auth.js";
+import { getDb } from "../_lib/db.js";
+import { listWaitingDocuments } from "../_lib/documents.js";
+import { methodNotAllowed, sendError } from "../_lib/http.js";
+
+// The signed-in user's routing inbox: documents waiting for them to receive,
+// forward, return or complete, soonest due first, as { document, handover }.
+export default async function handler(req, res) {
+  if (req.method !== "GET") {
+    return methodNotAllowed(res, ["GET"]);
+  }
+
+  try {
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    return res.status(200).json(await listWaitingDocuments(db, user));
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
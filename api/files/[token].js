@@ -0,0 +1,40 @@
+import { pipeline } from "node:stream/promises";
+import { openBlob } from "../_lib/blob.js";
+import { getDb } from "../_lib/db.js";
+import { findVersionFile } from "../_lib/documents.js";
+import { methodNotAllowed, sendError } from "../_lib/http.js";
+import { verifyFileLink } from "../_lib/links.js";
+
+// Streams a file for a signed link from POST /api/documents/:id/link. The
+// link itself is the permission: it was only issued to someone allowed to
+// view the document, and it stops working once it expires.
+export default async function handler(req, res) {
+  if (req.method !== "GET") {
+    return methodNotAllowed(res, ["GET"]);
+  }
+
+  let blob;
+  try {
+    const { documentId, version } = verifyFileLink(req.query.token);
+    const db = await getDb();
+    const file = await findVersionFile(db, documentId, version);
+    blob = await openBlob(file.fileUrl);
+
+    res.setHeader("Content-Type", blob.contentType);
+    if (blob.size !== null) res.setHeader("Content-Length", blob.size);
+    res.setHeader("Content-Disposition", `inline; filename*=UTF-8''${encodeURIComponent(file.fileName)}`);
+    res.setHeader("Cache-Control", "private, no-store");
+    res.setHeader("X-Content-Type-Options", "nosniff");
+  } catch (err) {
+    return sendError(res, err);
+  }
+
+  try {
+    res.status(200);
+    await pipeline(blob.stream, res);
+  } catch (err) {
+    // Headers are already sent, so all we can do is cut the response short.
+    console.error("File stream error:", err);
+    res.destroy(err);
+  }
+}
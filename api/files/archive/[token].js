@@ -0,0 +1,81 @@
+import { once } from "node:events";
+import { Zip, ZipPassThrough } from "fflate";
+import { openBlob } from "../../_lib/blob.js";
+import { getDb } from "../../_lib/db.js";
+import { findVersionFile } from "../../_lib/documents.js";
+import { methodNotAllowed, sendError } from "../../_lib/http.js";
+import { verifyArchiveLink } from "../../_lib/links.js";
+
+// Streams a ZIP for a signed link from a bulk download (POST
+// /api/documents/batch). Files are stored as they are, without compressing
+// them again. Documents deleted since the link was issued, or whose file is
+// missing from storage, are listed in MISSING.txt instead.
+export default async function handler(req, res) {
+  if (req.method !== "GET") {
+    return methodNotAllowed(res, ["GET"]);
+  }
+
+  let entries;
+  let db;
+  try {
+    entries = verifyArchiveLink(req.query.token);
+    db = await getDb();
+  } catch (err) {
+    return sendError(res, err);
+  }
+
+  const date = new Date().toISOString().slice(0, 10);
+  res.setHeader("Content-Type", "application/zip");
+  res.setHeader("Content-Disposition", `attachment; filename="documents-${date}.zip"`);
+  res.setHeader("Cache-Control", "private, no-store");
+  res.status(200);
+
+  const zip = new Zip((err, chunk, final) => {
+    if (err) return res.destroy(err);
+    res.write(chunk);
+    if (final) res.end();
+  });
+  const usedNames = new Set();
+  const missing = [];
+
+  try {
+    for (const { documentId, version } of entries) {
+      let file;
+      let blob;
+      try {
+        file = await findVersionFile(db, documentId, version);
+        blob = await openBlob(file.fileUrl);
+      } catch (err) {
+        missing.push(`${file ? file.fileName : `Document ${documentId}`} (${err.message})`);
+        continue;
+      }
+      const entry = new ZipPassThrough(uniqueName(file.fileName, usedNames));
+      zip.add(entry);
+      for await (const chunk of blob.stream) {
+        entry.push(chunk);
+        if (res.writableNeedDrain) await once(res, "drain");
+      }
+      entry.push(new Uint8Array(0), true);
+    }
+    if (missing.length > 0) {
+      const note = new ZipPassThrough("MISSING.txt");
+      zip.add(note);
+      note.push(new TextEncoder().encode(`These files could not be included:\n${missing.join("\n")}\n`), true);
+    }
+    zip.end();
+  } catch (err) {
+    // Headers are already sent, so all we can do is cut the response short.
+    console.error("Archive stream error:", err);
+    res.destroy(err);
+  }
+}
+
+// Several documents often have files with the same name ("scan.pdf").
+function uniqueName(fileName, usedNames) {
+  const dot = fileName.lastIndexOf(".");
+  const [base, ext] = dot > 0 ? [fileName.slice(0, dot), fileName.slice(dot)] : [fileName, ""];
+  let name = fileName;
+  for (let n = 2; usedNames.has(name.toLowerCase()); n++) name = `${base} (${n})${ext}`;
+  usedNames.add(name.toLowerCase());
+  return name;
+}
@@ -0,0 +1,21 @@
+import { getSessionUser } from "./_lib/auth.js";
+import { getDb } from "./_lib/db.js";
+import { sendError } from "./_lib/http.js";
+
+// Returns the signed-in user, or 401 so the dashboard shows the login form.
+export default async function handler(req, res) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const db = await getDb();
+    const user = await getSessionUser(db, req);
+    if (!user) {
+      return res.status(401).json({ error: "Please sign in" });
+    }
+    return res.status(200).json(user);
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
@@ -0,0 +1,19 @@
+import { requireUser } from "../_lib/auth.js";
+import { getDb } from "../_lib/db.js";
+import { methodNotAllowed, sendError } from "../_lib/http.js";
+import { listNotifications } from "../_lib/notifications.js";
+
+// The signed-in user's latest notifications and unread count.
+export default async function handler(req, res) {
+  if (req.method !== "GET") {
+    return methodNotAllowed(res, ["GET"]);
+  }
+
+  try {
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    return res.status(200).json(await listNotifications(db, user));
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
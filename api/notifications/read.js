@@ -0,0 +1,21 @@
+import { requireUser } from "../_lib/auth.js";
+import { getDb } from "../_lib/db.js";
+import { methodNotAllowed, readJson, sendError } from "../_lib/http.js";
+import { markNotificationsRead, validateReadRequest } from "../_lib/notifications.js";
+
+// POST { ids } marks those notifications as read; without ids, all of them.
+// Answers like GET /api/notifications.
+export default async function handler(req, res) {
+  if (req.method !== "POST") {
+    return methodNotAllowed(res, ["POST"]);
+  }
+
+  try {
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    const ids = validateReadRequest(readJson(req));
+    return res.status(200).json(await markNotificationsRead(db, user, ids));
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
@@ -0,0 +1,21 @@
+import { requireUser } from "./_lib/auth.js";
+import { getDb } from "./_lib/db.js";
+import { methodNotAllowed, sendError } from "./_lib/http.js";
+import { loadSettings } from "./_lib/settings.js";
+
+// The configured divisions, document types, status colors and custom fields.
+// Every signed-in user needs them to render the dashboard; only admins can
+// change them.
+export default async function handler(req, res) {
+  if (req.method !== "GET") {
+    return methodNotAllowed(res, ["GET"]);
+  }
+
+  try {
+    const db = await getDb();
+    await requireUser(db, req);
+    return res.status(200).json(await loadSettings(db));
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
@@ -0,0 +1,22 @@
+import { assertCan, requireUser } from "../_lib/auth.js";
+import { getDb } from "../_lib/db.js";
+import { methodNotAllowed, readJson, sendError } from "../_lib/http.js";
+import { setStatusColor, validateColor } from "../_lib/settings.js";
+
+// Statuses belong to the review workflow, so they cannot be added, renamed or
+// removed; PATCH { color } recolors one. Responds with all statuses.
+export default async function handler(req, res) {
+  if (req.method !== "PATCH") {
+    return methodNotAllowed(res, ["PATCH"]);
+  }
+
+  try {
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    assertCan(user, "admin");
+    const color = validateColor(readJson(req));
+    return res.status(200).json(await setStatusColor(db, req.query.name, color));
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
@@ -0,0 +1,29 @@
+import { requireUser } from "../../_lib/auth.js";
+import { deleteBlobs } from "../../_lib/blob.js";
+import { getDb } from "../../_lib/db.js";
+import { methodNotAllowed, parseId, sendError } from "../../_lib/http.js";
+import { purgeDocument } from "../../_lib/trash.js";
+
+// DELETE purges a trashed document and its files for good (admins only).
+export default async function handler(req, res) {
+  if (req.method !== "DELETE") {
+    return methodNotAllowed(res, ["DELETE"]);
+  }
+
+  try {
+    const id = parseId(req.query.id);
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    const { fileUrls } = await purgeDocument(db, id, user);
+    try {
+      await deleteBlobs(fileUrls);
+    } catch (err) {
+      // The record is already gone; the blob reconciliation job will pick
+      // up the leftover file.
+      console.error(`Failed to delete blob for document ${id}:`, err);
+    }
+    return res.status(204).end();
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
@@ -0,0 +1,23 @@
+import { requireUser } from "../../_lib/auth.js";
+import { getDb } from "../../_lib/db.js";
+import { methodNotAllowed, parseId, sendError } from "../../_lib/http.js";
+import { restoreDocument } from "../../_lib/trash.js";
+import { dispatchWebhooks } from "../../_lib/webhooks.js";
+
+// Takes a document back out of the trash.
+export default async function handler(req, res) {
+  if (req.method !== "POST") {
+    return methodNotAllowed(res, ["POST"]);
+  }
+
+  try {
+    const id = parseId(req.query.id);
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    const document = await restoreDocument(db, id, user);
+    dispatchWebhooks(db);
+    return res.status(200).json(document);
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
@@ -0,0 +1,20 @@
+import { assertCan, requireUser } from "../_lib/auth.js";
+import { getDb } from "../_lib/db.js";
+import { methodNotAllowed, sendError } from "../_lib/http.js";
+import { listTrash } from "../_lib/trash.js";
+
+// Every document in the trash, admins only.
+export default async function handler(req, res) {
+  if (req.method !== "GET") {
+    return methodNotAllowed(res, ["GET"]);
+  }
+
+  try {
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    assertCan(user, "admin");
+    return res.status(200).json(await listTrash(db));
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
@@ -1,4 +1,18 @@
-import { put } from "@vercel/blob";
+import { assertCan, requireUser } from "./_lib/auth.js";
+import { deleteBlobs, putBlob } from "./_lib/blob.js";
+import { getDb } from "./_lib/db.js";
+import { isFileUrlReferenced } from "./_lib/documents.js";
+import { extractText, forgetFileTexts, saveFileText } from "./_lib/extract.js";
+import { HttpError, sendError } from "./_lib/http.js";
+import { assembleUpload, CHUNK_SIZE, discardUpload, getUpload, savePart, startUpload } from "./_lib/resumable.js";
+import {
+  createUploadReceipt,
+  inspectUpload,
+  readUploadBody,
+  spendUploadReceipt,
+  storageKey,
+  verifyUploadReceipt,
+} from "./_lib/uploads.js";
 
 export const config = {
   api: {
@@ -6,15 +20,44 @@ export const config = {
   },
 };
 
+// Small files are sent whole with POST ?filename=. Large ones use a
+// resumable upload (see _lib/resumable.js):
+//   POST   ?action=start&filename=&size=   -> { uploadId, chunkSize, parts }
+//   PUT    ?uploadId=&part=                -> body is one chunk
+//   GET    ?uploadId=                      -> which parts have arrived
+//   POST   ?action=complete&uploadId=      -> same answer as a whole-file POST
+//   DELETE ?uploadId=                      -> cancels the upload
 export default async function handler(req, res) {
-  if (req.method !== "POST") {
+  if (req.method === "DELETE") {
+    return req.query.uploadId ? cancelResumable(req, res) : rollbackUpload(req, res);
+  }
+  if (!["GET", "POST", "PUT"].includes(req.method)) {
     return res.status(405).json({ error: "Method not allowed" });
   }
 
   try {
-    const token = process.env.BLOB_READ_WRITE_TOKEN;
-    if (!token) {
-      return res.status(500).json({ error: "Missing BLOB_READ_WRITE_TOKEN" });
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    assertCan(user, "upload");
+
+    const { action, uploadId } = req.query;
+    if (req.method === "GET") {
+      return res.status(200).json(await getUpload(db, user, uploadId));
+    }
+    if (req.method === "PUT") {
+      const body = await readUploadBody(req, CHUNK_SIZE);
+      return res.status(200).json(await savePart(db, user, uploadId, Number(req.query.part), body));
+    }
+    if (action === "start") {
+      const { filename, size } = req.query;
+      if (!filename) throw new HttpError(400, "Filename is required");
+      return res.status(201).json(await startUpload(db, user, filename, Number(size)));
+    }
+    if (action === "complete") {
+      const { fileName, body } = await assembleUpload(db, user, uploadId);
+      const upload = await storeUpload(db, user, fileName, body);
+      await discardUpload(db, user, uploadId);
+      return res.status(200).json(upload);
     }
 
     // Ambil nama file dari query param
@@ -23,15 +66,64 @@ export default async function handler(req, res) {
       return res.status(400).json({ error: "Filename is required" });
     }
 
-    const token = process.env.BLOB_READ_WRITE_TOKEN;
-    const blob = await put(filename, req, {
-      access: "public",
-      token,
-    });
+    const body = await readUploadBody(req);
+    return res.status(200).json(await storeUpload(db, user, filename, body));
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
+
+// Nothing is stored until the file has passed every check. The answer
+// describes the file but leaves out where it is stored (see blob.js).
+async function storeUpload(db, user, fileName, body) {
+  const file = inspectUpload(fileName, body);
+  const blob = await putBlob(storageKey(file.fileName), body);
+  // Stored before any document points at the file, so the search index
+  // picks it up as soon as one does.
+  const text = await extractText(file.fileName, body);
+  if (text) await saveFileText(db, blob.url, text);
+  return { ...file, receipt: await createUploadReceipt(db, user, { fileUrl: blob.url, ...file }) };
+}
+
+async function cancelResumable(req, res) {
+  try {
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    await discardUpload(db, user, req.query.uploadId);
+    return res.status(204).end();
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
+
+// Lets the client discard a blob it just uploaded when creating the document
+// record failed, named by the receipt its upload returned. Only the user who
+// uploaded the file can, and only while no document uses it: blobs that a
+// document points to can only go away together with the document, via
+// DELETE /api/documents/:id. The receipt is spent afterwards.
+async function rollbackUpload(req, res) {
+  try {
+    const { receipt } = req.query;
+    if (!receipt) {
+      return res.status(400).json({ error: "receipt is required" });
+    }
+
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    assertCan(user, "upload");
+    const { id, userId, fileUrl } = await verifyUploadReceipt(db, receipt);
+    if (userId !== user.id) {
+      throw new HttpError(403, "Only the user who uploaded a file can discard it");
+    }
+    if (await isFileUrlReferenced(db, fileUrl)) {
+      return res.status(409).json({ error: "File is still referenced by a document" });
+    }
 
-    return res.status(200).json(blob);
+    await spendUploadReceipt(db, id);
+    await deleteBlobs([fileUrl]);
+    await forgetFileTexts(db, [fileUrl]);
+    return res.status(204).end();
   } catch (err) {
-    console.error("Upload error:", err);
-    return res.status(500).json({ error: err.message });
+    return sendError(res, err);
   }
 }
@@ -0,0 +1,46 @@
+import { assertCan, requireUser } from "../_lib/auth.js";
+import { deleteBlobs } from "../_lib/blob.js";
+import { getDb } from "../_lib/db.js";
+import { HttpError, methodNotAllowed, readJson, sendError } from "../_lib/http.js";
+import { loadSettings } from "../_lib/settings.js";
+import { deleteUser, updateUser, validateUserPatch } from "../_lib/users.js";
+
+export default async function handler(req, res) {
+  if (req.method !== "PATCH" && req.method !== "DELETE") {
+    return methodNotAllowed(res, ["PATCH", "DELETE"]);
+  }
+
+  try {
+    const id = Number(req.query.id);
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new HttpError(400, "Invalid user id");
+    }
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    assertCan(user, "admin");
+
+    if (req.method === "PATCH") {
+      const patch = validateUserPatch(readJson(req), (await loadSettings(db)).divisions);
+      // Keeps at least one admin around: nobody else could undo this.
+      if (id === user.id && patch.role && patch.role !== "admin") {
+        throw new HttpError(400, "You cannot remove your own admin role");
+      }
+      return res.status(200).json(await updateUser(db, id, patch));
+    }
+
+    if (id === user.id) {
+      throw new HttpError(400, "You cannot delete your own account");
+    }
+    const partUrls = await deleteUser(db, id);
+    try {
+      await deleteBlobs(partUrls);
+    } catch (err) {
+      // The user is already gone; the blob reconciliation job will pick up
+      // the leftover parts.
+      console.error(`Failed to delete upload parts of user ${id}:`, err);
+    }
+    return res.status(204).end();
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
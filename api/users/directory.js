@@ -0,0 +1,20 @@
+import { requireUser } from "../_lib/auth.js";
+import { getDb } from "../_lib/db.js";
+import { methodNotAllowed, sendError } from "../_lib/http.js";
+import { listDirectory } from "../_lib/users.js";
+
+// Names and divisions of everyone, for picking who to route a document to.
+// Open to every signed-in user; the full user list stays admin-only.
+export default async function handler(req, res) {
+  if (req.method !== "GET") {
+    return methodNotAllowed(res, ["GET"]);
+  }
+
+  try {
+    const db = await getDb();
+    await requireUser(db, req);
+    return res.status(200).json(await listDirectory(db));
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
@@ -0,0 +1,27 @@
+import { assertCan, requireUser } from "../_lib/auth.js";
+import { getDb } from "../_lib/db.js";
+import { methodNotAllowed, readJson, sendError } from "../_lib/http.js";
+import { loadSettings } from "../_lib/settings.js";
+import { createUser, listUsers, validateNewUser } from "../_lib/users.js";
+
+// User management, admins only.
+export default async function handler(req, res) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    return methodNotAllowed(res, ["GET", "POST"]);
+  }
+
+  try {
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    assertCan(user, "admin");
+
+    if (req.method === "GET") {
+      return res.status(200).json(await listUsers(db));
+    }
+
+    const input = validateNewUser(readJson(req), (await loadSettings(db)).divisions);
+    return res.status(201).json(await createUser(db, input));
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
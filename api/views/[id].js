@@ -0,0 +1,23 @@
+import { requireUser } from "../_lib/auth.js";
+import { getDb } from "../_lib/db.js";
+import { HttpError, methodNotAllowed, sendError } from "../_lib/http.js";
+import { deleteView } from "../_lib/views.js";
+
+export default async function handler(req, res) {
+  if (req.method !== "DELETE") {
+    return methodNotAllowed(res, ["DELETE"]);
+  }
+
+  try {
+    const id = Number(req.query.id);
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new HttpError(400, "Invalid view id");
+    }
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    await deleteView(db, user, id);
+    return res.status(204).end();
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
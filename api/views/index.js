@@ -0,0 +1,25 @@
+import { requireUser } from "../_lib/auth.js";
+import { getDb } from "../_lib/db.js";
+import { methodNotAllowed, readJson, sendError } from "../_lib/http.js";
+import { listViews, saveView, validateNewView } from "../_lib/views.js";
+
+// The signed-in user's saved filter views.
+export default async function handler(req, res) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    return methodNotAllowed(res, ["GET", "POST"]);
+  }
+
+  try {
+    const db = await getDb();
+    const user = await requireUser(db, req);
+
+    if (req.method === "GET") {
+      return res.status(200).json(await listViews(db, user));
+    }
+
+    const input = validateNewView(readJson(req));
+    return res.status(200).json(await saveView(db, user, input));
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
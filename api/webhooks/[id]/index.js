@@ -0,0 +1,35 @@
+import { assertCan, requireUser } from "../../_lib/auth.js";
+import { getDb } from "../../_lib/db.js";
+import { HttpError, methodNotAllowed, readJson, sendError } from "../../_lib/http.js";
+import { deleteWebhook, getWebhook, updateWebhook, validateWebhookPatch } from "../../_lib/webhooks.js";
+
+// GET includes the webhook's most recent deliveries.
+export default async function handler(req, res) {
+  if (!["GET", "PATCH", "DELETE"].includes(req.method)) {
+    return methodNotAllowed(res, ["GET", "PATCH", "DELETE"]);
+  }
+
+  try {
+    const id = Number(req.query.id);
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new HttpError(400, "Invalid webhook id");
+    }
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    assertCan(user, "admin");
+
+    if (req.method === "GET") {
+      return res.status(200).json(await getWebhook(db, id));
+    }
+
+    if (req.method === "PATCH") {
+      const patch = validateWebhookPatch(readJson(req));
+      return res.status(200).json(await updateWebhook(db, id, patch));
+    }
+
+    await deleteWebhook(db, id);
+    return res.status(204).end();
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
@@ -0,0 +1,25 @@
+import { assertCan, requireUser } from "../../_lib/auth.js";
+import { getDb } from "../../_lib/db.js";
+import { HttpError, methodNotAllowed, sendError } from "../../_lib/http.js";
+import { sendTestEvent } from "../../_lib/webhooks.js";
+
+// Sends a signed test event right away and returns { ok, status, error }
+// from the receiving end.
+export default async function handler(req, res) {
+  if (req.method !== "POST") {
+    return methodNotAllowed(res, ["POST"]);
+  }
+
+  try {
+    const id = Number(req.query.id);
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new HttpError(400, "Invalid webhook id");
+    }
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    assertCan(user, "admin");
+    return res.status(200).json(await sendTestEvent(db, id, user));
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
@@ -0,0 +1,26 @@
+import { assertCan, requireUser } from "../_lib/auth.js";
+import { getDb } from "../_lib/db.js";
+import { methodNotAllowed, readJson, sendError } from "../_lib/http.js";
+import { createWebhook, listWebhooks, validateNewWebhook } from "../_lib/webhooks.js";
+
+// Outgoing webhooks, admins only. POST { url, events, description }.
+export default async function handler(req, res) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    return methodNotAllowed(res, ["GET", "POST"]);
+  }
+
+  try {
+    const db = await getDb();
+    const user = await requireUser(db, req);
+    assertCan(user, "admin");
+
+    if (req.method === "GET") {
+      return res.status(200).json(await listWebhooks(db));
+    }
+
+    const input = validateNewWebhook(readJson(req));
+    return res.status(201).json(await createWebhook(db, input));
+  } catch (err) {
+    return sendError(res, err);
+  }
+}
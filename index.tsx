@@ -4,629 +4,5922 @@
  */
 
 // --- TYPES ---
-type Division = 'HR' | 'Finance' | 'Engineering' | 'Marketing';
-type Status = 'Approved' | 'Pending' | 'Rejected';
+type Division = string; // Configured by admins, see loadSettings
+type Status = 'Pending' | 'In Review' | 'Approved' | 'Rejected';
 type ViewMode = 'grid' | 'list';
+type SortField = 'relevance' | 'date' | 'name' | 'division' | 'status';
+type SortOrder = 'asc' | 'desc';
+type ExpiryFilter = 'all' | 'expiring' | 'expired';
+type Page = 'documents' | 'analytics' | 'trash' | 'audit' | 'users' | 'settings';
+type SettingsList = 'divisions' | 'document-types';
+type WebhookEvent = 'document.created' | 'document.status_changed' | 'document.deleted' | 'document.restored' | 'document.expiring' | 'document.routed' | 'document.received' | 'document.commented';
+type Role = 'viewer' | 'uploader' | 'reviewer' | 'admin';
+type Permission = 'view' | 'upload' | 'edit' | 'review' | 'delete' | 'admin';
+type FileKind = 'pdf' | 'image' | 'text' | 'document' | 'other';
+type PdfDocument = import('pdfjs-dist').PDFDocumentProxy;
+type BulkAction = 'status' | 'move' | 'delete';
+type AuditAction = 'create' | 'view' | 'version_upload' | 'version_restore' | 'status_change' | 'edit' | 'delete' | 'restore' | 'purge' | 'route' | 'import' | 'comment' | 'comment_delete';
+type RouteAction = 'send' | 'receive' | 'forward' | 'return' | 'complete';
+type CustomFieldType = 'text' | 'number' | 'date' | 'select';
+type TagEditor = 'filter' | 'upload' | 'edit'; // Which tag list a tag editor changes, see editorTags
 
 // Updated AppDocument to reflect data coming from a server API
 interface AppDocument {
   id: number;
   name: string;
   division: Division;
+  documentType: string | null;
   status: Status;
+  fileName: string; // Files are opened through short-lived links, see apiFetchFileLink
+  sha256: string | null; // Unknown for files uploaded before checksums were recorded
+  currentVersion: number;
+  uploadedBy: string | null; // Who uploaded the current version
+  uploadedAt: string;
+  issueDate: string | null; // YYYY-MM-DD
+  expiryDate: string | null; // YYYY-MM-DD; see expiryState
+  reviewer: string | null; // Who is reviewing, or who made the last decision
+  rejectionReason: string | null;
+  routeStatus: 'in_transit' | 'received' | null; // Set while the document is being routed, see api/_lib/routing.js
+  routeDivision: Division | null; // Where it is headed, or who holds it
+  routeUserId: number | null; // Null when addressed to the whole division
+  routeUser: string | null;
+  routeDueDate: string | null; // YYYY-MM-DD
+  commentCount: number;
+  tags: string[];
+  fieldValues: Record<string, string | number>; // Custom field values by field id, see CustomField
+  snippet?: string | null; // Search results only. HTML from the server: matches wrapped in <mark>, the rest escaped
+}
+
+interface StatusTransition {
+  action: string;
+  fromStatus: Status | null;
+  toStatus: Status;
+  actor: string | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+// One step in a document's chain of custody.
+interface Handover {
+  id: number;
+  action: 'send' | 'forward' | 'return';
+  fromDivision: Division;
+  fromUserId: number | null;
+  fromUser: string | null;
+  toDivision: Division;
+  toUserId: number | null;
+  toUser: string | null;
+  note: string | null;
+  dueDate: string | null;
+  sentBy: string;
+  sentAt: string;
+  receivedBy: string | null;
+  receivedAt: string | null;
+  outcome: 'forwarded' | 'returned' | 'completed' | null;
+  closedBy: string | null;
+  closedAt: string | null;
+}
+
+interface WaitingDocument {
+  document: AppDocument;
+  handover: Handover | null; // The open handover
+}
+
+// Someone a document can be routed to or a comment can mention; divisions is
+// null for admins, who belong to every division.
+interface DirectoryEntry {
+  id: number;
+  name: string;
+  divisions: Division[] | null;
+}
+
+interface DocumentComment {
+  id: number;
+  documentId: number;
+  authorId: number | null; // Null once the author's account is deleted
+  author: string;
+  body: string; // Markdown, with mentions written as @[Name](userId); see renderMarkdown
+  mentions: number[];
+  createdAt: string;
+}
+
+interface AuditEntry {
+  id: number;
+  documentId: number | null;
+  documentName: string | null;
+  division: Division | null;
+  action: AuditAction;
+  actor: string | null;
+  details: Record<string, any> | null;
+  createdAt: string;
+}
+
+interface AppUser {
+  id: number;
+  email: string;
+  name: string;
+  role: Role;
+  divisions: Division[]; // Ignored for admins, who see every division
+}
+
+interface UploadResult {
+  fileName: string;
+  size: number;
+  sha256: string;
+  receipt: string;
+}
+
+// A detail admins add to documents, see api/_lib/fields.js.
+interface CustomField {
+  id: number;
+  name: string;
+  type: CustomFieldType;
+  options: string[]; // Select fields only
+  documentTypes: string[] | null; // Null when it applies to every type
+  requiredFor: string[];
+}
+
+interface Settings {
+  divisions: Division[];
+  documentTypes: string[];
+  statuses: { name: Status; color: string | null }[];
+  customFields: CustomField[];
+  expiryReminderDays: number;
+  trashRetentionDays: number;
+}
+
+interface TrashedDocument extends AppDocument {
+  deletedAt: string;
+  deletedBy: string;
+  purgeAt: string; // When the retention job deletes it for good
+}
+
+interface AppNotification {
+  id: number;
+  kind: string;
+  documentId: number | null;
+  documentName: string | null;
+  message: string;
+  createdAt: string;
+  readAt: string | null;
+}
+
+interface WebhookDelivery {
+  id: number;
+  eventId: string;
+  eventType: string;
+  attempts: number;
+  lastStatus: number | null;
+  lastError: string | null;
+  nextAttemptAt: string | null; // Null once delivered or given up
+  deliveredAt: string | null;
+  createdAt: string;
+}
+
+interface Webhook {
+  id: number;
+  url: string;
+  description: string | null;
+  events: WebhookEvent[];
+  secret: string; // Receivers check X-Webhook-Signature with it
+  active: boolean;
+  createdAt: string;
+  lastDelivery: WebhookDelivery | null;
+}
+
+interface SavedView {
+  id: number;
+  name: string;
+  params: string; // Query string, in the same form as the page URL
+  createdAt: string;
+}
+
+interface DocumentPage {
+  documents: AppDocument[];
+  nextCursor: string | null;
+  total: number;
+  cursor: number; // Where to start polling for changes
+}
+
+// What changed in the list since a cursor (GET /api/documents/changes).
+// `reload` means too much changed to report one by one.
+interface DocumentChanges {
+  cursor: number;
+  documents?: AppDocument[]; // Changed documents that match the filters
+  removed?: number[]; // Changed documents that no longer match, or were deleted
+  total?: number;
+  reload?: boolean;
+  changedBy: string[];
+}
+
+// How one document fared in a bulk action (POST /api/documents/batch).
+interface BatchResult {
+  id: number;
+  ok: boolean;
+  document?: AppDocument;
+  status?: number;
+  error?: string;
+}
+
+interface BatchOutcome {
+  results: BatchResult[];
+  download?: FileLink; // Bulk downloads only: a link to the ZIP
+}
+
+// GET /api/analytics. Every figure is for the divisions the user can see.
+interface Analytics {
+  statuses: Status[];
+  counts: { division: Division; status: Status; count: number }[];
+  uploads: { month: string; count: number }[]; // The last 12 months, oldest first
+  turnaround: { division: Division; outcome: 'Approved' | 'Rejected'; decisions: number; averageDays: number }[];
+  oldestPending: AppDocument[];
+  expiring: AppDocument[];
+  expiry: { days: number; expiring: number; expired: number };
+}
+
+type ExportFormat = 'csv' | 'xlsx';
+
+type ImportField = 'name' | 'division' | 'documentType' | 'status' | 'issueDate' | 'expiryDate' | 'fileName' | 'uploadedBy' | 'uploadedAt' | 'reviewer' | 'rejectionReason' | 'tags';
+
+// A spreadsheet chosen for import, read in the browser. `lines` are the
+// spreadsheet row numbers of `rows`, since blank rows are left out.
+interface RegisterSheet {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+  lines: number[];
+}
+
+// How one row fared in POST /api/documents/import.
+interface ImportRowResult {
+  row: number; // 1-based, in the order the rows were sent
+  ok: boolean;
+  errors: string[];
+  warnings: string[];
+  input: { name: string | null; division: Division | null; status: Status };
+  document?: AppDocument; // Once imported
+}
+
+interface ImportReport {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  imported: number;
+  rows: ImportRowResult[];
+}
+
+interface UploadSession {
+  uploadId: string;
+  chunkSize: number;
+  parts: number[]; // Parts the server already has
+}
+
+// One file on its way to the server. A failed chunked upload keeps its
+// `uploadId`, so retrying resumes it instead of starting over.
+interface UploadTransfer {
+  file: File;
+  uploadId: string | null;
+  xhr: XMLHttpRequest | null; // The request in flight, so it can be cancelled
+  cancelled: boolean;
+}
+
+type UploadState = 'queued' | 'uploading' | 'done' | 'failed' | 'cancelled';
+
+interface QueuedUpload {
+  id: number;
+  name: string; // Document name, defaults to the file name
+  transfer: UploadTransfer;
+  state: UploadState;
+  loaded: number;
+  message: string | null; // Error, or a warning about a finished upload
+  duplicates: string | null; // HTML listing documents that already have this exact file
+}
+
+interface FileLink {
+  url: string;
+  expiresAt: string;
+}
+
+interface PreviewTarget {
+  doc: AppDocument;
+  version: number;
+  fileName: string;
+}
+
+interface DocumentVersion {
+  version: number;
   fileName: string;
-  fileUrl: string; // The backend will provide a URL to the file
+  size: number | null;
+  sha256: string | null;
+  uploadedBy: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+// --- DOCUMENTS API ---
+// Metadata lives in the /api/documents routes (libSQL); file contents live in
+// Vercel Blob via /api/upload. Both are shared by every user of the dashboard.
+type ApiResponse = { ok: boolean; status: number; json: () => Promise<any> };
+
+function apiFailure(status: number, message: string): ApiResponse {
+    return { ok: false, status, json: () => Promise.resolve({ error: message }) };
+}
+
+async function readErrorMessage(response: ApiResponse): Promise<string> {
+    const errorData = await response.json().catch(() => ({}));
+    return errorData.error || errorData.message || `Server responded with ${response.status}`;
+}
+
+// Every API call goes through here. The session cookie travels with the
+// request; a 401 means it expired, so we drop back to the login form.
+async function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+    const response = await fetch(path, init);
+    if (response.status === 401 && currentUser) handleSessionExpired();
+    return response;
+}
+
+function jsonRequest(method: string, body: unknown): RequestInit {
+    return { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) };
+}
+
+async function apiFetchDocuments(params: URLSearchParams): Promise<ApiResponse> {
+  try {
+    return await apiFetch(`/api/documents?${params}`);
+  } catch (error) {
+    console.error("Failed to fetch documents:", error);
+    return apiFailure(500, (error as Error).message);
+  }
+}
+
+// Answers 304 while nothing has changed since `cursor`.
+async function apiFetchDocumentChanges(params: URLSearchParams, cursor: number): Promise<ApiResponse> {
+  params.set('since', String(cursor));
+  try {
+    return await apiFetch(`/api/documents/changes?${params}`, { headers: { 'If-None-Match': `"${cursor}"` } });
+  } catch (error) {
+    console.error("Failed to fetch document changes:", error);
+    return apiFailure(500, (error as Error).message);
+  }
+}
+
+function createTransfer(file: File): UploadTransfer {
+    return { file, uploadId: null, xhr: null, cancelled: false };
+}
+
+// fetch cannot report upload progress, so file bodies are sent with XHR.
+function sendFileBody(method: string, url: string, body: Blob, transfer: UploadTransfer, onProgress: (loaded: number) => void): Promise<ApiResponse> {
+    return new Promise((resolve, reject) => {
+        const xhr = new XMLHttpRequest();
+        transfer.xhr = xhr;
+        xhr.open(method, url);
+        xhr.upload.onprogress = (e) => onProgress(e.loaded);
+        xhr.onload = () => {
+            transfer.xhr = null;
+            if (xhr.status === 401 && currentUser) handleSessionExpired();
+            resolve({ ok: xhr.status >= 200 && xhr.status < 300, status: xhr.status, json: async () => JSON.parse(xhr.responseText) });
+        };
+        xhr.onerror = () => {
+            transfer.xhr = null;
+            reject(new Error('The connection was interrupted'));
+        };
+        xhr.onabort = () => {
+            transfer.xhr = null;
+            reject(new Error('Upload cancelled'));
+        };
+        xhr.send(body);
+    });
+}
+
+// Uploads the raw file to Vercel Blob storage via our serverless API route.
+// This follows the "server upload" pattern from the Vercel docs. The server
+// checks the file and answers with a signed receipt describing it, which is
+// what the document record is created from. Files larger than one chunk go
+// up in parts (see uploadInChunks).
+async function uploadFile(transfer: UploadTransfer, onProgress: (loaded: number) => void): Promise<UploadResult> {
+    const { file } = transfer;
+    if (file.size > UPLOAD_CHUNK_SIZE) return uploadInChunks(transfer, onProgress);
+    const uploadResponse = await sendFileBody('POST', `/api/upload?filename=${encodeURIComponent(file.name)}`, file, transfer, onProgress);
+    if (!uploadResponse.ok) {
+        throw new Error(await readErrorMessage(uploadResponse));
+    }
+    return uploadResponse.json();
+}
+
+// Sends the file one part at a time. When `transfer.uploadId` is already set
+// the server is asked which parts it has, and only the rest are sent.
+async function uploadInChunks(transfer: UploadTransfer, onProgress: (loaded: number) => void): Promise<UploadResult> {
+    const { file } = transfer;
+    let session: UploadSession | null = null;
+    if (transfer.uploadId) {
+        const response = await apiFetch(`/api/upload?${new URLSearchParams({ uploadId: transfer.uploadId })}`);
+        if (response.ok) session = await response.json();
+        else if (response.status !== 404) throw new Error(await readErrorMessage(response));
+    }
+    if (!session) {
+        const params = new URLSearchParams({ action: 'start', filename: file.name, size: String(file.size) });
+        const response = await apiFetch(`/api/upload?${params}`, { method: 'POST' });
+        if (!response.ok) throw new Error(await readErrorMessage(response));
+        session = await response.json() as UploadSession;
+        transfer.uploadId = session.uploadId;
+    }
+
+    const { uploadId, chunkSize, parts } = session;
+    const partSize = (part: number) => Math.min(chunkSize, file.size - part * chunkSize);
+    let uploaded = parts.reduce((sum, part) => sum + partSize(part), 0);
+    onProgress(uploaded);
+    for (let part = 0; part * chunkSize < file.size; part++) {
+        if (parts.includes(part)) continue;
+        if (transfer.cancelled) throw new Error('Upload cancelled');
+        const chunk = file.slice(part * chunkSize, part * chunkSize + partSize(part));
+        const url = `/api/upload?${new URLSearchParams({ uploadId, part: String(part) })}`;
+        const response = await sendFileBody('PUT', url, chunk, transfer, loaded => onProgress(uploaded + loaded));
+        if (!response.ok) throw new Error(await readErrorMessage(response));
+        uploaded += chunk.size;
+    }
+
+    const response = await apiFetch(`/api/upload?${new URLSearchParams({ action: 'complete', uploadId })}`, { method: 'POST' });
+    if (!response.ok) throw new Error(await readErrorMessage(response));
+    transfer.uploadId = null;
+    return response.json();
+}
+
+// Stops the request in flight and tells the server to drop any parts it
+// already has.
+function cancelTransfer(transfer: UploadTransfer) {
+    transfer.cancelled = true;
+    transfer.xhr?.abort();
+    if (transfer.uploadId) {
+        apiFetch(`/api/upload?${new URLSearchParams({ uploadId: transfer.uploadId })}`, { method: 'DELETE' })
+            .catch(error => console.error("Could not cancel the upload:", error));
+        transfer.uploadId = null;
+    }
+}
+
+// Uploads the file first, then creates the record that points to it via
+// `createRecord`. If the record cannot be created the blob is rolled back.
+async function uploadAndRecord(
+    transfer: UploadTransfer,
+    createRecord: (receipt: string) => Promise<Response>,
+    onProgress: (loaded: number) => void = () => {},
+): Promise<ApiResponse> {
+    if (!transfer.file || transfer.file.size === 0) {
+        return apiFailure(400, 'File is required and cannot be empty.');
+    }
+
+    let upload: UploadResult;
+    try {
+        upload = await uploadFile(transfer, onProgress);
+    } catch (error) {
+        console.error("Vercel Blob upload failed:", error);
+        return apiFailure(500, `File upload failed: ${(error as Error).message}`);
+    }
+
+    try {
+        const response = await createRecord(upload.receipt);
+        if (!response.ok) await rollbackUpload(upload.receipt);
+        return response;
+    } catch (error) {
+        console.error("Failed to create document metadata:", error);
+        await rollbackUpload(upload.receipt);
+        return apiFailure(500, `Metadata update failed: ${(error as Error).message}`);
+    }
+}
+
+async function apiCreateDocument(
+    fields: { name: string; division: Division; documentType: string | null; tags: string[]; fieldValues: Record<string, string> },
+    transfer: UploadTransfer,
+    onProgress: (loaded: number) => void,
+): Promise<ApiResponse> {
+    return uploadAndRecord(transfer, (receipt) => apiFetch('/api/documents', jsonRequest('POST', {
+        ...fields,
+        upload: receipt,
+    })), onProgress);
+}
+
+async function apiFetchDocument(docId: number): Promise<ApiResponse> {
+  try {
+    return await apiFetch(`/api/documents/${docId}`);
+  } catch (error) {
+    console.error("Failed to fetch document:", error);
+    return apiFailure(500, (error as Error).message);
+  }
+}
+
+// Documents the user can see that have (or had) a version with exactly
+// this content.
+async function apiFindDuplicates(sha256: string): Promise<ApiResponse> {
+    try {
+        return await apiFetch(`/api/documents?${new URLSearchParams({ sha256 })}`);
+    } catch (error) {
+        console.error("Failed to check for duplicates:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiCreateVersion(docId: number, formData: FormData): Promise<ApiResponse> {
+    const file = formData.get('file') as File;
+    return uploadAndRecord(createTransfer(file), (receipt) => apiFetch(`/api/documents/${docId}/versions`, jsonRequest('POST', {
+        upload: receipt,
+        note: formData.get('note'),
+    })));
+}
+
+async function apiFetchVersions(docId: number): Promise<ApiResponse> {
+    try {
+        return await apiFetch(`/api/documents/${docId}/versions`);
+    } catch (error) {
+        console.error("Failed to fetch versions:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiRestoreVersion(docId: number, version: number): Promise<ApiResponse> {
+    try {
+        return await apiFetch(`/api/documents/${docId}/restore`, jsonRequest('POST', { version }));
+    } catch (error) {
+        console.error("Failed to restore version:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiFetchCurrentUser(): Promise<ApiResponse> {
+    try {
+        return await apiFetch('/api/me');
+    } catch (error) {
+        console.error("Failed to fetch current user:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiLogin(email: string, password: string): Promise<ApiResponse> {
+    try {
+        return await apiFetch('/api/auth/login', jsonRequest('POST', { email, password }));
+    } catch (error) {
+        console.error("Login failed:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiLogout(): Promise<ApiResponse> {
+    try {
+        return await apiFetch('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+        console.error("Logout failed:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiFetchUsers(): Promise<ApiResponse> {
+    try {
+        return await apiFetch('/api/users');
+    } catch (error) {
+        console.error("Failed to fetch users:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiSaveUser(userId: number | null, body: Record<string, unknown>): Promise<ApiResponse> {
+    try {
+        return userId === null
+            ? await apiFetch('/api/users', jsonRequest('POST', body))
+            : await apiFetch(`/api/users/${userId}`, jsonRequest('PATCH', body));
+    } catch (error) {
+        console.error("Failed to save user:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiDeleteUser(userId: number): Promise<ApiResponse> {
+    try {
+        return await apiFetch(`/api/users/${userId}`, { method: 'DELETE' });
+    } catch (error) {
+        console.error("Failed to delete user:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiFetchSettings(): Promise<ApiResponse> {
+    try {
+        return await apiFetch('/api/settings');
+    } catch (error) {
+        console.error("Failed to fetch settings:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiAddListEntry(list: SettingsList, name: string): Promise<ApiResponse> {
+    try {
+        return await apiFetch(`/api/${list}`, jsonRequest('POST', { name }));
+    } catch (error) {
+        console.error("Failed to add entry:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiRenameListEntry(list: SettingsList, name: string, newName: string): Promise<ApiResponse> {
+    try {
+        return await apiFetch(`/api/${list}/${encodeURIComponent(name)}`, jsonRequest('PATCH', { name: newName }));
+    } catch (error) {
+        console.error("Failed to rename entry:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiRemoveListEntry(list: SettingsList, name: string, moveTo: string | null): Promise<ApiResponse> {
+    const query = moveTo ? `?${new URLSearchParams({ moveTo })}` : '';
+    try {
+        return await apiFetch(`/api/${list}/${encodeURIComponent(name)}${query}`, { method: 'DELETE' });
+    } catch (error) {
+        console.error("Failed to remove entry:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiSetStatusColor(status: Status, color: string): Promise<ApiResponse> {
+    try {
+        return await apiFetch(`/api/statuses/${encodeURIComponent(status)}`, jsonRequest('PATCH', { color }));
+    } catch (error) {
+        console.error("Failed to set status color:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiSaveCustomField(fieldId: number | null, body: Record<string, unknown>): Promise<ApiResponse> {
+    try {
+        return fieldId === null
+            ? await apiFetch('/api/custom-fields', jsonRequest('POST', body))
+            : await apiFetch(`/api/custom-fields/${fieldId}`, jsonRequest('PATCH', body));
+    } catch (error) {
+        console.error("Failed to save custom field:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiDeleteCustomField(fieldId: number): Promise<ApiResponse> {
+    try {
+        return await apiFetch(`/api/custom-fields/${fieldId}`, { method: 'DELETE' });
+    } catch (error) {
+        console.error("Failed to delete custom field:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiFetchWebhooks(): Promise<ApiResponse> {
+    try {
+        return await apiFetch('/api/webhooks');
+    } catch (error) {
+        console.error("Failed to fetch webhooks:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiSaveWebhook(webhookId: number | null, body: Record<string, unknown>): Promise<ApiResponse> {
+    try {
+        return webhookId === null
+            ? await apiFetch('/api/webhooks', jsonRequest('POST', body))
+            : await apiFetch(`/api/webhooks/${webhookId}`, jsonRequest('PATCH', body));
+    } catch (error) {
+        console.error("Failed to save webhook:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiDeleteWebhook(webhookId: number): Promise<ApiResponse> {
+    try {
+        return await apiFetch(`/api/webhooks/${webhookId}`, { method: 'DELETE' });
+    } catch (error) {
+        console.error("Failed to delete webhook:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiTestWebhook(webhookId: number): Promise<ApiResponse> {
+    try {
+        return await apiFetch(`/api/webhooks/${webhookId}/test`, { method: 'POST' });
+    } catch (error) {
+        console.error("Failed to test webhook:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiFetchSavedViews(): Promise<ApiResponse> {
+    try {
+        return await apiFetch('/api/views');
+    } catch (error) {
+        console.error("Failed to fetch saved views:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiSaveView(name: string, params: string): Promise<ApiResponse> {
+    try {
+        return await apiFetch('/api/views', jsonRequest('POST', { name, params }));
+    } catch (error) {
+        console.error("Failed to save view:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiDeleteView(viewId: number): Promise<ApiResponse> {
+    try {
+        return await apiFetch(`/api/views/${viewId}`, { method: 'DELETE' });
+    } catch (error) {
+        console.error("Failed to delete saved view:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiFetchNotifications(): Promise<ApiResponse> {
+    try {
+        return await apiFetch('/api/notifications');
+    } catch (error) {
+        console.error("Failed to fetch notifications:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+// Without ids, marks every notification as read.
+async function apiMarkNotificationsRead(ids?: number[]): Promise<ApiResponse> {
+    try {
+        return await apiFetch('/api/notifications/read', jsonRequest('POST', ids ? { ids } : {}));
+    } catch (error) {
+        console.error("Failed to mark notifications as read:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiFetchTransitions(docId: number): Promise<ApiResponse> {
+    try {
+        return await apiFetch(`/api/documents/${docId}/transitions`);
+    } catch (error) {
+        console.error("Failed to fetch status history:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiTransitionDocument(docId: number, action: string, reason?: string): Promise<ApiResponse> {
+    try {
+        return await apiFetch(`/api/documents/${docId}/transitions`, jsonRequest('POST', { action, reason }));
+    } catch (error) {
+        console.error("Failed to update status:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiFetchHandovers(docId: number): Promise<ApiResponse> {
+    try {
+        return await apiFetch(`/api/documents/${docId}/handovers`);
+    } catch (error) {
+        console.error("Failed to fetch chain of custody:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiRouteDocument(docId: number, body: Record<string, unknown>): Promise<ApiResponse> {
+    try {
+        return await apiFetch(`/api/documents/${docId}/handovers`, jsonRequest('POST', body));
+    } catch (error) {
+        console.error("Failed to route document:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiFetchComments(docId: number): Promise<ApiResponse> {
+    try {
+        return await apiFetch(`/api/documents/${docId}/comments`);
+    } catch (error) {
+        console.error("Failed to fetch comments:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiAddComment(docId: number, body: string): Promise<ApiResponse> {
+    try {
+        return await apiFetch(`/api/documents/${docId}/comments`, jsonRequest('POST', { body }));
+    } catch (error) {
+        console.error("Failed to add comment:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiDeleteComment(commentId: number): Promise<ApiResponse> {
+    try {
+        return await apiFetch(`/api/comments/${commentId}`, { method: 'DELETE' });
+    } catch (error) {
+        console.error("Failed to delete comment:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiFetchWaitingDocuments(): Promise<ApiResponse> {
+    try {
+        return await apiFetch('/api/documents/waiting');
+    } catch (error) {
+        console.error("Failed to fetch documents waiting on you:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiFetchDirectory(): Promise<ApiResponse> {
+    try {
+        return await apiFetch('/api/users/directory');
+    } catch (error) {
+        console.error("Failed to fetch users:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiFetchTags(): Promise<ApiResponse> {
+    try {
+        return await apiFetch('/api/documents/tags');
+    } catch (error) {
+        console.error("Failed to fetch tags:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+// Sends only the changed fields; `fieldValues` only the custom fields that
+// change, null clearing one. A status change is checked against the review
+// workflow on the server, like a review action.
+async function apiUpdateDocument(docId: number, patch: Partial<Pick<AppDocument, 'name' | 'division' | 'documentType' | 'issueDate' | 'expiryDate' | 'status' | 'tags'>> & { reason?: string; fieldValues?: Record<string, string | null> }): Promise<ApiResponse> {
+    try {
+        return await apiFetch(`/api/documents/${docId}`, jsonRequest('PATCH', patch));
+    } catch (error) {
+        console.error("Failed to update document:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiRunBatch(body: Record<string, unknown>): Promise<ApiResponse> {
+    try {
+        return await apiFetch('/api/documents/batch', jsonRequest('POST', body));
+    } catch (error) {
+        console.error("Failed to run bulk action:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+// Answers with the file itself rather than JSON.
+async function apiExportRegister(params: URLSearchParams): Promise<Response | ApiResponse> {
+    try {
+        return await apiFetch(`/api/documents/export?${params}`);
+    } catch (error) {
+        console.error("Failed to export documents:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiImportRegister(rows: Record<string, string>[], dryRun: boolean): Promise<ApiResponse> {
+    try {
+        return await apiFetch('/api/documents/import', jsonRequest('POST', { rows, dryRun }));
+    } catch (error) {
+        console.error("Failed to import documents:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiFetchAnalytics(): Promise<ApiResponse> {
+    try {
+        return await apiFetch('/api/analytics');
+    } catch (error) {
+        console.error("Failed to fetch analytics:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiFetchTrash(): Promise<ApiResponse> {
+    try {
+        return await apiFetch('/api/trash');
+    } catch (error) {
+        console.error("Failed to fetch trash:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiRestoreDocument(docId: number): Promise<ApiResponse> {
+    try {
+        return await apiFetch(`/api/trash/${docId}/restore`, { method: 'POST' });
+    } catch (error) {
+        console.error("Failed to restore document:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiPurgeDocument(docId: number): Promise<ApiResponse> {
+    try {
+        return await apiFetch(`/api/trash/${docId}`, { method: 'DELETE' });
+    } catch (error) {
+        console.error("Failed to purge document:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+async function apiFetchAuditLog(params: Record<string, string>): Promise<ApiResponse> {
+    try {
+        return await apiFetch(`/api/audit?${new URLSearchParams(params)}`);
+    } catch (error) {
+        console.error("Failed to fetch audit log:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+// Asks for a short-lived link to the file of one version (the current one if
+// omitted). The server records the view in the audit log.
+async function apiFetchFileLink(docId: number, version?: number): Promise<ApiResponse> {
+    try {
+        return await apiFetch(`/api/documents/${docId}/link`, jsonRequest('POST', { version }));
+    } catch (error) {
+        console.error("Failed to fetch file link:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+// Removes a freshly uploaded blob whose document record could not be created,
+// so it does not linger as an orphan. Failures are only logged: the nightly
+// reconciliation job catches anything left behind.
+async function rollbackUpload(receipt: string) {
+    try {
+        const response = await apiFetch(`/api/upload?receipt=${encodeURIComponent(receipt)}`, { method: 'DELETE' });
+        if (!response.ok) console.error("Blob rollback failed:", await readErrorMessage(response));
+    } catch (error) {
+        console.error("Blob rollback failed:", error);
+    }
+}
+
+async function apiDeleteDocument(docId: number): Promise<ApiResponse> {
+    try {
+        return await apiFetch(`/api/documents/${docId}`, { method: 'DELETE' });
+    } catch (error) {
+        console.error("Failed to delete document:", error);
+        return apiFailure(500, (error as Error).message);
+    }
+}
+
+
+// --- CONSTANTS & STATE ---
+// Statuses are fixed by the review workflow; divisions and document types
+// are configured by admins and loaded with the settings.
+const statuses: Status[] = ['Pending', 'In Review', 'Approved', 'Rejected'];
+let divisions: Division[] = [];
+let documentTypes: string[] = [];
+let statusColors: Partial<Record<Status, string>> = {};
+let entryToRemove: { list: SettingsList; name: string } | null = null;
+let expiryReminderDays = 30; // Replaced by the server's setting
+let trashRetentionDays = 30; // Likewise
+let webhooks: Webhook[] = [];
+let customFields: CustomField[] = [];
+let showFieldModal = false;
+let fieldBeingEdited: CustomField | null = null;
+const fieldTypeLabels: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  select: 'Choice list',
+};
+// Mirrors EVENT_TYPES in api/_lib/constants.js.
+const webhookEvents: { type: WebhookEvent; label: string }[] = [
+  { type: 'document.created', label: 'Uploaded' },
+  { type: 'document.status_changed', label: 'Status changed' },
+  { type: 'document.deleted', label: 'Deleted' },
+  { type: 'document.restored', label: 'Restored' },
+  { type: 'document.expiring', label: 'Expiring' },
+  { type: 'document.routed', label: 'Routed' },
+  { type: 'document.received', label: 'Received' },
+  { type: 'document.commented', label: 'Mentioned in a comment' },
+];
+// Ordered: each role can do everything the roles before it can.
+const roles: Role[] = ['viewer', 'uploader', 'reviewer', 'admin'];
+// Mirrors the server's permission table in api/_lib/auth.js. The server
+// enforces it; the dashboard only uses it to hide what would be refused.
+// Mirrors TRANSITIONS in api/_lib/workflow.js: the statuses a reviewer can
+// move a document to from each status.
+const workflowTargets: Record<Status, Status[]> = {
+  'Pending': ['In Review', 'Approved', 'Rejected'],
+  'In Review': ['Approved', 'Rejected'],
+  'Approved': [],
+  'Rejected': [],
+};
+const permissionRoles: Record<Permission, Role> = {
+  view: 'viewer',
+  upload: 'uploader',
+  edit: 'uploader',
+  review: 'reviewer',
+  delete: 'reviewer',
+  admin: 'admin',
+};
+
+// App state
+let documents: AppDocument[] = [];
+let currentView: ViewMode = 'grid';
+let filters = {
+  division: 'all',
+  type: 'all',
+  status: 'all',
+  expiry: 'all' as ExpiryFilter,
+  uploaded: 'all', // A month, YYYY-MM
+  tags: [] as string[], // Documents need all of them
+  fields: {} as Record<string, string>, // Custom field id -> a value or a from..to range
+  search: ''
+};
+let tagSuggestions: { name: string; count: number }[] = []; // The tags in use, most used first
+const MAX_TAG_LENGTH = 40; // MAX_TAG_LENGTH in api/_lib/documents.js
+// Filtering, searching and sorting all happen on the server, which hands
+// the list out a page at a time.
+let sort: { field: SortField; order: SortOrder } = { field: 'date', order: 'desc' };
+let nextCursor: string | null = null;
+let totalDocuments = 0;
+let isLoadingMore = false;
+let documentsRequest = 0; // Bumped per list request so late answers to an old query are dropped
+let loadMoreObserver: IntersectionObserver | null = null;
+let searchTimer: number | undefined;
+let savedViews: SavedView[] = [];
+// Live updates: open dashboards poll for what others changed (see
+// pollDocumentChanges).
+const CHANGES_POLL_MS = 15_000;
+let changesCursor: number | null = null;
+let changesTimer: number | undefined;
+let isPollingChanges = false;
+let outsideChange: { names: string[]; at: string } | null = null;
+let recentlyChangedIds = new Set<number>();
+// Bulk selection. `allMatchingSelected` stands for every document matching
+// the filters, including pages that are not loaded yet.
+let selectedIds = new Set<number>();
+let allMatchingSelected = false;
+let selectionAnchor: number | null = null; // Last checkbox clicked, for shift-click ranges
+let selectionFilter = ''; // The filters the selection was made under
+let bulkAction: BulkAction | null = null;
+const SEARCH_DEBOUNCE_MS = 250;
+const sortOptions: { value: string; label: string }[] = [
+  { value: 'relevance:asc', label: 'Best match' },
+  { value: 'date:desc', label: 'Newest upload' },
+  { value: 'date:asc', label: 'Oldest upload' },
+  { value: 'name:asc', label: 'Name (A-Z)' },
+  { value: 'name:desc', label: 'Name (Z-A)' },
+  { value: 'division:asc', label: 'Division' },
+  { value: 'status:asc', label: 'Status' },
+];
+let showUploadModal = false;
+// The bulk upload queue. It keeps running when the modal is closed.
+let uploadQueue: QueuedUpload[] = [];
+let uploadDefaults: { division: Division; documentType: string; status: Status; tags: string[]; fieldValues: Record<string, string> } = {
+  division: '',
+  documentType: '',
+  status: 'Pending',
+  tags: [],
+  fieldValues: {},
+};
+let isUploadQueueRunning = false;
+let nextQueuedUploadId = 1;
+const UPLOAD_CHUNK_SIZE = 4 * 1024 * 1024; // CHUNK_SIZE in api/_lib/resumable.js
+let documentToDelete: AppDocument | null = null;
+// Offered for a few seconds after documents are moved to the trash.
+const UNDO_TOAST_MS = 10_000;
+let undoToast: { ids: number[]; message: string } | null = null;
+let undoTimer: number | undefined;
+let showImportModal = false;
+let importSheet: RegisterSheet | null = null;
+let importMapping: Partial<Record<ImportField, number>> = {}; // Field -> column index
+let importReport: ImportReport | null = null; // The dry run of the current sheet and mapping
+let analytics: Analytics | null = null;
+let isAnalyticsLoading = false;
+let analyticsError: string | null = null;
+let trashedDocuments: TrashedDocument[] = [];
+let isTrashLoading = false;
+let trashError: string | null = null;
+let isLoading = true;
+let errorMessage: string | null = null;
+let isSubmitting = false;
+let documentForNewVersion: AppDocument | null = null;
+let documentToEdit: AppDocument | null = null;
+let editTags: string[] = []; // The edit form's tags, changed in place by its tag editor
+let historyDocument: AppDocument | null = null;
+let documentVersions: DocumentVersion[] = [];
+let isHistoryLoading = false;
+let currentUser: AppUser | null = null;
+let notifications: AppNotification[] = [];
+let unreadNotifications = 0;
+let showNotifications = false;
+let isAuthChecking = true;
+let loginError: string | null = null;
+let users: AppUser[] = [];
+let isUsersLoading = false;
+let usersError: string | null = null;
+let showUserModal = false;
+let userBeingEdited: AppUser | null = null;
+let reviewDocument: AppDocument | null = null;
+let statusTransitions: StatusTransition[] = [];
+let isReviewLoading = false;
+let reviewReason = '';
+let currentPage: Page = 'documents';
+let historyTab: 'versions' | 'activity' | 'custody' = 'versions';
+let documentActivity: AuditEntry[] = [];
+let documentHandovers: Handover[] = []; // For the history modal's Custody tab and the route modal
+let waitingDocuments: WaitingDocument[] = [];
+let directory: DirectoryEntry[] = [];
+let documentToRoute: AppDocument | null = null;
+let commentsDocument: AppDocument | null = null; // The document whose comments panel is open
+let documentComments: DocumentComment[] = [];
+let isCommentsLoading = false;
+let isCommentSubmitting = false;
+let commentDraft = '';
+const MAX_COMMENT_LENGTH = 5000; // MAX_COMMENT_LENGTH in api/_lib/comments.js
+let mentionSuggestions: { start: number; matches: DirectoryEntry[]; active: number } | null = null; // While an @name is being typed
+let auditEntries: AuditEntry[] = [];
+let auditFilters = {
+  user: '',
+  action: '',
+  division: '',
+  from: '',
+  to: ''
+};
+let auditNextBefore: number | null = null;
+let isAuditLoading = false;
+let auditError: string | null = null;
+// Preview modal. The link expires after a few minutes, so downloading asks
+// for a fresh one once it is stale.
+let previewTarget: PreviewTarget | null = null;
+let previewLink: FileLink | null = null;
+let previewText: string | null = null;
+let previewPdf: PdfDocument | null = null;
+let previewPage = 1;
+let previewZoom = 1;
+let isPreviewLoading = false;
+let previewError: string | null = null;
+const ZOOM_MIN = 0.25;
+const ZOOM_MAX = 4;
+const ZOOM_STEP = 1.25;
+
+// --- DOM ELEMENTS ---
+const root = document.getElementById('root')!;
+
+// --- ICONS (as functions returning SVG strings) ---
+const icons = {
+  search: () => `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="11" cy="11" r="8"></circle><line x1="21" y1="21" x2="16.65" y2="16.65"></line></svg>`,
+  grid: () => `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="3" y="3" width="7" height="7"></rect><rect x="14" y="3" width="7" height="7"></rect><rect x="14" y="14" width="7" height="7"></rect><rect x="3" y="14" width="7" height="7"></rect></svg>`,
+  list: () => `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><line x1="8" y1="6" x2="21" y2="6"></line><line x1="8" y1="12" x2="21" y2="12"></line><line x1="8" y1="18" x2="21" y2="18"></line><line x1="3" y1="6" x2="3.01" y2="6"></line><line x1="3" y1="12" x2="3.01" y2="12"></line><line x1="3" y1="18" x2="3.01" y2="18"></line></svg>`,
+  file: () => `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M13 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V9z"></path><polyline points="13 2 13 9 20 9"></polyline></svg>`,
+  image: () => `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="3" y="3" width="18" height="18" rx="2" ry="2"></rect><circle cx="8.5" cy="8.5" r="1.5"></circle><polyline points="21 15 16 10 5 21"></polyline></svg>`,
+  pdf: () => `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M14 2v4a2 2 0 0 0 2 2h4"></path><path d="M10.3 12.3a1 1 0 0 0-1.6 1.4"></path><path d="M14.3 11.7a1 1 0 0 1-1.6 1.4"></path><path d="M4 22V4a2 2 0 0 1 2-2h8l6 6v12a2 2 0 0 1-2 2z"></path><path d="M4.6 12.3a1 1 0 0 1 1.6-1.4"></path><path d="M8.6 11.7a1 1 0 0 0 1.6-1.4"></path></svg>`,
+  text: () => `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M14.5 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V7.5L14.5 2z"></path><polyline points="14 2 14 8 20 8"></polyline><line x1="16" y1="13" x2="8" y2="13"></line><line x1="16" y1="17" x2="8" y2="17"></line><line x1="10" y1="9" x2="8" y2="9"></line></svg>`,
+  trash: () => `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="3 6 5 6 21 6"></polyline><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path><line x1="10" y1="11" x2="10" y2="17"></line><line x1="14" y1="11" x2="14" y2="17"></line></svg>`,
+  download: () => `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="7 10 12 15 17 10"></polyline><line x1="12" y1="15" x2="12" y2="3"></line></svg>`,
+  upload: () => `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="17 8 12 3 7 8"></polyline><line x1="12" y1="3" x2="12" y2="15"></line></svg>`,
+  bell: () => `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M18 8A6 6 0 0 0 6 8c0 7-3 9-3 9h18s-3-2-3-9"></path><path d="M13.73 21a2 2 0 0 1-3.46 0"></path></svg>`,
+  review: () => `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M22 11.08V12a10 10 0 1 1-5.93-9.14"></path><polyline points="22 4 12 14.01 9 11.01"></polyline></svg>`,
+  edit: () => `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M12 20h9"></path><path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z"></path></svg>`,
+  history: () => `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="1 4 1 10 7 10"></polyline><path d="M3.51 15a9 9 0 1 0 2.13-9.36L1 10"></path><polyline points="12 7 12 12 15 14"></polyline></svg>`,
+  route: () => `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><line x1="22" y1="2" x2="11" y2="13"></line><polygon points="22 2 15 22 11 13 2 9 22 2"></polygon></svg>`,
+  comment: () => `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"></path></svg>`,
+  loader: () => `<svg class="spinner" viewBox="0 0 50 50"><circle class="path" cx="25" cy="25" r="20" fill="none" stroke-width="5"></circle></svg>`,
+};
+
+// --- RENDER FUNCTIONS ---
+function render() {
+  if (isAuthChecking || !currentUser) {
+    root.innerHTML = isAuthChecking
+      ? '<div class="message-container"><div class="loading-spinner"></div></div>'
+      : renderLoginPage();
+    document.getElementById('login-form')?.addEventListener('submit', handleLoginSubmit);
+    return;
+  }
+  const appHTML = `
+    ${renderSidebar()}
+    <main class="main-content">
+      ${renderPage()}
+    </main>
+    ${showUploadModal ? renderUploadModal() : ''}
+    ${documentToDelete ? renderDeleteConfirmationModal() : ''}
+    ${bulkAction ? renderBulkModal() : ''}
+    ${documentForNewVersion ? renderNewVersionModal() : ''}
+    ${documentToEdit ? renderEditModal() : ''}
+    ${historyDocument ? renderHistoryModal() : ''}
+    ${reviewDocument ? renderReviewModal() : ''}
+    ${documentToRoute ? renderRouteModal() : ''}
+    ${showImportModal ? renderImportModal() : ''}
+    ${showUserModal ? renderUserModal() : ''}
+    ${showFieldModal ? renderFieldModal() : ''}
+    ${entryToRemove ? renderRemoveEntryModal() : ''}
+    ${previewTarget ? renderPreviewModal() : ''}
+    ${commentsDocument ? renderCommentsPanel() : ''}
+    ${showNotifications ? renderNotificationsPanel() : ''}
+    ${undoToast ? renderUndoToast() : ''}
+    ${renderTagSuggestions()}
+  `;
+  const commentsPanelState = commentsDocument ? saveCommentsPanelState() : null;
+  root.innerHTML = appHTML;
+  addEventListeners();
+  if (commentsPanelState) restoreCommentsPanelState(commentsPanelState);
+  if (!isLoading) {
+    updateDocumentsView();
+  }
+  if (previewPdf) drawPdfPage();
+}
+
+function renderPage() {
+    if (currentPage === 'analytics') return renderAnalyticsPage();
+    if (currentPage === 'trash') return renderTrashPage();
+    if (currentPage === 'audit') return renderAuditPage();
+    if (currentPage === 'users') return renderUsersPage();
+    if (currentPage === 'settings') return renderSettingsPage();
+    return `
+      ${renderHeader()}
+      <div class="documents-container">
+        ${renderMainContent()}
+      </div>
+    `;
+}
+
+function renderLoginPage() {
+    const submittingClass = isSubmitting ? 'is-submitting' : '';
+    return `
+      <div class="login-page">
+        <form id="login-form" class="login-card">
+          <h1 class="login-title">PT JGSM</h1>
+          <p class="form-hint">Sign in to the document tracker.</p>
+          ${loginError ? `<p class="form-error">${escapeHtml(loginError)}</p>` : ''}
+          <div class="form-group"><label for="login-email">Email</label><input type="email" id="login-email" name="email" autocomplete="username" required></div>
+          <div class="form-group"><label for="login-password">Password</label><input type="password" id="login-password" name="password" autocomplete="current-password" required></div>
+          <button type="submit" class="btn btn-primary login-submit ${submittingClass}" ${isSubmitting ? 'disabled' : ''}>
+            <span class="btn-text">Sign In</span>
+            <span class="btn-loader">${icons.loader()}</span>
+          </button>
+        </form>
+      </div>
+    `;
+}
+
+function renderMainContent() {
+    if (isLoading) {
+        return `<div class="message-container"><div class="loading-spinner"></div><p>Connecting to shared database...</p></div>`;
+    }
+    if (errorMessage) {
+        return `<div class="message-container"><div class="error-message"><h4>Failed to load documents</h4><p>${errorMessage}</p><p>Please check your connection and try again later.</p></div></div>`;
+    }
+    return ''; // Documents rendered by updateDocumentsView
+}
+
+function renderSidebar() {
+  return `
+    <aside class="sidebar">
+      <div>
+        <h1 class="sidebar-header">PT JGSM</h1>
+        <div class="sidebar-section sidebar-user">
+          <div class="sidebar-user-name">${escapeHtml(currentUser!.name)}</div>
+          <div class="sidebar-user-role">${currentUser!.role}${currentUser!.role === 'admin' ? '' : ` &middot; ${escapeHtml(currentUser!.divisions.join(', ')) || 'No divisions'}`}</div>
+          <div class="sidebar-user-actions">
+            <button type="button" class="notifications-btn" id="notifications-btn" aria-label="Notifications${unreadNotifications ? `, ${unreadNotifications} unread` : ''}" aria-expanded="${showNotifications}">
+              ${icons.bell()}${unreadNotifications ? `<span class="notifications-count">${unreadNotifications > 99 ? '99+' : unreadNotifications}</span>` : ''}
+            </button>
+            <button type="button" class="btn btn-secondary btn-small" id="logout-btn">Sign Out</button>
+          </div>
+        </div>
+        <nav class="sidebar-section sidebar-nav">
+          <button type="button" class="nav-link ${currentPage === 'documents' ? 'active' : ''}" data-page="documents">Documents</button>
+          <button type="button" class="nav-link ${currentPage === 'analytics' ? 'active' : ''}" data-page="analytics">Analytics</button>
+          ${can('admin') ? `
+          <button type="button" class="nav-link ${currentPage === 'trash' ? 'active' : ''}" data-page="trash">Trash</button>
+          <button type="button" class="nav-link ${currentPage === 'audit' ? 'active' : ''}" data-page="audit">Audit Log</button>
+          <button type="button" class="nav-link ${currentPage === 'users' ? 'active' : ''}" data-page="users">Users</button>
+          <button type="button" class="nav-link ${currentPage === 'settings' ? 'active' : ''}" data-page="settings">Settings</button>` : ''}
+        </nav>
+        ${renderWaitingInbox()}
+        ${currentPage === 'documents' ? renderFilterSections() : ''}
+      </div>
+      <div class="sidebar-section external-links">
+        <h3>External Links</h3>
+        <a href="https://oss.go.id/en">OSS</a><a href="https://drive.google.com/drive/folders/1cKDwgey0_jt8YpDT5XsTk0uN974e25Db">HR Drive</a><a href="#">ITk</a>
+      </div>
+    </aside>
+  `;
+}
+
+function renderWaitingInbox() {
+  return `
+    <div class="sidebar-section waiting-inbox">
+      <h3>Waiting on Me${waitingDocuments.length ? ` <span class="waiting-count">${waitingDocuments.length}</span>` : ''}</h3>
+      ${waitingDocuments.length ? `
+      <ul class="waiting-list">
+        ${waitingDocuments.map(({ document: doc, handover }) => `
+          <li>
+            <button type="button" class="waiting-item ${isOverdue(doc.routeDueDate) ? 'overdue' : ''}" data-doc-id="${doc.id}">
+              <span class="waiting-name">${escapeHtml(doc.name)}</span>
+              <span class="waiting-meta">${doc.routeStatus === 'in_transit'
+                ? `From ${handover ? routeAddressee(handover.fromDivision, handover.fromUser) : 'unknown'}, to receive`
+                : 'Received, to pass on'}${doc.routeDueDate ? ` &middot; due ${doc.routeDueDate}` : ''}</span>
+            </button>
+          </li>`).join('')}
+      </ul>` : '<p class="waiting-empty">Nothing is waiting on you.</p>'}
+    </div>
+  `;
+}
+
+function renderFilterSections() {
+  return `
+    <div class="sidebar-section">
+      <h3>Filters</h3>
+      <label for="division-filter">Filter by Division</label>
+      <select id="division-filter" ${isLoading ? 'disabled' : ''}>
+        <option value="all">All Divisions</option>
+        ${divisions.map(d => `<option value="${escapeHtml(d)}" ${filters.division === d ? 'selected' : ''}>${escapeHtml(d)}</option>`).join('')}
+      </select>
+    </div>
+    <div class="sidebar-section">
+      <label for="type-filter">Filter by Type</label>
+      <select id="type-filter" ${isLoading ? 'disabled' : ''}>
+        <option value="all">All Types</option>
+        ${documentTypes.map(t => `<option value="${escapeHtml(t)}" ${filters.type === t ? 'selected' : ''}>${escapeHtml(t)}</option>`).join('')}
+      </select>
+    </div>
+    <div class="sidebar-section">
+      <label for="status-filter">Filter by Status</label>
+      <select id="status-filter" ${isLoading ? 'disabled' : ''}>
+        <option value="all">All Statuses</option>
+        ${statuses.map(s => `<option value="${s}" ${filters.status === s ? 'selected' : ''}>${s}</option>`).join('')}
+      </select>
+    </div>
+    <div class="sidebar-section">
+      <label for="tag-filter-input">Filter by Tags</label>
+      ${renderTagEditor('filter', 'tag-filter-input')}
+    </div>
+    <div id="field-filters">${renderFieldFilters()}</div>
+    <div class="sidebar-section">
+      <label for="expiry-filter">Filter by Validity</label>
+      <select id="expiry-filter" ${isLoading ? 'disabled' : ''}>
+        <option value="all">Any</option>
+        <option value="expiring" ${filters.expiry === 'expiring' ? 'selected' : ''}>Expiring within ${expiryReminderDays} days</option>
+        <option value="expired" ${filters.expiry === 'expired' ? 'selected' : ''}>Expired</option>
+      </select>
+    </div>
+    <div class="sidebar-section">
+      <label for="uploaded-filter">Uploaded in</label>
+      <input type="month" id="uploaded-filter" value="${filters.uploaded === 'all' ? '' : filters.uploaded}" ${isLoading ? 'disabled' : ''}>
+    </div>
+    ${renderSavedViews()}
+  `;
+}
+
+// The custom fields of the type being filtered on, or all of them while
+// every type is shown. Numbers and dates filter on a range.
+function renderFieldFilters() {
+  const fields = filters.type === 'all' ? customFields : fieldsFor(filters.type);
+  return fields.map(field => {
+    const id = `field-filter-${field.id}`;
+    const value = filters.fields[field.id] ?? '';
+    const attrs = `class="field-filter" data-field-id="${field.id}" ${isLoading ? 'disabled' : ''}`;
+    let control: string;
+    if (field.type === 'select') {
+      control = `<select id="${id}" ${attrs}>
+        <option value="">Any</option>
+        ${field.options.map(o => `<option value="${escapeHtml(o)}" ${o === value ? 'selected' : ''}>${escapeHtml(o)}</option>`).join('')}
+      </select>`;
+    } else if (field.type === 'text') {
+      control = `<input type="search" id="${id}" ${attrs} value="${escapeHtml(value)}" placeholder="Contains">`;
+    } else {
+      const [from = '', to = ''] = value.split('..');
+      control = `<div class="field-filter-range">
+        <input type="${field.type}" id="${id}" ${attrs} data-range="from" value="${escapeHtml(from)}" aria-label="${escapeHtml(field.name)} from" ${field.type === 'number' ? 'step="any" placeholder="From"' : ''}>
+        <input type="${field.type}" ${attrs} data-range="to" value="${escapeHtml(to)}" aria-label="${escapeHtml(field.name)} to" ${field.type === 'number' ? 'step="any" placeholder="To"' : ''}>
+      </div>`;
+    }
+    return `<div class="sidebar-section"><label for="${id}">${escapeHtml(field.name)}</label>${control}</div>`;
+  }).join('');
+}
+
+function renderSavedViews() {
+  const current = listParams().toString();
+  return `
+    <div class="sidebar-section saved-views">
+      <h3>Saved Views</h3>
+      ${savedViews.length ? `
+      <ul class="saved-view-list">
+        ${savedViews.map(v => `
+          <li class="${v.params === current ? 'active' : ''}" data-params="${escapeHtml(v.params)}">
+            <button type="button" class="saved-view-apply" data-view-id="${v.id}">${escapeHtml(v.name)}</button>
+            <button type="button" class="saved-view-delete" data-view-id="${v.id}" aria-label="Delete saved view ${escapeHtml(v.name)}">&times;</button>
+          </li>`).join('')}
+      </ul>` : '<p class="saved-views-empty">No saved views yet.</p>'}
+      <form id="save-view-form" class="save-view-form">
+        <input type="text" name="name" placeholder="Name the current view" maxlength="60" aria-label="Saved view name" required>
+        <button type="submit" class="btn btn-secondary btn-small">Save</button>
+      </form>
+    </div>
+  `;
+}
+
+function renderHeader() {
+  return `
+    <header class="main-header">
+      <div class="search-bar">
+        ${icons.search()}
+        <input type="search" id="search-input" placeholder="Search names and contents..." value="${escapeHtml(filters.search)}" ${isLoading ? 'disabled' : ''}>
+      </div>
+      <div class="header-actions">
+        <select id="sort-select" aria-label="Sort documents" ${isLoading ? 'disabled' : ''}>${renderSortOptions()}</select>
+        <div class="view-toggle">
+          <button id="grid-view-btn" class="${currentView === 'grid' ? 'active' : ''}" aria-label="Grid View" ${isLoading ? 'disabled' : ''}>${icons.grid()}</button>
+          <button id="list-view-btn" class="${currentView === 'list' ? 'active' : ''}" aria-label="List View" ${isLoading ? 'disabled' : ''}>${icons.list()}</button>
+        </div>
+        <details class="register-menu">
+          <summary class="btn btn-secondary">Register</summary>
+          <div class="register-menu-items">
+            <button type="button" data-export-format="csv">Export as CSV</button>
+            <button type="button" data-export-format="xlsx">Export as Excel</button>
+            ${can('admin') ? '<button type="button" id="import-open-btn">Import from a spreadsheet&hellip;</button>' : ''}
+          </div>
+        </details>
+        ${can('upload') ? `<button id="upload-btn" class="btn btn-primary" ${isLoading ? 'disabled' : ''}>Upload Documents</button>` : ''}
+      </div>
+    </header>
+  `;
+}
+
+// "Best match" only makes sense while searching.
+function renderSortOptions() {
+    const current = `${sort.field}:${sort.order}`;
+    return sortOptions
+        .filter(o => o.value !== 'relevance:asc' || filters.search.trim())
+        .map(o => `<option value="${o.value}" ${o.value === current ? 'selected' : ''}>${o.label}</option>`)
+        .join('');
+}
+
+function renderDocumentsHTML(docs: AppDocument[]) {
+    if (docs.length === 0) {
+        const message = filters.search.trim()
+            ? 'No documents match your search.'
+            : filters.division !== 'all' || filters.type !== 'all' || filters.status !== 'all' || filters.expiry !== 'all' || filters.uploaded !== 'all'
+                ? 'No documents match these filters.'
+                : 'No documents found. Try uploading one!';
+        return `${renderChangeNotice()}<div class="message-container"><p class="no-documents-message">${message}</p></div>`;
+    }
+    const containerClass = currentView === 'grid' ? 'documents-grid' : 'documents-list';
+    return `
+      ${renderChangeNotice()}
+      ${renderBulkBar()}
+      <div class="${containerClass}">${docs.map(doc => currentView === 'grid' ? renderDocumentCard(doc) : renderDocumentListItem(doc)).join('')}</div>
+      ${renderDocumentsFooter(docs.length)}
+    `;
+}
+
+// A quiet hint that the list just changed under the user's hands.
+function renderChangeNotice() {
+    if (!outsideChange) return '';
+    const time = new Date(outsideChange.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    return `
+      <div class="change-notice" role="status">
+        <span>Updated by ${escapeHtml(outsideChange.names.join(', '))} at ${time}</span>
+        <button type="button" class="modal-close" id="change-notice-dismiss" aria-label="Dismiss">&times;</button>
+      </div>
+    `;
+}
+
+function documentClasses(doc: AppDocument) {
+    return `${isSelected(doc.id) ? 'selected' : ''} ${recentlyChangedIds.has(doc.id) ? 'recently-changed' : ''}`;
+}
+
+function selectedCount() {
+    return allMatchingSelected ? totalDocuments : selectedIds.size;
+}
+
+function isSelected(docId: number) {
+    return allMatchingSelected || selectedIds.has(docId);
+}
+
+function renderBulkBar() {
+    const count = selectedCount();
+    const allLoadedSelected = documents.every(d => isSelected(d.id));
+    const selectAll = `<label class="bulk-select-all"><input type="checkbox" id="select-all-checkbox" ${count > 0 && allLoadedSelected ? 'checked' : ''}> ${count > 0 ? `${count} selected` : 'Select all'}</label>`;
+    if (count === 0) return `<div class="bulk-bar">${selectAll}</div>`;
+    const canSelectMatching = !allMatchingSelected && allLoadedSelected && totalDocuments > documents.length;
+    return `
+      <div class="bulk-bar active" role="toolbar" aria-label="Bulk actions">
+        ${selectAll}
+        ${canSelectMatching ? `<button type="button" class="btn btn-secondary btn-small" id="select-all-matching-btn">Select all ${totalDocuments} matching</button>` : ''}
+        <div class="bulk-actions">
+          ${can('review') ? `<button type="button" class="btn btn-secondary btn-small" data-bulk-action="status">Change status</button>` : ''}
+          ${can('edit') ? `<button type="button" class="btn btn-secondary btn-small" data-bulk-action="move">Move to division</button>` : ''}
+          <button type="button" class="btn btn-secondary btn-small" id="bulk-download-btn">Download ZIP</button>
+          ${can('delete') ? `<button type="button" class="btn btn-danger btn-small" data-bulk-action="delete">Delete</button>` : ''}
+          <button type="button" class="modal-close" id="bulk-clear-btn" aria-label="Clear selection">&times;</button>
+        </div>
+      </div>
+    `;
+}
+
+function renderDocumentsFooter(shown: number) {
+    const label = isLoadingMore ? 'Loading...' : 'Load more';
+    return `
+      <div class="documents-footer">
+        <span>Showing ${shown} of ${totalDocuments} documents</span>
+        ${nextCursor ? `<button type="button" class="btn btn-secondary btn-small" id="load-more-btn" ${isLoadingMore ? 'disabled' : ''}>${label}</button>` : ''}
+      </div>
+    `;
+}
+
+function renderDocumentType(doc: AppDocument) {
+    return doc.documentType ? `<span class="doc-type">${escapeHtml(doc.documentType)}</span>` : '';
+}
+
+// Clicking a tag filters the list on it.
+function renderDocumentTags(doc: AppDocument) {
+    if (!doc.tags.length) return '';
+    return `<div class="doc-tags">${doc.tags.map(tag => `<button type="button" class="doc-tag" data-tag="${escapeHtml(tag)}" title="Show documents tagged ${escapeHtml(tag)}">${escapeHtml(tag)}</button>`).join('')}</div>`;
+}
+
+// Custom fields are only listed in the list view; cards have no room for them.
+function renderFieldValues(doc: AppDocument) {
+    const fields = customFields.filter(field => doc.fieldValues[field.id] !== undefined);
+    if (!fields.length) return '';
+    return `<dl class="doc-fields">${fields.map(field => `<div><dt>${escapeHtml(field.name)}</dt><dd>${escapeHtml(String(doc.fieldValues[field.id]))}</dd></div>`).join('')}</dl>`;
+}
+
+// A type that has since been removed stays selectable for documents that
+// still have it, like a division does in the edit form.
+// Today as YYYY-MM-DD in the user's time zone, comparable with the dates
+// documents carry.
+function localDate(offsetDays = 0) {
+    const date = new Date();
+    date.setDate(date.getDate() + offsetDays);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function expiryState(doc: AppDocument): 'expired' | 'expiring' | null {
+    if (!doc.expiryDate) return null;
+    if (doc.expiryDate < localDate()) return 'expired';
+    return doc.expiryDate <= localDate(expiryReminderDays) ? 'expiring' : null;
+}
+
+function renderExpiryBadge(doc: AppDocument) {
+    const state = expiryState(doc);
+    if (!state) return '';
+    const validity = `${doc.issueDate ? `Issued ${doc.issueDate}, ` : ''}${state === 'expired' ? 'expired' : 'expires'} ${doc.expiryDate}`;
+    return `<span class="doc-expiry doc-${state}" title="${validity}">${state === 'expired' ? 'Expired' : 'Expiring soon'}</span>`;
+}
+
+function isOverdue(dueDate: string | null) {
+    return Boolean(dueDate && dueDate < localDate());
+}
+
+function routeAddressee(division: Division, user: string | null) {
+    return user ? `${escapeHtml(user)} (${escapeHtml(division)})` : escapeHtml(division);
+}
+
+function renderRouteBadge(doc: AppDocument) {
+    if (!doc.routeStatus) return '';
+    const where = routeAddressee(doc.routeDivision!, doc.routeUser);
+    const state = doc.routeStatus === 'in_transit' ? 'In transit' : 'Received';
+    const due = doc.routeDueDate ? `, due ${doc.routeDueDate}` : '';
+    return `<span class="doc-route ${isOverdue(doc.routeDueDate) ? 'overdue' : ''}" title="${state}${due}">${doc.routeStatus === 'in_transit' ? 'To' : 'With'} ${where}</span>`;
+}
+
+function renderDocumentTypeOptions(selected: string | null) {
+    const types = selected && !documentTypes.includes(selected) ? [selected, ...documentTypes] : documentTypes;
+    return `
+      <option value="" ${selected ? '' : 'selected'}>No type</option>
+      ${types.map(t => `<option value="${escapeHtml(t)}" ${t === selected ? 'selected' : ''}>${escapeHtml(t)}</option>`).join('')}
+    `;
+}
+
+// Mirrors fieldApplies in api/_lib/fields.js.
+function fieldsFor(documentType: string | null) {
+    return customFields.filter(field => field.documentTypes === null || (documentType !== null && field.documentTypes.includes(documentType)));
+}
+
+// Inputs for the custom fields of a document type, named field-<id>. A
+// select keeps a value that is no longer among its options.
+function renderFieldInputs(prefix: string, documentType: string | null, values: Record<string, string | number>) {
+    return fieldsFor(documentType).map(field => {
+        const id = `${prefix}-field-${field.id}`;
+        const value = values[field.id] === undefined ? '' : String(values[field.id]);
+        const required = documentType !== null && field.requiredFor.includes(documentType);
+        const attrs = `id="${id}" name="field-${field.id}" data-field-id="${field.id}" ${required ? 'required' : ''}`;
+        const options = value && !field.options.includes(value) ? [value, ...field.options] : field.options;
+        const control = field.type === 'select'
+            ? `<select ${attrs}><option value="">${required ? 'Choose...' : 'None'}</option>${options.map(o => `<option value="${escapeHtml(o)}" ${o === value ? 'selected' : ''}>${escapeHtml(o)}</option>`).join('')}</select>`
+            : `<input type="${field.type}" ${attrs} value="${escapeHtml(value)}" ${field.type === 'number' ? 'step="any"' : ''} ${field.type === 'text' ? 'maxlength="500"' : ''}>`;
+        return `<div class="form-group"><label for="${id}">${escapeHtml(field.name)}${required ? ' <span class="required-mark" aria-hidden="true">*</span>' : ''}</label>${control}</div>`;
+    }).join('');
+}
+
+function renderTagChips(editor: TagEditor) {
+    return editorTags(editor).map(tag => `
+      <span class="tag-chip">${escapeHtml(tag)}<button type="button" class="tag-chip-remove" data-tag="${escapeHtml(tag)}" aria-label="Remove tag ${escapeHtml(tag)}">&times;</button></span>`).join('');
+}
+
+// The chosen tags as chips, followed by an input that suggests the tags
+// already in use (see renderTagSuggestions).
+function renderTagEditor(editor: TagEditor, inputId: string) {
+    return `
+      <div class="tag-editor" data-tag-editor="${editor}">
+        <span class="tag-chips">${renderTagChips(editor)}</span>
+        <input type="text" id="${inputId}" class="tag-editor-input" list="tag-suggestions" maxlength="${MAX_TAG_LENGTH}" placeholder="Add a tag" autocomplete="off">
+      </div>
+    `;
+}
+
+function renderTagSuggestions() {
+    return `<datalist id="tag-suggestions">${tagSuggestions.map(tag => `<option value="${escapeHtml(tag.name)}"></option>`).join('')}</datalist>`;
+}
+
+function renderUploadInfo(doc: AppDocument) {
+    const by = doc.uploadedBy ? ` by ${escapeHtml(doc.uploadedBy)}` : '';
+    return `<div class="doc-uploaded" title="${formatDate(doc.uploadedAt)}">Uploaded ${new Date(doc.uploadedAt).toLocaleDateString()}${by}</div>`;
+}
+
+"use client";
+import { useState } from "react";
+
+export default function Home() {
+  const [url, setUrl] = useState("");
+
+  async function handleUpload(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const res = await fetch("/api/upload", {
+      method: "POST",
+      body: formData,
+    });
+    const json = await res.json();
+    setUrl(json.url);
+  }
+
+  return (
+    <div>
+      <form onSubmit={handleUpload}>
+        <input type="file" name="file" />
+        <button type="submit">Upload</button>
+      </form>
+      {url && <p>File URL: <a href={url}>{url}</a></p>}
+    </div>
+  );
+}
+
+
+function escapeHtml(value: string) {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function formatDate(iso: string) {
+    return new Date(iso).toLocaleString();
+}
+
+function formatFileSize(bytes: number | null) {
+    if (bytes === null) return 'Unknown size';
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Shared by the card icons and the preview modal, so a file always previews
+// the way its icon suggests.
+function getFileKind(fileName: string): FileKind {
+    const extension = fileName.split('.').pop()?.toLowerCase();
+    if (['jpg', 'jpeg', 'png', 'gif', 'svg', 'webp'].includes(extension!)) return 'image';
+    if (extension === 'pdf') return 'pdf';
+    if (['txt', 'md'].includes(extension!)) return 'text';
+    if (['doc', 'docx'].includes(extension!)) return 'document';
+    return 'other';
+}
+
+function getFileIcon(fileName: string) {
+    const kind = getFileKind(fileName);
+    if (kind === 'image') return icons.image();
+    if (kind === 'pdf') return icons.pdf();
+    if (kind === 'text' || kind === 'document') return icons.text();
+    return icons.file();
+}
+
+function getStatusClass(status: Status) {
+    return `status-${status.toLowerCase().replace(/\s+/g, '-')}`;
+}
+
+function renderReviewInfo(doc: AppDocument) {
+    const reviewer = doc.reviewer ? `<div class="doc-reviewer">Reviewer: ${escapeHtml(doc.reviewer)}</div>` : '';
+    const reason = doc.status === 'Rejected' && doc.rejectionReason
+        ? `<div class="doc-rejection-reason">Rejected: ${escapeHtml(doc.rejectionReason)}</div>`
+        : '';
+    return reviewer || reason ? `<div class="doc-review-info">${reviewer}${reason}</div>` : '';
+}
+
+// Imported register entries have no file until one is attached.
+function renderVersionBadge(doc: AppDocument) {
+    return doc.currentVersion
+        ? `<span class="doc-version">v${doc.currentVersion}</span>`
+        : '<span class="doc-version no-file">No file</span>';
+}
+
+function renderDocumentCard(doc: AppDocument) {
+  const statusClass = getStatusClass(doc.status);
+  return `
+    <div class="document-card ${documentClasses(doc)}" data-doc-id="${doc.id}" role="button" tabindex="0" aria-label="Open document ${escapeHtml(doc.name)}">
+      ${renderSelectCheckbox(doc)}
+      ${can('delete', doc.division) ? `<button class="delete-btn" data-doc-id="${doc.id}" aria-label="Delete document ${escapeHtml(doc.name)}">${icons.trash()}</button>` : ''}
+      <div class="doc-icon">${getFileIcon(doc.fileName)}</div>
+      <h4 class="doc-name">${escapeHtml(doc.name)}</h4>
+      <div class="doc-meta"><span class="doc-division">${escapeHtml(doc.division)}</span>${renderDocumentType(doc)}${renderVersionBadge(doc)}<span class="doc-status ${statusClass}">${doc.status}</span>${renderExpiryBadge(doc)}${renderRouteBadge(doc)}</div>
+      ${renderDocumentTags(doc)}
+      ${renderUploadInfo(doc)}
+      ${renderReviewInfo(doc)}
+      ${renderSearchSnippet(doc)}
+      <div class="doc-actions">${renderDocumentActions(doc)}</div>
+    </div>
+  `;
+}
+
+function renderDocumentListItem(doc: AppDocument) {
+    const statusClass = getStatusClass(doc.status);
+    return `
+      <div class="document-list-item ${documentClasses(doc)}" data-doc-id="${doc.id}" role="button" tabindex="0" aria-label="Open document ${escapeHtml(doc.name)}">
+        ${renderSelectCheckbox(doc)}
+        <div class="doc-icon">${getFileIcon(doc.fileName)}</div>
+        <div class="doc-name-div"><h4 class="doc-name">${escapeHtml(doc.name)}</h4>${renderDocumentTags(doc)}${renderFieldValues(doc)}${renderUploadInfo(doc)}${renderReviewInfo(doc)}${renderSearchSnippet(doc)}</div>
+        <div class="doc-meta"><span class="doc-division">${escapeHtml(doc.division)}</span>${renderDocumentType(doc)}${renderVersionBadge(doc)}<span class="doc-status ${statusClass}">${doc.status}</span>${renderExpiryBadge(doc)}${renderRouteBadge(doc)}</div>
+        <div class="doc-actions">${renderDocumentActions(doc)}</div>
+        ${can('delete', doc.division) ? `<button class="delete-btn" data-doc-id="${doc.id}" aria-label="Delete document ${escapeHtml(doc.name)}">${icons.trash()}</button>` : ''}
+      </div>
+    `;
+}
+
+function renderSelectCheckbox(doc: AppDocument) {
+    return `<input type="checkbox" class="doc-select" aria-label="Select ${escapeHtml(doc.name)}" title="Select (shift-click to select a range)" ${isSelected(doc.id) ? 'checked' : ''}>`;
+}
+
+function renderSearchSnippet(doc: AppDocument) {
+    return doc.snippet ? `<p class="doc-snippet">${doc.snippet}</p>` : '';
+}
+
+function can(permission: Permission, division?: Division) {
+    if (!currentUser) return false;
+    if (currentUser.role === 'admin') return true;
+    if (roles.indexOf(currentUser.role) < roles.indexOf(permissionRoles[permission])) return false;
+    return division === undefined || currentUser.divisions.includes(division);
+}
+
+// Mirrors isRouteRecipient in api/_lib/routing.js.
+function isRouteRecipient(doc: AppDocument) {
+    if (!currentUser || !doc.routeStatus) return false;
+    if (currentUser.role === 'admin') return true;
+    return doc.routeUserId === null ? currentUser.divisions.includes(doc.routeDivision!) : doc.routeUserId === currentUser.id;
+}
+
+// What the user can do about a document's route, if anything: start one,
+// acknowledge receipt, or pass on a document they hold.
+function routeMode(doc: AppDocument): 'send' | 'receive' | 'hold' | null {
+    if (!doc.routeStatus) return can('edit', doc.division) ? 'send' : null;
+    if (!isRouteRecipient(doc)) return null;
+    return doc.routeStatus === 'in_transit' ? 'receive' : 'hold';
+}
+
+const routeTitles: Record<'send' | 'receive' | 'hold', string> = {
+    send: 'Route to another division or person',
+    receive: 'Acknowledge receipt',
+    hold: 'Forward, return or complete',
+};
+
+function canReview(doc: AppDocument) {
+    return can('review', doc.division) && (doc.status === 'Pending' || doc.status === 'In Review');
+}
+
+function renderDocumentActions(doc: AppDocument) {
+    const name = escapeHtml(doc.name);
+    const newVersionLabel = doc.status === 'Rejected' ? 'Resubmit with a new file' : 'Upload new version';
+    return `
+      ${canReview(doc) ? `<button class="doc-action-btn review-btn" data-doc-id="${doc.id}" aria-label="Review ${name}" title="Review">${icons.review()}</button>` : ''}
+      ${can('edit', doc.division) ? `<button class="doc-action-btn edit-btn" data-doc-id="${doc.id}" aria-label="Edit details of ${name}" title="Edit details">${icons.edit()}</button>` : ''}
+      ${routeMode(doc) ? `<button class="doc-action-btn route-btn" data-doc-id="${doc.id}" aria-label="${routeTitles[routeMode(doc)!]}: ${name}" title="${routeTitles[routeMode(doc)!]}">${icons.route()}</button>` : ''}
+      <button class="doc-action-btn history-btn" data-doc-id="${doc.id}" aria-label="Version history of ${name}" title="Version history">${icons.history()}</button>
+      <button class="doc-action-btn comments-btn" data-doc-id="${doc.id}" aria-label="Comments on ${name}${doc.commentCount ? ` (${doc.commentCount})` : ''}" title="Comments">${icons.comment()}${doc.commentCount ? `<span class="comment-count">${doc.commentCount > 99 ? '99+' : doc.commentCount}</span>` : ''}</button>
+      ${can('upload', doc.division) ? `<button class="doc-action-btn new-version-btn" data-doc-id="${doc.id}" aria-label="${newVersionLabel}: ${name}" title="${newVersionLabel}">${icons.upload()}</button>` : ''}
+    `;
+}
+
+// Statuses a new document can be submitted as: reviewers may skip ahead,
+// everyone else submits as Pending. Rejection needs a reason, so it is left
+// to the review modal.
+function initialStatuses(division: Division): Status[] {
+    return can('review', division) ? ['Pending', ...workflowTargets['Pending'].filter(st => st !== 'Rejected')] : ['Pending'];
+}
+
+function renderUploadStatusOptions() {
+    return initialStatuses(uploadDefaults.division)
+        .map(st => `<option value="${st}" ${st === uploadDefaults.status ? 'selected' : ''}>${st}</option>`)
+        .join('');
+}
+
+function renderUploadModal() {
+    const uploadDivisions = divisions.filter(d => can('upload', d));
+    if (!uploadDivisions.includes(uploadDefaults.division)) uploadDefaults.division = uploadDivisions[0] ?? '';
+    return `
+      <div class="modal-overlay visible" id="upload-modal-overlay">
+        <div class="modal-content upload-modal-content" role="dialog" aria-labelledby="upload-modal-title">
+          <div class="modal-header">
+            <h2 id="upload-modal-title">Upload Documents</h2>
+            <button class="modal-close" id="upload-modal-close" aria-label="Close">&times;</button>
+          </div>
+          <div class="upload-drop-zone" id="upload-drop-zone">
+            ${icons.upload()}
+            <p>Drop files here or <label for="upload-file-input" class="upload-browse">choose files</label></p>
+            <input type="file" id="upload-file-input" multiple hidden>
+          </div>
+          <div class="upload-defaults">
+            <div class="form-group"><label for="upload-division">Division</label><select id="upload-division">${uploadDivisions.map(d => `<option value="${escapeHtml(d)}" ${d === uploadDefaults.division ? 'selected' : ''}>${escapeHtml(d)}</option>`).join('')}</select></div>
+            <div class="form-group"><label for="upload-type">Document Type</label><select id="upload-type">${renderDocumentTypeOptions(uploadDefaults.documentType || null)}</select></div>
+            <div class="form-group"><label for="upload-status">Status</label><select id="upload-status">${renderUploadStatusOptions()}</select></div>
+          </div>
+          <div class="form-group"><label for="upload-tags">Tags</label>${renderTagEditor('upload', 'upload-tags')}</div>
+          <div class="upload-defaults upload-fields" id="upload-fields">${renderFieldInputs('upload', uploadDefaults.documentType || null, uploadDefaults.fieldValues)}</div>
+          <p class="form-hint">Division, type, status, tags and fields apply to every file in the queue. Each document is named after its file unless you change the name.</p>
+          <ul class="upload-queue" id="upload-queue">${uploadQueue.map(renderQueuedUpload).join('')}</ul>
+          <div class="form-actions">
+            <button type="button" class="btn btn-secondary" id="upload-cancel">Close</button>
+            <button type="button" class="btn btn-primary" id="upload-start-btn">${renderUploadStartLabel()}</button>
+          </div>
+        </div>
+      </div>
+    `;
+}
+
+function renderUploadStartLabel() {
+    const count = uploadQueue.filter(item => item.state === 'queued').length;
+    if (isUploadQueueRunning) return 'Uploading...';
+    return count ? `Upload ${count} file${count === 1 ? '' : 's'}` : 'Upload';
+}
+
+function renderQueuedUpload(item: QueuedUpload) {
+    const { file } = item.transfer;
+    const percent = file.size ? Math.round((item.loaded / file.size) * 100) : 0;
+    const statusText: Record<UploadState, string> = {
+        queued: 'Waiting',
+        uploading: item.loaded >= file.size ? 'Processing...' : `${percent}%`,
+        done: 'Uploaded',
+        failed: 'Failed',
+        cancelled: 'Cancelled',
+    };
+    const editable = item.state === 'queued' || item.state === 'failed' || item.state === 'cancelled';
+    return `
+      <li class="upload-item upload-item-${item.state}" data-upload-id="${item.id}">
+        <div class="upload-item-main">
+          <input type="text" class="upload-item-name" value="${escapeHtml(item.name)}" aria-label="Document name for ${escapeHtml(file.name)}" ${editable ? '' : 'disabled'}>
+          <div class="upload-item-file">${escapeHtml(file.name)} &middot; ${formatFileSize(file.size)}</div>
+          <div class="upload-progress"><div class="upload-progress-bar" style="width: ${item.state === 'done' ? 100 : percent}%"></div></div>
+          <div class="upload-item-status">${statusText[item.state]}${item.message ? `: ${escapeHtml(item.message)}` : ''}</div>
+          ${item.duplicates && item.state !== 'done' ? `<div class="form-warning">Already stored as ${item.duplicates}.</div>` : ''}
+        </div>
+        <div class="upload-item-actions">
+          ${item.state === 'failed' || item.state === 'cancelled' ? `<button type="button" class="btn btn-secondary btn-small" data-upload-action="retry">Retry</button>` : ''}
+          ${item.state === 'queued' || item.state === 'uploading' ? `<button type="button" class="btn btn-secondary btn-small" data-upload-action="cancel">Cancel</button>` : ''}
+          ${item.state !== 'uploading' ? `<button type="button" class="modal-close" data-upload-action="remove" aria-label="Remove ${escapeHtml(file.name)} from the queue">&times;</button>` : ''}
+        </div>
+      </li>
+    `;
+}
+
+function renderDeleteConfirmationModal() {
+    if (!documentToDelete) return '';
+    const submittingClass = isSubmitting ? 'is-submitting' : '';
+    return `
+        <div class="modal-overlay visible" id="delete-modal-overlay">
+            <div class="modal-content delete-modal-content" role="alertdialog" aria-labelledby="delete-modal-title" aria-describedby="delete-modal-desc">
+                <div class="modal-header">
+                    <h2 id="delete-modal-title">Confirm Deletion</h2>
+                    <button class="modal-close" id="delete-modal-close" aria-label="Close">&times;</button>
+                </div>
+                <form id="delete-form">
+                    <p id="delete-modal-desc" class="delete-warning">Move <strong>"${escapeHtml(documentToDelete.name)}"</strong> to the Trash? ${renderTrashHint()}</p>
+                    <div class="form-actions">
+                        <button type="button" class="btn btn-secondary" id="delete-cancel-btn">Cancel</button>
+                        <button type="submit" class="btn btn-danger ${submittingClass}" id="delete-confirm-btn" ${isSubmitting ? 'disabled' : ''}>
+                            <span class="btn-text">Delete</span>
+                            <span class="btn-loader">${icons.loader()}</span>
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    `;
+}
+
+function renderTrashHint() {
+    return `Undo is offered right after, and admins can restore deleted documents from the Trash for ${trashRetentionDays} days. After that they are deleted for good, files included.`;
+}
+
+function renderUndoToast() {
+    return `
+      <div class="undo-toast" role="status">
+        <span>${escapeHtml(undoToast!.message)}</span>
+        <button type="button" class="btn btn-secondary btn-small" id="undo-delete-btn">Undo</button>
+        <button type="button" class="modal-close" id="undo-toast-close" aria-label="Dismiss">&times;</button>
+      </div>
+    `;
+}
+
+function renderBulkModal() {
+    if (!bulkAction) return '';
+    const count = selectedCount();
+    const noun = `${count} document${count === 1 ? '' : 's'}`;
+    const submittingClass = isSubmitting ? 'is-submitting' : '';
+    const content: Record<BulkAction, { title: string; body: string; submit: string }> = {
+        status: {
+            title: 'Change Status',
+            body: `
+            <div class="form-group"><label for="bulk-status">New status for ${noun}</label><select id="bulk-status" name="status">${workflowTargets['Pending'].map(st => `<option value="${st}">${st}</option>`).join('')}</select></div>
+            <div class="form-group"><label for="bulk-reason">Rejection reason</label><textarea id="bulk-reason" name="reason" rows="2" placeholder="Required when rejecting"></textarea></div>
+            <p class="form-hint">Documents you cannot review, or that cannot move to this status, are skipped.</p>`,
+            submit: 'Change Status',
+        },
+        move: {
+            title: 'Move to Division',
+            body: `
+            <div class="form-group"><label for="bulk-division">Move ${noun} to</label><select id="bulk-division" name="division">${divisions.filter(d => can('edit', d)).map(d => `<option value="${escapeHtml(d)}">${escapeHtml(d)}</option>`).join('')}</select></div>
+            <p class="form-hint">Documents you cannot edit are skipped.</p>`,
+            submit: 'Move',
+        },
+        delete: {
+            title: 'Confirm Deletion',
+            body: `
+            <p class="delete-warning">Move <strong>${noun}</strong> to the Trash? ${renderTrashHint()}</p>`,
+            submit: 'Delete',
+        },
+    };
+    const { title, body, submit } = content[bulkAction];
+    return `
+      <div class="modal-overlay visible" id="bulk-modal-overlay">
+        <div class="modal-content ${bulkAction === 'delete' ? 'delete-modal-content' : ''}" role="dialog" aria-labelledby="bulk-modal-title">
+          <div class="modal-header">
+            <h2 id="bulk-modal-title">${title}</h2>
+            <button class="modal-close" id="bulk-modal-close" aria-label="Close">&times;</button>
+          </div>
+          <form id="bulk-form">
+            ${body}
+            <div class="form-actions">
+              <button type="button" class="btn btn-secondary" id="bulk-cancel">Cancel</button>
+              <button type="submit" class="btn ${bulkAction === 'delete' ? 'btn-danger' : 'btn-primary'} ${submittingClass}" id="bulk-submit-btn" ${isSubmitting ? 'disabled' : ''}>
+                <span class="btn-text">${submit}</span>
+                <span class="btn-loader">${icons.loader()}</span>
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    `;
+}
+
+function renderEditModal() {
+    if (!documentToEdit) return '';
+    const doc = documentToEdit;
+    const targets = can('review', doc.division) ? workflowTargets[doc.status] : [];
+    return `
+      <div class="modal-overlay visible" id="edit-modal-overlay">
+        <div class="modal-content" role="dialog" aria-labelledby="edit-modal-title">
+          <div class="modal-header">
+            <h2 id="edit-modal-title">Edit Document</h2>
+            <button class="modal-close" id="edit-modal-close" aria-label="Close">&times;</button>
+          </div>
+          <form id="edit-form">
+            <div class="form-group"><label for="edit-name">Document Name</label><input type="text" id="edit-name" name="name" value="${escapeHtml(doc.name)}" required></div>
+            <div class="form-group"><label for="edit-division">Division</label><select id="edit-division" name="division" required>${divisions.filter(d => d === doc.division || can('edit', d)).map(d => `<option value="${escapeHtml(d)}" ${d === doc.division ? 'selected' : ''}>${escapeHtml(d)}</option>`).join('')}</select></div>
+            <div class="form-group"><label for="edit-type">Document Type</label><select id="edit-type" name="documentType">${renderDocumentTypeOptions(doc.documentType)}</select></div>
+            <div id="edit-fields">${renderFieldInputs('edit', doc.documentType, doc.fieldValues)}</div>
+            <div class="form-group"><label for="edit-tags">Tags</label>${renderTagEditor('edit', 'edit-tags')}</div>
+            <div class="form-row">
+              <div class="form-group"><label for="edit-issue-date">Issue Date</label><input type="date" id="edit-issue-date" name="issueDate" value="${doc.issueDate ?? ''}"></div>
+              <div class="form-group"><label for="edit-expiry-date">Expiry Date</label><input type="date" id="edit-expiry-date" name="expiryDate" value="${doc.expiryDate ?? ''}"></div>
+            </div>
+            <div class="form-group"><label for="edit-status">Status</label><select id="edit-status" name="status" ${targets.length ? '' : 'disabled'}>${[doc.status, ...targets].map(st => `<option value="${st}" ${st === doc.status ? 'selected' : ''}>${st}</option>`).join('')}</select></div>
+            ${targets.length ? `
+            <div class="form-group"><label for="edit-reason">Rejection reason</label><textarea id="edit-reason" name="reason" rows="2" placeholder="Required when rejecting"></textarea></div>` : `
+            <p class="form-hint">${doc.status === 'Approved' || doc.status === 'Rejected' ? 'Upload a new version to send this document back for review.' : `Only reviewers for ${escapeHtml(doc.division)} can change the status.`}</p>`}
+            <div class="form-actions">
+              <button type="button" class="btn btn-secondary" id="edit-cancel">Cancel</button>
+              <button type="submit" class="btn btn-primary" id="edit-submit-btn">Save</button>
+            </div>
+          </form>
+        </div>
+      </div>
+    `;
+}
+
+function renderNewVersionModal() {
+    if (!documentForNewVersion) return '';
+    const submittingClass = isSubmitting ? 'is-submitting' : '';
+    const isResubmission = documentForNewVersion.status === 'Rejected';
+    return `
+      <div class="modal-overlay visible" id="version-modal-overlay">
+        <div class="modal-content" role="dialog" aria-labelledby="version-modal-title">
+          <div class="modal-header">
+            <h2 id="version-modal-title">${isResubmission ? 'Resubmit Document' : 'Upload New Version'}</h2>
+            <button class="modal-close" id="version-modal-close" aria-label="Close">&times;</button>
+          </div>
+          <form id="version-form">
+            <p class="modal-subtitle"><strong>${escapeHtml(documentForNewVersion.name)}</strong> ${documentForNewVersion.currentVersion ? `is currently at version ${documentForNewVersion.currentVersion}` : 'has no file yet'}.</p>
+            ${isResubmission && documentForNewVersion.rejectionReason ? `<p class="doc-rejection-reason">Rejected: ${escapeHtml(documentForNewVersion.rejectionReason)}</p>` : ''}
+            <p class="form-hint">The new file will be sent for review again as Pending.</p>
+            <div class="form-group"><label for="version-file">File</label><input type="file" id="version-file" name="file" required></div>
+            <div class="form-group"><label for="version-note">Note</label><textarea id="version-note" name="note" rows="3" placeholder="What changed in this version?"></textarea></div>
+            <div class="form-actions">
+              <button type="button" class="btn btn-secondary" id="version-cancel">Cancel</button>
+              <button type="submit" class="btn btn-primary ${submittingClass}" id="version-submit-btn" ${isSubmitting ? 'disabled' : ''}>
+                <span class="btn-text">Upload</span>
+                <span class="btn-loader">${icons.loader()}</span>
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    `;
+}
+
+function renderVersionItem(version: DocumentVersion, currentVersion: number) {
+    const isCurrent = version.version === currentVersion;
+    return `
+      <li class="version-item ${isCurrent ? 'current' : ''}">
+        <div class="version-header">
+          <strong>v${version.version}</strong>
+          ${isCurrent ? '<span class="version-current">Current</span>' : ''}
+          <span class="version-date">${formatDate(version.createdAt)}</span>
+        </div>
+        <div class="version-details">${escapeHtml(version.fileName)} &middot; ${formatFileSize(version.size)} &middot; ${escapeHtml(version.uploadedBy || 'Unknown uploader')}</div>
+        ${version.note ? `<p class="version-note">${escapeHtml(version.note)}</p>` : ''}
+        <div class="version-actions">
+          <button type="button" class="btn btn-secondary btn-small open-version-btn" data-version="${version.version}">Open</button>
+          ${isCurrent ? '' : `<button type="button" class="btn btn-primary btn-small restore-version-btn" data-version="${version.version}" ${isSubmitting ? 'disabled' : ''}>Restore</button>`}
+        </div>
+      </li>
+    `;
+}
+
+function renderHistoryModal() {
+    if (!historyDocument) return '';
+    const currentVersion = historyDocument.currentVersion;
+    let body = '<div class="message-container"><div class="loading-spinner"></div></div>';
+    if (!isHistoryLoading) {
+        if (historyTab === 'versions') {
+            body = `<ol class="version-list">${documentVersions.map(v => renderVersionItem(v, currentVersion)).join('')}</ol>`;
+        } else if (historyTab === 'activity') {
+            body = `<ol class="activity-list">${documentActivity.map(renderActivityItem).join('') || '<li class="activity-item">No activity recorded.</li>'}</ol>`;
+        } else {
+            body = renderCustodyTimeline(historyDocument);
+        }
+    }
+    return `
+      <div class="modal-overlay visible" id="history-modal-overlay">
+        <div class="modal-content history-modal-content" role="dialog" aria-labelledby="history-modal-title">
+          <div class="modal-header">
+            <h2 id="history-modal-title">History</h2>
+            <button class="modal-close" id="history-modal-close" aria-label="Close">&times;</button>
+          </div>
+          <p class="modal-subtitle"><strong>${escapeHtml(historyDocument.name)}</strong></p>
+          <div class="tabs" role="tablist">
+            <button type="button" class="tab ${historyTab === 'versions' ? 'active' : ''}" data-tab="versions" role="tab">Versions</button>
+            <button type="button" class="tab ${historyTab === 'activity' ? 'active' : ''}" data-tab="activity" role="tab">Activity</button>
+            <button type="button" class="tab ${historyTab === 'custody' ? 'active' : ''}" data-tab="custody" role="tab">Custody</button>
+          </div>
+          ${body}
+        </div>
+      </div>
+    `;
+}
+
+const auditActionLabels: Record<AuditAction, string> = {
+    create: 'Created',
+    view: 'Opened',
+    version_upload: 'New version',
+    version_restore: 'Version restored',
+    status_change: 'Status changed',
+    edit: 'Edited',
+    delete: 'Deleted',
+    restore: 'Restored',
+    purge: 'Purged',
+    route: 'Routed',
+    import: 'Imported',
+    comment: 'Commented',
+    comment_delete: 'Comment deleted',
+};
+
+function describeAuditEntry(entry: AuditEntry) {
+    const d = entry.details || {};
+    switch (entry.action) {
+        case 'create':
+            return `Uploaded ${escapeHtml(d.fileName || 'a file')}`;
+        case 'view':
+            return d.version ? `Opened version ${d.version}` : 'Opened the document';
+        case 'version_upload':
+            return `Uploaded version ${d.version} (${escapeHtml(d.fileName || '')})`;
+        case 'version_restore':
+            return `Restored version ${d.restoredVersion} as version ${d.version}`;
+        case 'status_change':
+            return `${d.from} &rarr; ${d.to}${d.reason ? `: ${escapeHtml(d.reason)}` : ''}`;
+        case 'edit':
+            return Object.entries(d.changes || {})
+                .map(([field, change]: [string, any]) => `${escapeHtml(field)}: ${escapeHtml(String(change.from ?? 'none'))} &rarr; ${escapeHtml(String(change.to ?? 'none'))}`)
+                .join('; ') || 'No changes';
+        case 'delete':
+            return `Moved ${escapeHtml(d.fileName || 'the document')} to the Trash`;
+        case 'restore':
+            return 'Restored from the Trash';
+        case 'purge':
+            return `Deleted ${escapeHtml(d.fileName || 'the document')} for good`;
+        case 'import':
+            return `Imported from the register as ${escapeHtml(d.status || '')}${d.fileName ? ` (listed file: ${escapeHtml(d.fileName)})` : ''}`;
+        case 'comment':
+            return d.mentions?.length ? `Mentioned ${escapeHtml(d.mentions.join(', '))}` : 'Added a comment';
+        case 'comment_delete':
+            return `Deleted a comment by ${escapeHtml(d.author || 'Unknown')}`;
+        case 'route':
+            if (d.action === 'receive') return `Received in ${escapeHtml(d.to?.division || '')}`;
+            if (d.action === 'complete') return `Route completed${d.note ? `: ${escapeHtml(d.note)}` : ''}`;
+            return `${handoverLabels[d.action as Handover['action']] || escapeHtml(String(d.action))} to ${routeAddressee(d.to?.division || '', d.to?.user ?? null)}${d.dueDate ? `, due ${d.dueDate}` : ''}${d.note ? `: ${escapeHtml(d.note)}` : ''}`;
+        default:
+            return '';
+    }
+}
+
+function renderActivityItem(entry: AuditEntry) {
+    return `
+      <li class="activity-item">
+        <div class="version-header">
+          <strong>${auditActionLabels[entry.action] || entry.action}</strong>
+          <span>by ${escapeHtml(entry.actor || 'Unknown')}</span>
+          <span class="version-date">${formatDate(entry.createdAt)}</span>
+        </div>
+        <div class="version-details">${describeAuditEntry(entry)}</div>
+      </li>
+    `;
+}
+
+function renderAuditRow(entry: AuditEntry) {
+    return `
+      <tr>
+        <td>${formatDate(entry.createdAt)}</td>
+        <td>${escapeHtml(entry.actor || 'Unknown')}</td>
+        <td>${auditActionLabels[entry.action] || entry.action}</td>
+        <td>${escapeHtml(entry.documentName || '')}${entry.documentId ? ` <span class="audit-doc-id">#${entry.documentId}</span>` : ''}</td>
+        <td>${escapeHtml(entry.division || '')}</td>
+        <td>${describeAuditEntry(entry)}</td>
+      </tr>
+    `;
+}
+
+function renderAuditPage() {
+    let content: string;
+    if (auditError) {
+        content = `<div class="message-container"><div class="error-message"><h4>Failed to load the audit log</h4><p>${escapeHtml(auditError)}</p></div></div>`;
+    } else if (isAuditLoading && auditEntries.length === 0) {
+        content = '<div class="message-container"><div class="loading-spinner"></div></div>';
+    } else if (auditEntries.length === 0) {
+        content = '<div class="message-container"><p class="no-documents-message">No audit entries match these filters.</p></div>';
+    } else {
+        content = `
+          <table class="audit-table">
+            <thead><tr><th>Time</th><th>User</th><th>Action</th><th>Document</th><th>Division</th><th>Details</th></tr></thead>
+            <tbody>${auditEntries.map(renderAuditRow).join('')}</tbody>
+          </table>
+          ${auditNextBefore ? `<button type="button" class="btn btn-secondary load-more-btn" id="audit-load-more" ${isAuditLoading ? 'disabled' : ''}>Load more</button>` : ''}
+        `;
+    }
+    return `
+      <header class="main-header"><h2 class="page-title">Audit Log</h2></header>
+      <form id="audit-filter-form" class="audit-filters">
+        <div class="form-group"><label for="audit-user">User</label><input type="text" id="audit-user" name="user" value="${escapeHtml(auditFilters.user)}" placeholder="Any user"></div>
+        <div class="form-group"><label for="audit-action">Action</label><select id="audit-action" name="action">
+          <option value="">All actions</option>
+          ${(Object.keys(auditActionLabels) as AuditAction[]).map(a => `<option value="${a}" ${auditFilters.action === a ? 'selected' : ''}>${auditActionLabels[a]}</option>`).join('')}
+        </select></div>
+        <div class="form-group"><label for="audit-division">Division</label><select id="audit-division" name="division">
+          <option value="">All divisions</option>
+          ${divisions.map(d => `<option value="${escapeHtml(d)}" ${auditFilters.division === d ? 'selected' : ''}>${escapeHtml(d)}</option>`).join('')}
+        </select></div>
+        <div class="form-group"><label for="audit-from">From</label><input type="date" id="audit-from" name="from" value="${auditFilters.from}"></div>
+        <div class="form-group"><label for="audit-to">To</label><input type="date" id="audit-to" name="to" value="${auditFilters.to}"></div>
+        <div class="form-group"><button type="submit" class="btn btn-primary">Apply</button></div>
+      </form>
+      <div class="audit-container">${content}</div>
+    `;
+}
+
+function renderUserRow(user: AppUser) {
+    return `
+      <tr>
+        <td>${escapeHtml(user.name)}</td>
+        <td>${escapeHtml(user.email)}</td>
+        <td>${user.role}</td>
+        <td>${user.role === 'admin' ? 'All' : escapeHtml(user.divisions.join(', '))}</td>
+        <td class="user-actions">
+          <button type="button" class="btn btn-secondary btn-small edit-user-btn" data-user-id="${user.id}">Edit</button>
+          ${user.id !== currentUser!.id ? `<button type="button" class="btn btn-danger btn-small delete-user-btn" data-user-id="${user.id}">Delete</button>` : ''}
+        </td>
+      </tr>
+    `;
+}
+
+function renderTrashRow(doc: TrashedDocument) {
+    return `
+      <tr>
+        <td>${escapeHtml(doc.name)}</td>
+        <td>${escapeHtml(doc.division)}</td>
+        <td>${escapeHtml(doc.deletedBy)}, ${formatDate(doc.deletedAt)}</td>
+        <td>${new Date(doc.purgeAt).toLocaleDateString()}</td>
+        <td class="user-actions">
+          <button type="button" class="btn btn-secondary btn-small trash-restore-btn" data-doc-id="${doc.id}">Restore</button>
+          <button type="button" class="btn btn-danger btn-small trash-purge-btn" data-doc-id="${doc.id}">Delete Permanently</button>
+        </td>
+      </tr>
+    `;
+}
+
+function renderTrashPage() {
+    let content: string;
+    if (trashError) {
+        content = `<div class="message-container"><div class="error-message"><h4>Failed to load the trash</h4><p>${escapeHtml(trashError)}</p></div></div>`;
+    } else if (isTrashLoading) {
+        content = '<div class="message-container"><div class="loading-spinner"></div></div>';
+    } else if (trashedDocuments.length === 0) {
+        content = '<div class="message-container"><p class="no-documents-message">The trash is empty.</p></div>';
+    } else {
+        content = `
+          <table class="audit-table users-table">
+            <thead><tr><th>Name</th><th>Division</th><th>Deleted</th><th>Purged on</th><th></th></tr></thead>
+            <tbody>${trashedDocuments.map(renderTrashRow).join('')}</tbody>
+          </table>
+        `;
+    }
+    return `
+      <header class="main-header"><h2 class="page-title">Trash</h2></header>
+      <p class="form-hint">Deleted documents stay here for ${trashRetentionDays} days and are then deleted for good, together with their files.</p>
+      <div class="audit-container">${content}</div>
+    `;
+}
+
+function renderUsersPage() {
+    let content: string;
+    if (usersError) {
+        content = `<div class="message-container"><div class="error-message"><h4>Failed to load users</h4><p>${escapeHtml(usersError)}</p></div></div>`;
+    } else if (isUsersLoading) {
+        content = '<div class="message-container"><div class="loading-spinner"></div></div>';
+    } else {
+        content = `
+          <table class="audit-table users-table">
+            <thead><tr><th>Name</th><th>Email</th><th>Role</th><th>Divisions</th><th></th></tr></thead>
+            <tbody>${users.map(renderUserRow).join('')}</tbody>
+          </table>
+        `;
+    }
+    return `
+      <header class="main-header">
+        <h2 class="page-title">Users</h2>
+        <button id="add-user-btn" class="btn btn-primary">Add User</button>
+      </header>
+      <div class="audit-container">${content}</div>
+    `;
+}
+
+function renderSettingsList(list: SettingsList, entries: string[], placeholder: string) {
+    return `
+      <ul class="settings-list">
+        ${entries.map(name => `
+          <li>
+            <form class="settings-rename-form" data-list="${list}" data-name="${escapeHtml(name)}">
+              <input type="text" name="name" value="${escapeHtml(name)}" maxlength="40" aria-label="Name" required>
+              <button type="submit" class="btn btn-secondary btn-small">Rename</button>
+            </form>
+            <button type="button" class="btn btn-danger btn-small settings-remove-btn" data-list="${list}" data-name="${escapeHtml(name)}">Remove</button>
+          </li>`).join('')}
+      </ul>
+      <form class="settings-add-form" data-list="${list}">
+        <input type="text" name="name" placeholder="${placeholder}" maxlength="40" aria-label="${placeholder}" required>
+        <button type="submit" class="btn btn-primary btn-small">Add</button>
+      </form>
+    `;
+}
+
+function renderSettingsPage() {
+    return `
+      <header class="main-header">
+        <h2 class="page-title">Settings</h2>
+      </header>
+      <div class="settings-container">
+        <section class="settings-panel">
+          <h3>Divisions</h3>
+          <p class="form-hint">Renaming a division updates its documents and every user who belongs to it. A division that still has documents can only be removed by moving them to another one.</p>
+          ${renderSettingsList('divisions', divisions, 'New division')}
+        </section>
+        <section class="settings-panel">
+          <h3>Document Types</h3>
+          <p class="form-hint">Documents of a removed type can be moved to another type or left without one.</p>
+          ${renderSettingsList('document-types', documentTypes, 'New document type')}
+        </section>
+        ${renderCustomFieldsPanel()}
+        <section class="settings-panel">
+          <h3>Status Colors</h3>
+          <p class="form-hint">Statuses follow the review workflow and cannot be renamed, but their colors can be changed.</p>
+          <ul class="settings-list">
+            ${statuses.map(status => `
+              <li>
+                <span class="doc-status ${getStatusClass(status)}">${status}</span>
+                <input type="color" class="status-color-input" data-status="${status}" value="${statusColors[status] || '#888888'}" aria-label="Color for ${status}">
+              </li>`).join('')}
+          </ul>
+        </section>
+        ${renderWebhooksPanel()}
+      </div>
+    `;
+}
+
+function describeFieldTypes(field: CustomField) {
+    const appliesTo = field.documentTypes === null ? 'All types' : field.documentTypes.join(', ') || 'No types';
+    return field.requiredFor.length ? `${appliesTo}; required for ${field.requiredFor.join(', ')}` : appliesTo;
+}
+
+function renderCustomFieldsPanel() {
+    return `
+      <section class="settings-panel">
+        <h3>Custom Fields</h3>
+        <p class="form-hint">Extra details for documents, filled in on the upload and edit forms of the types they apply to and shown in the list view. Removing a field deletes its values from every document.</p>
+        <ul class="settings-list">
+          ${customFields.map(field => `
+            <li>
+              <div class="custom-field-info">
+                <strong>${escapeHtml(field.name)}</strong>
+                <span class="form-hint">${fieldTypeLabels[field.type]}${field.type === 'select' ? ` (${escapeHtml(field.options.join(', '))})` : ''} &middot; ${escapeHtml(describeFieldTypes(field))}</span>
+              </div>
+              <button type="button" class="btn btn-secondary btn-small edit-field-btn" data-field-id="${field.id}">Edit</button>
+              <button type="button" class="btn btn-danger btn-small delete-field-btn" data-field-id="${field.id}">Remove</button>
+            </li>`).join('')}
+        </ul>
+        <button type="button" class="btn btn-primary btn-small" id="add-field-btn">Add Field</button>
+      </section>
+    `;
+}
+
+function describeDelivery(delivery: WebhookDelivery | null) {
+    if (!delivery) return { className: '', text: 'No deliveries yet' };
+    const event = `${delivery.eventType} at ${formatDate(delivery.createdAt)}`;
+    if (delivery.deliveredAt) return { className: 'delivery-ok', text: `Delivered ${event}` };
+    if (delivery.attempts === 0) return { className: '', text: `Sending ${event}` };
+    const failure = `${delivery.lastError ?? 'Failed'} after ${delivery.attempts} attempt${delivery.attempts === 1 ? '' : 's'}`;
+    return delivery.nextAttemptAt
+        ? { className: 'delivery-retrying', text: `${event}: ${failure}, retrying at ${formatDate(delivery.nextAttemptAt)}` }
+        : { className: 'delivery-failed', text: `${event}: ${failure}, gave up` };
+}
+
+function renderWebhookEventChoices(selected: WebhookEvent[], webhookId: number | null) {
+    return webhookEvents.map(({ type, label }) => `
+      <label class="webhook-event">
+        <input type="checkbox" name="events" value="${type}" ${webhookId === null ? '' : `class="webhook-event-input" data-webhook-id="${webhookId}"`} ${selected.includes(type) ? 'checked' : ''}>
+        ${label}
+      </label>`).join('');
+}
+
+function renderWebhooksPanel() {
+    return `
+      <section class="settings-panel settings-panel-wide">
+        <h3>Webhooks</h3>
+        <p class="form-hint">Document events are sent as JSON POST requests to each URL, signed with its secret in the X-Webhook-Signature header (see the README). Failed deliveries are retried with increasing delays for about 14 hours.</p>
+        <ul class="settings-list">
+          ${webhooks.map(hook => {
+              const delivery = describeDelivery(hook.lastDelivery);
+              return `
+              <li class="webhook-item">
+                <div class="webhook-info">
+                  <strong class="webhook-url">${escapeHtml(hook.url)}</strong>
+                  ${hook.description ? `<span class="form-hint">${escapeHtml(hook.description)}</span>` : ''}
+                  <div class="webhook-events">${renderWebhookEventChoices(hook.events, hook.id)}</div>
+                  <span class="webhook-secret">Secret: <code>${escapeHtml(hook.secret)}</code></span>
+                  <span class="webhook-delivery ${delivery.className}">${escapeHtml(delivery.text)}</span>
+                </div>
+                <label class="webhook-active">
+                  <input type="checkbox" class="webhook-active-input" data-webhook-id="${hook.id}" ${hook.active ? 'checked' : ''}>
+                  Active
+                </label>
+                <button type="button" class="btn btn-secondary btn-small webhook-test-btn" data-webhook-id="${hook.id}">Send Test</button>
+                <button type="button" class="btn btn-danger btn-small webhook-delete-btn" data-webhook-id="${hook.id}">Delete</button>
+              </li>`;
+          }).join('')}
+        </ul>
+        <form id="webhook-add-form" class="webhook-add-form">
+          <div class="settings-add-form">
+            <input type="url" name="url" placeholder="https://example.com/hooks/documents" aria-label="Webhook URL" required>
+            <input type="text" name="description" placeholder="Description (optional)" maxlength="100" aria-label="Description">
+          </div>
+          <div class="webhook-events">${renderWebhookEventChoices(webhookEvents.map(e => e.type), null)}</div>
+          <button type="submit" class="btn btn-primary btn-small">Add Webhook</button>
+        </form>
+      </section>
+    `;
+}
+
+function renderRemoveEntryModal() {
+    if (!entryToRemove) return '';
+    const { list, name } = entryToRemove;
+    const isDivision = list === 'divisions';
+    const others = (isDivision ? divisions : documentTypes).filter(entry => entry !== name);
+    const submittingClass = isSubmitting ? 'is-submitting' : '';
+    return `
+      <div class="modal-overlay visible" id="remove-entry-modal-overlay">
+        <div class="modal-content" role="dialog" aria-labelledby="remove-entry-modal-title">
+          <div class="modal-header">
+            <h2 id="remove-entry-modal-title">Remove ${isDivision ? 'Division' : 'Document Type'}</h2>
+            <button class="modal-close" id="remove-entry-modal-close" aria-label="Close">&times;</button>
+          </div>
+          <form id="remove-entry-form">
+            <p class="modal-subtitle">Remove <strong>${escapeHtml(name)}</strong>? ${isDivision ? 'Users lose access to it, and its documents move to the division you choose.' : 'Its documents move to the type you choose.'}</p>
+            <div class="form-group">
+              <label for="remove-entry-move-to">Move its documents to</label>
+              <select id="remove-entry-move-to" name="moveTo" ${isDivision ? 'required' : ''}>
+                ${isDivision ? '' : '<option value="">No type</option>'}
+                ${others.map(entry => `<option value="${escapeHtml(entry)}">${escapeHtml(entry)}</option>`).join('')}
+              </select>
+            </div>
+            <div class="form-actions">
+              <button type="button" class="btn btn-secondary" id="remove-entry-cancel">Cancel</button>
+              <button type="submit" class="btn btn-danger ${submittingClass}" ${isSubmitting ? 'disabled' : ''}>
+                <span class="btn-text">Remove</span>
+                <span class="btn-loader">${icons.loader()}</span>
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    `;
+}
+
+function renderUserModal() {
+    const submittingClass = isSubmitting ? 'is-submitting' : '';
+    const user = userBeingEdited;
+    return `
+      <div class="modal-overlay visible" id="user-modal-overlay">
+        <div class="modal-content" role="dialog" aria-labelledby="user-modal-title">
+          <div class="modal-header">
+            <h2 id="user-modal-title">${user ? 'Edit User' : 'Add User'}</h2>
+            <button class="modal-close" id="user-modal-close" aria-label="Close">&times;</button>
+          </div>
+          <form id="user-form">
+            <div class="form-group"><label for="user-email">Email</label><input type="email" id="user-email" name="email" value="${escapeHtml(user?.email || '')}" required></div>
+            <div class="form-group"><label for="user-name">Name</label><input type="text" id="user-name" name="name" value="${escapeHtml(user?.name || '')}" required></div>
+            <div class="form-group"><label for="user-password">Password</label><input type="password" id="user-password" name="password" autocomplete="new-password" ${user ? 'placeholder="Leave blank to keep the current password"' : 'required'}></div>
+            <div class="form-group"><label for="user-role">Role</label><select id="user-role" name="role">${roles.map(r => `<option value="${r}" ${(user?.role || 'viewer') === r ? 'selected' : ''}>${r}</option>`).join('')}</select></div>
+            <fieldset class="form-group division-checkboxes">
+              <legend>Divisions</legend>
+              ${divisions.map(d => `<label><input type="checkbox" name="divisions" value="${escapeHtml(d)}" ${user?.divisions.includes(d) ? 'checked' : ''}> ${escapeHtml(d)}</label>`).join('')}
+            </fieldset>
+            <p class="form-hint">Admins can act in every division.</p>
+            <div class="form-actions">
+              <button type="button" class="btn btn-secondary" id="user-cancel">Cancel</button>
+              <button type="submit" class="btn btn-primary ${submittingClass}" id="user-submit-btn" ${isSubmitting ? 'disabled' : ''}>
+                <span class="btn-text">Save</span>
+                <span class="btn-loader">${icons.loader()}</span>
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    `;
+}
+
+function renderFieldModal() {
+    const submittingClass = isSubmitting ? 'is-submitting' : '';
+    const field = fieldBeingEdited;
+    const type = field?.type ?? 'text';
+    const allTypes = !field || field.documentTypes === null;
+    return `
+      <div class="modal-overlay visible" id="field-modal-overlay">
+        <div class="modal-content" role="dialog" aria-labelledby="field-modal-title">
+          <div class="modal-header">
+            <h2 id="field-modal-title">${field ? 'Edit Field' : 'Add Field'}</h2>
+            <button class="modal-close" id="field-modal-close" aria-label="Close">&times;</button>
+          </div>
+          <form id="field-form">
+            <div class="form-group"><label for="field-name">Name</label><input type="text" id="field-name" name="name" value="${escapeHtml(field?.name || '')}" maxlength="40" required></div>
+            <div class="form-group">
+              <label for="field-type">Type</label>
+              <select id="field-type" name="type" ${field ? 'disabled' : ''}>${(Object.keys(fieldTypeLabels) as CustomFieldType[]).map(t => `<option value="${t}" ${t === type ? 'selected' : ''}>${fieldTypeLabels[t]}</option>`).join('')}</select>
+              ${field ? '<p class="form-hint">The type cannot be changed, since documents may already have values for the field.</p>' : ''}
+            </div>
+            <div class="form-group" id="field-options-group" ${type === 'select' ? '' : 'hidden'}><label for="field-options">Options</label><textarea id="field-options" name="options" rows="4" placeholder="One option per line">${escapeHtml(field?.options.join('\n') || '')}</textarea></div>
+            <fieldset class="form-group division-checkboxes">
+              <legend>Applies to</legend>
+              <label><input type="checkbox" name="allTypes" id="field-all-types" ${allTypes ? 'checked' : ''}> Every type, including types added later</label>
+              ${documentTypes.map(t => `<label><input type="checkbox" name="documentTypes" value="${escapeHtml(t)}" ${field?.documentTypes?.includes(t) ? 'checked' : ''} ${allTypes ? 'disabled' : ''}> ${escapeHtml(t)}</label>`).join('')}
+            </fieldset>
+            <fieldset class="form-group division-checkboxes">
+              <legend>Required for</legend>
+              ${documentTypes.map(t => `<label><input type="checkbox" name="requiredFor" value="${escapeHtml(t)}" ${field?.requiredFor.includes(t) ? 'checked' : ''}> ${escapeHtml(t)}</label>`).join('')}
+            </fieldset>
+            <p class="form-hint">Required fields are checked when documents of those types are uploaded or edited.</p>
+            <div class="form-actions">
+              <button type="button" class="btn btn-secondary" id="field-cancel">Cancel</button>
+              <button type="submit" class="btn btn-primary ${submittingClass}" id="field-submit-btn" ${isSubmitting ? 'disabled' : ''}>
+                <span class="btn-text">Save</span>
+                <span class="btn-loader">${icons.loader()}</span>
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    `;
+}
+
+function renderPreviewToolbar(kind: FileKind) {
+    const zoomControls = kind === 'pdf' || kind === 'image' ? `
+        <div class="preview-controls">
+          <button type="button" class="btn btn-secondary btn-small" id="preview-zoom-out" aria-label="Zoom out" ${previewZoom <= ZOOM_MIN ? 'disabled' : ''}>&minus;</button>
+          <button type="button" class="btn btn-secondary btn-small" id="preview-zoom-reset" aria-label="Reset zoom">${Math.round(previewZoom * 100)}%</button>
+          <button type="button" class="btn btn-secondary btn-small" id="preview-zoom-in" aria-label="Zoom in" ${previewZoom >= ZOOM_MAX ? 'disabled' : ''}>+</button>
+        </div>` : '';
+    const pageControls = kind === 'pdf' && previewPdf ? `
+        <div class="preview-controls">
+          <button type="button" class="btn btn-secondary btn-small" id="preview-prev-page" aria-label="Previous page" ${previewPage <= 1 ? 'disabled' : ''}>&lsaquo;</button>
+          <span class="preview-page-info">Page ${previewPage} of ${previewPdf.numPages}</span>
+          <button type="button" class="btn btn-secondary btn-small" id="preview-next-page" aria-label="Next page" ${previewPage >= previewPdf.numPages ? 'disabled' : ''}>&rsaquo;</button>
+        </div>` : '';
+    return `
+      <div class="preview-toolbar">
+        ${pageControls}
+        ${zoomControls}
+        <button type="button" class="btn btn-primary btn-small preview-download-btn" id="preview-download" ${previewLink ? '' : 'disabled'}>${icons.download()} Download</button>
+      </div>
+    `;
+}
+
+function renderPreviewBody(kind: FileKind) {
+    if (isPreviewLoading) {
+        return '<div class="message-container"><div class="loading-spinner"></div></div>';
+    }
+    if (previewError || !previewLink) {
+        return `<div class="message-container"><div class="error-message"><h4>Could not open the file</h4><p>${escapeHtml(previewError || 'Unknown error')}</p></div></div>`;
+    }
+    switch (kind) {
+        case 'pdf':
+            return '<canvas id="preview-canvas" class="preview-canvas"></canvas>';
+        case 'image':
+            return `<img class="preview-image" src="${escapeHtml(previewLink.url)}" alt="${escapeHtml(previewTarget!.fileName)}" style="width: ${previewZoom * 100}%" draggable="false">`;
+        case 'text':
+            return `<pre class="preview-text">${escapeHtml(previewText || '')}</pre>`;
+        default:
+            return `
+              <div class="message-container">
+                <div class="doc-icon">${getFileIcon(previewTarget!.fileName)}</div>
+                <p>This file type cannot be previewed. Download it to open it on your device.</p>
+              </div>
+            `;
+    }
+}
+
+function renderPreviewContent() {
+    if (!previewTarget) return '';
+    const kind = getFileKind(previewTarget.fileName);
+    const isCurrent = previewTarget.version === previewTarget.doc.currentVersion;
+    return `
+      <div class="modal-header">
+        <h2 id="preview-modal-title">${escapeHtml(previewTarget.doc.name)}</h2>
+        <button class="modal-close" id="preview-modal-close" aria-label="Close">&times;</button>
+      </div>
+      <p class="modal-subtitle">${escapeHtml(previewTarget.fileName)} &middot; v${previewTarget.version}${isCurrent ? '' : ' (older version)'}</p>
+      ${renderPreviewToolbar(kind)}
+      <div class="preview-body preview-${kind}" id="preview-body">${renderPreviewBody(kind)}</div>
+    `;
+}
+
+function renderPreviewModal() {
+    return `
+      <div class="modal-overlay visible" id="preview-modal-overlay">
+        <div class="modal-content preview-modal-content" id="preview-modal-content" role="dialog" aria-labelledby="preview-modal-title">
+          ${renderPreviewContent()}
+        </div>
+      </div>
+    `;
+}
+
+const transitionLabels: Record<string, string> = {
+    submit: 'Submitted',
+    resubmit: 'Resubmitted with a new file',
+    start_review: 'Review started',
+    approve: 'Approved',
+    reject: 'Rejected',
+    import: 'Imported from the register',
+};
+
+function renderTransitionItem(transition: StatusTransition) {
+    return `
+      <li class="transition-item">
+        <span class="doc-status ${getStatusClass(transition.toStatus)}">${transition.toStatus}</span>
+        <span>${transitionLabels[transition.action] || transition.action} by ${escapeHtml(transition.actor || 'Unknown')}</span>
+        <span class="version-date">${formatDate(transition.createdAt)}</span>
+        ${transition.reason ? `<p class="version-note">${escapeHtml(transition.reason)}</p>` : ''}
+      </li>
+    `;
+}
+
+function renderReviewModal() {
+    if (!reviewDocument) return '';
+    const submittingClass = isSubmitting ? 'is-submitting' : '';
+    const history = isReviewLoading
+        ? '<div class="message-container"><div class="loading-spinner"></div></div>'
+        : `<ol class="transition-list">${statusTransitions.map(renderTransitionItem).join('')}</ol>`;
+    return `
+      <div class="modal-overlay visible" id="review-modal-overlay">
+        <div class="modal-content history-modal-content" role="dialog" aria-labelledby="review-modal-title">
+          <div class="modal-header">
+            <h2 id="review-modal-title">Review Document</h2>
+            <button class="modal-close" id="review-modal-close" aria-label="Close">&times;</button>
+          </div>
+          <p class="modal-subtitle"><strong>${escapeHtml(reviewDocument.name)}</strong> &middot; ${escapeHtml(reviewDocument.division)} &middot; <span class="doc-status ${getStatusClass(reviewDocument.status)}">${reviewDocument.status}</span></p>
+          ${history}
+          <form id="review-form">
+            <div class="form-group"><label for="review-reason">Rejection reason</label><textarea id="review-reason" name="reason" rows="3" placeholder="Required when rejecting">${escapeHtml(reviewReason)}</textarea></div>
+            <div class="form-actions">
+              ${reviewDocument.status === 'Pending' ? `<button type="button" class="btn btn-secondary" id="review-start-btn" ${isSubmitting ? 'disabled' : ''}>Start Review</button>` : ''}
+              <button type="button" class="btn btn-danger ${submittingClass}" id="review-reject-btn" ${isSubmitting ? 'disabled' : ''}>
+                <span class="btn-text">Reject</span>
+                <span class="btn-loader">${icons.loader()}</span>
+              </button>
+              <button type="button" class="btn btn-primary ${submittingClass}" id="review-approve-btn" ${isSubmitting ? 'disabled' : ''}>
+                <span class="btn-text">Approve</span>
+                <span class="btn-loader">${icons.loader()}</span>
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    `;
+}
+
+// Where the document is: on its way to someone, with whoever holds it, with
+// whoever received it last, or in its own division if it was never routed.
+function describeHolder(doc: AppDocument, handovers: Handover[]) {
+    if (doc.routeStatus === 'in_transit') return `In transit to ${routeAddressee(doc.routeDivision!, doc.routeUser)}`;
+    if (doc.routeStatus === 'received') return `With ${routeAddressee(doc.routeDivision!, doc.routeUser)}`;
+    const last = handovers[handovers.length - 1];
+    return last?.receivedBy ? `With ${routeAddressee(last.toDivision, last.receivedBy)}` : `With ${escapeHtml(doc.division)}`;
+}
+
+// Mirrors returnAddress in api/_lib/documents.js: returns go back along the
+// chain, skipping handovers that were themselves returned.
+function returnTarget(handovers: Handover[]) {
+    const senders: Handover[] = [];
+    handovers.forEach(h => h.action === 'return' ? senders.pop() : senders.push(h));
+    const sender = senders[senders.length - 1];
+    return sender ? routeAddressee(sender.fromDivision, sender.fromUser) : null;
+}
+
+const handoverLabels: Record<Handover['action'], string> = {
+    send: 'Sent',
+    forward: 'Forwarded',
+    return: 'Returned',
+};
+
+function renderHandoverSteps(h: Handover) {
+    const sent = `
+      <li class="activity-item custody-step">
+        <div class="version-header">
+          <strong>${handoverLabels[h.action]} to ${routeAddressee(h.toDivision, h.toUser)}</strong>
+          <span>by ${escapeHtml(h.sentBy)} from ${escapeHtml(h.fromDivision)}</span>
+          <span class="version-date">${formatDate(h.sentAt)}</span>
+        </div>
+        ${h.dueDate ? `<div class="version-details ${!h.outcome && isOverdue(h.dueDate) ? 'overdue' : ''}">Due ${h.dueDate}</div>` : ''}
+        ${h.note ? `<p class="version-note">${escapeHtml(h.note)}</p>` : ''}
+      </li>`;
+    const received = h.receivedAt ? `
+      <li class="activity-item custody-step">
+        <div class="version-header"><strong>Received</strong><span>by ${escapeHtml(h.receivedBy || 'Unknown')}</span><span class="version-date">${formatDate(h.receivedAt)}</span></div>
+      </li>` : '';
+    const completed = h.outcome === 'completed' ? `
+      <li class="activity-item custody-step">
+        <div class="version-header"><strong>Route completed</strong><span>by ${escapeHtml(h.closedBy || 'Unknown')}</span><span class="version-date">${formatDate(h.closedAt!)}</span></div>
+      </li>` : '';
+    return sent + received + completed;
+}
+
+function renderCustodyTimeline(doc: AppDocument) {
+    return `
+      <p class="custody-holder">${describeHolder(doc, documentHandovers)}</p>
+      <ol class="activity-list custody-list">${documentHandovers.map(renderHandoverSteps).join('') || '<li class="activity-item">This document has not been routed.</li>'}</ol>
+    `;
+}
+
+function renderRecipientOptions(division: Division) {
+    const people = directory.filter(u => u.divisions === null || u.divisions.includes(division));
+    return `<option value="">Anyone in ${escapeHtml(division)}</option>${people.map(u => `<option value="${u.id}">${escapeHtml(u.name)}</option>`).join('')}`;
+}
+
+const routeSubmitLabels: Record<RouteAction, string> = {
+    send: 'Send',
+    receive: 'Acknowledge Receipt',
+    forward: 'Forward',
+    return: 'Return',
+    complete: 'Complete',
+};
+
+function renderRouteModal() {
+    if (!documentToRoute) return '';
+    const doc = documentToRoute;
+    const mode = routeMode(doc);
+    if (!mode) return '';
+    const submittingClass = isSubmitting ? 'is-submitting' : '';
+    const open = doc.routeStatus ? documentHandovers[documentHandovers.length - 1] : undefined;
+    const target = divisions.find(d => d !== doc.division) ?? divisions[0] ?? '';
+    const returnTo = returnTarget(documentHandovers);
+    const action: RouteAction = mode === 'hold' ? 'forward' : mode;
+    return `
+      <div class="modal-overlay visible" id="route-modal-overlay">
+        <div class="modal-content" role="dialog" aria-labelledby="route-modal-title">
+          <div class="modal-header">
+            <h2 id="route-modal-title">${mode === 'send' ? 'Route Document' : mode === 'receive' ? 'Receive Document' : 'Pass On Document'}</h2>
+            <button class="modal-close" id="route-modal-close" aria-label="Close">&times;</button>
+          </div>
+          <form id="route-form" class="route-form">
+            <p class="modal-subtitle"><strong>${escapeHtml(doc.name)}</strong> &middot; ${describeHolder(doc, documentHandovers)}</p>
+            ${open ? `
+            <p class="form-hint">${handoverLabels[open.action]} by ${escapeHtml(open.sentBy)} from ${routeAddressee(open.fromDivision, open.fromUser)}, ${formatDate(open.sentAt)}${open.dueDate ? ` &middot; due ${open.dueDate}` : ''}</p>
+            ${open.note ? `<p class="version-note">${escapeHtml(open.note)}</p>` : ''}` : ''}
+            ${mode === 'hold' ? `
+            <div class="form-group route-actions" role="radiogroup" aria-label="What to do with the document">
+              <label><input type="radio" name="action" value="forward" checked> Forward</label>
+              <label><input type="radio" name="action" value="return" ${returnTo ? '' : 'disabled'}> Return${returnTo ? ` to ${returnTo}` : ''}</label>
+              <label><input type="radio" name="action" value="complete"> Complete the route</label>
+            </div>` : `<input type="hidden" name="action" value="${action}">`}
+            ${mode === 'receive' ? `
+            <p class="form-hint">Confirm that the document has reached you. You then hold it and can forward or return it.</p>` : `
+            <div class="form-row" data-route-for="send forward">
+              <div class="form-group"><label for="route-division">To division</label><select id="route-division" name="toDivision">${divisions.map(d => `<option value="${escapeHtml(d)}" ${d === target ? 'selected' : ''}>${escapeHtml(d)}</option>`).join('')}</select></div>
+              <div class="form-group"><label for="route-user">Person</label><select id="route-user" name="toUserId">${renderRecipientOptions(target)}</select></div>
+            </div>
+            <div class="form-group" data-route-for="send forward return"><label for="route-due-date">Due date</label><input type="date" id="route-due-date" name="dueDate" min="${localDate()}"></div>
+            <p class="form-hint" data-route-for="complete">The route ends here and the document stays with you.</p>
+            <div class="form-group"><label for="route-note">Note</label><textarea id="route-note" name="note" rows="3" maxlength="500" placeholder="${mode === 'send' ? 'What should happen to it?' : 'Optional'}"></textarea></div>`}
+            <div class="form-actions">
+              <button type="button" class="btn btn-secondary" id="route-cancel">Cancel</button>
+              <button type="submit" class="btn btn-primary ${submittingClass}" id="route-submit-btn" ${isSubmitting ? 'disabled' : ''}>
+                <span class="btn-text" id="route-submit-label">${routeSubmitLabels[action]}</span>
+                <span class="btn-loader">${icons.loader()}</span>
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    `;
+}
+
+
+// --- API & DATA LOGIC ---
+function documentsFilter() {
+    const params = new URLSearchParams();
+    if (filters.division !== 'all') params.set('division', filters.division);
+    if (filters.type !== 'all') params.set('type', filters.type);
+    if (filters.status !== 'all') params.set('status', filters.status);
+    if (filters.expiry !== 'all') params.set('expiry', filters.expiry);
+    if (filters.uploaded !== 'all') params.set('uploaded', filters.uploaded);
+    if (filters.tags.length) params.set('tags', filters.tags.join(','));
+    for (const [id, value] of Object.entries(filters.fields)) params.set(`field.${id}`, value);
+    if (filters.search.trim()) params.set('q', filters.search.trim());
+    return params;
+}
+
+function documentsQuery(cursor?: string) {
+    const params = documentsFilter();
+    params.set('sort', sort.field);
+    params.set('order', sort.order);
+    if (cursor) params.set('cursor', cursor);
+    return params;
+}
+
+// Fetches one page for the current filters, search and sort. Resolves to
+// null when a newer request has started in the meantime.
+async function requestDocumentsPage(cursor?: string): Promise<DocumentPage | null> {
+    const request = ++documentsRequest;
+    const response = await apiFetchDocuments(documentsQuery(cursor));
+    if (request !== documentsRequest) return null;
+    if (!response.ok) {
+        throw new Error(await readErrorMessage(response));
+    }
+    const page: DocumentPage = await response.json();
+    return request === documentsRequest ? page : null;
+}
+
+function applyDocumentsPage(page: DocumentPage, append = false) {
+    if (!append) {
+        // New filters start a new selection; otherwise a fresh first page
+        // keeps whatever is still selected on it.
+        const filterKey = documentsFilter().toString();
+        if (filterKey !== selectionFilter) {
+            clearSelection();
+            outsideChange = null;
+        }
+        selectedIds = new Set(page.documents.filter(d => selectedIds.has(d.id)).map(d => d.id));
+        selectionFilter = filterKey;
+        changesCursor = page.cursor;
+    }
+    // A document can already be here when it arrived as a change first.
+    const loaded = new Set(documents.map(d => d.id));
+    documents = append ? [...documents, ...page.documents.filter(d => !loaded.has(d.id))] : page.documents;
+    nextCursor = page.nextCursor;
+    totalDocuments = page.total;
+}
+
+async function fetchDocuments() {
+    isLoading = true;
+    errorMessage = null;
+    render();
+    try {
+        const page = await requestDocumentsPage();
+        if (!page) return;
+        applyDocumentsPage(page);
+    } catch (error: any) {
+        console.error("Failed to fetch documents:", error);
+        errorMessage = error.message;
+        documents = [];
+    } finally {
+        isLoading = false;
+        render();
+    }
+}
+
+// Reloads the first page without the full-page spinner, so the search box
+// keeps its focus while the user types.
+async function reloadDocuments() {
+    isLoadingMore = false;
+    nextCursor = null; // Until the new first page arrives, there is nothing to load more of
+    const select = document.getElementById('sort-select');
+    if (select) select.innerHTML = renderSortOptions();
+    document.querySelector('.documents-container')?.setAttribute('aria-busy', 'true');
+    try {
+        const page = await requestDocumentsPage();
+        if (!page) return;
+        applyDocumentsPage(page);
+        errorMessage = null;
+    } catch (error: any) {
+        console.error("Failed to fetch documents:", error);
+        errorMessage = error.message;
+        render();
+        return;
+    }
+    document.querySelector('.documents-container')?.removeAttribute('aria-busy');
+    updateDocumentsView();
+}
+
+// Mirrors SORTS in api/_lib/documents.js. Only the server knows relevance.
+function sortKey(doc: AppDocument): string | number {
+    if (sort.field === 'name') return doc.name.toLowerCase();
+    if (sort.field === 'division') return doc.division;
+    if (sort.field === 'status') return statuses.indexOf(doc.status);
+    return doc.uploadedAt;
+}
+
+// Ties are broken by id in the same direction, as on the server.
+function compareDocuments(a: AppDocument, b: AppDocument) {
+    const [keyA, keyB] = [sortKey(a), sortKey(b)];
+    const ascending = keyA < keyB ? -1 : keyA > keyB ? 1 : a.id - b.id;
+    return sort.order === 'asc' ? ascending : -ascending;
+}
+
+function startChangePolling() {
+    window.clearInterval(changesTimer);
+    changesTimer = window.setInterval(pollDocumentChanges, CHANGES_POLL_MS);
+}
+
+function stopChangePolling() {
+    window.clearInterval(changesTimer);
+    changesTimer = undefined;
+    changesCursor = null;
+    outsideChange = null;
+}
+
+// Asks whether anything changed since the list was loaded. It is cheap when
+// nothing did (a 304), and skipped while the tab is hidden or the list is
+// being loaded anyway.
+async function pollDocumentChanges() {
+    if (changesCursor === null || isPollingChanges || isLoading || isLoadingMore || document.hidden || currentPage !== 'documents') return;
+    const request = documentsRequest; // A list request in the meantime makes the answer stale
+    isPollingChanges = true;
+    try {
+        const response = await apiFetchDocumentChanges(documentsFilter(), changesCursor);
+        if (response.status === 304) return;
+        // Something changed somewhere, possibly a document routed here from
+        // another division, which the list would not show.
+        loadWaitingDocuments();
+        if (request !== documentsRequest) return;
+        if (!response.ok) {
+            console.error("Could not check for changes:", await readErrorMessage(response));
+            return;
+        }
+        applyDocumentChanges(await response.json());
+    } finally {
+        isPollingChanges = false;
+    }
+}
+
+// Folds changes into the loaded list without reloading it: changed documents
+// are updated in place, new ones slot in by the current sort as long as they
+// fall within what is loaded (the rest come with "Load more").
+function applyDocumentChanges(changes: DocumentChanges) {
+    changesCursor = changes.cursor;
+    const others = changes.changedBy.filter(name => name !== currentUser!.name);
+    if (others.length > 0) outsideChange = { names: others, at: new Date().toISOString() };
+    if (changes.reload) {
+        reloadDocuments();
+        return;
+    }
+    const changed = new Map(changes.documents!.map(d => [d.id, d]));
+    const removed = new Set(changes.removed);
+    const commented = commentsDocument && changed.get(commentsDocument.id);
+    if (commented) {
+        const hasNewComments = commented.commentCount !== commentsDocument!.commentCount;
+        commentsDocument = commented;
+        if (hasNewComments) loadComments();
+    }
+    if (changed.size === 0 && removed.size === 0) return;
+
+    const last = documents[documents.length - 1];
+    const kept = documents.filter(d => !removed.has(d.id)).map(d => changed.get(d.id) ?? d);
+    const loaded = new Set(kept.map(d => d.id));
+    const added = changes.documents!.filter(d => !loaded.has(d.id));
+    if (sort.field === 'relevance') {
+        documents = nextCursor ? kept : [...kept, ...added];
+    } else {
+        documents = [...kept, ...added.filter(d => !nextCursor || !last || compareDocuments(d, last) < 0)].sort(compareDocuments);
+    }
+    totalDocuments = changes.total ?? totalDocuments;
+    removed.forEach(id => selectedIds.delete(id));
+    recentlyChangedIds = others.length > 0 ? new Set(changed.keys()) : new Set();
+    updateDocumentsView();
+}
+
+async function loadMoreDocuments() {
+    if (!nextCursor || isLoadingMore) return;
+    isLoadingMore = true;
+    updateDocumentsView();
+    try {
+        const page = await requestDocumentsPage(nextCursor);
+        if (!page) return;
+        applyDocumentsPage(page, true);
+    } catch (error) {
+        console.error("Failed to load more documents:", error);
+    } finally {
+        isLoadingMore = false;
+    }
+    updateDocumentsView();
+}
+
+// --- EVENT HANDLERS & LOGIC ---
+function addEventListeners() {
+  addDocumentEventListeners();
+  document.getElementById('division-filter')?.addEventListener('change', handleFilterChange);
+  document.getElementById('type-filter')?.addEventListener('change', handleFilterChange);
+  document.getElementById('status-filter')?.addEventListener('change', handleFilterChange);
+  document.getElementById('expiry-filter')?.addEventListener('change', handleFilterChange);
+  document.getElementById('uploaded-filter')?.addEventListener('change', handleFilterChange);
+  document.getElementById('field-filters')?.addEventListener('change', handleFieldFilterChange);
+  document.querySelectorAll<HTMLElement>('.tag-editor').forEach(addTagEditorListeners);
+  document.querySelectorAll('[data-list-params]').forEach(el => el.addEventListener('click', handleAnalyticsDrillDown));
+  document.querySelectorAll('.analytics-doc').forEach(el => el.addEventListener('click', handleAnalyticsDocumentOpen));
+  document.getElementById('notifications-btn')?.addEventListener('click', handleNotificationsToggle);
+  document.querySelectorAll('.waiting-item').forEach(item => item.addEventListener('click', handleWaitingItemOpen));
+  if (showNotifications) {
+    document.getElementById('notifications-read-all')?.addEventListener('click', handleNotificationsReadAll);
+    document.querySelectorAll('.notification-item').forEach(item => item.addEventListener('click', handleNotificationOpen));
+  }
+  document.getElementById('search-input')?.addEventListener('input', handleSearch);
+  document.getElementById('sort-select')?.addEventListener('change', handleSortChange);
+  document.getElementById('save-view-form')?.addEventListener('submit', handleSaveViewSubmit);
+  document.querySelectorAll('.saved-view-apply').forEach(btn => btn.addEventListener('click', handleSavedViewApply));
+  document.querySelectorAll('.saved-view-delete').forEach(btn => btn.addEventListener('click', handleSavedViewDelete));
+  document.getElementById('grid-view-btn')?.addEventListener('click', () => setView('grid'));
+  document.getElementById('list-view-btn')?.addEventListener('click', () => setView('list'));
+  document.getElementById('upload-btn')?.addEventListener('click', handleUploadModalOpen);
+  document.querySelectorAll('[data-export-format]').forEach(btn => btn.addEventListener('click', handleRegisterExport));
+  document.getElementById('import-open-btn')?.addEventListener('click', handleImportOpen);
+  document.getElementById('logout-btn')?.addEventListener('click', handleLogout);
+  document.getElementById('add-user-btn')?.addEventListener('click', () => handleUserModalOpen(null));
+  document.querySelectorAll('.edit-user-btn').forEach(btn => btn.addEventListener('click', handleEditUserClick));
+  document.querySelectorAll('.delete-user-btn').forEach(btn => btn.addEventListener('click', handleDeleteUserClick));
+  document.querySelectorAll('.nav-link').forEach(link => link.addEventListener('click', handleNavigate));
+  document.querySelectorAll('.settings-add-form').forEach(form => form.addEventListener('submit', handleListEntryAdd));
+  document.querySelectorAll('.settings-rename-form').forEach(form => form.addEventListener('submit', handleListEntryRename));
+  document.querySelectorAll('.settings-remove-btn').forEach(btn => btn.addEventListener('click', handleListEntryRemoveOpen));
+  document.querySelectorAll('.status-color-input').forEach(input => input.addEventListener('change', handleStatusColorChange));
+  document.getElementById('add-field-btn')?.addEventListener('click', () => handleFieldModalOpen(null));
+  document.querySelectorAll('.edit-field-btn').forEach(btn => btn.addEventListener('click', handleEditFieldClick));
+  document.querySelectorAll('.delete-field-btn').forEach(btn => btn.addEventListener('click', handleDeleteFieldClick));
+  document.getElementById('undo-delete-btn')?.addEventListener('click', handleUndoDelete);
+  document.getElementById('undo-toast-close')?.addEventListener('click', hideUndoToast);
+  document.querySelectorAll('.trash-restore-btn').forEach(btn => btn.addEventListener('click', handleTrashRestore));
+  document.querySelectorAll('.trash-purge-btn').forEach(btn => btn.addEventListener('click', handleTrashPurge));
+  document.getElementById('webhook-add-form')?.addEventListener('submit', handleWebhookAdd);
+  document.querySelectorAll('.webhook-active-input').forEach(input => input.addEventListener('change', handleWebhookActiveChange));
+  document.querySelectorAll('.webhook-event-input').forEach(input => input.addEventListener('change', handleWebhookEventsChange));
+  document.querySelectorAll('.webhook-test-btn').forEach(btn => btn.addEventListener('click', handleWebhookTest));
+  document.querySelectorAll('.webhook-delete-btn').forEach(btn => btn.addEventListener('click', handleWebhookDelete));
+  document.getElementById('audit-filter-form')?.addEventListener('submit', handleAuditFilterSubmit);
+  document.getElementById('audit-load-more')?.addEventListener('click', () => loadAuditLog(false));
+  
+  window.removeEventListener('keydown', handleEscKey); // Remove old before adding
+  window.addEventListener('keydown', handleEscKey);
+
+  if (showUploadModal) {
+    document.getElementById('upload-modal-overlay')?.addEventListener('click', handleModalOverlayClick);
+    document.getElementById('upload-modal-close')?.addEventListener('click', handleUploadModalClose);
+    document.getElementById('upload-cancel')?.addEventListener('click', handleUploadModalClose);
+    document.getElementById('upload-start-btn')?.addEventListener('click', runUploadQueue);
+    document.getElementById('upload-file-input')?.addEventListener('change', handleUploadFilesChosen);
+    document.getElementById('upload-division')?.addEventListener('change', handleUploadDefaultsChange);
+    document.getElementById('upload-type')?.addEventListener('change', handleUploadDefaultsChange);
+    document.getElementById('upload-status')?.addEventListener('change', handleUploadDefaultsChange);
+    document.getElementById('upload-fields')?.addEventListener('change', handleUploadFieldChange);
+    const queue = document.getElementById('upload-queue');
+    queue?.addEventListener('click', handleQueuedUploadAction);
+    queue?.addEventListener('input', handleQueuedUploadRename);
+  }
+  if (documentToDelete) {
+    document.getElementById('delete-modal-overlay')?.addEventListener('click', handleModalOverlayClick);
+    document.getElementById('delete-modal-close')?.addEventListener('click', handleCloseDeleteModal);
+    document.getElementById('delete-cancel-btn')?.addEventListener('click', handleCloseDeleteModal);
+    document.getElementById('delete-form')?.addEventListener('submit', handleConfirmDelete);
+  }
+  if (bulkAction) {
+    document.getElementById('bulk-modal-overlay')?.addEventListener('click', handleModalOverlayClick);
+    document.getElementById('bulk-modal-close')?.addEventListener('click', handleBulkClose);
+    document.getElementById('bulk-cancel')?.addEventListener('click', handleBulkClose);
+    document.getElementById('bulk-form')?.addEventListener('submit', handleBulkSubmit);
+  }
+  if (documentForNewVersion) {
+    document.getElementById('version-modal-overlay')?.addEventListener('click', handleModalOverlayClick);
+    document.getElementById('version-modal-close')?.addEventListener('click', handleNewVersionClose);
+    document.getElementById('version-cancel')?.addEventListener('click', handleNewVersionClose);
+    document.getElementById('version-form')?.addEventListener('submit', handleNewVersionSubmit);
+  }
+  if (entryToRemove) {
+    document.getElementById('remove-entry-modal-overlay')?.addEventListener('click', handleModalOverlayClick);
+    document.getElementById('remove-entry-modal-close')?.addEventListener('click', handleListEntryRemoveClose);
+    document.getElementById('remove-entry-cancel')?.addEventListener('click', handleListEntryRemoveClose);
+    document.getElementById('remove-entry-form')?.addEventListener('submit', handleListEntryRemoveSubmit);
+  }
+  if (documentToEdit) {
+    document.getElementById('edit-modal-overlay')?.addEventListener('click', handleModalOverlayClick);
+    document.getElementById('edit-modal-close')?.addEventListener('click', handleEditClose);
+    document.getElementById('edit-cancel')?.addEventListener('click', handleEditClose);
+    document.getElementById('edit-form')?.addEventListener('submit', handleEditSubmit);
+    document.getElementById('edit-type')?.addEventListener('change', handleEditTypeChange);
+  }
+  if (historyDocument) {
+    document.getElementById('history-modal-overlay')?.addEventListener('click', handleModalOverlayClick);
+    document.getElementById('history-modal-close')?.addEventListener('click', handleHistoryClose);
+    document.querySelectorAll('.restore-version-btn').forEach(btn => btn.addEventListener('click', handleRestoreVersion));
+    document.querySelectorAll('.open-version-btn').forEach(btn => btn.addEventListener('click', handleOpenVersion));
+    document.querySelectorAll('.tab[data-tab]').forEach(tab => tab.addEventListener('click', handleHistoryTabChange));
+  }
+  if (reviewDocument) {
+    document.getElementById('review-modal-overlay')?.addEventListener('click', handleModalOverlayClick);
+    document.getElementById('review-modal-close')?.addEventListener('click', handleReviewClose);
+    document.getElementById('review-start-btn')?.addEventListener('click', () => handleReviewAction('start_review'));
+    document.getElementById('review-approve-btn')?.addEventListener('click', () => handleReviewAction('approve'));
+    document.getElementById('review-reject-btn')?.addEventListener('click', () => handleReviewAction('reject'));
+  }
+  if (documentToRoute) {
+    document.getElementById('route-modal-overlay')?.addEventListener('click', handleModalOverlayClick);
+    document.getElementById('route-modal-close')?.addEventListener('click', handleRouteClose);
+    document.getElementById('route-cancel')?.addEventListener('click', handleRouteClose);
+    const form = document.getElementById('route-form') as HTMLFormElement | null;
+    form?.addEventListener('change', handleRouteFormChange);
+    form?.addEventListener('submit', handleRouteSubmit);
+    if (form) updateRouteFields(form);
+  }
+  if (commentsDocument) {
+    document.getElementById('comments-close')?.addEventListener('click', handleCommentsClose);
+    document.querySelectorAll('.comment-delete-btn').forEach(btn => btn.addEventListener('click', handleCommentDelete));
+    document.getElementById('comment-form')?.addEventListener('submit', handleCommentSubmit);
+    const input = document.getElementById('comment-input');
+    input?.addEventListener('input', handleCommentInput);
+    input?.addEventListener('keydown', handleCommentKeydown);
+    input?.addEventListener('blur', handleCommentBlur);
+    // mousedown rather than click, so the textarea keeps focus.
+    document.getElementById('mention-suggestions')?.addEventListener('mousedown', handleMentionPick);
+  }
+  if (showImportModal) {
+    document.getElementById('import-modal-overlay')?.addEventListener('click', handleModalOverlayClick);
+    document.getElementById('import-modal-close')?.addEventListener('click', handleImportClose);
+    document.getElementById('import-cancel')?.addEventListener('click', handleImportClose);
+    document.getElementById('import-file')?.addEventListener('change', handleImportFileChosen);
+    document.querySelectorAll('[data-import-field]').forEach(select => select.addEventListener('change', handleImportMappingChange));
+    document.getElementById('import-form')?.addEventListener('submit', handleImportSubmit);
+  }
+  if (previewTarget) {
+    document.getElementById('preview-modal-overlay')?.addEventListener('click', handleModalOverlayClick);
+    addPreviewEventListeners();
+  }
+  if (showUserModal) {
+    document.getElementById('user-modal-overlay')?.addEventListener('click', handleModalOverlayClick);
+    document.getElementById('user-modal-close')?.addEventListener('click', handleUserModalClose);
+    document.getElementById('user-cancel')?.addEventListener('click', handleUserModalClose);
+    document.getElementById('user-form')?.addEventListener('submit', handleUserFormSubmit);
+  }
+  if (showFieldModal) {
+    document.getElementById('field-modal-overlay')?.addEventListener('click', handleModalOverlayClick);
+    document.getElementById('field-modal-close')?.addEventListener('click', handleFieldModalClose);
+    document.getElementById('field-cancel')?.addEventListener('click', handleFieldModalClose);
+    const form = document.getElementById('field-form');
+    form?.addEventListener('change', handleFieldFormChange);
+    form?.addEventListener('submit', handleFieldFormSubmit);
+  }
+}
+
+function addDocumentEventListeners() {
+    const container = document.querySelector('.documents-container');
+    if (!container) return;
+    container.addEventListener('click', (e: MouseEvent) => {
+        const target = e.target as HTMLElement;
+        const bulkButton = target.closest('[data-bulk-action]');
+        if (target.classList.contains('doc-select')) return handleDocumentSelect(e, target as HTMLInputElement);
+        if (target.id === 'select-all-checkbox') return handleSelectAll((target as HTMLInputElement).checked);
+        if (target.id === 'select-all-matching-btn') return handleSelectAllMatching();
+        if (target.id === 'bulk-clear-btn') return handleSelectAll(false);
+        if (target.id === 'change-notice-dismiss') return handleChangeNoticeDismiss();
+        if (target.closest('#bulk-download-btn')) return handleBulkDownload();
+        if (bulkButton) return handleBulkOpen(bulkButton.getAttribute('data-bulk-action') as BulkAction);
+        const deleteButton = target.closest('.delete-btn');
+        const reviewButton = target.closest('.review-btn');
+        const historyButton = target.closest('.history-btn');
+        const newVersionButton = target.closest('.new-version-btn');
+        const editButton = target.closest('.edit-btn');
+        const routeButton = target.closest('.route-btn');
+        const commentsButton = target.closest('.comments-btn');
+        const tagButton = target.closest<HTMLElement>('.doc-tag');
+        const docItem = target.closest('[data-doc-id]');
+
+        if (deleteButton) {
+            e.stopPropagation();
+            const docId = parseInt(deleteButton.getAttribute('data-doc-id')!, 10);
+            handleRequestDelete(docId);
+        } else if (reviewButton) {
+            e.stopPropagation();
+            handleReviewOpen(parseInt(reviewButton.getAttribute('data-doc-id')!, 10));
+        } else if (historyButton) {
+            e.stopPropagation();
+            handleHistoryOpen(parseInt(historyButton.getAttribute('data-doc-id')!, 10));
+        } else if (newVersionButton) {
+            e.stopPropagation();
+            handleNewVersionOpen(parseInt(newVersionButton.getAttribute('data-doc-id')!, 10));
+        } else if (editButton) {
+            e.stopPropagation();
+            handleEditOpen(parseInt(editButton.getAttribute('data-doc-id')!, 10));
+        } else if (routeButton) {
+            e.stopPropagation();
+            handleRouteOpen(parseInt(routeButton.getAttribute('data-doc-id')!, 10));
+        } else if (commentsButton) {
+            e.stopPropagation();
+            handleCommentsOpen(parseInt(commentsButton.getAttribute('data-doc-id')!, 10));
+        } else if (tagButton) {
+            e.stopPropagation();
+            handleTagFilterAdd(tagButton.dataset.tag!);
+        } else if (docItem) {
+            handleDocumentOpen(docItem);
+        }
+    });
+    container.addEventListener('keydown', (e: KeyboardEvent) => {
+        const target = e.target as HTMLElement;
+        // Buttons inside a card carry data-doc-id too; let them handle their own keys.
+        if ((e.key === 'Enter' || e.key === ' ') && target.hasAttribute('data-doc-id') && target.tagName !== 'BUTTON') {
+            e.preventDefault();
+            handleDocumentOpen(target);
+        }
+    });
+}
+
+function updateDocumentsView() {
+    const container = document.querySelector('.documents-container');
+    if (!container || isLoading || errorMessage) return;
+    container.innerHTML = renderDocumentsHTML(documents);
+    observeLoadMore();
+    markPartialSelection();
+}
+
+// Checking a box only redraws the checkboxes and the bulk bar, so the list
+// does not jump around.
+function updateSelectionView() {
+    document.querySelectorAll('.documents-container [data-doc-id]').forEach(item => {
+        const checkbox = item.querySelector<HTMLInputElement>('.doc-select');
+        if (!checkbox) return;
+        const selected = isSelected(parseInt(item.getAttribute('data-doc-id')!, 10));
+        item.classList.toggle('selected', selected);
+        checkbox.checked = selected;
+    });
+    const bar = document.querySelector('.bulk-bar');
+    if (bar) bar.outerHTML = renderBulkBar();
+    markPartialSelection();
+}
+
+function markPartialSelection() {
+    const selectAll = document.getElementById('select-all-checkbox') as HTMLInputElement | null;
+    if (selectAll) selectAll.indeterminate = selectedCount() > 0 && !selectAll.checked;
+}
+
+// Loads the next page as soon as the footer scrolls into view; the button
+// stays as a fallback.
+function observeLoadMore() {
+    loadMoreObserver?.disconnect();
+    const button = document.getElementById('load-more-btn');
+    if (!button || isLoadingMore) return;
+    button.addEventListener('click', loadMoreDocuments);
+    if (!('IntersectionObserver' in window)) return;
+    loadMoreObserver = new IntersectionObserver((entries) => {
+        if (entries.some(entry => entry.isIntersecting)) loadMoreDocuments();
+    }, { rootMargin: '200px' });
+    loadMoreObserver.observe(button);
+}
+
+function handleFilterChange(e: Event) {
+  const target = e.target as HTMLSelectElement;
+  if (target.id === 'division-filter') filters.division = target.value;
+  else if (target.id === 'type-filter') {
+    filters.type = target.value;
+    // The custom fields on offer depend on the type.
+    if (filters.type !== 'all') {
+      const ids = fieldsFor(filters.type).map(field => String(field.id));
+      filters.fields = Object.fromEntries(Object.entries(filters.fields).filter(([id]) => ids.includes(id)));
+    }
+    const fieldFilters = document.getElementById('field-filters');
+    if (fieldFilters) fieldFilters.innerHTML = renderFieldFilters();
+  }
+  else if (target.id === 'status-filter') filters.status = target.value;
+  else if (target.id === 'expiry-filter') filters.expiry = target.value as ExpiryFilter;
+  else if (target.id === 'uploaded-filter') filters.uploaded = target.value || 'all';
+  syncUrl();
+  reloadDocuments();
+}
+
+// A number or date range is sent as from..to, either end left open.
+function handleFieldFilterChange(e: Event) {
+  const target = e.target as HTMLInputElement | HTMLSelectElement;
+  const id = target.dataset.fieldId;
+  if (!id) return;
+  let value = target.value.trim();
+  if (target.dataset.range) {
+    const [from, to] = ['from', 'to'].map(end =>
+      document.querySelector<HTMLInputElement>(`.field-filter[data-field-id="${id}"][data-range="${end}"]`)?.value ?? '');
+    value = from || to ? `${from}..${to}` : '';
+  }
+  if (value) filters.fields[id] = value;
+  else delete filters.fields[id];
+  syncUrl();
+  reloadDocuments();
+}
+
+function handleTagFilterAdd(tag: string) {
+  if (filters.tags.some(t => t.toLowerCase() === tag.toLowerCase())) return;
+  filters.tags = [...filters.tags, tag];
+  const chips = document.querySelector('[data-tag-editor="filter"] .tag-chips');
+  if (chips) chips.innerHTML = renderTagChips('filter');
+  syncUrl();
+  reloadDocuments();
+}
+
+// Starting a search switches to best-match order; clearing it goes back to
+// the default order.
+function handleSearch(e: Event) {
+  const wasSearching = Boolean(filters.search.trim());
+  filters.search = (e.target as HTMLInputElement).value;
+  const isSearching = Boolean(filters.search.trim());
+  if (isSearching && !wasSearching) sort = { field: 'relevance', order: 'asc' };
+  else if (!isSearching && sort.field === 'relevance') sort = { field: 'date', order: 'desc' };
+  syncUrl(true); // One history entry per search, not per keystroke
+  window.clearTimeout(searchTimer);
+  searchTimer = window.setTimeout(reloadDocuments, SEARCH_DEBOUNCE_MS);
+}
+
+function handleSortChange(e: Event) {
+  const [field, order] = (e.target as HTMLSelectElement).value.split(':');
+  sort = { field: field as SortField, order: order as SortOrder };
+  syncUrl();
+  reloadDocuments();
+}
+
+function setView(view: ViewMode) {
+  currentView = view;
+  document.getElementById('grid-view-btn')?.classList.toggle('active', view === 'grid');
+  document.getElementById('list-view-btn')?.classList.toggle('active', view === 'list');
+  syncUrl();
+  updateDocumentsView();
+}
+
+function handleUploadModalOpen() {
+    showUploadModal = true;
+    render();
+}
+
+// Uploads still in the queue keep going; finished ones are cleared.
+function handleUploadModalClose() {
+    showUploadModal = false;
+    uploadQueue = uploadQueue.filter(item => item.state !== 'done' && item.state !== 'cancelled');
+    render();
+}
+
+function handleRequestDelete(docId: number) {
+    documentToDelete = documents.find(d => d.id === docId) || null;
+    render();
+}
+
+function handleCloseDeleteModal() {
+    documentToDelete = null;
+    isSubmitting = false;
+    render();
+}
+
+async function handleConfirmDelete(e: Event) {
+    e.preventDefault();
+    if (!documentToDelete) return;
+    
+    isSubmitting = true;
+    render(); // Re-render to show loading state
+
+    try {
+        const response = await apiDeleteDocument(documentToDelete.id);
+        if (response.status !== 204) {
+            throw new Error(await readErrorMessage(response));
+        }
+        // Taken out locally; the next poll brings whatever else changed.
+        const { id: deletedId, name } = documentToDelete;
+        documents = documents.filter(d => d.id !== deletedId);
+        totalDocuments = Math.max(0, totalDocuments - 1);
+        selectedIds.delete(deletedId);
+        showUndoToast([deletedId], `"${name}" was moved to the Trash.`);
+        handleCloseDeleteModal();
+    } catch (error) {
+        alert(`Deletion failed: ${(error as Error).message}`);
+        isSubmitting = false;
+        render(); // Re-render to turn off loading state on failure
+    }
+}
+
+function showUndoToast(ids: number[], message: string) {
+    window.clearTimeout(undoTimer);
+    undoToast = { ids, message };
+    undoTimer = window.setTimeout(hideUndoToast, UNDO_TOAST_MS);
+}
+
+function hideUndoToast() {
+    window.clearTimeout(undoTimer);
+    undoToast = null;
+    document.querySelector('.undo-toast')?.remove();
+}
+
+// Takes the documents just deleted back out of the trash. They come back
+// into the list with the next change poll, which runs right away.
+async function handleUndoDelete() {
+    if (!undoToast) return;
+    const { ids } = undoToast;
+    hideUndoToast();
+    const response = ids.length === 1 ? await apiRestoreDocument(ids[0]) : await apiRunBatch({ action: 'restore', ids });
+    if (!response.ok) {
+        alert(`Undo failed: ${await readErrorMessage(response)}`);
+        return;
+    }
+    if (ids.length > 1) {
+        const outcome: BatchOutcome = await response.json();
+        const failed = outcome.results.filter(r => !r.ok);
+        if (failed.length > 0) alert(`${failed.length} of ${ids.length} documents could not be restored: ${failed[0].error}`);
+    }
+    pollDocumentChanges();
+}
+
+function clearSelection() {
+    selectedIds = new Set();
+    allMatchingSelected = false;
+    selectionAnchor = null;
+}
+
+// Shift-click applies the clicked box's new state to every document between
+// it and the previously clicked one.
+function handleDocumentSelect(e: MouseEvent, checkbox: HTMLInputElement) {
+    const docId = parseInt(checkbox.closest('[data-doc-id]')!.getAttribute('data-doc-id')!, 10);
+    if (allMatchingSelected) {
+        allMatchingSelected = false;
+        selectedIds = new Set(documents.map(d => d.id));
+    }
+    let ids = [docId];
+    if (e.shiftKey && selectionAnchor !== null) {
+        const from = documents.findIndex(d => d.id === selectionAnchor);
+        const to = documents.findIndex(d => d.id === docId);
+        if (from !== -1 && to !== -1) {
+            ids = documents.slice(Math.min(from, to), Math.max(from, to) + 1).map(d => d.id);
+        }
+    }
+    ids.forEach(id => checkbox.checked ? selectedIds.add(id) : selectedIds.delete(id));
+    selectionAnchor = docId;
+    updateSelectionView();
+}
+
+function handleChangeNoticeDismiss() {
+    outsideChange = null;
+    document.querySelector('.change-notice')?.remove();
+}
+
+function handleSelectAll(checked: boolean) {
+    clearSelection();
+    if (checked) selectedIds = new Set(documents.map(d => d.id));
+    updateSelectionView();
+}
+
+function handleSelectAllMatching() {
+    allMatchingSelected = true;
+    updateSelectionView();
+}
+
+function handleBulkOpen(action: BulkAction) {
+    bulkAction = action;
+    render();
+}
+
+function handleBulkClose() {
+    bulkAction = null;
+    isSubmitting = false;
+    render();
+}
+
+const bulkDoneLabels: Record<BulkAction | 'download', string> = {
+    status: 'updated',
+    move: 'moved',
+    delete: 'moved to the Trash',
+    download: 'included in the ZIP',
+};
+
+// Runs a bulk action on the selection and reports the documents it could
+// not handle. After a change only those stay selected, so they are easy to
+// look at or retry.
+async function runBulkAction(action: BulkAction | 'download', fields: Record<string, unknown> = {}): Promise<BatchOutcome | null> {
+    const target = allMatchingSelected ? { filter: Object.fromEntries(documentsFilter()) } : { ids: [...selectedIds] };
+    const response = await apiRunBatch({ action, ...target, ...fields });
+    if (!response.ok) {
+        alert(`Bulk action failed: ${await readErrorMessage(response)}`);
+        return null;
+    }
+    const outcome: BatchOutcome = await response.json();
+    const failed = outcome.results.filter(r => !r.ok);
+    if (action !== 'download') {
+        clearSelection();
+        selectedIds = new Set(failed.map(r => r.id));
+    }
+    if (failed.length > 0) {
+        const nameOf = (id: number) => documents.find(d => d.id === id)?.name ?? `Document #${id}`;
+        const lines = failed.slice(0, 10).map(r => `- ${nameOf(r.id)}: ${r.error}`);
+        if (failed.length > 10) lines.push(`...and ${failed.length - 10} more`);
+        alert(`${outcome.results.length - failed.length} of ${outcome.results.length} documents were ${bulkDoneLabels[action]}. Not ${bulkDoneLabels[action]}:\n${lines.join('\n')}`);
+    }
+    return outcome;
+}
+
+async function handleBulkSubmit(e: Event) {
+    e.preventDefault();
+    if (!bulkAction) return;
+    const data = new FormData(e.target as HTMLFormElement);
+    const fields: Record<string, unknown> = {};
+    if (bulkAction === 'status') {
+        fields.status = data.get('status');
+        fields.reason = String(data.get('reason') ?? '').trim();
+        if (fields.status === 'Rejected' && !fields.reason) {
+            alert('A reason is required when rejecting documents.');
+            return;
+        }
+    } else if (bulkAction === 'move') {
+        fields.division = data.get('division');
+    }
+
+    isSubmitting = true;
+    render();
+    const outcome = await runBulkAction(bulkAction, fields);
+    isSubmitting = false;
+    if (outcome && bulkAction === 'delete') {
+        const deleted = outcome.results.filter(r => r.ok).map(r => r.id);
+        if (deleted.length > 0) showUndoToast(deleted, `${deleted.length} document${deleted.length === 1 ? ' was' : 's were'} moved to the Trash.`);
+    }
+    if (outcome) bulkAction = null;
+    render();
+    if (outcome) reloadDocuments();
+}
+
+async function handleBulkDownload() {
+    const button = document.getElementById('bulk-download-btn') as HTMLButtonElement | null;
+    if (button) button.disabled = true;
+    const outcome = await runBulkAction('download');
+    if (button) button.disabled = false;
+    if (!outcome?.download) return;
+    const anchor = document.createElement('a');
+    anchor.href = outcome.download.url;
+    anchor.click();
+}
+
+function handleModalOverlayClick(e: MouseEvent) {
+    if ((e.target as HTMLElement).classList.contains('modal-overlay')) {
+        // The preview can sit on top of the history modal; only close the top one.
+        if (previewTarget) return handlePreviewClose();
+        if (showUploadModal) handleUploadModalClose();
+        if (documentToDelete) handleCloseDeleteModal();
+        if (bulkAction) handleBulkClose();
+        if (documentForNewVersion) handleNewVersionClose();
+        if (documentToEdit) handleEditClose();
+        if (historyDocument) handleHistoryClose();
+        if (reviewDocument) handleReviewClose();
+        if (documentToRoute) handleRouteClose();
+        if (showImportModal) handleImportClose();
+        if (showUserModal) handleUserModalClose();
+        if (showFieldModal) handleFieldModalClose();
+        if (entryToRemove) handleListEntryRemoveClose();
+    }
+}
+
+async function handleDocumentOpen(docItem: Element) {
+    const docId = parseInt(docItem.getAttribute('data-doc-id')!, 10);
+    const doc = documents.find(d => d.id === docId);
+    if (!doc) return;
+    openPreview({ doc, version: doc.currentVersion, fileName: doc.fileName });
+}
+
+// Imported register entries have nothing to preview; offer to attach a file.
+function handleMissingFile(doc: AppDocument) {
+    syncUrl(true);
+    if (!can('upload', doc.division)) {
+        alert('No file has been uploaded for this document yet.');
+        return;
+    }
+    if (!confirm(`No file has been uploaded for "${doc.name}" yet. Attach one now?`)) return;
+    documentForNewVersion = doc;
+    render();
+}
+
+function handleOpenVersion(e: Event) {
+    if (!historyDocument) return;
+    const versionNumber = parseInt((e.currentTarget as HTMLElement).getAttribute('data-version')!, 10);
+    const version = documentVersions.find(v => v.version === versionNumber);
+    if (version) openPreview({ doc: historyDocument, version: version.version, fileName: version.fileName });
+}
+
+// --- PREVIEW ---
+let pdfjsPromise: Promise<typeof import('pdfjs-dist')> | null = null;
+
+// pdf.js is only downloaded the first time someone opens a PDF.
+function loadPdfJs() {
+    pdfjsPromise ??= Promise.all([
+        import('pdfjs-dist'),
+        import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+    ]).then(([pdfjs, worker]) => {
+        pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+        return pdfjs;
+    });
+    return pdfjsPromise;
+}
+
+async function openPreview(target: PreviewTarget) {
+    if (!target.doc.currentVersion) return handleMissingFile(target.doc);
+    previewTarget = target;
+    previewLink = null;
+    previewText = null;
+    previewPage = 1;
+    previewZoom = 1;
+    previewError = null;
+    isPreviewLoading = true;
+    syncUrl();
+    render();
+
+    try {
+        const response = await apiFetchFileLink(target.doc.id, target.version);
+        if (!response.ok) {
+            throw new Error(await readErrorMessage(response));
+        }
+        const link: FileLink = await response.json();
+        const kind = getFileKind(target.fileName);
+        let text: string | null = null;
+        let pdf: PdfDocument | null = null;
+        if (kind === 'text') {
+            const fileResponse = await fetch(link.url);
+            if (!fileResponse.ok) throw new Error(`Server responded with ${fileResponse.status}`);
+            text = await fileResponse.text();
+        } else if (kind === 'pdf') {
+            const pdfjs = await loadPdfJs();
+            pdf = await pdfjs.getDocument(link.url).promise;
+        }
+        // The user may have closed this preview or opened another meanwhile.
+        if (previewTarget !== target) {
+            pdf?.destroy();
+            return;
+        }
+        previewLink = link;
+        previewText = text;
+        previewPdf = pdf;
+    } catch (error) {
+        if (previewTarget !== target) return;
+        console.error("Failed to load preview:", error);
+        previewError = (error as Error).message;
+    }
+    isPreviewLoading = false;
+    updatePreviewView();
+}
+
+// Redraws only the preview, keeping the scroll position of the body, so
+// paging and zooming do not flicker the rest of the page.
+function updatePreviewView() {
+    const content = document.getElementById('preview-modal-content');
+    if (!content) return;
+    const body = document.getElementById('preview-body');
+    const scroll = body ? { left: body.scrollLeft, top: body.scrollTop } : null;
+    content.innerHTML = renderPreviewContent();
+    addPreviewEventListeners();
+    const newBody = document.getElementById('preview-body');
+    if (newBody && scroll) {
+        newBody.scrollLeft = scroll.left;
+        newBody.scrollTop = scroll.top;
+    }
+    if (previewPdf) drawPdfPage();
+}
+
+async function drawPdfPage() {
+    const canvas = document.getElementById('preview-canvas') as HTMLCanvasElement | null;
+    if (!previewPdf || !canvas) return;
+    try {
+        const page = await previewPdf.getPage(previewPage);
+        const viewport = page.getViewport({ scale: previewZoom * 1.5 });
+        // Render at the screen's pixel density so text stays sharp.
+        const ratio = window.devicePixelRatio || 1;
+        canvas.width = Math.floor(viewport.width * ratio);
+        canvas.height = Math.floor(viewport.height * ratio);
+        canvas.style.width = `${Math.floor(viewport.width)}px`;
+        canvas.style.height = `${Math.floor(viewport.height)}px`;
+        await page.render({
+            canvasContext: canvas.getContext('2d')!,
+            viewport,
+            transform: ratio === 1 ? undefined : [ratio, 0, 0, ratio, 0, 0],
+        }).promise;
+    } catch (error) {
+        console.error("Failed to render PDF page:", error);
+    }
+}
+
+function addPreviewEventListeners() {
+    document.getElementById('preview-modal-close')?.addEventListener('click', handlePreviewClose);
+    document.getElementById('preview-download')?.addEventListener('click', handlePreviewDownload);
+    document.getElementById('preview-zoom-in')?.addEventListener('click', () => setPreviewZoom(previewZoom * ZOOM_STEP));
+    document.getElementById('preview-zoom-out')?.addEventListener('click', () => setPreviewZoom(previewZoom / ZOOM_STEP));
+    document.getElementById('preview-zoom-reset')?.addEventListener('click', () => setPreviewZoom(1));
+    document.getElementById('preview-prev-page')?.addEventListener('click', () => setPreviewPage(previewPage - 1));
+    document.getElementById('preview-next-page')?.addEventListener('click', () => setPreviewPage(previewPage + 1));
+    const body = document.querySelector('.preview-body.preview-image');
+    if (body) addPanListeners(body as HTMLElement);
+}
+
+// Drag to pan: zoomed images scroll inside the preview body.
+function addPanListeners(body: HTMLElement) {
+    let start: { x: number; y: number; left: number; top: number } | null = null;
+    body.addEventListener('pointerdown', (e: PointerEvent) => {
+        start = { x: e.clientX, y: e.clientY, left: body.scrollLeft, top: body.scrollTop };
+        body.setPointerCapture(e.pointerId);
+        body.classList.add('is-panning');
+    });
+    body.addEventListener('pointermove', (e: PointerEvent) => {
+        if (!start) return;
+        body.scrollLeft = start.left - (e.clientX - start.x);
+        body.scrollTop = start.top - (e.clientY - start.y);
+    });
+    const stop = () => {
+        start = null;
+        body.classList.remove('is-panning');
+    };
+    body.addEventListener('pointerup', stop);
+    body.addEventListener('pointercancel', stop);
+}
+
+function setPreviewZoom(zoom: number) {
+    previewZoom = Math.min(ZOOM_MAX, Math.max(ZOOM_MIN, zoom));
+    updatePreviewView();
+}
+
+function setPreviewPage(page: number) {
+    if (!previewPdf || page < 1 || page > previewPdf.numPages) return;
+    previewPage = page;
+    updatePreviewView();
+    document.getElementById('preview-body')?.scrollTo(0, 0);
+}
+
+async function handlePreviewDownload() {
+    if (!previewTarget || !previewLink) return;
+    // Leave some slack so the link does not expire mid-request.
+    if (new Date(previewLink.expiresAt).getTime() - Date.now() < 10_000) {
+        const response = await apiFetchFileLink(previewTarget.doc.id, previewTarget.version);
+        if (!response.ok) {
+            alert(`Download failed: ${await readErrorMessage(response)}`);
+            return;
+        }
+        previewLink = await response.json();
+    }
+    const anchor = document.createElement('a');
+    anchor.href = previewLink!.url;
+    anchor.download = previewTarget.fileName;
+    anchor.click();
+}
+
+function handlePreviewClose() {
+    previewPdf?.destroy();
+    previewPdf = null;
+    previewTarget = null;
+    previewLink = null;
+    previewText = null;
+    syncUrl(true);
+    render();
+}
+
+function handleEscKey(e: KeyboardEvent) {
+    if (e.key === 'Escape') {
+        if (previewTarget) return handlePreviewClose();
+        if (showNotifications) return handleNotificationsToggle();
+        // The comments panel sits beside the page, under any dialog.
+        if (commentsDocument && !document.querySelector('.modal-overlay')) return handleCommentsClose();
+        if (showUploadModal) handleUploadModalClose();
+        if (documentToDelete) handleCloseDeleteModal();
+        if (bulkAction) handleBulkClose();
+        if (documentForNewVersion) handleNewVersionClose();
+        if (documentToEdit) handleEditClose();
+        if (historyDocument) handleHistoryClose();
+        if (reviewDocument) handleReviewClose();
+        if (documentToRoute) handleRouteClose();
+        if (showImportModal) handleImportClose();
+        if (showUserModal) handleUserModalClose();
+        if (showFieldModal) handleFieldModalClose();
+        if (entryToRemove) handleListEntryRemoveClose();
+    }
+}
+
+async function sha256Hex(file: File) {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// --- BULK UPLOAD ---
+// Checks a queued file against what is already stored and notes any
+// duplicates on its row.
+async function checkForDuplicates(item: QueuedUpload) {
+    if (!crypto.subtle) return;
+    try {
+        const response = await apiFindDuplicates(await sha256Hex(item.transfer.file));
+        if (!response.ok) return;
+        const { documents: duplicates }: DocumentPage = await response.json();
+        if (duplicates.length === 0) return;
+        item.duplicates = duplicates.map(d => `"${escapeHtml(d.name)}" (${escapeHtml(d.division)})`).join(', ');
+        updateQueuedUploadView(item);
+    } catch (error) {
+        console.error("Duplicate check failed:", error);
+    }
+}
+
+function addFilesToQueue(files: FileList | File[]) {
+    for (const file of Array.from(files)) {
+        const item: QueuedUpload = {
+            id: nextQueuedUploadId++,
+            name: file.name.replace(/\.[^.]+$/, ''),
+            transfer: createTransfer(file),
+            state: 'queued',
+            loaded: 0,
+            message: null,
+            duplicates: null,
+        };
+        uploadQueue.push(item);
+        checkForDuplicates(item);
+    }
+}
+
+// Rows are redrawn one at a time so progress updates do not disturb the
+// rest of the modal (or a name being typed).
+function updateQueuedUploadView(item: QueuedUpload) {
+    const row = document.querySelector(`.upload-item[data-upload-id="${item.id}"]`);
+    if (row) row.outerHTML = renderQueuedUpload(item);
+    const startButton = document.getElementById('upload-start-btn');
+    if (startButton) startButton.textContent = renderUploadStartLabel();
+}
+
+function updateQueuedUploadProgress(item: QueuedUpload, loaded: number) {
+    item.loaded = loaded;
+    const row = document.querySelector(`.upload-item[data-upload-id="${item.id}"]`);
+    if (!row) return;
+    const percent = Math.round((loaded / item.transfer.file.size) * 100);
+    (row.querySelector('.upload-progress-bar') as HTMLElement).style.width = `${percent}%`;
+    row.querySelector('.upload-item-status')!.textContent = loaded >= item.transfer.file.size ? 'Processing...' : `${percent}%`;
+}
+
+function handleUploadFilesChosen(e: Event) {
+    const input = e.target as HTMLInputElement;
+    if (!input.files?.length) return;
+    addFilesToQueue(input.files);
+    render();
+}
+
+function handleUploadDefaultsChange(e: Event) {
+    const target = e.target as HTMLSelectElement;
+    if (target.id === 'upload-division') {
+        uploadDefaults.division = target.value;
+        if (!initialStatuses(target.value).includes(uploadDefaults.status)) uploadDefaults.status = 'Pending';
+        const statusSelect = document.getElementById('upload-status');
+        if (statusSelect) statusSelect.innerHTML = renderUploadStatusOptions();
+    } else if (target.id === 'upload-type') {
+        uploadDefaults.documentType = target.value;
+        const fields = document.getElementById('upload-fields');
+        if (fields) fields.innerHTML = renderFieldInputs('upload', target.value || null, uploadDefaults.fieldValues);
+    } else {
+        uploadDefaults.status = target.value as Status;
+    }
+}
+
+function handleUploadFieldChange(e: Event) {
+    const input = e.target as HTMLInputElement | HTMLSelectElement;
+    const id = input.dataset.fieldId;
+    if (!id) return;
+    if (input.value.trim()) uploadDefaults.fieldValues[id] = input.value.trim();
+    else delete uploadDefaults.fieldValues[id];
+}
+
+// The values of the custom fields a document of this type has; values typed
+// in for another type before it was changed are left out.
+function uploadFieldValues(defaults: typeof uploadDefaults) {
+    return Object.fromEntries(fieldsFor(defaults.documentType || null)
+        .filter(field => defaults.fieldValues[field.id])
+        .map(field => [String(field.id), defaults.fieldValues[field.id]]));
+}
+
+function handleQueuedUploadRename(e: Event) {
+    const input = e.target as HTMLInputElement;
+    if (!input.classList.contains('upload-item-name')) return;
+    const id = parseInt(input.closest('.upload-item')!.getAttribute('data-upload-id')!, 10);
+    const item = uploadQueue.find(i => i.id === id);
+    if (item) item.name = input.value;
+}
+
+function handleQueuedUploadAction(e: Event) {
+    const button = (e.target as HTMLElement).closest('[data-upload-action]');
+    if (!button) return;
+    const id = parseInt(button.closest('.upload-item')!.getAttribute('data-upload-id')!, 10);
+    const item = uploadQueue.find(i => i.id === id);
+    if (!item) return;
+    const action = button.getAttribute('data-upload-action');
+    if (action === 'cancel') {
+        if (item.state === 'uploading') {
+            cancelTransfer(item.transfer); // processUpload marks it cancelled once the request stops
+        } else {
+            item.state = 'cancelled';
+            updateQueuedUploadView(item);
+        }
+    } else if (action === 'retry') {
+        item.state = 'queued';
+        item.message = null;
+        item.transfer.cancelled = false;
+        updateQueuedUploadView(item);
+        runUploadQueue();
+    } else if (action === 'remove') {
+        if (item.state === 'uploading') return;
+        uploadQueue = uploadQueue.filter(i => i !== item);
+        button.closest('.upload-item')!.remove();
+        const startButton = document.getElementById('upload-start-btn');
+        if (startButton) startButton.textContent = renderUploadStartLabel();
+    }
+}
+
+// Uploads one queued file and creates its document. Returns whether a
+// document was created.
+async function processUpload(item: QueuedUpload, defaults: typeof uploadDefaults) {
+    item.state = 'uploading';
+    item.message = null;
+    item.loaded = 0;
+    updateQueuedUploadView(item);
+
+    const fields = {
+        name: item.name.trim() || item.transfer.file.name,
+        division: defaults.division,
+        documentType: defaults.documentType || null,
+        tags: defaults.tags,
+        fieldValues: uploadFieldValues(defaults),
+    };
+    const response = await apiCreateDocument(fields, item.transfer, loaded => updateQueuedUploadProgress(item, loaded));
+    if (!response.ok) {
+        item.state = item.transfer.cancelled ? 'cancelled' : 'failed';
+        item.message = item.transfer.cancelled ? null : await readErrorMessage(response);
+        updateQueuedUploadView(item);
+        return false;
+    }
+
+    const created: AppDocument = await response.json();
+    if (defaults.status !== 'Pending') {
+        const statusResponse = await apiUpdateDocument(created.id, { status: defaults.status });
+        if (!statusResponse.ok) {
+            item.message = `saved as Pending, the status could not be set (${await readErrorMessage(statusResponse)})`;
+        }
+    }
+    item.state = 'done';
+    updateQueuedUploadView(item);
+    return true;
+}
+
+// Works through the queue one file at a time, picking up files added while
+// it runs, then refreshes the list once.
+async function runUploadQueue() {
+    if (isUploadQueueRunning) return;
+    if (!uploadDefaults.division) {
+        alert('You cannot upload to any division.');
+        return;
+    }
+    const type = uploadDefaults.documentType;
+    const missing = fieldsFor(type || null).find(field => field.requiredFor.includes(type) && !uploadDefaults.fieldValues[field.id]);
+    if (missing) {
+        alert(`Please fill in ${missing.name}; it is required for ${type} documents.`);
+        return;
+    }
+    isUploadQueueRunning = true;
+    const defaults = { ...uploadDefaults, fieldValues: { ...uploadDefaults.fieldValues } };
+    let created = 0;
+    let item: QueuedUpload | undefined;
+    while ((item = uploadQueue.find(i => i.state === 'queued'))) {
+        if (await processUpload(item, defaults)) created++;
+    }
+    isUploadQueueRunning = false;
+    const startButton = document.getElementById('upload-start-btn');
+    if (startButton) startButton.textContent = renderUploadStartLabel();
+    if (created > 0) {
+        pollDocumentChanges();
+        if (defaults.tags.length) loadTags();
+    }
+}
+
+// Files dropped anywhere on the documents page go into the upload queue.
+function canDropFiles(e: DragEvent) {
+    const hasFiles = Array.from(e.dataTransfer?.types ?? []).includes('Files');
+    const otherModalOpen = documentToDelete || bulkAction || documentForNewVersion || documentToEdit || historyDocument || reviewDocument || previewTarget;
+    return hasFiles && currentUser !== null && currentPage === 'documents' && can('upload') && !otherModalOpen;
+}
+
+function handleFileDragOver(e: DragEvent) {
+    if (!canDropFiles(e)) return;
+    e.preventDefault();
+    e.dataTransfer!.dropEffect = 'copy';
+    document.body.classList.add('is-dragging-files');
+}
+
+function handleFileDragLeave(e: DragEvent) {
+    // Leaving for a child element also fires dragleave; only a real exit has no target.
+    if (!e.relatedTarget) document.body.classList.remove('is-dragging-files');
+}
+
+function handleFileDrop(e: DragEvent) {
+    document.body.classList.remove('is-dragging-files');
+    if (!canDropFiles(e) || !e.dataTransfer?.files.length) return;
+    e.preventDefault();
+    addFilesToQueue(e.dataTransfer.files);
+    showUploadModal = true;
+    render();
+}
+
+async function loadCurrentUser() {
+    const response = await apiFetchCurrentUser();
+    currentUser = response.ok ? await response.json() : null;
+    isAuthChecking = false;
+    if (currentUser) {
+        startSession();
+    } else {
+        render();
+    }
+}
+
+async function handleLoginSubmit(e: Event) {
+    e.preventDefault();
+    if (isSubmitting) return;
+    const formData = new FormData(e.target as HTMLFormElement);
+
+    isSubmitting = true;
+    loginError = null;
+    render();
+
+    const response = await apiLogin(formData.get('email') as string, formData.get('password') as string);
+    isSubmitting = false;
+    if (!response.ok) {
+        loginError = await readErrorMessage(response);
+        render();
+        return;
+    }
+    currentUser = await response.json();
+    currentPage = 'documents';
+    startSession();
+}
+
+// Everything the dashboard loads once someone is signed in. A link to a
+// single document opens it once the list is there.
+async function startSession() {
+    loadSavedViews();
+    loadNotifications();
+    loadWaitingDocuments();
+    loadTags();
+    await loadSettings();
+    applyListParams(new URLSearchParams(location.search)); // The URL may name divisions and types only known now
+    await fetchDocuments();
+    startChangePolling();
+    const docId = Number(new URLSearchParams(location.search).get('doc'));
+    if (Number.isInteger(docId) && docId > 0) openLinkedDocument(docId);
+}
+
+async function handleLogout() {
+    await apiLogout();
+    handleSessionExpired();
+}
+
+// Forgets everything the previous user could see.
+function handleSessionExpired() {
+    currentUser = null;
+    stopChangePolling();
+    documents = [];
+    users = [];
+    savedViews = [];
+    entryToRemove = null;
+    auditEntries = [];
+    currentPage = 'documents';
+    showUploadModal = false;
+    uploadQueue.forEach(item => item.state === 'uploading' && cancelTransfer(item.transfer));
+    uploadQueue = [];
+    showUserModal = false;
+    showFieldModal = false;
+    fieldBeingEdited = null;
+    tagSuggestions = [];
+    showNotifications = false;
+    notifications = [];
+    unreadNotifications = 0;
+    waitingDocuments = [];
+    directory = [];
+    documentToRoute = null;
+    documentHandovers = [];
+    documentToDelete = null;
+    hideUndoToast();
+    trashedDocuments = [];
+    bulkAction = null;
+    clearSelection();
+    documentForNewVersion = null;
+    historyDocument = null;
+    reviewDocument = null;
+    previewPdf?.destroy();
+    previewPdf = null;
+    previewTarget = null;
+    isSubmitting = false;
+    render();
+}
+
+function replaceDocument(updated: AppDocument) {
+    documents = documents.map(d => d.id === updated.id ? updated : d);
+}
+
+function handleEditOpen(docId: number) {
+    documentToEdit = documents.find(d => d.id === docId) || null;
+    editTags = documentToEdit ? [...documentToEdit.tags] : [];
+    render();
+    document.getElementById('edit-name')?.focus();
+}
+
+function handleEditClose() {
+    documentToEdit = null;
+    render();
+}
+
+// Shows the custom fields of the chosen type, keeping what was typed so far.
+function handleEditTypeChange(e: Event) {
+    const container = document.getElementById('edit-fields');
+    if (!container || !documentToEdit) return;
+    const typed = Object.fromEntries([...container.querySelectorAll<HTMLInputElement | HTMLSelectElement>('[data-field-id]')]
+        .map(input => [input.dataset.fieldId!, input.value.trim()]));
+    container.innerHTML = renderFieldInputs('edit', (e.target as HTMLSelectElement).value || null, { ...documentToEdit.fieldValues, ...typed });
+}
+
+// Applies the edit locally straight away and puts the old values back if the
+// server refuses it. Custom field values are left to the server's answer.
+async function handleEditSubmit(e: Event) {
+    e.preventDefault();
+    if (!documentToEdit) return;
+    const original = documentToEdit;
+    const formData = new FormData(e.target as HTMLFormElement);
+    const name = (formData.get('name') as string).trim();
+    const division = formData.get('division') as Division;
+    const documentType = (formData.get('documentType') as string) || null;
+    const issueDate = (formData.get('issueDate') as string) || null;
+    const expiryDate = (formData.get('expiryDate') as string) || null;
+    const status = (formData.get('status') as Status | null) || original.status;
+    const reason = ((formData.get('reason') as string | null) || '').trim();
+    if (!name) {
+        alert('Please enter a document name.');
+        return;
+    }
+    if (status === 'Rejected' && status !== original.status && !reason) {
+        alert('Please give a reason for the rejection.');
+        return;
+    }
+    if (issueDate && expiryDate && expiryDate < issueDate) {
+        alert('The expiry date cannot be before the issue date.');
+        return;
+    }
+
+    const patch: Parameters<typeof apiUpdateDocument>[1] = {};
+    if (name !== original.name) patch.name = name;
+    if (division !== original.division) patch.division = division;
+    if (documentType !== original.documentType) patch.documentType = documentType;
+    if (issueDate !== original.issueDate) patch.issueDate = issueDate;
+    if (expiryDate !== original.expiryDate) patch.expiryDate = expiryDate;
+    if (editTags.join('\n') !== original.tags.join('\n')) patch.tags = editTags;
+    const fieldValues: Record<string, string | null> = {};
+    for (const field of fieldsFor(documentType)) {
+        const value = ((formData.get(`field-${field.id}`) as string | null) ?? '').trim();
+        const stored = original.fieldValues[field.id];
+        if (value !== (stored === undefined ? '' : String(stored))) fieldValues[field.id] = value || null;
+    }
+    if (Object.keys(fieldValues).length) patch.fieldValues = fieldValues;
+    if (status !== original.status) {
+        patch.status = status;
+        if (reason) patch.reason = reason;
+    }
+    documentToEdit = null;
+    if (Object.keys(patch).length === 0) {
+        render();
+        return;
+    }
+
+    const { reason: _reason, fieldValues: _fieldValues, ...changes } = patch;
+    replaceDocument({
+        ...original,
+        ...changes,
+        ...(changes.status && { reviewer: currentUser!.name, rejectionReason: changes.status === 'Rejected' ? reason : null }),
+    });
+    render();
+
+    const response = await apiUpdateDocument(original.id, patch);
+    if (response.ok) {
+        replaceDocument(await response.json());
+        updateDocumentsView();
+        if (patch.tags) loadTags();
+        return;
+    }
+    const message = await readErrorMessage(response);
+    replaceDocument(original);
+    updateDocumentsView();
+    alert(`Saving your changes failed: ${message}`);
+}
+
+function handleNewVersionOpen(docId: number) {
+    documentForNewVersion = documents.find(d => d.id === docId) || null;
+    render();
+}
+
+function handleNewVersionClose() {
+    documentForNewVersion = null;
+    isSubmitting = false;
+    render();
+}
+
+async function handleNewVersionSubmit(e: Event) {
+    e.preventDefault();
+    if (isSubmitting || !documentForNewVersion) return;
+
+    const formData = new FormData(e.target as HTMLFormElement);
+    isSubmitting = true;
+    render();
+
+    try {
+        const response = await apiCreateVersion(documentForNewVersion.id, formData);
+        if (!response.ok) {
+            throw new Error(await readErrorMessage(response));
+        }
+        const { document: updated } = await response.json();
+        replaceDocument(updated);
+        handleNewVersionClose();
+    } catch (error) {
+        alert(`Upload failed: ${(error as Error).message}`);
+        isSubmitting = false;
+        render();
+    }
+}
+
+async function handleHistoryOpen(docId: number) {
+    historyDocument = findDocument(docId);
+    if (!historyDocument) return;
+    documentVersions = [];
+    documentActivity = [];
+    documentHandovers = [];
+    historyTab = 'versions';
+    isHistoryLoading = true;
+    render();
+
+    try {
+        const [versionsResponse, activityResponse, handoversResponse] = await Promise.all([
+            apiFetchVersions(docId),
+            apiFetchAuditLog({ documentId: String(docId), limit: '200' }),
+            apiFetchHandovers(docId),
+        ]);
+        for (const response of [versionsResponse, activityResponse, handoversResponse]) {
+            if (!response.ok) {
+                throw new Error(await readErrorMessage(response));
+            }
+        }
+        documentVersions = await versionsResponse.json();
+        documentActivity = (await activityResponse.json()).entries;
+        documentHandovers = await handoversResponse.json();
+    } catch (error) {
+        alert(`Could not load version history: ${(error as Error).message}`);
+        historyDocument = null;
+    } finally {
+        isHistoryLoading = false;
+        render();
+    }
+}
+
+function handleHistoryTabChange(e: Event) {
+    historyTab = (e.currentTarget as HTMLElement).getAttribute('data-tab') as typeof historyTab;
+    render();
+}
+
+function handleHistoryClose() {
+    historyDocument = null;
+    documentVersions = [];
+    documentActivity = [];
+    documentHandovers = [];
+    isSubmitting = false;
+    render();
+}
+
+async function handleRestoreVersion(e: Event) {
+    if (!historyDocument || isSubmitting) return;
+    const version = parseInt((e.currentTarget as HTMLElement).getAttribute('data-version')!, 10);
+
+    isSubmitting = true;
+    render();
+
+    try {
+        const response = await apiRestoreVersion(historyDocument.id, version);
+        if (!response.ok) {
+            throw new Error(await readErrorMessage(response));
+        }
+        const { document: updated, version: restored } = await response.json();
+        replaceDocument(updated);
+        historyDocument = updated;
+        documentVersions = [restored, ...documentVersions];
+    } catch (error) {
+        alert(`Restore failed: ${(error as Error).message}`);
+    } finally {
+        isSubmitting = false;
+        render();
+    }
+}
+
+async function handleReviewOpen(docId: number) {
+    reviewDocument = documents.find(d => d.id === docId) || null;
+    if (!reviewDocument) return;
+    statusTransitions = [];
+    isReviewLoading = true;
+    render();
+
+    try {
+        const response = await apiFetchTransitions(docId);
+        if (!response.ok) {
+            throw new Error(await readErrorMessage(response));
+        }
+        statusTransitions = await response.json();
+    } catch (error) {
+        alert(`Could not load status history: ${(error as Error).message}`);
+        reviewDocument = null;
+    } finally {
+        isReviewLoading = false;
+        render();
+    }
+}
+
+function handleReviewClose() {
+    reviewDocument = null;
+    statusTransitions = [];
+    reviewReason = '';
+    isSubmitting = false;
+    render();
+}
+
+async function handleReviewAction(action: string) {
+    if (!reviewDocument || isSubmitting) return;
+    reviewReason = (document.getElementById('review-reason') as HTMLTextAreaElement).value;
+    const reason = reviewReason.trim();
+    if (action === 'reject' && !reason) {
+        alert('Please give a reason for the rejection.');
+        return;
+    }
+
+    isSubmitting = true;
+    render();
+
+    try {
+        const response = await apiTransitionDocument(reviewDocument.id, action, reason || undefined);
+        if (!response.ok) {
+            throw new Error(await readErrorMessage(response));
+        }
+        replaceDocument(await response.json());
+        handleReviewClose();
+    } catch (error) {
+        alert(`Status change failed: ${(error as Error).message}`);
+        isSubmitting = false;
+        render();
+    }
+}
+
+function handleNavigate(e: Event) {
+    const page = (e.currentTarget as HTMLElement).getAttribute('data-page') as Page;
+    if (page === currentPage) return;
+    currentPage = page;
+    if (page === 'audit') {
+        loadAuditLog(true);
+    } else if (page === 'users') {
+        loadUsers();
+    } else if (page === 'analytics') {
+        loadAnalytics();
+    } else if (page === 'trash') {
+        loadTrash();
+    } else {
+        render();
+        if (page === 'settings') loadWebhooks();
+        if (page === 'documents') pollDocumentChanges();
+    }
+}
+
+function handleAuditFilterSubmit(e: Event) {
+    e.preventDefault();
+    const formData = new FormData(e.target as HTMLFormElement);
+    auditFilters = {
+        user: (formData.get('user') as string).trim(),
+        action: formData.get('action') as string,
+        division: formData.get('division') as string,
+        from: formData.get('from') as string,
+        to: formData.get('to') as string,
+    };
+    loadAuditLog(true);
+}
+
+// `reset` starts over from the newest entry; otherwise the next page is
+// appended to what is already shown.
+async function loadAuditLog(reset: boolean) {
+    if (reset) {
+        auditEntries = [];
+        auditNextBefore = null;
+    }
+    isAuditLoading = true;
+    auditError = null;
+    render();
+
+    const params: Record<string, string> = {};
+    for (const [key, value] of Object.entries(auditFilters)) {
+        if (value) params[key] = value;
+    }
+    if (auditNextBefore) params.before = String(auditNextBefore);
+
+    try {
+        const response = await apiFetchAuditLog(params);
+        if (!response.ok) {
+            throw new Error(await readErrorMessage(response));
+        }
+        const page = await response.json();
+        auditEntries = [...auditEntries, ...page.entries];
+        auditNextBefore = page.nextBefore;
+    } catch (error) {
+        auditError = (error as Error).message;
+    } finally {
+        isAuditLoading = false;
+        render();
+    }
+}
+
+async function loadTrash() {
+    isTrashLoading = true;
+    trashError = null;
+    render();
+    try {
+        const response = await apiFetchTrash();
+        if (!response.ok) {
+            throw new Error(await readErrorMessage(response));
+        }
+        trashedDocuments = await response.json();
+    } catch (error) {
+        trashError = (error as Error).message;
+    } finally {
+        isTrashLoading = false;
+        render();
+    }
+}
+
+async function handleTrashRestore(e: Event) {
+    const docId = parseInt((e.currentTarget as HTMLElement).getAttribute('data-doc-id')!, 10);
+    const response = await apiRestoreDocument(docId);
+    if (!response.ok) {
+        alert(`Restoring failed: ${await readErrorMessage(response)}`);
+        return;
+    }
+    trashedDocuments = trashedDocuments.filter(d => d.id !== docId);
+    render();
+}
+
+async function handleTrashPurge(e: Event) {
+    const docId = parseInt((e.currentTarget as HTMLElement).getAttribute('data-doc-id')!, 10);
+    const doc = trashedDocuments.find(d => d.id === docId);
+    if (!doc || !confirm(`Delete "${doc.name}" and all of its versions for good? This cannot be undone.`)) return;
+
+    const response = await apiPurgeDocument(docId);
+    if (!response.ok && response.status !== 404) {
+        alert(`Deletion failed: ${await readErrorMessage(response)}`);
+        return;
+    }
+    trashedDocuments = trashedDocuments.filter(d => d.id !== docId);
+    render();
+}
+
+async function loadUsers() {
+    isUsersLoading = true;
+    usersError = null;
+    render();
+    try {
+        const response = await apiFetchUsers();
+        if (!response.ok) {
+            throw new Error(await readErrorMessage(response));
+        }
+        users = await response.json();
+    } catch (error) {
+        usersError = (error as Error).message;
+    } finally {
+        isUsersLoading = false;
+        render();
+    }
+}
+
+function handleUserModalOpen(user: AppUser | null) {
+    userBeingEdited = user;
+    showUserModal = true;
+    render();
+    document.getElementById('user-email')?.focus();
+}
+
+function handleUserModalClose() {
+    showUserModal = false;
+    userBeingEdited = null;
+    isSubmitting = false;
+    render();
+}
+
+function handleEditUserClick(e: Event) {
+    const userId = parseInt((e.currentTarget as HTMLElement).getAttribute('data-user-id')!, 10);
+    const user = users.find(u => u.id === userId);
+    if (user) handleUserModalOpen(user);
+}
+
+async function handleUserFormSubmit(e: Event) {
+    e.preventDefault();
+    if (isSubmitting) return;
+    const formData = new FormData(e.target as HTMLFormElement);
+    const body = {
+        email: formData.get('email') as string,
+        name: formData.get('name') as string,
+        password: formData.get('password') as string,
+        role: formData.get('role') as Role,
+        divisions: formData.getAll('divisions') as Division[],
+    };
+
+    isSubmitting = true;
+    render();
+
+    const response = await apiSaveUser(userBeingEdited ? userBeingEdited.id : null, body);
+    if (!response.ok) {
+        alert(`Saving the user failed: ${await readErrorMessage(response)}`);
+        isSubmitting = false;
+        render();
+        return;
+    }
+    const saved: AppUser = await response.json();
+    if (saved.id === currentUser!.id) currentUser = saved;
+    handleUserModalClose();
+    loadUsers();
+}
+
+async function handleDeleteUserClick(e: Event) {
+    const userId = parseInt((e.currentTarget as HTMLElement).getAttribute('data-user-id')!, 10);
+    const user = users.find(u => u.id === userId);
+    if (!user || !confirm(`Delete the account of ${user.name}? They will be signed out immediately.`)) return;
+
+    const response = await apiDeleteUser(userId);
+    if (!response.ok) {
+        alert(`Deletion failed: ${await readErrorMessage(response)}`);
+        return;
+    }
+    loadUsers();
+}
+
+// --- URL STATE ---
+// The documents list is described by the page URL, so a refresh keeps it
+// and a link reproduces it, e.g. ?division=Finance&status=Pending&q=invoice.
+// Defaults are left out; `doc` names the document open in the preview.
+function defaultSort(): typeof sort {
+    return filters.search.trim() ? { field: 'relevance', order: 'asc' } : { field: 'date', order: 'desc' };
+}
+
+function listParams() {
+    const params = new URLSearchParams();
+    if (filters.division !== 'all') params.set('division', filters.division);
+    if (filters.type !== 'all') params.set('type', filters.type);
+    if (filters.status !== 'all') params.set('status', filters.status);
+    if (filters.expiry !== 'all') params.set('expiry', filters.expiry);
+    if (filters.uploaded !== 'all') params.set('uploaded', filters.uploaded);
+    if (filters.tags.length) params.set('tags', filters.tags.join(','));
+    for (const [id, value] of Object.entries(filters.fields)) params.set(`field.${id}`, value);
+    if (filters.search.trim()) params.set('q', filters.search.trim());
+    const fallback = defaultSort();
+    if (sort.field !== fallback.field || sort.order !== fallback.order) params.set('sort', `${sort.field}:${sort.order}`);
+    if (currentView !== 'grid') params.set('view', currentView);
+    return params;
+}
+
+// Unknown or malformed values fall back to the defaults.
+function applyListParams(params: URLSearchParams) {
+    const division = params.get('division') as Division;
+    const type = params.get('type') as string;
+    const status = params.get('status') as Status;
+    filters.division = divisions.includes(division) ? division : 'all';
+    filters.type = documentTypes.includes(type) ? type : 'all';
+    filters.status = statuses.includes(status) ? status : 'all';
+    const expiry = params.get('expiry');
+    filters.expiry = expiry === 'expiring' || expiry === 'expired' ? expiry : 'all';
+    const uploaded = params.get('uploaded') ?? '';
+    filters.uploaded = /^\d{4}-\d{2}$/.test(uploaded) ? uploaded : 'all';
+    filters.tags = (params.get('tags') ?? '').split(',').map(tag => tag.trim()).filter(Boolean);
+    filters.fields = Object.fromEntries(customFields
+        .filter(field => params.get(`field.${field.id}`))
+        .map(field => [String(field.id), params.get(`field.${field.id}`)!]));
+    filters.search = params.get('q') ?? '';
+    const requested = params.get('sort') ?? '';
+    const isValid = sortOptions.some(o => o.value === requested) && (requested !== 'relevance:asc' || filters.search.trim());
+    if (isValid) {
+        const [field, order] = requested.split(':');
+        sort = { field: field as SortField, order: order as SortOrder };
+    } else {
+        sort = defaultSort();
+    }
+    currentView = params.get('view') === 'list' ? 'list' : 'grid';
+}
+
+// Pushes a history entry for the current state unless the URL already says
+// the same. `replace` is for changes too small to go back to one by one.
+function syncUrl(replace = false) {
+    const params = listParams();
+    if (previewTarget) params.set('doc', String(previewTarget.doc.id));
+    const query = params.toString();
+    if (`?${query}` === location.search || (!query && !location.search)) return;
+    const url = query ? `?${query}` : location.pathname;
+    if (replace) history.replaceState(null, '', url);
+    else history.pushState(null, '', url);
+    document.querySelectorAll<HTMLElement>('.saved-view-list li').forEach(item => {
+        item.classList.toggle('active', item.dataset.params === listParams().toString());
+    });
+}
+
+function handlePopState() {
+    if (!currentUser) return;
+    const params = new URLSearchParams(location.search);
+    applyListParams(params);
+    const docId = Number(params.get('doc'));
+    if (previewTarget && previewTarget.doc.id !== docId) handlePreviewClose();
+    currentPage = 'documents';
+    render();
+    reloadDocuments();
+    if (docId > 0 && !previewTarget) openLinkedDocument(docId);
+}
+
+async function openLinkedDocument(docId: number) {
+    let doc = documents.find(d => d.id === docId);
+    if (!doc) {
+        const response = await apiFetchDocument(docId);
+        if (!response.ok) {
+            alert(response.status === 404
+                ? 'That document does not exist or you do not have access to it.'
+                : `Could not open the document: ${await readErrorMessage(response)}`);
+            syncUrl(true);
+            return;
+        }
+        doc = await response.json() as AppDocument;
+    }
+    openPreview({ doc, version: doc.currentVersion, fileName: doc.fileName });
+}
+
+// --- ANALYTICS ---
+// Every number links to the documents behind it: `data-list-params` holds
+// the list filters that reproduce it.
+function listLink(params: Record<string, string>, content: string, className = 'analytics-link') {
+    return `<button type="button" class="${className}" data-list-params="${escapeHtml(new URLSearchParams(params).toString())}">${content}</button>`;
+}
+
+function formatDays(days: number) {
+    return days < 1 ? `${Math.max(1, Math.round(days * 24))} h` : `${days.toFixed(1)} days`;
+}
+
+function daysSince(iso: string) {
+    return Math.floor((Date.now() - Date.parse(iso)) / (24 * 60 * 60 * 1000));
+}
+
+// The user's divisions in the order of the settings, and any others that
+// still have documents.
+function analyticsDivisions(data: Analytics) {
+    const own = can('admin') ? divisions : divisions.filter(d => currentUser!.divisions.includes(d));
+    return [...new Set([...own, ...data.counts.map(c => c.division)])];
+}
+
+function renderAnalyticsPage() {
+    let content: string;
+    if (analyticsError) {
+        content = `<div class="message-container"><div class="error-message"><h4>Failed to load analytics</h4><p>${escapeHtml(analyticsError)}</p></div></div>`;
+    } else if (isAnalyticsLoading || !analytics) {
+        content = '<div class="message-container"><div class="loading-spinner"></div></div>';
+    } else {
+        const data = analytics;
+        content = `
+          <div class="analytics-tiles">${renderAnalyticsTiles(data)}</div>
+          <div class="analytics-grid">
+            <section class="analytics-card analytics-wide">
+              <h3>Documents by division and status</h3>
+              ${renderStatusMatrix(data)}
+            </section>
+            <section class="analytics-card">
+              <h3>Uploads per month</h3>
+              ${renderUploadChart(data)}
+            </section>
+            <section class="analytics-card">
+              <h3>Review turnaround</h3>
+              <p class="form-hint">Average time from submission to a decision, over the last 12 months.</p>
+              ${renderTurnaround(data)}
+            </section>
+            <section class="analytics-card">
+              <h3>${listLink({ status: 'Pending', sort: 'date:asc' }, 'Oldest pending', 'analytics-heading-link')}</h3>
+              ${renderAnalyticsDocuments(data.oldestPending, doc => `waiting ${daysSince(doc.uploadedAt)} days`, 'Nothing is pending.')}
+            </section>
+            <section class="analytics-card">
+              <h3>${listLink({ expiry: 'expiring' }, `Expiring within ${data.expiry.days} days`, 'analytics-heading-link')}</h3>
+              ${renderAnalyticsDocuments(data.expiring, doc => `expires ${doc.expiryDate}`, 'Nothing is about to expire.')}
+            </section>
+          </div>
+        `;
+    }
+    return `
+      <header class="main-header"><h2 class="page-title">Analytics</h2></header>
+      <div class="analytics-container">${content}</div>
+    `;
+}
+
+function renderAnalyticsTiles(data: Analytics) {
+    const total = data.counts.reduce((sum, c) => sum + c.count, 0);
+    const byStatus = (status: Status) => data.counts.filter(c => c.status === status).reduce((sum, c) => sum + c.count, 0);
+    const tile = (params: Record<string, string>, label: string, value: number, className = '') =>
+        listLink(params, `<span class="analytics-tile-value">${value}</span><span class="analytics-tile-label ${className}">${label}</span>`, 'analytics-tile');
+    return [
+        tile({}, 'Documents', total),
+        ...data.statuses.map(status => tile({ status }, status, byStatus(status), `doc-status ${getStatusClass(status)}`)),
+        tile({ expiry: 'expiring' }, 'Expiring soon', data.expiry.expiring),
+        tile({ expiry: 'expired' }, 'Expired', data.expiry.expired),
+    ].join('');
+}
+
+function renderStatusMatrix(data: Analytics) {
+    const count = (division: Division, status: Status) => data.counts.find(c => c.division === division && c.status === status)?.count ?? 0;
+    const rows = analyticsDivisions(data);
+    const cell = (params: Record<string, string>, value: number) => `<td class="${value ? '' : 'analytics-zero'}">${listLink(params, String(value))}</td>`;
+    return `
+      <table class="audit-table analytics-matrix">
+        <thead><tr><th>Division</th>${data.statuses.map(status => `<th>${listLink({ status }, status)}</th>`).join('')}<th>Total</th></tr></thead>
+        <tbody>
+          ${rows.map(division => `
+          <tr>
+            <th>${listLink({ division }, escapeHtml(division))}</th>
+            ${data.statuses.map(status => cell({ division, status }, count(division, status))).join('')}
+            ${cell({ division }, data.statuses.reduce((sum, status) => sum + count(division, status), 0))}
+          </tr>`).join('')}
+        </tbody>
+      </table>
+    `;
+}
+
+function renderUploadChart(data: Analytics) {
+    const max = Math.max(1, ...data.uploads.map(u => u.count));
+    return `
+      <div class="analytics-bars">
+        ${data.uploads.map(({ month, count }) => {
+            const label = new Date(`${month}-01T00:00:00`).toLocaleDateString([], { month: 'short', year: '2-digit' });
+            return listLink({ uploaded: month }, `
+              <span class="analytics-bar-count">${count}</span>
+              <span class="analytics-bar-track"><span class="analytics-bar" style="height: ${Math.round((count / max) * 100)}%"></span></span>
+              <span class="analytics-bar-label">${label}</span>`, 'analytics-bar-link');
+        }).join('')}
+      </div>
+    `;
+}
+
+function renderTurnaround(data: Analytics) {
+    if (data.turnaround.length === 0) return '<p class="no-documents-message">No reviews were decided in the last 12 months.</p>';
+    const outcomes: ('Approved' | 'Rejected')[] = ['Approved', 'Rejected'];
+    const rows = analyticsDivisions(data).filter(division => data.turnaround.some(t => t.division === division));
+    return `
+      <table class="audit-table analytics-turnaround">
+        <thead><tr><th>Division</th>${outcomes.map(outcome => `<th>${outcome}</th>`).join('')}</tr></thead>
+        <tbody>
+          ${rows.map(division => `
+          <tr>
+            <th>${listLink({ division }, escapeHtml(division))}</th>
+            ${outcomes.map(status => {
+                const entry = data.turnaround.find(t => t.division === division && t.outcome === status);
+                return `<td>${entry ? listLink({ division, status }, `${formatDays(entry.averageDays)} <span class="analytics-muted">(${entry.decisions})</span>`) : '<span class="analytics-muted">&ndash;</span>'}</td>`;
+            }).join('')}
+          </tr>`).join('')}
+        </tbody>
+      </table>
+    `;
+}
+
+function renderAnalyticsDocuments(docs: AppDocument[], describe: (doc: AppDocument) => string, empty: string) {
+    if (docs.length === 0) return `<p class="no-documents-message">${empty}</p>`;
+    return `
+      <ul class="analytics-doc-list">
+        ${docs.map(doc => `
+        <li>
+          <button type="button" class="analytics-doc" data-doc-id="${doc.id}">
+            <span class="analytics-doc-name">${escapeHtml(doc.name)}</span>
+            <span class="analytics-muted">${escapeHtml(doc.division)} &middot; ${describe(doc)}</span>
+          </button>
+        </li>`).join('')}
+      </ul>
+    `;
+}
+
+async function loadAnalytics() {
+    isAnalyticsLoading = true;
+    analyticsError = null;
+    render();
+    try {
+        const response = await apiFetchAnalytics();
+        if (!response.ok) {
+            throw new Error(await readErrorMessage(response));
+        }
+        analytics = await response.json();
+    } catch (error) {
+        analyticsError = (error as Error).message;
+    } finally {
+        isAnalyticsLoading = false;
+        render();
+    }
+}
+
+// Opens the document list with the filters behind the clicked figure,
+// keeping the view mode.
+function handleAnalyticsDrillDown(e: Event) {
+    const params = new URLSearchParams((e.currentTarget as HTMLElement).dataset.listParams);
+    if (currentView !== 'grid') params.set('view', currentView);
+    applyListParams(params);
+    currentPage = 'documents';
+    syncUrl();
+    render();
+    reloadDocuments();
+}
+
+function handleAnalyticsDocumentOpen(e: Event) {
+    const docId = Number((e.currentTarget as HTMLElement).dataset.docId);
+    const doc = [...(analytics?.oldestPending ?? []), ...(analytics?.expiring ?? [])].find(d => d.id === docId);
+    if (doc) openPreview({ doc, version: doc.currentVersion, fileName: doc.fileName });
+}
+
+// --- REGISTER EXPORT & IMPORT ---
+// The fields a spreadsheet column can be imported into. `aliases` are the
+// column names (lowercased) taken to mean the field, so the register's own
+// export maps itself.
+const importFields: { field: ImportField; label: string; aliases: string[]; date?: boolean }[] = [
+    { field: 'name', label: 'Name', aliases: ['name', 'document name', 'document', 'title'] },
+    { field: 'division', label: 'Division', aliases: ['division', 'department', 'dept'] },
+    { field: 'documentType', label: 'Type', aliases: ['type', 'document type', 'category'] },
+    { field: 'status', label: 'Status', aliases: ['status', 'state'] },
+    { field: 'issueDate', label: 'Issue date', aliases: ['issue date', 'issued', 'issued on', 'date issued'], date: true },
+    { field: 'expiryDate', label: 'Expiry date', aliases: ['expiry date', 'expiry', 'expires', 'expiration date', 'valid until'], date: true },
+    { field: 'fileName', label: 'File name', aliases: ['file name', 'filename', 'file'] },
+    { field: 'uploadedBy', label: 'Uploaded by', aliases: ['uploaded by', 'owner', 'author', 'created by'] },
+    { field: 'uploadedAt', label: 'Uploaded at', aliases: ['uploaded at', 'uploaded', 'date', 'received'], date: true },
+    { field: 'reviewer', label: 'Reviewer', aliases: ['reviewer', 'reviewed by', 'approved by'] },
+    { field: 'rejectionReason', label: 'Rejection reason', aliases: ['rejection reason', 'reason'] },
+    { field: 'tags', label: 'Tags', aliases: ['tags', 'tag', 'labels', 'keywords'] },
+];
+
+function renderImportModal() {
+    const submittingClass = isSubmitting ? 'is-submitting' : '';
+    const sheet = importSheet;
+    const submitLabel = !importReport
+        ? 'Check Rows'
+        : `Import ${importReport.valid} Document${importReport.valid === 1 ? '' : 's'}`;
+    return `
+      <div class="modal-overlay visible" id="import-modal-overlay">
+        <div class="modal-content import-modal-content" role="dialog" aria-labelledby="import-modal-title">
+          <div class="modal-header">
+            <h2 id="import-modal-title">Import Register</h2>
+            <button class="modal-close" id="import-modal-close" aria-label="Close">&times;</button>
+          </div>
+          <form id="import-form">
+            <div class="form-group">
+              <label for="import-file">Spreadsheet (.csv or .xlsx)</label>
+              <input type="file" id="import-file" accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" ${isSubmitting ? 'disabled' : ''}>
+              <p class="form-hint">The first row names the columns. Every row becomes a document without a file, which can be attached later. Dates can be written as 2024-12-31 or day first, as 31/12/2024.</p>
+            </div>
+            ${sheet ? `
+            <p class="modal-subtitle"><strong>${escapeHtml(sheet.fileName)}</strong>: ${sheet.rows.length} row${sheet.rows.length === 1 ? '' : 's'}</p>
+            <fieldset class="import-mapping">
+              <legend>Columns</legend>
+              ${importFields.map(({ field, label }) => `
+              <div class="form-group">
+                <label for="import-map-${field}">${label}</label>
+                <select id="import-map-${field}" data-import-field="${field}">
+                  <option value="">Not imported</option>
+                  ${sheet.headers.map((header, i) => `<option value="${i}" ${importMapping[field] === i ? 'selected' : ''}>${escapeHtml(header || `Column ${i + 1}`)}</option>`).join('')}
+                </select>
+              </div>`).join('')}
+            </fieldset>
+            ${importReport ? renderImportPreview(importReport, sheet) : ''}` : ''}
+            <div class="form-actions">
+              <button type="button" class="btn btn-secondary" id="import-cancel">Cancel</button>
+              ${sheet ? `
+              <button type="submit" class="btn btn-primary ${submittingClass}" ${isSubmitting || importReport?.valid === 0 ? 'disabled' : ''}>
+                <span class="btn-text">${submitLabel}</span>
+                <span class="btn-loader">${icons.loader()}</span>
+              </button>` : ''}
+            </div>
+          </form>
+        </div>
+      </div>
+    `;
 }
 
-// --- SIMULATED SHARED BACKEND API ---
-// We use a simple, free JSON hosting service to act as our shared database.
-// This allows different users on different devices to see the same data.
-const SHARED_DB_URL = 'https://api.jsonbin.io/v3/b/66a13d2ee41b4d34e40f3b43';
-// It's good practice to use an API key, but for this public demo, we'll use a placeholder.
-// In a real app, this would be a secret environment variable.
-const JSONBIN_API_KEY = '$2a$10$wS.UP.ub7TfBv11deUGDse7.uV2pr/5IfeO8u32hdsQBPp3b3GfA2'; 
+// The dry run: what each row would become, and what is wrong with it.
+function renderImportPreview(report: ImportReport, sheet: RegisterSheet) {
+    const skipped = report.total - report.valid;
+    return `
+      <p class="import-summary" role="status">${report.valid} of ${report.total} rows can be imported${skipped ? `; ${skipped} with errors will be skipped` : ''}.</p>
+      <div class="import-preview">
+        <table class="audit-table import-table">
+          <thead><tr><th>Row</th><th>Name</th><th>Division</th><th>Status</th><th>Problems</th></tr></thead>
+          <tbody>
+            ${report.rows.map(r => `
+            <tr class="${r.ok ? (r.warnings.length ? 'import-row-warning' : '') : 'import-row-error'}">
+              <td>${sheet.lines[r.row - 1]}</td>
+              <td>${escapeHtml(r.input.name || '')}</td>
+              <td>${escapeHtml(r.input.division || '')}</td>
+              <td>${r.ok ? r.input.status : ''}</td>
+              <td>${[...r.errors, ...r.warnings].map(escapeHtml).join('<br>')}</td>
+            </tr>`).join('')}
+          </tbody>
+        </table>
+      </div>
+    `;
+}
 
-const mockFileStore = new Map<number, File>(); // In-memory store for uploaded file objects for SAME-SESSION preview.
+async function handleRegisterExport(e: Event) {
+    const format = (e.currentTarget as HTMLElement).dataset.exportFormat as ExportFormat;
+    document.querySelector<HTMLDetailsElement>('.register-menu')?.removeAttribute('open');
+    const params = documentsQuery();
+    params.set('format', format);
+    const response = await apiExportRegister(params);
+    if (!response.ok) {
+        alert(`Export failed: ${await readErrorMessage(response)}`);
+        return;
+    }
+    const disposition = (response as Response).headers.get('Content-Disposition') || '';
+    const url = URL.createObjectURL(await (response as Response).blob());
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = disposition.match(/filename="([^"]+)"/)?.[1] || `document-register.${format}`;
+    anchor.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
 
-const MOCK_API_DELAY = 500; // Simulate network latency for non-network actions
+function handleImportOpen() {
+    document.querySelector<HTMLDetailsElement>('.register-menu')?.removeAttribute('open');
+    showImportModal = true;
+    render();
+}
 
-async function mockApiFetchDocuments(): Promise<{ ok: boolean; status: number; json: () => Promise<any> }> {
-  try {
-    const response = await fetch(`${SHARED_DB_URL}/latest`, {
-      method: 'GET',
-      headers: { 'X-Master-Key': JSONBIN_API_KEY },
-    });
-    if (!response.ok) {
-        // If the bin is empty or new, it might 404. Treat this as an empty array.
-        if (response.status === 404) {
-            return { ok: true, status: 200, json: () => Promise.resolve([]) };
+function handleImportClose() {
+    showImportModal = false;
+    importSheet = null;
+    importMapping = {};
+    importReport = null;
+    isSubmitting = false;
+    render();
+}
+
+// RFC 4180, separated by commas or, as Excel writes it where the comma is
+// the decimal mark, by semicolons; the header line decides which.
+function parseCsv(text: string) {
+    text = text.replace(/^\uFEFF/, '');
+    const header = text.slice(0, text.search(/[\r\n]|$/));
+    const separator = header.split(';').length > header.split(',').length ? ';' : ',';
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch !== '"') field += ch;
+            else if (text[i + 1] === '"') field += text[++i];
+            else quoted = false;
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === separator) {
+            row.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += ch;
         }
-        throw new Error(`Network response was not ok, status: ${response.status}`);
     }
-    const data = await response.json();
-    // The actual documents are nested in the 'record' property for JSONBin.io
-    return { ok: true, status: 200, json: () => Promise.resolve(data.record || []) };
-  } catch (error) {
-    console.error("Failed to fetch from shared database:", error);
-    // Return a failed promise structure
-    return Promise.resolve({
-        ok: false,
-        status: 500,
-        json: () => Promise.resolve({ message: (error as Error).message })
-    });
-  }
+    if (field || row.length) rows.push([...row, field]);
+    // Undo the quote our export puts before values a spreadsheet would run as formulas
+    return rows.map(cells => cells.map(cell => cell.replace(/^'(?=[=+\-@])/, '')));
 }
 
-const formData = new FormData();
-formData.append("file", file);
+// Reads the values of the first worksheet. Dates arrive as the serial
+// numbers Excel stores them as (see importDate).
+async function parseXlsx(data: Uint8Array) {
+    const { unzipSync, strFromU8 } = await import('fflate');
+    const files = unzipSync(data, { filter: file => file.name.startsWith('xl/') });
+    const read = (name: string) => files[name] ? new DOMParser().parseFromString(strFromU8(files[name]), 'application/xml') : null;
+    const text = (parent: Element) => Array.from(parent.getElementsByTagName('t'), t => t.textContent ?? '').join('');
+    const sharedStrings = Array.from(read('xl/sharedStrings.xml')?.getElementsByTagName('si') ?? [], text);
+    const sheetId = read('xl/workbook.xml')?.getElementsByTagName('sheet')[0]?.getAttribute('r:id');
+    const target = Array.from(read('xl/_rels/workbook.xml.rels')?.getElementsByTagName('Relationship') ?? [])
+        .find(rel => rel.getAttribute('Id') === sheetId)?.getAttribute('Target');
+    const sheet = target ? read(target.startsWith('/') ? target.slice(1) : `xl/${target}`) : null;
+    if (!sheet) throw new Error('The workbook has no worksheet');
 
-await fetch(`/api/upload?filename=${file.name}`, {
-  method: "POST",
-  body: file,
-});
+    return Array.from(sheet.getElementsByTagName('row'), row => {
+        const cells: string[] = [];
+        for (const cell of Array.from(row.getElementsByTagName('c'))) {
+            const column = cell.getAttribute('r')?.match(/^[A-Z]+/)?.[0];
+            const index = column ? [...column].reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1 : cells.length;
+            const value = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+            const type = cell.getAttribute('t');
+            cells[index] = type === 's' ? sharedStrings[Number(value)] ?? ''
+                : type === 'inlineStr' ? text(cell)
+                : type === 'b' ? (value === '1' ? 'TRUE' : 'FALSE')
+                : value;
+        }
+        return Array.from(cells, cell => cell ?? '');
+    });
+}
 
+async function readRegisterSheet(file: File): Promise<RegisterSheet> {
+    const cells = file.name.toLowerCase().endsWith('.xlsx')
+        ? await parseXlsx(new Uint8Array(await file.arrayBuffer()))
+        : parseCsv(await file.text());
+    const lines = cells.map((_, i) => i + 1).filter(line => cells[line - 1].some(cell => cell.trim()));
+    if (lines.length < 2) throw new Error('The spreadsheet needs a header row and at least one row of documents');
+    const [headerLine, ...rowLines] = lines;
+    return {
+        fileName: file.name,
+        headers: cells[headerLine - 1].map(header => header.trim()),
+        rows: rowLines.map(line => cells[line - 1]),
+        lines: rowLines,
+    };
+}
 
-async function mockApiCreateDocument(formData: FormData): Promise<{ ok: boolean; status: number; json: () => Promise<any> }> {
-    const file = formData.get('file') as File;
-    if (!file || file.size === 0) {
-        return { ok: false, status: 400, json: () => Promise.resolve({ message: 'File is required and cannot be empty.' }) };
+// Each field goes to the first column whose name is one of its aliases.
+function guessImportMapping(headers: string[]) {
+    const names = headers.map(header => header.toLowerCase().replace(/[\s_]+/g, ' ').trim());
+    const mapping: Partial<Record<ImportField, number>> = {};
+    const used = new Set<number>();
+    for (const { field, aliases } of importFields) {
+        const index = names.findIndex((name, i) => !used.has(i) && aliases.includes(name));
+        if (index === -1) continue;
+        mapping[field] = index;
+        used.add(index);
     }
+    return mapping;
+}
 
-    let blobResult: { url: string; [key: string]: any; };
-    try {
-        // Step 1: Upload the file to Vercel Blob storage via our future serverless API route.
-        // This follows the "server upload" pattern from the Vercel docs.
-        const uploadResponse = await fetch(
-            `/api/upload?filename=${encodeURIComponent(file.name)}`,
-            {
-                method: 'POST',
-                body: file,
-            }
-        );
+// Register dates come as ISO dates or timestamps, day first (31/12/2024,
+// 31.12.2024) or as Excel serial numbers, i.e. days since 1899-12-30.
+// Anything else is sent as it is for the server to reject.
+function importDate(value: string) {
+    if (/^\d{4}-\d{2}-\d{2}/.test(value)) return value.slice(0, 10);
+    const dayFirst = value.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{4})$/);
+    if (dayFirst) return `${dayFirst[3]}-${dayFirst[2].padStart(2, '0')}-${dayFirst[1].padStart(2, '0')}`;
+    if (/^\d+(\.\d+)?$/.test(value)) {
+        return new Date(Date.UTC(1899, 11, 30) + Math.floor(Number(value)) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    }
+    return value;
+}
 
-        if (!uploadResponse.ok) {
-            const errorText = await uploadResponse.text();
-            throw new Error(`Failed to upload file to blob storage: ${uploadResponse.status} ${errorText}`);
-        }
-        blobResult = await uploadResponse.json();
-        if (!blobResult.url) {
-             throw new Error('Blob storage response did not include a URL.');
+function importRows(sheet: RegisterSheet) {
+    return sheet.rows.map(cells => {
+        const row: Record<string, string> = {};
+        for (const { field, date } of importFields) {
+            const index = importMapping[field];
+            const value = index === undefined ? '' : (cells[index] ?? '').trim();
+            if (value) row[field] = date ? importDate(value) : value;
         }
+        return row;
+    });
+}
 
+async function handleImportFileChosen(e: Event) {
+    const file = (e.target as HTMLInputElement).files?.[0];
+    importSheet = null;
+    importReport = null;
+    if (!file) return render();
+    try {
+        importSheet = await readRegisterSheet(file);
+        importMapping = guessImportMapping(importSheet.headers);
     } catch (error) {
-        console.error("Vercel Blob upload failed:", error);
-        return { ok: false, status: 500, json: () => Promise.resolve({ message: `File upload failed: ${(error as Error).message}` }) };
+        alert(`Could not read ${file.name}: ${(error as Error).message}`);
     }
-    
-    // Step 2: Update our metadata database (jsonbin.io) with the real URL
-    try {
-        const fetchRes = await mockApiFetchDocuments();
-        const currentDocs = await fetchRes.json();
-        
-        const lastId = Array.isArray(currentDocs) ? currentDocs.reduce((max: number, doc: AppDocument) => Math.max(max, doc.id), 0) : 0;
-
-        const newDocument: AppDocument = {
-            id: lastId + 1,
-            name: formData.get('name') as string,
-            division: formData.get('division') as Division,
-            status: formData.get('status') as Status,
-            fileName: file.name,
-            fileUrl: blobResult.url, // Use the REAL URL from Vercel Blob
-        };
-        mockFileStore.set(newDocument.id, file);
-
-        const updatedDocs = [...(Array.isArray(currentDocs) ? currentDocs : []), newDocument];
+    render();
+}
 
-        const updateResponse = await fetch(SHARED_DB_URL, {
-            method: 'PUT',
-            headers: {
-                'Content-Type': 'application/json',
-                'X-Master-Key': JSONBIN_API_KEY,
-            },
-            body: JSON.stringify(updatedDocs),
-        });
+function handleImportMappingChange(e: Event) {
+    const select = e.currentTarget as HTMLSelectElement;
+    const field = select.dataset.importField as ImportField;
+    if (select.value === '') delete importMapping[field];
+    else importMapping[field] = Number(select.value);
+    importReport = null;
+    render();
+}
 
-        if (!updateResponse.ok) throw new Error(`Failed to update metadata database, status: ${updateResponse.status}`);
+// Checks the rows first; once the dry run is showing, imports the valid ones.
+async function handleImportSubmit(e: Event) {
+    e.preventDefault();
+    if (!importSheet || isSubmitting) return;
+    const dryRun = !importReport;
 
-        return { ok: true, status: 201, json: () => Promise.resolve(newDocument) };
+    isSubmitting = true;
+    render();
 
+    try {
+        const response = await apiImportRegister(importRows(importSheet), dryRun);
+        if (!response.ok) {
+            throw new Error(await readErrorMessage(response));
+        }
+        const report: ImportReport = await response.json();
+        if (dryRun) {
+            importReport = report;
+            isSubmitting = false;
+            render();
+            return;
+        }
+        handleImportClose();
+        alert(`Imported ${report.imported} document${report.imported === 1 ? '' : 's'}.`);
+        reloadDocuments();
     } catch (error) {
-        console.error("Failed to create document metadata in shared database:", error);
-        // In a real app, we might try to delete the uploaded blob to avoid orphaned files.
-        return { ok: false, status: 500, json: () => Promise.resolve({ message: `Metadata update failed: ${(error as Error).message}` }) };
+        alert(`Import failed: ${(error as Error).message}`);
+        isSubmitting = false;
+        render();
     }
 }
 
+// --- ROUTING ---
+function findDocument(docId: number) {
+    return documents.find(d => d.id === docId) ?? waitingDocuments.find(w => w.document.id === docId)?.document ?? null;
+}
+
+async function loadWaitingDocuments() {
+    const response = await apiFetchWaitingDocuments();
+    if (!response.ok) {
+        console.error("Failed to load documents waiting on you:", await readErrorMessage(response));
+        return;
+    }
+    waitingDocuments = await response.json();
+    render();
+}
 
+// The people a document can be routed to; loaded once per session.
+async function loadDirectory() {
+    if (directory.length) return;
+    const response = await apiFetchDirectory();
+    if (!response.ok) {
+        console.error("Failed to load users:", await readErrorMessage(response));
+        return;
+    }
+    directory = await response.json();
+}
 
+function handleWaitingItemOpen(e: Event) {
+    handleRouteOpen(Number((e.currentTarget as HTMLElement).dataset.docId));
+}
 
-async function mockApiDeleteDocument(docId: number): Promise<{ ok: boolean; status: number; json: () => Promise<any> }> {
-    try {
-        // In a real app, you would also add logic here to delete the file from Vercel Blob.
-        // For example: await fetch(`/api/delete-blob?url=${doc.fileUrl}`, { method: 'DELETE' });
+async function handleRouteOpen(docId: number) {
+    documentToRoute = findDocument(docId);
+    if (!documentToRoute) return;
+    documentHandovers = [];
+    render();
 
-        const fetchRes = await mockApiFetchDocuments();
-        const currentDocs = await fetchRes.json();
-        
-        const updatedDocs = currentDocs.filter((doc: AppDocument) => doc.id !== docId);
+    const [response] = await Promise.all([apiFetchHandovers(docId), loadDirectory()]);
+    if (documentToRoute?.id !== docId) return;
+    if (!response.ok) {
+        alert(`Could not load the chain of custody: ${await readErrorMessage(response)}`);
+        return handleRouteClose();
+    }
+    documentHandovers = await response.json();
+    render();
+}
 
-        if (updatedDocs.length === currentDocs.length) {
-             return { ok: false, status: 404, json: () => Promise.resolve({ message: 'Document not found' }) };
-        }
+function handleRouteClose() {
+    documentToRoute = null;
+    documentHandovers = [];
+    isSubmitting = false;
+    render();
+}
 
-        mockFileStore.delete(docId);
+// Shows the fields that go with the chosen action (see data-route-for).
+function updateRouteFields(form: HTMLFormElement) {
+    const action = new FormData(form).get('action') as RouteAction;
+    form.querySelectorAll<HTMLElement>('[data-route-for]').forEach(el => {
+        el.hidden = !el.dataset.routeFor!.split(' ').includes(action);
+    });
+    document.getElementById('route-submit-label')!.textContent = routeSubmitLabels[action];
+}
 
-        const updateResponse = await fetch(SHARED_DB_URL, {
-            method: 'PUT',
-            headers: {
-                'Content-Type': 'application/json',
-                'X-Master-Key': JSONBIN_API_KEY,
-            },
-            body: JSON.stringify(updatedDocs),
-        });
-        
-        if (!updateResponse.ok) throw new Error(`Failed to update database, status: ${updateResponse.status}`);
-        
-        return { ok: true, status: 204, json: () => Promise.resolve({}) };
+function handleRouteFormChange(e: Event) {
+    const form = e.currentTarget as HTMLFormElement;
+    const target = e.target as HTMLElement;
+    if (target.id === 'route-division') {
+        document.getElementById('route-user')!.innerHTML = renderRecipientOptions((target as HTMLSelectElement).value);
+    } else if (target.getAttribute('name') === 'action') {
+        updateRouteFields(form);
+    }
+}
+
+async function handleRouteSubmit(e: Event) {
+    e.preventDefault();
+    if (!documentToRoute || isSubmitting) return;
+    const data = new FormData(e.target as HTMLFormElement);
+    const action = data.get('action') as RouteAction;
+    const body: Record<string, unknown> = { action, note: data.get('note') || null };
+    if (action === 'send' || action === 'forward') {
+        body.toDivision = data.get('toDivision');
+        body.toUserId = data.get('toUserId') ? Number(data.get('toUserId')) : null;
+    }
+    if (action === 'send' || action === 'forward' || action === 'return') {
+        body.dueDate = data.get('dueDate') || null;
+    }
+
+    isSubmitting = true;
+    render();
 
+    try {
+        const response = await apiRouteDocument(documentToRoute.id, body);
+        if (!response.ok) {
+            throw new Error(await readErrorMessage(response));
+        }
+        replaceDocument(await response.json());
+        handleRouteClose();
+        loadWaitingDocuments();
     } catch (error) {
-        console.error("Failed to delete document in shared database:", error);
-        return { ok: false, status: 500, json: () => Promise.resolve({ message: (error as Error).message }) };
+        alert(`Routing failed: ${(error as Error).message}`);
+        isSubmitting = false;
+        render();
     }
 }
 
+// --- COMMENTS ---
+// Every document has a comment thread, shown in a panel beside the page. The
+// panel stays open while the user works with the list, and re-renders keep
+// the user's place in it (see saveCommentsPanelState).
+function renderCommentsPanel() {
+    const doc = commentsDocument!;
+    let thread: string;
+    if (isCommentsLoading && documentComments.length === 0) {
+        thread = '<div class="message-container"><div class="loading-spinner"></div></div>';
+    } else if (documentComments.length === 0) {
+        thread = '<p class="comments-empty">No comments yet.</p>';
+    } else {
+        thread = `<ul class="comment-list">${documentComments.map(renderComment).join('')}</ul>`;
+    }
+    return `
+      <aside class="comments-panel" aria-labelledby="comments-title">
+        <div class="comments-header">
+          <div>
+            <h3 id="comments-title">Comments</h3>
+            <p class="comments-doc-name">${escapeHtml(doc.name)}</p>
+          </div>
+          <button type="button" class="modal-close" id="comments-close" aria-label="Close comments">&times;</button>
+        </div>
+        <div class="comments-thread" id="comments-thread">${thread}</div>
+        <form class="comment-form" id="comment-form">
+          <div class="comment-input-wrap">
+            <textarea id="comment-input" name="body" rows="3" maxlength="${MAX_COMMENT_LENGTH}" aria-label="New comment" placeholder="Add a comment. Type @ to mention someone.">${escapeHtml(commentDraft)}</textarea>
+            <ul class="mention-suggestions" id="mention-suggestions" role="listbox" hidden></ul>
+          </div>
+          <div class="comment-form-actions">
+            <span class="form-hint">**bold**, *italic*, \`code\`, - lists &middot; Ctrl+Enter sends</span>
+            <button type="submit" class="btn btn-primary btn-small ${isCommentSubmitting ? 'is-submitting' : ''}" ${isCommentSubmitting ? 'disabled' : ''}>
+              <span class="btn-text">Comment</span>
+              <span class="btn-loader">${icons.loader()}</span>
+            </button>
+          </div>
+        </form>
+      </aside>
+    `;
+}
 
-// --- CONSTANTS & STATE ---
-const divisions: Division[] = ['HR', 'Finance', 'Engineering', 'Marketing'];
-const statuses: Status[] = ['Approved', 'Pending', 'Rejected'];
+function renderComment(comment: DocumentComment) {
+    const canDelete = comment.authorId === currentUser!.id || can('admin');
+    return `
+      <li class="comment">
+        <div class="comment-header">
+          <strong>${escapeHtml(comment.author)}</strong>
+          <span class="comment-time">${formatDate(comment.createdAt)}</span>
+          ${canDelete ? `<button type="button" class="comment-delete-btn" data-comment-id="${comment.id}" aria-label="Delete comment" title="Delete comment">${icons.trash()}</button>` : ''}
+        </div>
+        <div class="comment-body">${renderMarkdown(comment.body)}</div>
+      </li>
+    `;
+}
 
-// App state
-let documents: AppDocument[] = [];
-let currentView: ViewMode = 'grid';
-let filters = {
-  division: 'all',
-  status: 'all',
-  search: ''
-};
-let showUploadModal = false;
-let documentToDelete: AppDocument | null = null;
-let isLoading = true;
-let errorMessage: string | null = null;
-let isSubmitting = false;
+// A small, safe subset of markdown: paragraphs and line breaks, "-" and "1."
+// lists, **bold**, *italic*, `code`, [links](https://...) and mentions. The
+// text is escaped before anything is formatted, and only http(s) links are
+// turned into links.
+function renderMarkdown(text: string) {
+    return text.split(/\n\s*\n/).map(block => {
+        const lines = block.split('\n');
+        if (lines.every(line => /^\s*[-*] /.test(line))) {
+            return `<ul>${lines.map(line => `<li>${renderInlineMarkdown(line.replace(/^\s*[-*] /, ''))}</li>`).join('')}</ul>`;
+        }
+        if (lines.every(line => /^\s*\d+[.)] /.test(line))) {
+            return `<ol>${lines.map(line => `<li>${renderInlineMarkdown(line.replace(/^\s*\d+[.)] /, ''))}</li>`).join('')}</ol>`;
+        }
+        return `<p>${lines.map(renderInlineMarkdown).join('<br>')}</p>`;
+    }).join('');
+}
 
-// --- DOM ELEMENTS ---
-const root = document.getElementById('root')!;
+function renderInlineMarkdown(text: string) {
+    // Splitting on code spans leaves them at the odd indexes; their contents
+    // are not formatted.
+    return text.split(/`([^`\n]+)`/).map((part, i) => i % 2
+        ? `<code>${escapeHtml(part)}</code>`
+        : escapeHtml(part)
+            .replace(/@\[([^\]\n]+)\]\((\d+)\)/g, (_, name: string, id: string) =>
+                `<span class="mention ${Number(id) === currentUser!.id ? 'mention-me' : ''}">@${name}</span>`)
+            .replace(/\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)/g, '<a href="$2" target="_blank" rel="noopener noreferrer">$1</a>')
+            .replace(/\*\*([^*\n]+)\*\*/g, '<strong>$1</strong>')
+            .replace(/(^|[^*])\*([^*\s][^*\n]*)\*/g, '$1<em>$2</em>')
+    ).join('');
+}
 
-// --- ICONS (as functions returning SVG strings) ---
-const icons = {
-  search: () => `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="11" cy="11" r="8"></circle><line x1="21" y1="21" x2="16.65" y2="16.65"></line></svg>`,
-  grid: () => `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="3" y="3" width="7" height="7"></rect><rect x="14" y="3" width="7" height="7"></rect><rect x="14" y="14" width="7" height="7"></rect><rect x="3" y="14" width="7" height="7"></rect></svg>`,
-  list: () => `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><line x1="8" y1="6" x2="21" y2="6"></line><line x1="8" y1="12" x2="21" y2="12"></line><line x1="8" y1="18" x2="21" y2="18"></line><line x1="3" y1="6" x2="3.01" y2="6"></line><line x1="3" y1="12" x2="3.01" y2="12"></line><line x1="3" y1="18" x2="3.01" y2="18"></line></svg>`,
-  file: () => `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M13 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V9z"></path><polyline points="13 2 13 9 20 9"></polyline></svg>`,
-  image: () => `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="3" y="3" width="18" height="18" rx="2" ry="2"></rect><circle cx="8.5" cy="8.5" r="1.5"></circle><polyline points="21 15 16 10 5 21"></polyline></svg>`,
-  pdf: () => `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M14 2v4a2 2 0 0 0 2 2h4"></path><path d="M10.3 12.3a1 1 0 0 0-1.6 1.4"></path><path d="M14.3 11.7a1 1 0 0 1-1.6 1.4"></path><path d="M4 22V4a2 2 0 0 1 2-2h8l6 6v12a2 2 0 0 1-2 2z"></path><path d="M4.6 12.3a1 1 0 0 1 1.6-1.4"></path><path d="M8.6 11.7a1 1 0 0 0 1.6-1.4"></path></svg>`,
-  text: () => `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M14.5 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V7.5L14.5 2z"></path><polyline points="14 2 14 8 20 8"></polyline><line x1="16" y1="13" x2="8" y2="13"></line><line x1="16" y1="17" x2="8" y2="17"></line><line x1="10" y1="9" x2="8" y2="9"></line></svg>`,
-  trash: () => `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="3 6 5 6 21 6"></polyline><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path><line x1="10" y1="11" x2="10" y2="17"></line><line x1="14" y1="11" x2="14" y2="17"></line></svg>`,
-  download: () => `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="7 10 12 15 17 10"></polyline><line x1="12" y1="15" x2="12" y2="3"></line></svg>`,
-  loader: () => `<svg class="spinner" viewBox="0 0 50 50"><circle class="path" cx="25" cy="25" r="20" fill="none" stroke-width="5"></circle></svg>`,
-};
+function saveCommentsPanelState() {
+    const input = document.getElementById('comment-input') as HTMLTextAreaElement | null;
+    return {
+        scrollTop: document.getElementById('comments-thread')?.scrollTop ?? 0,
+        caret: input && document.activeElement === input ? input.selectionStart : null,
+    };
+}
 
-// --- RENDER FUNCTIONS ---
-function render() {
-  const appHTML = `
-    ${renderSidebar()}
-    <main class="main-content">
-      ${renderHeader()}
-      <div class="documents-container">
-        ${renderMainContent()}
-      </div>
-    </main>
-    ${showUploadModal ? renderUploadModal() : ''}
-    ${documentToDelete ? renderDeleteConfirmationModal() : ''}
-  `;
-  root.innerHTML = appHTML;
-  addEventListeners();
-  if (!isLoading) {
-    updateDocumentsView();
-  }
+function restoreCommentsPanelState(state: { scrollTop: number; caret: number | null }) {
+    const thread = document.getElementById('comments-thread');
+    if (thread) thread.scrollTop = state.scrollTop;
+    const input = document.getElementById('comment-input') as HTMLTextAreaElement | null;
+    if (input && state.caret !== null) {
+        input.focus();
+        input.setSelectionRange(state.caret, state.caret);
+    }
 }
 
-function renderMainContent() {
-    if (isLoading) {
-        return `<div class="message-container"><div class="loading-spinner"></div><p>Connecting to shared database...</p></div>`;
+function scrollCommentsToEnd() {
+    const thread = document.getElementById('comments-thread');
+    if (thread) thread.scrollTop = thread.scrollHeight;
+}
+
+async function handleCommentsOpen(docId: number) {
+    let doc = findDocument(docId);
+    if (!doc) {
+        const response = await apiFetchDocument(docId);
+        if (!response.ok) {
+            alert(response.status === 404
+                ? 'That document does not exist or you do not have access to it.'
+                : `Could not open the comments: ${await readErrorMessage(response)}`);
+            return;
+        }
+        doc = await response.json() as AppDocument;
     }
-    if (errorMessage) {
-        return `<div class="message-container"><div class="error-message"><h4>Failed to load documents</h4><p>${errorMessage}</p><p>Please check your connection and try again later.</p></div></div>`;
+    if (commentsDocument?.id !== docId) {
+        documentComments = [];
+        commentDraft = '';
     }
-    return ''; // Documents rendered by updateDocumentsView
+    commentsDocument = doc;
+    mentionSuggestions = null;
+    render();
+    document.getElementById('comment-input')?.focus();
+    loadDirectory();
+    await loadComments();
 }
 
-function renderSidebar() {
-  return `
-    <aside class="sidebar">
-      <div>
-        <h1 class="sidebar-header">PT JGSM</h1>
-        <div class="sidebar-section">
-          <h3>Filters</h3>
-          <label for="division-filter">Filter by Division</label>
-          <select id="division-filter" ${isLoading ? 'disabled' : ''}>
-            <option value="all">All Divisions</option>
-            ${divisions.map(d => `<option value="${d}" ${filters.division === d ? 'selected' : ''}>${d}</option>`).join('')}
-          </select>
-        </div>
-        <div class="sidebar-section">
-          <label for="status-filter">Filter by Status</label>
-          <select id="status-filter" ${isLoading ? 'disabled' : ''}>
-            <option value="all">All Statuses</option>
-            ${statuses.map(s => `<option value="${s}" ${filters.status === s ? 'selected' : ''}>${s}</option>`).join('')}
-          </select>
-        </div>
-      </div>
-      <div class="sidebar-section external-links">
-        <h3>External Links</h3>
-        <a href="https://oss.go.id/en">OSS</a><a href="https://drive.google.com/drive/folders/1cKDwgey0_jt8YpDT5XsTk0uN974e25Db">HR Drive</a><a href="#">ITk</a>
-      </div>
-    </aside>
-  `;
+async function loadComments() {
+    const docId = commentsDocument!.id;
+    isCommentsLoading = true;
+    const response = await apiFetchComments(docId);
+    if (commentsDocument?.id !== docId) return;
+    isCommentsLoading = false;
+    if (!response.ok) {
+        alert(`Could not load the comments: ${await readErrorMessage(response)}`);
+        return handleCommentsClose();
+    }
+    documentComments = await response.json();
+    render();
+    scrollCommentsToEnd();
 }
 
-function renderHeader() {
-  return `
-    <header class="main-header">
-      <div class="search-bar">
-        ${icons.search()}
-        <input type="search" id="search-input" placeholder="Search documents..." value="${filters.search}" ${isLoading ? 'disabled' : ''}>
-      </div>
-      <div class="header-actions">
-        <div class="view-toggle">
-          <button id="grid-view-btn" class="${currentView === 'grid' ? 'active' : ''}" aria-label="Grid View" ${isLoading ? 'disabled' : ''}>${icons.grid()}</button>
-          <button id="list-view-btn" class="${currentView === 'list' ? 'active' : ''}" aria-label="List View" ${isLoading ? 'disabled' : ''}>${icons.list()}</button>
-        </div>
-        <button id="upload-btn" class="btn btn-primary" ${isLoading ? 'disabled' : ''}>Upload Document</button>
-      </div>
-    </header>
-  `;
+function handleCommentsClose() {
+    commentsDocument = null;
+    documentComments = [];
+    commentDraft = '';
+    mentionSuggestions = null;
+    isCommentsLoading = false;
+    render();
 }
 
-function renderDocumentsHTML(docs: AppDocument[]) {
-    if (docs.length === 0) {
-        return '<div class="message-container"><p class="no-documents-message">No documents found. Try uploading one!</p></div>';
+function setCommentCount(docId: number, commentCount: number) {
+    documents = documents.map(d => d.id === docId ? { ...d, commentCount } : d);
+    if (commentsDocument?.id === docId) commentsDocument = { ...commentsDocument, commentCount };
+    updateDocumentsView();
+}
+
+async function handleCommentSubmit(e?: Event) {
+    e?.preventDefault();
+    if (!commentsDocument || isCommentSubmitting || !commentDraft.trim()) return;
+    const doc = commentsDocument;
+    isCommentSubmitting = true;
+    render();
+
+    try {
+        const response = await apiAddComment(doc.id, commentDraft);
+        if (!response.ok) {
+            throw new Error(await readErrorMessage(response));
+        }
+        const comment = await response.json() as DocumentComment;
+        if (commentsDocument?.id === doc.id) {
+            documentComments = [...documentComments, comment];
+            commentDraft = '';
+        }
+        setCommentCount(doc.id, doc.commentCount + 1);
+    } catch (error) {
+        alert(`Could not add the comment: ${(error as Error).message}`);
+    } finally {
+        isCommentSubmitting = false;
     }
-    const containerClass = currentView === 'grid' ? 'documents-grid' : 'documents-list';
-    return `<div class="${containerClass}">${docs.map(doc => currentView === 'grid' ? renderDocumentCard(doc) : renderDocumentListItem(doc)).join('')}</div>`;
+    render();
+    scrollCommentsToEnd();
 }
 
-"use client";
-import { useState } from "react";
+async function handleCommentDelete(e: Event) {
+    const id = Number((e.currentTarget as HTMLElement).dataset.commentId);
+    if (!confirm('Delete this comment?')) return;
+    const response = await apiDeleteComment(id);
+    if (!response.ok) {
+        alert(`Could not delete the comment: ${await readErrorMessage(response)}`);
+        return;
+    }
+    const doc = await response.json() as AppDocument;
+    documentComments = documentComments.filter(c => c.id !== id);
+    setCommentCount(doc.id, doc.commentCount);
+    render();
+}
 
-export default function Home() {
-  const [url, setUrl] = useState("");
+// Who a mention can reach: the people who can see the document. The server
+// has the final say, since route recipients can see it too.
+function mentionCandidates(doc: AppDocument) {
+    return directory.filter(u => u.id !== currentUser!.id && (u.divisions === null || u.divisions.includes(doc.division)));
+}
 
-  async function handleUpload(e: React.FormEvent<HTMLFormElement>) {
-    e.preventDefault();
-    const formData = new FormData(e.currentTarget);
-    const res = await fetch("/api/upload", {
-      method: "POST",
-      body: formData,
-    });
-    const json = await res.json();
-    setUrl(json.url);
-  }
+function handleCommentInput(e: Event) {
+    const input = e.target as HTMLTextAreaElement;
+    commentDraft = input.value;
+    updateMentionSuggestions(input);
+}
 
-  return (
-    <div>
-      <form onSubmit={handleUpload}>
-        <input type="file" name="file" />
-        <button type="submit">Upload</button>
-      </form>
-      {url && <p>File URL: <a href={url}>{url}</a></p>}
-    </div>
-  );
+// Suggests people while an @name is being typed right before the caret.
+function updateMentionSuggestions(input: HTMLTextAreaElement) {
+    const match = /(^|\s)@([^\s@[\]()]*)$/.exec(input.value.slice(0, input.selectionStart));
+    const query = match?.[2].toLowerCase() ?? '';
+    const matches = match && commentsDocument
+        ? mentionCandidates(commentsDocument).filter(u => u.name.toLowerCase().includes(query)).slice(0, 6)
+        : [];
+    mentionSuggestions = matches.length ? { start: input.selectionStart - query.length - 1, matches, active: 0 } : null;
+    renderMentionSuggestions();
 }
 
+// Updates the list in place, so typing is not interrupted by a render.
+function renderMentionSuggestions() {
+    const list = document.getElementById('mention-suggestions');
+    if (!list) return;
+    list.hidden = !mentionSuggestions;
+    list.innerHTML = mentionSuggestions?.matches.map((u, i) => `
+      <li class="mention-suggestion ${i === mentionSuggestions!.active ? 'active' : ''}" role="option" aria-selected="${i === mentionSuggestions!.active}" data-suggestion="${i}">${escapeHtml(u.name)}</li>
+    `).join('') ?? '';
+}
 
-function getFileIcon(fileName: string) {
-    const extension = fileName.split('.').pop()?.toLowerCase();
-    if (['jpg', 'jpeg', 'png', 'gif', 'svg', 'webp'].includes(extension!)) return icons.image();
-    if (extension === 'pdf') return icons.pdf();
-    if (['txt', 'md', 'doc', 'docx'].includes(extension!)) return icons.text();
-    return icons.file();
+// Replaces the @name being typed with a mention of the chosen person.
+function insertMention(index: number) {
+    const input = document.getElementById('comment-input') as HTMLTextAreaElement | null;
+    if (!input || !mentionSuggestions) return;
+    const user = mentionSuggestions.matches[index];
+    input.setRangeText(`@[${user.name.replace(/[\]\n]/g, '')}](${user.id}) `, mentionSuggestions.start, input.selectionStart, 'end');
+    commentDraft = input.value;
+    mentionSuggestions = null;
+    renderMentionSuggestions();
+    input.focus();
 }
 
-function renderDocumentCard(doc: AppDocument) {
-  const statusClass = `status-${doc.status.toLowerCase()}`;
-  return `
-    <div class="document-card" data-doc-id="${doc.id}" role="button" tabindex="0" aria-label="Open document ${doc.name}">
-      <button class="delete-btn" data-doc-id="${doc.id}" aria-label="Delete document ${doc.name}">${icons.trash()}</button>
-      <div class="doc-icon">${getFileIcon(doc.fileName)}</div>
-      <h4 class="doc-name">${doc.name}</h4>
-      <div class="doc-meta"><span class="doc-division">${doc.division}</span><span class="doc-status ${statusClass}">${doc.status}</span></div>
-    </div>
-  `;
+function handleMentionPick(e: MouseEvent) {
+    const item = (e.target as HTMLElement).closest<HTMLElement>('[data-suggestion]');
+    if (!item) return;
+    e.preventDefault();
+    insertMention(Number(item.dataset.suggestion));
+}
+
+function handleCommentKeydown(e: KeyboardEvent) {
+    if (mentionSuggestions) {
+        const count = mentionSuggestions.matches.length;
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            mentionSuggestions.active = (mentionSuggestions.active + (e.key === 'ArrowDown' ? 1 : count - 1)) % count;
+            return renderMentionSuggestions();
+        }
+        if (e.key === 'Enter' || e.key === 'Tab') {
+            e.preventDefault();
+            return insertMention(mentionSuggestions.active);
+        }
+        if (e.key === 'Escape') {
+            e.stopPropagation(); // Only the suggestions close, not the panel
+            mentionSuggestions = null;
+            return renderMentionSuggestions();
+        }
+    }
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        handleCommentSubmit();
+    }
 }
 
-function renderDocumentListItem(doc: AppDocument) {
-    const statusClass = `status-${doc.status.toLowerCase()}`;
-    return `
-      <div class="document-list-item" data-doc-id="${doc.id}" role="button" tabindex="0" aria-label="Open document ${doc.name}">
-        <div class="doc-icon">${getFileIcon(doc.fileName)}</div>
-        <div class="doc-name-div"><h4 class="doc-name">${doc.name}</h4></div>
-        <div class="doc-meta"><span class="doc-division">${doc.division}</span><span class="doc-status ${statusClass}">${doc.status}</span></div>
-        <button class="delete-btn" data-doc-id="${doc.id}" aria-label="Delete document ${doc.name}">${icons.trash()}</button>
-      </div>
-    `;
+function handleCommentBlur() {
+    mentionSuggestions = null;
+    renderMentionSuggestions();
 }
 
-function renderUploadModal() {
-    const submittingClass = isSubmitting ? 'is-submitting' : '';
+// --- NOTIFICATIONS ---
+function renderNotificationsPanel() {
     return `
-      <div class="modal-overlay visible" id="upload-modal-overlay">
-        <div class="modal-content" role="dialog" aria-labelledby="upload-modal-title">
-          <div class="modal-header">
-            <h2 id="upload-modal-title">Upload New Document</h2>
-            <button class="modal-close" id="upload-modal-close" aria-label="Close">&times;</button>
-          </div>
-          <form id="upload-form">
-            <div class="form-group"><label for="doc-name">Document Name</label><input type="text" id="doc-name" name="name" required></div>
-            <div class="form-group"><label for="doc-division">Division</label><select id="doc-division" name="division" required>${divisions.map(d => `<option value="${d}">${d}</option>`).join('')}</select></div>
-            <div class="form-group"><label for="doc-status">Status</label><select id="doc-status" name="status" required>${statuses.map(s => `<option value="${s}">${s}</option>`).join('')}</select></div>
-            <div class="form-group"><label for="doc-file">File</label><input type="file" id="doc-file" name="file" required></div>
-            <div class="form-actions">
-              <button type="button" class="btn btn-secondary" id="upload-cancel">Cancel</button>
-              <button type="submit" class="btn btn-primary ${submittingClass}" id="upload-submit-btn" ${isSubmitting ? 'disabled' : ''}>
-                <span class="btn-text">Upload</span>
-                <span class="btn-loader">${icons.loader()}</span>
-              </button>
-            </div>
-          </form>
+      <div class="notifications-panel" role="dialog" aria-labelledby="notifications-title">
+        <div class="notifications-header">
+          <h3 id="notifications-title">Notifications</h3>
+          ${unreadNotifications ? '<button type="button" class="btn btn-secondary btn-small" id="notifications-read-all">Mark all as read</button>' : ''}
         </div>
+        ${notifications.length ? `
+        <ul class="notification-list">
+          ${notifications.map(n => `
+            <li>
+              <button type="button" class="notification-item ${n.readAt ? '' : 'unread'}" data-notification-id="${n.id}">
+                <span class="notification-message">${escapeHtml(n.message)}</span>
+                <span class="notification-time">${formatDate(n.createdAt)}</span>
+              </button>
+            </li>`).join('')}
+        </ul>` : '<p class="notifications-empty">Nothing new.</p>'}
       </div>
     `;
 }
 
-function renderDeleteConfirmationModal() {
-    if (!documentToDelete) return '';
-    const submittingClass = isSubmitting ? 'is-submitting' : '';
-    return `
-        <div class="modal-overlay visible" id="delete-modal-overlay">
-            <div class="modal-content delete-modal-content" role="alertdialog" aria-labelledby="delete-modal-title" aria-describedby="delete-modal-desc">
-                <div class="modal-header">
-                    <h2 id="delete-modal-title">Confirm Deletion</h2>
-                    <button class="modal-close" id="delete-modal-close" aria-label="Close">&times;</button>
-                </div>
-                <form id="delete-form">
-                    <p id="delete-modal-desc" class="delete-warning">Are you sure you want to permanently delete: <strong>"${documentToDelete.name}"</strong>? This action cannot be undone.</p>
-                    <div class="form-group confirmation-checkbox-group">
-                        <input type="checkbox" id="delete-confirm-checkbox">
-                        <label for="delete-confirm-checkbox">I understand and wish to proceed.</label>
-                    </div>
-                    <div class="form-actions">
-                        <button type="button" class="btn btn-secondary" id="delete-cancel-btn">Cancel</button>
-                        <button type="submit" class="btn btn-danger ${submittingClass}" id="delete-confirm-btn" disabled>
-                            <span class="btn-text">Delete</span>
-                            <span class="btn-loader">${icons.loader()}</span>
-                        </button>
-                    </div>
-                </form>
-            </div>
-        </div>
-    `;
+function applyNotifications(result: { notifications: AppNotification[]; unreadCount: number }) {
+    notifications = result.notifications;
+    unreadNotifications = result.unreadCount;
 }
 
-
-// --- API & DATA LOGIC ---
-async function fetchDocuments() {
-    isLoading = true;
-    errorMessage = null;
-    render();
-    try {
-        const response = await mockApiFetchDocuments();
-        if (!response.ok) {
-            const errorJson = await response.json().catch(()=>({message: 'An unknown error occurred'}));
-            throw new Error(errorJson.message || `HTTP error! status: ${response.status}`);
-        }
-        documents = await response.json();
-    } catch (error: any) {
-        console.error("Failed to fetch documents:", error);
-        errorMessage = error.message;
-        documents = [];
-    } finally {
-        isLoading = false;
-        render();
+async function loadNotifications() {
+    const response = await apiFetchNotifications();
+    if (!response.ok) {
+        console.error("Failed to load notifications:", await readErrorMessage(response));
+        return;
     }
+    applyNotifications(await response.json());
+    render();
 }
 
-// --- EVENT HANDLERS & LOGIC ---
-function addEventListeners() {
-  document.getElementById('division-filter')?.addEventListener('change', handleFilterChange);
-  document.getElementById('status-filter')?.addEventListener('change', handleFilterChange);
-  document.getElementById('search-input')?.addEventListener('input', handleSearch);
-  document.getElementById('grid-view-btn')?.addEventListener('click', () => setView('grid'));
-  document.getElementById('list-view-btn')?.addEventListener('click', () => setView('list'));
-  document.getElementById('upload-btn')?.addEventListener('click', handleUploadModalOpen);
-  
-  window.removeEventListener('keydown', handleEscKey); // Remove old before adding
-  window.addEventListener('keydown', handleEscKey);
+function handleNotificationsToggle() {
+    showNotifications = !showNotifications;
+    render();
+    if (showNotifications) loadNotifications();
+}
 
-  if (showUploadModal) {
-    document.getElementById('upload-modal-overlay')?.addEventListener('click', handleModalOverlayClick);
-    document.getElementById('upload-modal-close')?.addEventListener('click', handleUploadModalClose);
-    document.getElementById('upload-cancel')?.addEventListener('click', handleUploadModalClose);
-    document.getElementById('upload-form')?.addEventListener('submit', handleFormSubmit);
-  }
-  if (documentToDelete) {
-    document.getElementById('delete-modal-overlay')?.addEventListener('click', handleModalOverlayClick);
-    document.getElementById('delete-modal-close')?.addEventListener('click', handleCloseDeleteModal);
-    document.getElementById('delete-cancel-btn')?.addEventListener('click', handleCloseDeleteModal);
-    document.getElementById('delete-form')?.addEventListener('submit', handleConfirmDelete);
-    document.getElementById('delete-confirm-checkbox')?.addEventListener('change', handleDeleteCheckboxChange);
-  }
+async function handleNotificationsReadAll() {
+    const response = await apiMarkNotificationsRead();
+    if (!response.ok) {
+        alert(`Could not mark notifications as read: ${await readErrorMessage(response)}`);
+        return;
+    }
+    applyNotifications(await response.json());
+    render();
 }
 
-function addDocumentEventListeners() {
-    const container = document.querySelector('.documents-container');
-    if (!container) return;
-    container.addEventListener('click', (e: MouseEvent) => {
-        const target = e.target as HTMLElement;
-        const deleteButton = target.closest('.delete-btn');
-        const docItem = target.closest('[data-doc-id]');
+// Opens the document the notification is about and marks it as read.
+async function handleNotificationOpen(e: Event) {
+    const id = Number((e.currentTarget as HTMLElement).dataset.notificationId);
+    const notification = notifications.find(n => n.id === id);
+    if (!notification) return;
+    showNotifications = false;
+    render();
+    if (!notification.readAt) {
+        apiMarkNotificationsRead([id]).then(async response => {
+            if (response.ok) {
+                applyNotifications(await response.json());
+                render();
+            }
+        });
+    }
+    if (!notification.documentId) return;
+    if (notification.kind === 'document.commented') handleCommentsOpen(notification.documentId);
+    else openLinkedDocument(notification.documentId);
+}
 
-        if (deleteButton) {
-            e.stopPropagation();
-            const docId = parseInt(deleteButton.getAttribute('data-doc-id')!, 10);
-            handleRequestDelete(docId);
-        } else if (docItem) {
-            handleDocumentOpen(docItem);
-        }
-    });
-    container.addEventListener('keydown', (e: KeyboardEvent) => {
-        const target = e.target as HTMLElement;
-        if ((e.key === 'Enter' || e.key === ' ') && target.hasAttribute('data-doc-id')) {
-            e.preventDefault();
-            handleDocumentOpen(target);
-        }
-    });
+// --- SETTINGS ---
+function applySettings(settings: Settings) {
+    divisions = settings.divisions;
+    documentTypes = settings.documentTypes;
+    customFields = settings.customFields;
+    expiryReminderDays = settings.expiryReminderDays;
+    trashRetentionDays = settings.trashRetentionDays;
+    statusColors = Object.fromEntries(settings.statuses.filter(s => s.color).map(s => [s.name, s.color]));
+    // The status badges read their colors from these variables (see index.css).
+    for (const status of statuses) {
+        const variable = `--${getStatusClass(status)}`;
+        if (statusColors[status]) document.documentElement.style.setProperty(variable, statusColors[status]!);
+        else document.documentElement.style.removeProperty(variable);
+    }
 }
 
-function updateDocumentsView() {
-    const container = document.querySelector('.documents-container');
-    if (!container || isLoading || errorMessage) return;
-    const filteredDocs = documents.filter(doc => {
-        const searchMatch = doc.name.toLowerCase().includes(filters.search.toLowerCase()) || doc.fileName.toLowerCase().includes(filters.search.toLowerCase());
-        const divisionMatch = filters.division === 'all' || doc.division === filters.division;
-        const statusMatch = filters.status === 'all' || doc.status === filters.status;
-        return searchMatch && divisionMatch && statusMatch;
-    });
-    container.innerHTML = renderDocumentsHTML(filteredDocs);
-    addDocumentEventListeners();
+async function loadSettings() {
+    const response = await apiFetchSettings();
+    if (!response.ok) {
+        console.error("Could not load settings:", await readErrorMessage(response));
+        return;
+    }
+    applySettings(await response.json());
 }
 
-function handleFilterChange(e: Event) {
-  const target = e.target as HTMLSelectElement;
-  if (target.id === 'division-filter') filters.division = target.value;
-  else if (target.id === 'status-filter') filters.status = target.value;
-  updateDocumentsView();
+// Renames and removals change documents too, so the list is reloaded.
+async function handleSettingsChanged(response: ApiResponse, list: SettingsList | null) {
+    if (!response.ok) {
+        alert(`Saving the settings failed: ${await readErrorMessage(response)}`);
+        return false;
+    }
+    await loadSettings();
+    if (list) fetchDocuments();
+    render();
+    return true;
 }
 
-function handleSearch(e: Event) {
-  filters.search = (e.target as HTMLInputElement).value;
-  updateDocumentsView();
+async function handleListEntryAdd(e: Event) {
+    e.preventDefault();
+    const form = e.target as HTMLFormElement;
+    const name = (new FormData(form).get('name') as string).trim();
+    if (!name) return;
+    const response = await apiAddListEntry(form.dataset.list as SettingsList, name);
+    handleSettingsChanged(response, null);
 }
 
-function setView(view: ViewMode) {
-  currentView = view;
-  document.getElementById('grid-view-btn')?.classList.toggle('active', view === 'grid');
-  document.getElementById('list-view-btn')?.classList.toggle('active', view === 'list');
-  updateDocumentsView();
+async function handleListEntryRename(e: Event) {
+    e.preventDefault();
+    const form = e.target as HTMLFormElement;
+    const list = form.dataset.list as SettingsList;
+    const name = form.dataset.name!;
+    const newName = (new FormData(form).get('name') as string).trim();
+    if (!newName || newName === name) return;
+    const response = await apiRenameListEntry(list, name, newName);
+    if (response.ok && list === 'divisions' && filters.division === name) filters.division = newName;
+    if (response.ok && list === 'document-types' && filters.type === name) filters.type = newName;
+    handleSettingsChanged(response, list);
 }
 
-function handleUploadModalOpen() {
-    showUploadModal = true;
+function handleListEntryRemoveOpen(e: Event) {
+    const button = e.currentTarget as HTMLElement;
+    entryToRemove = { list: button.dataset.list as SettingsList, name: button.dataset.name! };
     render();
 }
 
-function handleUploadModalClose() {
-    showUploadModal = false;
+function handleListEntryRemoveClose() {
+    entryToRemove = null;
     isSubmitting = false;
     render();
 }
 
-function handleRequestDelete(docId: number) {
-    documentToDelete = documents.find(d => d.id === docId) || null;
+async function handleListEntryRemoveSubmit(e: Event) {
+    e.preventDefault();
+    if (!entryToRemove || isSubmitting) return;
+    const { list, name } = entryToRemove;
+    const moveTo = (new FormData(e.target as HTMLFormElement).get('moveTo') as string) || null;
+    isSubmitting = true;
     render();
+    const response = await apiRemoveListEntry(list, name, moveTo);
+    isSubmitting = false;
+    if (response.ok) {
+        entryToRemove = null;
+        if (list === 'divisions' && filters.division === name) filters.division = 'all';
+        if (list === 'document-types' && filters.type === name) filters.type = 'all';
+    }
+    if (!await handleSettingsChanged(response, list)) render();
 }
 
-function handleCloseDeleteModal() {
-    documentToDelete = null;
+async function handleStatusColorChange(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const response = await apiSetStatusColor(input.dataset.status as Status, input.value);
+    if (!response.ok) {
+        alert(`Saving the color failed: ${await readErrorMessage(response)}`);
+        return;
+    }
+    const current: Settings = { divisions, documentTypes, statuses: await response.json(), customFields, expiryReminderDays, trashRetentionDays };
+    applySettings(current);
+}
+
+// --- CUSTOM FIELDS ---
+function handleFieldModalOpen(field: CustomField | null) {
+    fieldBeingEdited = field;
+    showFieldModal = true;
+    render();
+    document.getElementById('field-name')?.focus();
+}
+
+function handleFieldModalClose() {
+    showFieldModal = false;
+    fieldBeingEdited = null;
     isSubmitting = false;
     render();
 }
 
-function handleDeleteCheckboxChange(e: Event) {
-    const checkbox = e.target as HTMLInputElement;
-    const deleteButton = document.getElementById('delete-confirm-btn') as HTMLButtonElement;
-    if (deleteButton) {
-        deleteButton.disabled = !checkbox.checked;
-    }
+function handleEditFieldClick(e: Event) {
+    const fieldId = Number((e.currentTarget as HTMLElement).dataset.fieldId);
+    const field = customFields.find(f => f.id === fieldId);
+    if (field) handleFieldModalOpen(field);
 }
 
-async function handleConfirmDelete(e: Event) {
+// Options only matter for select fields, and the type checkboxes only while
+// the field does not apply to every type.
+function handleFieldFormChange(e: Event) {
+    const form = e.currentTarget as HTMLFormElement;
+    const type = (form.elements.namedItem('type') as HTMLSelectElement).value;
+    document.getElementById('field-options-group')!.hidden = type !== 'select';
+    const allTypes = (form.elements.namedItem('allTypes') as HTMLInputElement).checked;
+    form.querySelectorAll<HTMLInputElement>('input[name="documentTypes"]').forEach(input => input.disabled = allTypes);
+}
+
+async function handleFieldFormSubmit(e: Event) {
     e.preventDefault();
-    if (!documentToDelete) return;
-    
+    if (isSubmitting) return;
+    const formData = new FormData(e.target as HTMLFormElement);
+    const type = fieldBeingEdited ? fieldBeingEdited.type : formData.get('type') as CustomFieldType;
+    const body: Record<string, unknown> = {
+        name: formData.get('name') as string,
+        options: type === 'select' ? (formData.get('options') as string).split('\n').map(o => o.trim()).filter(Boolean) : [],
+        documentTypes: formData.get('allTypes') ? null : formData.getAll('documentTypes'),
+        requiredFor: formData.getAll('requiredFor'),
+    };
+    if (!fieldBeingEdited) body.type = type;
+
     isSubmitting = true;
-    render(); // Re-render to show loading state
+    render();
 
-    try {
-        const response = await mockApiDeleteDocument(documentToDelete.id);
-        if (response.status !== 204) {
-             const errorData = await response.json().catch(() => ({ message: 'An unknown error occurred' }));
-            throw new Error(errorData.message || `Server responded with ${response.status}`);
-        }
-        await fetchDocuments(); // Fetch the new truth from the server
-        handleCloseDeleteModal();
-    } catch (error) {
-        alert(`Deletion failed: ${(error as Error).message}`);
+    const response = await apiSaveCustomField(fieldBeingEdited ? fieldBeingEdited.id : null, body);
+    if (!response.ok) {
+        alert(`Saving the field failed: ${await readErrorMessage(response)}`);
         isSubmitting = false;
-        render(); // Re-render to turn off loading state on failure
+        render();
+        return;
     }
+    customFields = await response.json();
+    handleFieldModalClose();
 }
 
-function handleModalOverlayClick(e: MouseEvent) {
-    if ((e.target as HTMLElement).classList.contains('modal-overlay')) {
-        if (showUploadModal) handleUploadModalClose();
-        if (documentToDelete) handleCloseDeleteModal();
+// Removing a field changes every document that had a value for it, so the
+// list is reloaded.
+async function handleDeleteFieldClick(e: Event) {
+    const fieldId = Number((e.currentTarget as HTMLElement).dataset.fieldId);
+    const field = customFields.find(f => f.id === fieldId);
+    if (!field || !confirm(`Remove the field "${field.name}"? Its values are deleted from every document.`)) return;
+
+    const response = await apiDeleteCustomField(fieldId);
+    if (!response.ok) {
+        alert(`Removing the field failed: ${await readErrorMessage(response)}`);
+        return;
     }
+    customFields = await response.json();
+    delete filters.fields[fieldId];
+    fetchDocuments();
 }
 
-async function handleDocumentOpen(docItem: Element) {
-    const docId = parseInt(docItem.getAttribute('data-doc-id')!, 10);
-    const doc = documents.find(d => d.id === docId);
-    if (!doc) return;
+// --- TAGS ---
+async function loadTags() {
+    const response = await apiFetchTags();
+    if (!response.ok) {
+        console.error("Failed to load tags:", await readErrorMessage(response));
+        return;
+    }
+    tagSuggestions = await response.json();
+    const list = document.getElementById('tag-suggestions');
+    if (list) list.outerHTML = renderTagSuggestions();
+}
 
-    // For files uploaded in the current session, we have the File object for a reliable preview.
-    const localFile = mockFileStore.get(doc.id);
-    if (localFile) {
-        const fileURL = URL.createObjectURL(localFile);
-        window.open(fileURL, '_blank');
-        // The browser will revoke this URL when the main document is unloaded.
-    } else {
-        // For files from previous sessions, open the stored "cloud" URL.
-        // This simulates accessing a file from Vercel Blob storage.
-        window.open(doc.fileUrl, '_blank');
+function editorTags(editor: TagEditor) {
+    if (editor === 'filter') return filters.tags;
+    return editor === 'upload' ? uploadDefaults.tags : editTags;
+}
+
+// Tags added in the sidebar filter the list straight away.
+function setEditorTags(editor: HTMLElement, tags: string[]) {
+    const name = editor.dataset.tagEditor as TagEditor;
+    if (name === 'filter') filters.tags = tags;
+    else if (name === 'upload') uploadDefaults.tags = tags;
+    else editTags = tags;
+    editor.querySelector('.tag-chips')!.innerHTML = renderTagChips(name);
+    if (name === 'filter') {
+        syncUrl();
+        reloadDocuments();
     }
 }
 
-function handleEscKey(e: KeyboardEvent) {
-    if (e.key === 'Escape') {
-        if (showUploadModal) handleUploadModalClose();
-        if (documentToDelete) handleCloseDeleteModal();
+// Commas separate tags, so they cannot be part of one. Tags that differ
+// only in case are the same tag, like on the server.
+function addEditorTag(editor: HTMLElement, input: HTMLInputElement) {
+    const tag = input.value.replace(/,/g, ' ').trim().replace(/\s+/g, ' ');
+    input.value = '';
+    const tags = editorTags(editor.dataset.tagEditor as TagEditor);
+    if (!tag || tags.some(t => t.toLowerCase() === tag.toLowerCase())) return;
+    setEditorTags(editor, [...tags, tag]);
+}
+
+// A tag is added with Enter or a comma, by picking a suggestion or by
+// leaving the input; Backspace in the empty input takes the last one off.
+function addTagEditorListeners(editor: HTMLElement) {
+    const input = editor.querySelector<HTMLInputElement>('.tag-editor-input')!;
+    input.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            addEditorTag(editor, input);
+        } else if (e.key === 'Backspace' && !input.value) {
+            setEditorTags(editor, editorTags(editor.dataset.tagEditor as TagEditor).slice(0, -1));
+        }
+    });
+    // Picking from the suggestions fires a plain input event, not typing.
+    input.addEventListener('input', (e) => {
+        if (!(e instanceof InputEvent) || e.inputType === 'insertReplacementText') addEditorTag(editor, input);
+    });
+    input.addEventListener('change', () => addEditorTag(editor, input));
+    editor.addEventListener('click', (e) => {
+        const remove = (e.target as HTMLElement).closest<HTMLElement>('.tag-chip-remove');
+        if (!remove) return input.focus();
+        const tags = editorTags(editor.dataset.tagEditor as TagEditor);
+        setEditorTags(editor, tags.filter(tag => tag !== remove.dataset.tag));
+    });
+}
+
+// --- WEBHOOKS ---
+async function loadWebhooks() {
+    const response = await apiFetchWebhooks();
+    if (!response.ok) {
+        console.error("Could not load webhooks:", await readErrorMessage(response));
+        return;
+    }
+    webhooks = await response.json();
+    if (currentPage === 'settings') render();
+}
+
+async function saveWebhook(webhookId: number | null, body: Record<string, unknown>) {
+    const response = await apiSaveWebhook(webhookId, body);
+    if (!response.ok) {
+        alert(`Saving the webhook failed: ${await readErrorMessage(response)}`);
+        render(); // Puts back the checkbox that was just changed
+        return false;
     }
+    await loadWebhooks();
+    return true;
 }
 
-async function handleFormSubmit(e: Event) {
+async function handleWebhookAdd(e: Event) {
     e.preventDefault();
-    if (isSubmitting) return;
+    const formData = new FormData(e.target as HTMLFormElement);
+    const events = formData.getAll('events');
+    if (events.length === 0) {
+        alert('Choose at least one event to send.');
+        return;
+    }
+    await saveWebhook(null, {
+        url: (formData.get('url') as string).trim(),
+        description: (formData.get('description') as string).trim() || null,
+        events,
+    });
+}
 
-    isSubmitting = true;
-    render(); // Re-render to show loading state on button
+function handleWebhookActiveChange(e: Event) {
+    const input = e.target as HTMLInputElement;
+    saveWebhook(Number(input.dataset.webhookId), { active: input.checked });
+}
 
-    try {
-        const response = await mockApiCreateDocument(new FormData(e.target as HTMLFormElement));
-        if (!response.ok) {
-            const errorData = await response.json().catch(() => ({ message: 'An unknown error occurred' }));
-            throw new Error(errorData.message || `Server responded with ${response.status}`);
-        }
-        handleUploadModalClose();
-        await fetchDocuments();
-    } catch (error) {
-        alert(`Upload failed: ${(error as Error).message}`);
-        isSubmitting = false; 
-        render(); // Re-render to turn off loading state on failure
+function handleWebhookEventsChange(e: Event) {
+    const webhookId = (e.target as HTMLElement).dataset.webhookId!;
+    const checked = document.querySelectorAll<HTMLInputElement>(`.webhook-event-input[data-webhook-id="${webhookId}"]:checked`);
+    const events = Array.from(checked, input => input.value);
+    if (events.length === 0) {
+        alert('A webhook needs at least one event. Delete it or make it inactive instead.');
+        render();
+        return;
+    }
+    saveWebhook(Number(webhookId), { events });
+}
+
+async function handleWebhookTest(e: Event) {
+    const button = e.currentTarget as HTMLButtonElement;
+    button.disabled = true;
+    const response = await apiTestWebhook(Number(button.dataset.webhookId));
+    button.disabled = false;
+    if (!response.ok) {
+        alert(`Sending the test event failed: ${await readErrorMessage(response)}`);
+        return;
+    }
+    const result: { ok: boolean; status: number | null; error: string | null } = await response.json();
+    alert(result.ok ? `The test event was accepted (HTTP ${result.status}).` : `The test event was not accepted: ${result.error}`);
+}
+
+async function handleWebhookDelete(e: Event) {
+    const webhookId = Number((e.currentTarget as HTMLElement).dataset.webhookId);
+    const hook = webhooks.find(w => w.id === webhookId);
+    if (!hook || !confirm(`Delete the webhook for ${hook.url}? Deliveries still waiting for it are dropped.`)) return;
+
+    const response = await apiDeleteWebhook(webhookId);
+    if (!response.ok) {
+        alert(`Deletion failed: ${await readErrorMessage(response)}`);
+        return;
+    }
+    loadWebhooks();
+}
+
+// --- SAVED VIEWS ---
+async function loadSavedViews() {
+    const response = await apiFetchSavedViews();
+    if (!response.ok) {
+        console.error("Could not load saved views:", await readErrorMessage(response));
+        return;
+    }
+    savedViews = await response.json();
+    if (currentPage === 'documents' && !isLoading) render();
+}
+
+async function handleSaveViewSubmit(e: Event) {
+    e.preventDefault();
+    const form = e.target as HTMLFormElement;
+    const name = (new FormData(form).get('name') as string).trim();
+    if (!name) return;
+    const response = await apiSaveView(name, listParams().toString());
+    if (!response.ok) {
+        alert(`Saving the view failed: ${await readErrorMessage(response)}`);
+        return;
+    }
+    const saved: SavedView = await response.json();
+    savedViews = [...savedViews.filter(v => v.id !== saved.id), saved]
+        .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+    render();
+}
+
+function handleSavedViewApply(e: Event) {
+    const viewId = parseInt((e.currentTarget as HTMLElement).getAttribute('data-view-id')!, 10);
+    const view = savedViews.find(v => v.id === viewId);
+    if (!view) return;
+    applyListParams(new URLSearchParams(view.params));
+    syncUrl();
+    render();
+    reloadDocuments();
+}
+
+async function handleSavedViewDelete(e: Event) {
+    const viewId = parseInt((e.currentTarget as HTMLElement).getAttribute('data-view-id')!, 10);
+    const response = await apiDeleteView(viewId);
+    if (!response.ok && response.status !== 404) {
+        alert(`Deleting the view failed: ${await readErrorMessage(response)}`);
+        return;
     }
+    savedViews = savedViews.filter(v => v.id !== viewId);
+    render();
 }
 
 // --- INITIALIZATION ---
+window.addEventListener('popstate', handlePopState);
+window.addEventListener('dragover', handleFileDragOver);
+document.addEventListener('visibilitychange', pollDocumentChanges); // Catches up as soon as the tab is back
+window.addEventListener('dragleave', handleFileDragLeave);
+window.addEventListener('drop', handleFileDrop);
 document.addEventListener('DOMContentLoaded', () => {
-    fetchDocuments();
+    applyListParams(new URLSearchParams(location.search));
+    render();
+    loadCurrentUser();
 });
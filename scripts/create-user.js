@@ -0,0 +1,24 @@
+// Creates a dashboard account from the command line, e.g. the first admin
+// when ADMIN_EMAIL / ADMIN_PASSWORD are not used.
+//
+//   node scripts/create-user.js <email> <name> <password> <role> [Division,Division]
+import { getDb } from "../api/_lib/db.js";
+import { loadSettings } from "../api/_lib/settings.js";
+import { createUser, validateNewUser } from "../api/_lib/users.js";
+
+const [email, name, password, role, divisions = ""] = process.argv.slice(2);
+if (!email || !name || !password || !role) {
+  console.error("Usage: node scripts/create-user.js <email> <name> <password> <role> [Division,Division]");
+  process.exit(1);
+}
+
+try {
+  const db = await getDb();
+  const { divisions: configured } = await loadSettings(db);
+  const input = validateNewUser({ email, name, password, role, divisions: divisions.split(",").filter(Boolean) }, configured);
+  const user = await createUser(db, input);
+  console.log(`Created ${user.role} ${user.email} (id ${user.id}).`);
+} catch (err) {
+  console.error(err.message);
+  process.exit(1);
+}
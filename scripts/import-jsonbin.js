@@ -0,0 +1,43 @@
+// One-off import of the legacy JSONBin document array into the documents
+// table. Ids are preserved so existing links keep working; rows that already
+// exist are skipped, so the script is safe to run more than once.
+//
+//   JSONBIN_BIN_URL=https://api.jsonbin.io/v3/b/<bin> JSONBIN_API_KEY=... node scripts/import-jsonbin.js
+import { getDb } from "../api/_lib/db.js";
+
+const binUrl = process.env.JSONBIN_BIN_URL;
+const apiKey = process.env.JSONBIN_API_KEY;
+if (!binUrl || !apiKey) {
+  console.error("JSONBIN_BIN_URL and JSONBIN_API_KEY must be set");
+  process.exit(1);
+}
+
+const response = await fetch(`${binUrl}/latest`, { headers: { "X-Master-Key": apiKey } });
+if (!response.ok) {
+  console.error(`JSONBin responded with ${response.status}`);
+  process.exit(1);
+}
+const { record } = await response.json();
+const legacyDocs = Array.isArray(record) ? record : [];
+
+const db = await getDb();
+const results = await db.batch(
+  legacyDocs.flatMap((doc) => [
+    {
+      sql: `INSERT OR IGNORE INTO documents (id, name, division, status, file_name, file_url, uploaded_at)
+            VALUES (?, ?, ?, ?, ?, ?, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))`,
+      args: [doc.id, doc.name, doc.division, doc.status, doc.fileName, doc.fileUrl],
+    },
+    // The file becomes version 1, as migration 2 did for the documents that
+    // existed then. This also repairs documents an earlier run imported
+    // without a version.
+    {
+      sql: `INSERT OR IGNORE INTO document_versions (document_id, version, file_name, file_url, created_at)
+            SELECT id, 1, file_name, file_url, created_at FROM documents WHERE id = ? AND current_version = 1`,
+      args: [doc.id],
+    },
+  ]),
+  "write"
+);
+const imported = results.filter((_, i) => i % 2 === 0).reduce((sum, r) => sum + r.rowsAffected, 0);
+console.log(`Imported ${imported} of ${legacyDocs.length} documents.`);
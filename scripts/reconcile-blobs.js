@@ -0,0 +1,14 @@
+// Lists blobs that no document points to, and deletes them with --delete.
+//
+//   node scripts/reconcile-blobs.js [--delete]
+import { getDb } from "../api/_lib/db.js";
+import { reconcileBlobs } from "../api/_lib/reconcile.js";
+
+const deleteOrphans = process.argv.includes("--delete");
+const db = await getDb();
+const { scanned, orphans, deleted } = await reconcileBlobs(db, { deleteOrphans });
+
+for (const orphan of orphans) {
+  console.log(`${orphan.url}\t${orphan.size} bytes\t${new Date(orphan.uploadedAt).toISOString()}`);
+}
+console.log(`Scanned ${scanned} blobs, ${orphans.length} orphaned, ${deleted} deleted.`);
@@ -0,0 +1,42 @@
+// A local endpoint for trying out webhooks. It prints every event it gets and
+// checks its signature. Register http://localhost:<port>/ as a webhook with
+// the secret printed in Settings, then start:
+//
+//   WEBHOOK_SECRET=<secret> node scripts/webhook-receiver.js [port] [--fail]
+//
+// With --fail it answers 500 to everything, to watch the retries.
+import { timingSafeEqual } from "node:crypto";
+import { createServer } from "node:http";
+import { signPayload } from "../api/_lib/webhooks.js";
+
+const port = Number(process.argv.slice(2).find((arg) => !arg.startsWith("--"))) || 4000;
+const fail = process.argv.includes("--fail");
+const secret = process.env.WEBHOOK_SECRET;
+if (!secret) {
+  console.error("Set WEBHOOK_SECRET to the webhook's secret.");
+  process.exit(1);
+}
+
+function verify(req, body) {
+  const timestamp = req.headers["x-webhook-timestamp"];
+  const expected = Buffer.from(signPayload(secret, timestamp, body));
+  const given = Buffer.from(String(req.headers["x-webhook-signature"] ?? ""));
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+createServer((req, res) => {
+  const chunks = [];
+  req.on("data", (chunk) => chunks.push(chunk));
+  req.on("end", () => {
+    const body = Buffer.concat(chunks).toString("utf8");
+    const valid = verify(req, body);
+    const event = valid ? JSON.parse(body) : null;
+    console.log(
+      `${new Date().toISOString()} ${req.headers["x-webhook-event"]} ${req.headers["x-webhook-id"]}`,
+      valid ? "signature ok" : "BAD SIGNATURE"
+    );
+    if (event) console.log(JSON.stringify(event, null, 2));
+    res.statusCode = !valid ? 401 : fail ? 500 : 204;
+    res.end();
+  });
+}).listen(port, () => console.log(`Listening for webhooks on http://localhost:${port}/`));
@@ -0,0 +1,35 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, test } from "node:test";
+
+// Runs against a throwaway SQLite file, like local development does.
+const dir = mkdtempSync(join(tmpdir(), "audit-test-"));
+process.env.LOCAL_DATABASE_PATH = join(dir, "test.db");
+
+const { listAuditLog, recordAudit } = await import("../api/_lib/audit.js");
+const { getDb } = await import("../api/_lib/db.js");
+
+let db;
+
+before(async () => {
+  db = await getDb();
+  for (let id = 1; id <= 5; id++) {
+    await recordAudit(db, "create", { id, name: `Document ${id}`, division: "HR" }, "Admin");
+  }
+});
+
+after(() => {
+  db.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+test("the audit log is paged by a positive whole number of entries", async () => {
+  const page = async (limit) => (await listAuditLog(db, { limit })).entries.length;
+  assert.equal(await page("2"), 2);
+  assert.equal(await page("2.5"), 2);
+  assert.equal(await page("-3"), 1);
+  assert.equal(await page("0"), 5);
+  assert.equal(await page("many"), 5);
+});
@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, test } from "node:test";
+
+// Runs against a throwaway SQLite file, like local development does.
+const dir = mkdtempSync(join(tmpdir(), "batch-test-"));
+process.env.LOCAL_DATABASE_PATH = join(dir, "test.db");
+
+const { getDb } = await import("../api/_lib/db.js");
+const { runBatch, validateBatch } = await import("../api/_lib/batch.js");
+const { importDocuments, listDocuments } = await import("../api/_lib/documents.js");
+const { loadSettings } = await import("../api/_lib/settings.js");
+const { createUser } = await import("../api/_lib/users.js");
+
+let db;
+let admin;
+let settings;
+
+before(async () => {
+  db = await getDb();
+  settings = await loadSettings(db);
+  admin = await createUser(db, { email: "admin@example.com", name: "Admin", password: "password12", role: "admin", divisions: [] });
+  const record = (name, tags) => ({
+    name,
+    division: settings.divisions[0],
+    documentType: null,
+    status: "Pending",
+    issueDate: null,
+    expiryDate: null,
+    fileName: "",
+    uploadedBy: null,
+    uploadedAt: null,
+    reviewer: null,
+    rejectionReason: null,
+    tags,
+  });
+  await importDocuments(db, [record("Lease", ["urgent"]), record("Invoice", []), record("Memo", ["later"])], admin);
+});
+
+after(() => {
+  db.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+test("a bulk action on all matching documents keeps the list's filters", async () => {
+  const batch = validateBatch({ action: "delete", filter: { tags: "urgent", "field.7": "x", sort: "name" } }, settings);
+  assert.deepEqual(batch.filter, { tags: "urgent", "field.7": "x" });
+});
+
+test("a filtered bulk delete only touches the matching documents", async () => {
+  const batch = validateBatch({ action: "delete", filter: { tags: "urgent" } }, settings);
+  const { results } = await runBatch(db, admin, batch);
+  assert.equal(results.length, 1);
+  assert.ok(results[0].ok);
+  const { documents } = await listDocuments(db, admin, { sort: "name", order: "asc" });
+  assert.deepEqual(documents.map((d) => d.name), ["Invoice", "Memo"]);
+});
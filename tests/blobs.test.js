@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, test } from "node:test";
+
+// Runs against a throwaway SQLite file, with a local directory standing in
+// for Vercel Blob.
+const dir = mkdtempSync(join(tmpdir(), "blobs-test-"));
+const blobDir = join(dir, "blobs");
+process.env.LOCAL_DATABASE_PATH = join(dir, "test.db");
+process.env.LOCAL_BLOB_DIR = blobDir;
+
+const { call, signIn, upload } = await import("./helpers.js");
+const { default: documentsRoute } = await import("../api/documents/index.js");
+const { default: documentRoute } = await import("../api/documents/[id]/index.js");
+const { default: trashRoute } = await import("../api/trash/[id]/index.js");
+const { default: uploadRoute } = await import("../api/upload.js");
+const { putBlob } = await import("../api/_lib/blob.js");
+const { getDb } = await import("../api/_lib/db.js");
+const { reconcileBlobs } = await import("../api/_lib/reconcile.js");
+const { loadSettings } = await import("../api/_lib/settings.js");
+const { createUser } = await import("../api/_lib/users.js");
+
+let db;
+let cookie;
+let division;
+
+before(async () => {
+  db = await getDb();
+  division = (await loadSettings(db)).divisions[0];
+  await createUser(db, { email: "admin@example.com", name: "Admin", password: "password12", role: "admin", divisions: [] });
+  cookie = await signIn("admin@example.com", "password12");
+});
+
+after(() => {
+  db.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function storedFiles() {
+  return existsSync(join(blobDir, "documents")) ? readdirSync(join(blobDir, "documents")) : [];
+}
+
+async function createDocument(name) {
+  const response = await call(documentsRoute, {
+    method: "POST",
+    body: { name, division, upload: await upload(cookie, `${name}.txt`, name) },
+    cookie,
+  });
+  assert.equal(response.status, 201);
+  return response.body;
+}
+
+test("purging a deleted document removes its file", async () => {
+  const document = await createDocument("Lease");
+  const before = storedFiles().length;
+  const query = { id: String(document.id) };
+  assert.equal((await call(documentRoute, { method: "DELETE", query, cookie })).status, 204);
+  assert.equal(storedFiles().length, before, "the file stays while the document is in the trash");
+  assert.equal((await call(trashRoute, { method: "DELETE", query, cookie })).status, 204);
+  assert.equal(storedFiles().length, before - 1);
+});
+
+test("an upload whose document could not be created is rolled back", async () => {
+  const before = storedFiles().length;
+  const receipt = await upload(cookie, "orphan.txt", "orphan");
+  assert.equal(storedFiles().length, before + 1);
+  assert.equal((await call(uploadRoute, { method: "DELETE", query: { receipt }, cookie })).status, 204);
+  assert.equal(storedFiles().length, before);
+});
+
+test("an upload a document uses cannot be rolled back", async () => {
+  const receipt = await upload(cookie, "kept.txt", "kept");
+  assert.equal((await call(documentsRoute, { method: "POST", body: { name: "Kept", division, upload: receipt }, cookie })).status, 201);
+  assert.notEqual((await call(uploadRoute, { method: "DELETE", query: { receipt }, cookie })).status, 204);
+});
+
+test("reconciliation reports and deletes only files no document points to", async () => {
+  const document = await createDocument("Invoice");
+  const orphan = await putBlob("documents/orphan.txt", "orphan");
+
+  const report = await reconcileBlobs(db, { gracePeriodMs: 0 });
+  assert.deepEqual(report.orphans.map((o) => o.url), [orphan.url]);
+  assert.equal(report.deleted, 0);
+
+  const young = await reconcileBlobs(db);
+  assert.deepEqual(young.orphans, [], "recent files may still be getting their document");
+
+  const cleaned = await reconcileBlobs(db, { gracePeriodMs: 0, deleteOrphans: true });
+  assert.equal(cleaned.deleted, 1);
+  assert.deepEqual((await reconcileBlobs(db, { gracePeriodMs: 0 })).orphans, []);
+  assert.equal((await call(documentRoute, { query: { id: String(document.id) }, cookie })).status, 200);
+});
@@ -0,0 +1,125 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, test } from "node:test";
+
+// Runs against a throwaway SQLite file and blob directory, like local
+// development does.
+const dir = mkdtempSync(join(tmpdir(), "documents-test-"));
+process.env.LOCAL_DATABASE_PATH = join(dir, "test.db");
+process.env.LOCAL_BLOB_DIR = join(dir, "blobs");
+
+const { call, signIn, upload: uploadFile } = await import("./helpers.js");
+const { default: documentsRoute } = await import("../api/documents/index.js");
+const { default: documentRoute } = await import("../api/documents/[id]/index.js");
+const { putBlob } = await import("../api/_lib/blob.js");
+const { getDb } = await import("../api/_lib/db.js");
+const { addVersion, createDocument, validateNewDocument, validateNewVersion } = await import("../api/_lib/documents.js");
+const { loadSettings } = await import("../api/_lib/settings.js");
+const { createUploadReceipt } = await import("../api/_lib/uploads.js");
+const { createUser } = await import("../api/_lib/users.js");
+
+let db;
+let admin;
+let uploader;
+let settings;
+
+before(async () => {
+  db = await getDb();
+  settings = await loadSettings(db);
+  admin = await createUser(db, { email: "admin@example.com", name: "Admin", password: "password12", role: "admin", divisions: [] });
+  uploader = await createUser(db, {
+    email: "uploader@example.com",
+    name: "Uploader",
+    password: "password12",
+    role: "uploader",
+    divisions: [settings.divisions[0]],
+  });
+});
+
+after(() => {
+  db.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+async function upload(user, content = "hello") {
+  const blob = await putBlob("documents/test.txt", content);
+  return createUploadReceipt(db, user, { fileName: "test.txt", fileUrl: blob.url, size: content.length, sha256: "0".repeat(64) });
+}
+
+function newDocument(receipt, name = "Lease") {
+  return { name, division: settings.divisions[0], upload: receipt };
+}
+
+test("an upload receipt creates one document only", async () => {
+  const receipt = await upload(uploader);
+  const document = await createDocument(db, await validateNewDocument(db, newDocument(receipt), settings, uploader), uploader);
+  assert.equal(document.fileName, "test.txt");
+  await assert.rejects(
+    async () => createDocument(db, await validateNewDocument(db, newDocument(receipt, "Copy"), settings, uploader), uploader),
+    (err) => err.status === 400 || err.status === 409
+  );
+});
+
+test("an upload receipt cannot be used for a second version either", async () => {
+  const document = await createDocument(
+    db,
+    await validateNewDocument(db, newDocument(await upload(uploader)), settings, uploader),
+    uploader
+  );
+  const receipt = await upload(uploader);
+  await addVersion(db, document.id, await validateNewVersion(db, { upload: receipt }, uploader), uploader);
+  await assert.rejects(
+    async () => addVersion(db, document.id, await validateNewVersion(db, { upload: receipt }, uploader), uploader),
+    (err) => err.status === 400 || err.status === 409
+  );
+});
+
+test("only the user who uploaded a file can use its receipt", async () => {
+  const receipt = await upload(uploader);
+  await assert.rejects(validateNewDocument(db, newDocument(receipt), settings, admin), (err) => err.status === 403);
+});
+
+test("documents are created, listed, edited and deleted through the API", async () => {
+  const cookie = await signIn("uploader@example.com", "password12");
+  const created = await call(documentsRoute, {
+    method: "POST",
+    body: { name: "Contract", division: settings.divisions[0], upload: await uploadFile(cookie, "contract.txt", "terms") },
+    cookie,
+  });
+  assert.equal(created.status, 201);
+  assert.equal(created.body.fileName, "contract.txt");
+  const id = String(created.body.id);
+
+  const listed = await call(documentsRoute, { query: { q: "Contract" }, cookie });
+  assert.deepEqual(listed.body.documents.map((d) => d.id), [created.body.id]);
+
+  const edited = await call(documentRoute, { method: "PATCH", query: { id }, body: { name: "Contract 2024" }, cookie });
+  assert.equal(edited.status, 200);
+  assert.equal((await call(documentRoute, { query: { id }, cookie })).body.name, "Contract 2024");
+
+  const adminCookie = await signIn("admin@example.com", "password12");
+  assert.equal((await call(documentRoute, { method: "DELETE", query: { id }, cookie: adminCookie })).status, 204);
+  assert.equal((await call(documentRoute, { query: { id }, cookie })).status, 404);
+});
+
+test("ids come from the server, not the client", async () => {
+  const cookie = await signIn("uploader@example.com", "password12");
+  const ids = [];
+  for (const name of ["First", "Second"]) {
+    const created = await call(documentsRoute, {
+      method: "POST",
+      body: { id: 1, name, division: settings.divisions[0], upload: await uploadFile(cookie, "file.txt", name) },
+      cookie,
+    });
+    assert.equal(created.status, 201);
+    ids.push(created.body.id);
+  }
+  assert.notEqual(ids[0], ids[1]);
+  assert.ok(!ids.includes(1));
+});
+
+test("the documents API needs a signed-in user", async () => {
+  assert.equal((await call(documentsRoute)).status, 401);
+});
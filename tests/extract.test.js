@@ -0,0 +1,21 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { strToU8, zipSync } from "fflate";
+
+const { extractText } = await import("../api/_lib/extract.js");
+
+function docx(xml) {
+  return Buffer.from(zipSync({ "word/document.xml": strToU8(xml) }));
+}
+
+test("the text of a .docx is extracted paragraph by paragraph", async () => {
+  const body = docx("<w:document><w:p><w:r><w:t>Lease &amp; terms</w:t></w:r></w:p><w:p><w:t>Page two</w:t></w:p></w:document>");
+  assert.equal(await extractText("lease.docx", body), "Lease & terms Page two");
+});
+
+test("a .docx that unpacks to more than the limit is not extracted", async () => {
+  // 40 MB of one letter compresses to a few dozen kilobytes.
+  const body = docx(`<w:p>${"a".repeat(40 * 1024 * 1024)}</w:p>`);
+  assert.ok(body.length < 1024 * 1024);
+  assert.equal(await extractText("bomb.docx", body), null);
+});
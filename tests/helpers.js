@@ -0,0 +1,47 @@
+import { Readable } from "node:stream";
+
+// Calls an API route the way Vercel would: `query` is the parsed query
+// string and `body` the parsed JSON body, or a Buffer for routes that read
+// the raw request (uploads). Resolves with { status, headers, body }.
+export function call(handler, { method = "GET", query = {}, body, cookie } = {}) {
+  const raw = Buffer.isBuffer(body);
+  const req = Object.assign(raw ? Readable.from([body]) : { body }, {
+    method,
+    query,
+    headers: cookie ? { cookie } : {},
+  });
+  return new Promise((resolve, reject) => {
+    const headers = {};
+    const done = (value) => resolve({ status: res.statusCode, headers, body: value });
+    const res = {
+      statusCode: 200,
+      status(code) {
+        this.statusCode = code;
+        return this;
+      },
+      setHeader(name, value) {
+        headers[name.toLowerCase()] = value;
+      },
+      json: done,
+      send: done,
+      end: done,
+    };
+    Promise.resolve(handler(req, res)).catch(reject);
+  });
+}
+
+// Signs in through POST /api/auth/login and returns the session cookie.
+export async function signIn(email, password) {
+  const { default: login } = await import("../api/auth/login.js");
+  const response = await call(login, { method: "POST", body: { email, password } });
+  if (response.status !== 200) throw new Error(`Sign-in failed: ${response.body.error}`);
+  return response.headers["set-cookie"].split(";")[0];
+}
+
+// Uploads a file through POST /api/upload and returns its receipt.
+export async function upload(cookie, fileName, content) {
+  const { default: handler } = await import("../api/upload.js");
+  const response = await call(handler, { method: "POST", query: { filename: fileName }, body: Buffer.from(content), cookie });
+  if (response.status !== 200) throw new Error(`Upload failed: ${response.body.error}`);
+  return response.body.receipt;
+}
@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, test } from "node:test";
+
+// Runs against a throwaway SQLite file and blob directory, like local
+// development does.
+const dir = mkdtempSync(join(tmpdir(), "trash-test-"));
+process.env.LOCAL_DATABASE_PATH = join(dir, "test.db");
+process.env.LOCAL_BLOB_DIR = join(dir, "blobs");
+
+const { putBlob } = await import("../api/_lib/blob.js");
+const { getDb } = await import("../api/_lib/db.js");
+const { createDocument, deleteDocument, validateNewDocument } = await import("../api/_lib/documents.js");
+const { loadSettings } = await import("../api/_lib/settings.js");
+const { purgeDocument, purgeExpiredTrash } = await import("../api/_lib/trash.js");
+const { createUploadReceipt } = await import("../api/_lib/uploads.js");
+const { createUser } = await import("../api/_lib/users.js");
+
+let db;
+let admin;
+let settings;
+
+before(async () => {
+  db = await getDb();
+  settings = await loadSettings(db);
+  admin = await createUser(db, { email: "admin@example.com", name: "Admin", password: "password12", role: "admin", divisions: [] });
+});
+
+after(() => {
+  db.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function blobPath(url) {
+  return join(dir, "blobs", decodeURIComponent(url.split("pathname=")[1]));
+}
+
+async function createWithFile(name) {
+  const blob = await putBlob("documents/test.txt", name);
+  const receipt = await createUploadReceipt(db, admin, { fileName: "test.txt", fileUrl: blob.url, size: name.length, sha256: "0".repeat(64) });
+  return createDocument(db, await validateNewDocument(db, { name, division: settings.divisions[0], upload: receipt }, settings, admin), admin);
+}
+
+// Rows written before upload receipts were single-use can share a file.
+async function shareFile(from, to) {
+  const { rows } = await db.execute({ sql: "SELECT file_url FROM documents WHERE id = ?", args: [from.id] });
+  await db.execute({ sql: "UPDATE documents SET file_url = ? WHERE id = ?", args: [rows[0].file_url, to.id] });
+  await db.execute({ sql: "UPDATE document_versions SET file_url = ? WHERE document_id = ?", args: [rows[0].file_url, to.id] });
+  return rows[0].file_url;
+}
+
+test("purging a document keeps a file another document still uses", async () => {
+  const purged = await createWithFile("Lease");
+  const kept = await createWithFile("Lease copy");
+  const shared = await shareFile(purged, kept);
+  await deleteDocument(db, purged.id, admin);
+  const { fileUrls } = await purgeDocument(db, purged.id, admin);
+  assert.deepEqual(fileUrls, []);
+  assert.ok(existsSync(blobPath(shared)));
+});
+
+test("the retention purge only deletes files nothing else uses", async () => {
+  const purged = await createWithFile("Invoice");
+  const kept = await createWithFile("Invoice copy");
+  const shared = await shareFile(purged, kept);
+  const own = await createWithFile("Memo");
+  const { rows } = await db.execute({ sql: "SELECT file_url FROM documents WHERE id = ?", args: [own.id] });
+  for (const document of [purged, own]) await deleteDocument(db, document.id, admin);
+  await db.execute("UPDATE documents SET deleted_at = '2000-01-01T00:00:00.000Z' WHERE deleted_at IS NOT NULL");
+  const { documents, files } = await purgeExpiredTrash(db);
+  assert.equal(documents, 2);
+  assert.equal(files, 1);
+  assert.ok(existsSync(blobPath(shared)));
+  assert.ok(!existsSync(blobPath(rows[0].file_url)));
+});
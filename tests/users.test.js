@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, test } from "node:test";
+
+// Runs against a throwaway SQLite file and blob directory, like local
+// development does.
+const dir = mkdtempSync(join(tmpdir(), "users-test-"));
+process.env.LOCAL_DATABASE_PATH = join(dir, "test.db");
+process.env.LOCAL_BLOB_DIR = join(dir, "blobs");
+
+const { getDb } = await import("../api/_lib/db.js");
+const { savePart, startUpload } = await import("../api/_lib/resumable.js");
+const { createUser, deleteUser, listUsers } = await import("../api/_lib/users.js");
+
+let db;
+
+before(async () => {
+  db = await getDb();
+});
+
+after(() => {
+  db.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+test("deleting a user drops their unfinished uploads", async () => {
+  const user = await createUser(db, { email: "uploader@example.com", name: "Uploader", password: "password12", role: "uploader", divisions: [] });
+  const { uploadId } = await startUpload(db, user, "notes.txt", 5);
+  await savePart(db, user, uploadId, 0, Buffer.from("hello"));
+
+  const partUrls = await deleteUser(db, user.id);
+  assert.equal(partUrls.length, 1);
+  assert.ok(existsSync(join(dir, "blobs", decodeURIComponent(partUrls[0].split("pathname=")[1]))));
+  assert.deepEqual((await listUsers(db)).filter((u) => u.id === user.id), []);
+  const { rows } = await db.execute("SELECT COUNT(*) AS count FROM upload_sessions");
+  assert.equal(Number(rows[0].count), 0);
+});
@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { createServer } from "node:http";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, beforeEach, test } from "node:test";
+
+// Runs against a throwaway SQLite file and blob directory, and delivers to
+// a receiver on localhost.
+const dir = mkdtempSync(join(tmpdir(), "webhooks-test-"));
+process.env.LOCAL_DATABASE_PATH = join(dir, "test.db");
+process.env.LOCAL_BLOB_DIR = join(dir, "blobs");
+
+const { putBlob } = await import("../api/_lib/blob.js");
+const { getDb } = await import("../api/_lib/db.js");
+const { createDocument, validateNewDocument } = await import("../api/_lib/documents.js");
+const { loadSettings } = await import("../api/_lib/settings.js");
+const { createUploadReceipt } = await import("../api/_lib/uploads.js");
+const { createUser } = await import("../api/_lib/users.js");
+const { createWebhook, deliverWebhooks, getWebhook, signPayload } = await import("../api/_lib/webhooks.js");
+
+let db;
+let admin;
+let settings;
+let webhook;
+
+// What the receiver got, and the status it answers with.
+const received = [];
+let answer = 204;
+const receiver = createServer((req, res) => {
+  const chunks = [];
+  req.on("data", (chunk) => chunks.push(chunk));
+  req.on("end", () => {
+    received.push({ headers: req.headers, body: Buffer.concat(chunks).toString("utf8") });
+    res.statusCode = answer;
+    res.end();
+  });
+});
+
+before(async () => {
+  await new Promise((resolve) => receiver.listen(0, "127.0.0.1", resolve));
+  db = await getDb();
+  settings = await loadSettings(db);
+  admin = await createUser(db, { email: "admin@example.com", name: "Admin", password: "password12", role: "admin", divisions: [] });
+  webhook = await createWebhook(db, {
+    url: `http://127.0.0.1:${receiver.address().port}/`,
+    events: ["document.created"],
+    description: null,
+  });
+});
+
+beforeEach(() => {
+  received.length = 0;
+  answer = 204;
+});
+
+after(async () => {
+  db.close();
+  await new Promise((resolve) => receiver.close(resolve));
+  rmSync(dir, { recursive: true, force: true });
+});
+
+async function createWithFile(name) {
+  const blob = await putBlob("documents/test.txt", name);
+  const receipt = await createUploadReceipt(db, admin, { fileName: "test.txt", fileUrl: blob.url, size: name.length, sha256: "0".repeat(64) });
+  return createDocument(db, await validateNewDocument(db, { name, division: settings.divisions[0], upload: receipt }, settings, admin), admin);
+}
+
+// Makes every pending delivery due now, as if its retry delay had passed.
+async function fastForward() {
+  await db.execute("UPDATE webhook_deliveries SET next_attempt_at = '2000-01-01T00:00:00.000Z' WHERE delivered_at IS NULL");
+}
+
+test("events are delivered signed with the webhook's secret", async () => {
+  const document = await createWithFile("Lease");
+  assert.deepEqual(await deliverWebhooks(db), { attempted: 1, delivered: 1, failed: 0 });
+
+  assert.equal(received.length, 1);
+  const { headers, body } = received[0];
+  assert.equal(headers["x-webhook-event"], "document.created");
+  assert.equal(headers["x-webhook-signature"], signPayload(webhook.secret, headers["x-webhook-timestamp"], body));
+  const event = JSON.parse(body);
+  assert.equal(event.id, headers["x-webhook-id"]);
+  assert.equal(event.document.id, document.id);
+
+  assert.deepEqual(await deliverWebhooks(db), { attempted: 0, delivered: 0, failed: 0 });
+});
+
+test("failed deliveries are retried later with the same event id", async () => {
+  answer = 500;
+  await createWithFile("Invoice");
+  assert.deepEqual(await deliverWebhooks(db), { attempted: 1, delivered: 0, failed: 1 });
+  const [failed] = (await getWebhook(db, webhook.id)).deliveries;
+  assert.equal(failed.lastStatus, 500);
+  assert.ok(Date.parse(failed.nextAttemptAt) > Date.now() + 30_000, "the first retry waits a minute");
+  assert.equal((await deliverWebhooks(db)).attempted, 0);
+
+  answer = 204;
+  await fastForward();
+  assert.deepEqual(await deliverWebhooks(db), { attempted: 1, delivered: 1, failed: 0 });
+  assert.equal(received.length, 2);
+  assert.equal(received[1].headers["x-webhook-id"], received[0].headers["x-webhook-id"]);
+});
+
+test("a delivery is given up after its last retry", async () => {
+  answer = 500;
+  await createWithFile("Memo");
+  let attempts = 0;
+  for (let run = 0; run < 10; run++) {
+    attempts += (await deliverWebhooks(db)).attempted;
+    await fastForward();
+  }
+  assert.equal(attempts, 6);
+  const [given] = (await getWebhook(db, webhook.id)).deliveries;
+  assert.equal(given.attempts, 6);
+  assert.equal(given.nextAttemptAt, null);
+  assert.equal(given.deliveredAt, null);
+});